@@ -0,0 +1,203 @@
+import { Request, Response } from 'express';
+import authService from '../services/authService';
+import organizationService from '../services/organizationService';
+import { getAuthContext, getOrganizationId } from '../lib/middleware';
+import { validatePassword, verifyPassword } from '../lib/auth';
+import { AcceptInvitationBody, CreateApiKeyBody, LoginBody } from '../lib/apiSchemas';
+
+/**
+ * Auth Controller
+ * Handles HTTP requests for dashboard login and API key management
+ */
+export class AuthController {
+  /**
+   * POST /auth/login
+   * Exchange a user's email and password for a session token in one of their organizations
+   * Body: { email: string, password: string, organizationId?: string }
+   */
+  async login(req: Request, res: Response): Promise<Response> {
+    try {
+      const { email, password, organizationId } = req.body as LoginBody;
+
+      const session = await authService.login(email, password, organizationId);
+      if (!session) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Incorrect email or password',
+        });
+      }
+
+      return res.status(200).json({ success: true, ...session });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error logging in:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * POST /auth/invitations/accept
+   * Join the organization of an invitation and start a session there. An existing account
+   * proves it owns the invited email with its password; otherwise the account is created
+   * with the given password.
+   * Body: { token: string, password: string, name?: string }
+   */
+  async acceptInvitation(req: Request, res: Response): Promise<Response> {
+    try {
+      const { token, password, name } = req.body as AcceptInvitationBody;
+
+      const invitation = await organizationService.getPendingInvitation(token);
+      if (!invitation) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Invitation not found, already accepted or expired',
+        });
+      }
+
+      let user = await organizationService.getUserByEmail(invitation.email);
+      if (!user) {
+        const passwordError = validatePassword(password);
+        if (passwordError) {
+          return res.status(400).json({
+            error: 'Invalid request',
+            message: `${passwordError} to create the account`,
+          });
+        }
+
+        // null when another request created the account in the meantime; its password is checked below
+        await organizationService.createUser(invitation.email, password, name);
+        user = await organizationService.getUserByEmail(invitation.email);
+      }
+
+      if (!user || !(await verifyPassword(password, user.password_hash))) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Incorrect password for the invited account',
+        });
+      }
+
+      if (!(await organizationService.markInvitationAccepted(invitation.id))) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Invitation not found, already accepted or expired',
+        });
+      }
+
+      try {
+        // null when the user already is a member, who keeps their current role
+        await organizationService.addMember(invitation.organization_id, user.id, invitation.role);
+      } catch (error) {
+        // The invitation is marked first so it is used once; give it back for another try
+        await organizationService
+          .reopenInvitation(invitation.id)
+          .catch((reopenError) => console.error(`Could not reopen invitation ${invitation.id}:`, reopenError));
+        throw error;
+      }
+
+      const session = await authService.login(invitation.email, password, invitation.organization_id);
+      if (!session) {
+        throw new Error('Could not start a session after joining the organization');
+      }
+
+      return res.status(200).json({ success: true, ...session });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error accepting invitation:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * POST /auth/logout
+   * End the session the request was made with (a no-op for API keys)
+   */
+  async logout(_req: Request, res: Response): Promise<Response> {
+    try {
+      const auth = getAuthContext(res);
+      if (auth?.type === 'session') {
+        await authService.logout(auth.id);
+      }
+
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error logging out:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * GET /auth/me
+   * Describe the credential the request was made with
+   */
+  async getCurrentAuth(_req: Request, res: Response): Promise<Response> {
+    const auth = getAuthContext(res);
+    return res.status(200).json({
+      success: true,
+      auth: auth
+        ? { type: auth.type, organizationId: auth.organizationId, scopes: auth.scopes, userId: auth.userId, role: auth.role }
+        : null,
+    });
+  }
+
+  /**
+   * GET /auth/api-keys
+   * List the organization's API keys (without the keys themselves)
+   */
+  async listApiKeys(_req: Request, res: Response): Promise<Response> {
+    try {
+      const organizationId = getOrganizationId(res) as string;
+      const apiKeys = await authService.listApiKeys(organizationId);
+      return res.status(200).json({ success: true, count: apiKeys.length, apiKeys });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error fetching API keys:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * POST /auth/api-keys
+   * Create an API key for the organization; the response is the only time the key is shown
+   * Body: { name: string, scopes: Array<'read' | 'write' | 'webhook' | 'admin'> }
+   */
+  async createApiKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const organizationId = getOrganizationId(res) as string;
+
+      const { name, scopes } = req.body as CreateApiKeyBody;
+
+      const { apiKey, key } = await authService.createApiKey(organizationId, name, [...new Set(scopes)]);
+      return res.status(201).json({ success: true, apiKey, key });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error creating API key:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * DELETE /auth/api-keys/:id
+   * Revoke an API key
+   */
+  async revokeApiKey(req: Request, res: Response): Promise<Response> {
+    try {
+      const organizationId = getOrganizationId(res) as string;
+      const revoked = await authService.revokeApiKey(organizationId, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `No active API key with ID ${req.params.id}`,
+        });
+      }
+
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error revoking API key:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+}
+
+export default new AuthController();
@@ -1,5 +1,21 @@
 import { Request, Response } from 'express';
 import clientService from '../services/clientService';
+import emailTemplateService from '../services/emailTemplateService';
+import notificationService from '../services/notificationService';
+import { buildSystemPrompt } from '../lib/promptProfiles';
+import { processWithLLM } from '../workers/llmWorker';
+import { getOrganizationId } from '../lib/middleware';
+import { CLIENT_ARCHIVED_REASON } from '../lib/notificationRouting';
+import {
+  CreateClientBody,
+  ListClientsQuery,
+  PreviewEmailBody,
+  PreviewPromptProfileBody,
+  UpdateBrandingBody,
+  UpdateClientBody,
+  UpdatePromptProfileBody,
+} from '../lib/apiSchemas';
+import { PromptProfile } from '../types/task';
 
 /**
  * Client Controller
@@ -12,17 +28,18 @@ export class ClientController {
    */
   async createClient(req: Request, res: Response): Promise<Response> {
     try {
-      const { name, email, company, phone, workflow_settings } = req.body;
+      const { name, email, company, phone, workflow_settings, prompt_profile, branding } = req.body as CreateClientBody;
 
-      // Validate name
-      if (!name || typeof name !== 'string' || name.trim().length === 0) {
-        return res.status(400).json({
-          error: 'Invalid request',
-          message: 'Request body must contain a non-empty "name" field',
-        });
-      }
-
-      const client = await clientService.createClient(name, email, company, phone, workflow_settings);
+      const client = await clientService.createClient(
+        name,
+        email ?? undefined,
+        company ?? undefined,
+        phone ?? undefined,
+        workflow_settings,
+        prompt_profile,
+        branding,
+        getOrganizationId(res)
+      );
 
       console.log(`Client created: ${client.id}`);
 
@@ -43,15 +60,21 @@ export class ClientController {
 
   /**
    * GET /clients
-   * Get all clients
+   * Get a page of clients; archived ones too with ?includeArchived=true
    */
-  async getAllClients(_req: Request, res: Response): Promise<Response> {
+  async getAllClients(req: Request, res: Response): Promise<Response> {
     try {
-      const clients = await clientService.getAllClients();
+      const { limit, cursor, sort = 'created_at', order, ...filters } = req.query as ListClientsQuery;
+      const page = await clientService.listClients(
+        { ...filters, organizationId: getOrganizationId(res) },
+        { limit, cursor, sort, order }
+      );
 
       return res.status(200).json({
         success: true,
-        clients,
+        clients: page.items,
+        total: page.total,
+        nextCursor: page.nextCursor,
       });
     } catch (error) {
       console.error('Error fetching clients:', error);
@@ -72,15 +95,41 @@ export class ClientController {
     try {
       const { id } = req.params;
 
-      // Validate ID
-      if (!id || id.trim().length === 0) {
-        return res.status(400).json({
-          error: 'Invalid request',
-          message: 'Client ID is required',
+      const client = await clientService.getClientById(id, getOrganizationId(res));
+
+      if (!client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
         });
       }
 
-      const client = await clientService.getClientById(id);
+      return res.status(200).json({
+        success: true,
+        client,
+      });
+    } catch (error) {
+      console.error('Error fetching client:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * PATCH /clients/:id
+   * Change a client's name, contact details or workflow settings
+   * Body: any of { name, email, company, phone, workflow_settings }; null clears email,
+   * company or phone, and workflow_settings is merged into the current settings
+   */
+  async updateClient(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const client = await clientService.updateClient(id, req.body as UpdateClientBody, getOrganizationId(res));
 
       if (!client) {
         return res.status(404).json({
@@ -94,7 +143,313 @@ export class ClientController {
         client,
       });
     } catch (error) {
-      console.error('Error fetching client:', error);
+      console.error('Error updating client:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * POST /clients/:id/archive
+   * Archive a client: inbound email and new tasks are refused, and its pending and failed
+   * notifications are skipped. Tasks, summaries and reports are kept.
+   */
+  async archiveClient(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const client = await clientService.setArchived(id, true, getOrganizationId(res));
+
+      if (!client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      const skipped = await notificationService.skipClientNotifications(id, CLIENT_ARCHIVED_REASON);
+
+      return res.status(200).json({
+        success: true,
+        client,
+        skippedNotifications: skipped.length,
+      });
+    } catch (error) {
+      console.error('Error archiving client:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * DELETE /clients/:id/archive
+   * Restore an archived client; notifications skipped while it was archived stay skipped
+   */
+  async restoreClient(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const client = await clientService.setArchived(id, false, getOrganizationId(res));
+
+      if (!client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        client,
+      });
+    } catch (error) {
+      console.error('Error restoring client:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * DELETE /clients/:id
+   * Delete a client with all its tasks, emails, summaries, notifications and reports
+   */
+  async deleteClient(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const deleted = await clientService.deleteClient(id, getOrganizationId(res));
+
+      if (!deleted) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      console.log(`Client deleted: ${id}`);
+
+      return res.status(200).json({
+        success: true,
+        deleted,
+      });
+    } catch (error) {
+      console.error('Error deleting client:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * PUT /clients/:id/prompt-profile
+   * Set a client's prompt profile, or reset it to the default with { "prompt_profile": null }
+   */
+  async updatePromptProfile(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { prompt_profile } = req.body as UpdatePromptProfileBody;
+
+      const client = await clientService.updatePromptProfile(id, prompt_profile, getOrganizationId(res));
+
+      if (!client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        client,
+      });
+    } catch (error) {
+      console.error('Error updating prompt profile:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * POST /clients/:id/prompt-profile/preview
+   * Show the system prompt for the client's profile (or a draft "prompt_profile" in the body)
+   * and, when "text" is given, summarize it without creating a task
+   */
+  async previewPromptProfile(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { text, prompt_profile } = req.body as PreviewPromptProfileBody;
+
+      const client = await clientService.getClientById(id, getOrganizationId(res));
+
+      if (!client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      const profile: PromptProfile | null = prompt_profile !== undefined ? prompt_profile : client.prompt_profile || null;
+      const systemPrompt = buildSystemPrompt(profile);
+
+      if (text === undefined) {
+        return res.status(200).json({
+          success: true,
+          prompt_profile: profile,
+          systemPrompt,
+        });
+      }
+
+      const result = await processWithLLM(text, {
+        provider: client.workflow_settings?.llmProvider,
+        promptProfile: profile,
+      });
+
+      if (!result.success) {
+        return res.status(502).json({
+          error: 'LLM error',
+          message: result.error.message,
+          category: result.error.category,
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        prompt_profile: profile,
+        systemPrompt,
+        summary: result.content,
+        model: result.model,
+        provider: result.provider,
+      });
+    } catch (error) {
+      console.error('Error previewing prompt profile:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * PUT /clients/:id/branding
+   * Set a client's email branding, or reset it to the default with { "branding": null }
+   */
+  async updateBranding(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { branding } = req.body as UpdateBrandingBody;
+
+      const client = await clientService.updateBranding(id, branding, getOrganizationId(res));
+
+      if (!client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        client,
+      });
+    } catch (error) {
+      console.error('Error updating branding:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * DELETE /clients/:id/email-bounce
+   * Clear the bounced flag once the client's address is fixed, so emails are sent again
+   */
+  async clearEmailBounce(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const client = await clientService.setEmailBounce(id, null, getOrganizationId(res));
+
+      if (!client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        client,
+      });
+    } catch (error) {
+      console.error('Error clearing email bounce:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * POST /clients/:id/email-preview
+   * Render an email template against the client's real data without sending it. Uses the
+   * given summaryId/reportId/taskId, else the client's latest one, and the client's branding
+   * (or a draft "branding" in the body).
+   */
+  async previewEmail(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { template, summaryId, reportId, taskId, branding } = req.body as PreviewEmailBody;
+
+      const client = await clientService.getClientById(id, getOrganizationId(res));
+
+      if (!client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      const preview = await emailTemplateService.renderPreview(client, template, { summaryId, reportId, taskId }, branding);
+
+      if (!preview) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Nothing to render "${template}" from for this client`,
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        preview,
+      });
+    } catch (error) {
+      console.error('Error previewing email:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
       return res.status(500).json({
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import notificationService from '../services/notificationService';
+import { getOrganizationId } from '../lib/middleware';
+import { ListNotificationsQuery, RetryNotificationsBody } from '../lib/apiSchemas';
 
 /**
  * Notification Controller
@@ -8,27 +10,117 @@ import notificationService from '../services/notificationService';
 export class NotificationController {
   /**
    * GET /notifications
-   * List all notification events.
+   * List notification events a page at a time.
    * Query params:
-   *   - status  (optional) 'pending' | 'sent' | 'failed'
+   *   - limit, cursor, sort, order, from, to, q (optional) paging and filters of every list
+   *   - status   (optional) 'pending' | 'sent' | 'failed' | 'skipped'
    *   - clientId (optional) UUID
+   *   - type     (optional) 'email' | 'whatsapp'
    */
   async getAllNotifications(req: Request, res: Response): Promise<Response> {
     try {
-      const { status, clientId } = req.query as Record<string, string | undefined>;
+      const { limit, cursor, sort = 'created_at', order, ...filters } = req.query as ListNotificationsQuery;
 
-      const notifications = await notificationService.getAllNotifications(
-        { status, clientId },
-        200
+      const page = await notificationService.listNotifications(
+        { ...filters, organizationId: getOrganizationId(res) },
+        { limit, cursor, sort, order }
       );
 
-      return res.status(200).json({ success: true, notifications });
+      return res
+        .status(200)
+        .json({ success: true, notifications: page.items, total: page.total, nextCursor: page.nextCursor });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error occurred';
       console.error('Error fetching notifications:', error);
       return res.status(500).json({ error: 'Internal server error', message });
     }
   }
+
+  /**
+   * GET /notifications/:id/timeline
+   * Delivery events the provider reported for a notification, oldest first
+   */
+  async getTimeline(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const event = await notificationService.getNotificationById(id, getOrganizationId(res));
+      if (!event) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Notification with ID ${id} not found`,
+        });
+      }
+
+      const timeline = await notificationService.getDeliveryTimeline(id);
+
+      return res.status(200).json({ success: true, notification: event, timeline });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error fetching notification timeline:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * POST /notifications/:id/retry
+   * Send a failed notification again
+   */
+  async retryNotification(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+
+      const event = await notificationService.getNotificationById(id, getOrganizationId(res));
+      if (!event) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `Notification with ID ${id} not found`,
+        });
+      }
+
+      if (event.status !== 'failed') {
+        return res.status(400).json({
+          error: 'Invalid request',
+          message: `Only failed notifications can be retried (this one is ${event.status})`,
+        });
+      }
+
+      const [notification] = await notificationService.retryFailedNotifications({ ids: [id] });
+
+      return res.status(200).json({ success: true, notification: notification ?? event });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error retrying notification:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * POST /notifications/retry
+   * Send failed notifications again in bulk.
+   * Body (all optional; an empty body retries every failed notification):
+   *   - ids      string[] (up to 500)
+   *   - clientId UUID
+   *   - type     'email' | 'whatsapp'
+   */
+  async retryNotifications(req: Request, res: Response): Promise<Response> {
+    try {
+      const { ids, clientId, type } = req.body as RetryNotificationsBody;
+
+      const notifications = await notificationService.retryFailedNotifications({
+        ids,
+        clientId,
+        type,
+        organizationId: getOrganizationId(res),
+      });
+
+      return res.status(200).json({ success: true, retried: notifications.length, notifications });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error retrying notifications:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
 }
 
 export default new NotificationController();
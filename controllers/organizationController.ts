@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import organizationService from '../services/organizationService';
+import { getOrganizationId } from '../lib/middleware';
+import { InviteMemberBody, UpdateMemberRoleBody } from '../lib/apiSchemas';
+
+/**
+ * Organization Controller
+ * Handles HTTP requests for the caller's organization and its members
+ */
+export class OrganizationController {
+  /**
+   * GET /organization
+   * Return the caller's organization and its members
+   */
+  async getOrganization(_req: Request, res: Response): Promise<Response> {
+    try {
+      const organizationId = getOrganizationId(res) as string;
+      const organization = await organizationService.getOrganizationById(organizationId);
+      if (!organization) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Organization not found',
+        });
+      }
+
+      const members = await organizationService.getMembers(organizationId);
+      return res.status(200).json({ success: true, organization, members });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error fetching organization:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * POST /organization/members
+   * Invite an email to the organization. The answer is the same whether or not the email
+   * has an account, and no account joins until its owner accepts the invitation.
+   * Body: { email: string, role: 'owner' | 'operator' | 'viewer' }
+   */
+  async inviteMember(req: Request, res: Response): Promise<Response> {
+    try {
+      const organizationId = getOrganizationId(res) as string;
+      const { email, role } = req.body as InviteMemberBody;
+
+      // Members are listed by GET /organization, so saying so reveals nothing new
+      const user = await organizationService.getUserByEmail(email);
+      if (user && (await organizationService.getMembership(user.id, organizationId))) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: `${email.toLowerCase()} is already a member of this organization`,
+        });
+      }
+
+      const { invitation, token } = await organizationService.createInvitation(organizationId, email, role);
+      return res.status(201).json({ success: true, invitation, token });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error inviting member:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * PUT /organization/members/:userId
+   * Change a member's role; the last owner cannot be demoted
+   * Body: { role: 'owner' | 'operator' | 'viewer' }
+   */
+  async updateMemberRole(req: Request, res: Response): Promise<Response> {
+    try {
+      const organizationId = getOrganizationId(res) as string;
+      const { userId } = req.params;
+      const { role } = req.body as UpdateMemberRoleBody;
+
+      const current = await organizationService.getMembership(userId, organizationId);
+      if (!current) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `User ${userId} is not a member of this organization`,
+        });
+      }
+
+      if (current.role === 'owner' && role !== 'owner' && (await organizationService.countOwners(organizationId)) <= 1) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'An organization needs at least one owner',
+        });
+      }
+
+      const member = await organizationService.updateMemberRole(organizationId, userId, role);
+      return res.status(200).json({ success: true, member });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error updating member:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * DELETE /organization/members/:userId
+   * Remove a member; their sessions in this organization stop working. The last owner
+   * cannot be removed.
+   */
+  async removeMember(req: Request, res: Response): Promise<Response> {
+    try {
+      const organizationId = getOrganizationId(res) as string;
+      const { userId } = req.params;
+
+      const current = await organizationService.getMembership(userId, organizationId);
+      if (!current) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: `User ${userId} is not a member of this organization`,
+        });
+      }
+
+      if (current.role === 'owner' && (await organizationService.countOwners(organizationId)) <= 1) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'An organization needs at least one owner',
+        });
+      }
+
+      await organizationService.removeMember(organizationId, userId);
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error removing member:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+}
+
+export default new OrganizationController();
@@ -1,5 +1,10 @@
 import { Request, Response } from 'express';
 import reportService from '../services/reportService';
+import clientService from '../services/clientService';
+import { getOrganizationId, getParsedQuery } from '../lib/middleware';
+import { resolveReportRange } from '../lib/reportRanges';
+import { getReportFormatFromAccept, renderReport, REPORT_MEDIA_TYPES } from '../lib/reportFormats';
+import { ReportHistoryQuery, reportRequest } from '../lib/apiSchemas';
 
 /**
  * Report Controller
@@ -8,24 +13,61 @@ import reportService from '../services/reportService';
 export class ReportController {
   /**
    * GET /report
-   * Generate a daily report for a specific client
+   * Generate a report for a specific client, bounded by "period" (today, yesterday, week,
+   * month) or "from"/"to"; defaults to today. Day boundaries follow "timezone", else the
+   * client's time zone.
+   *
+   * Without "format" (or a text/markdown, text/html, text/csv or text/plain Accept header)
+   * responds with the plain-text report in a JSON envelope. format=json returns the
+   * structured report; markdown, html, csv and text return the rendered body as is.
+   * digest=true adds the LLM-written executive digest (cached per client and period).
    */
   async generateReport(req: Request, res: Response): Promise<Response> {
     try {
-      const { clientId } = req.query;
+      const { clientId, period, from, to, timezone, format, digest = false } = getParsedQuery(req, reportRequest.query);
 
-      // Validate clientId
-      if (!clientId || typeof clientId !== 'string' || clientId.trim().length === 0) {
+      const organizationId = getOrganizationId(res);
+      if (organizationId && !(await clientService.isClientInOrganization(clientId, organizationId))) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
+
+      const zone = timezone ?? (await reportService.getReportTimeZone(clientId));
+      const { range, error } = resolveReportRange({ period, from, to }, zone);
+      if (error !== undefined) {
         return res.status(400).json({
           error: 'Invalid request',
-          message: 'Query parameter "clientId" is required',
+          message: error,
         });
       }
 
-      console.log(`Generating daily report for client: ${clientId}...`);
-      const report = await reportService.generateReport(clientId);
+      console.log(`Generating report for client: ${clientId}...`);
+      const reportFormat = format ?? getReportFormatFromAccept(req.get('Accept'));
+
+      if (reportFormat === 'json') {
+        const report = await reportService.buildReport(clientId, { range, digest });
+        return res.status(200).json({ success: true, report });
+      }
+
+      if (reportFormat) {
+        const report = await reportService.buildReport(clientId, { range, digest });
+        if (reportFormat === 'csv') {
+          res.attachment(`report-${report.period.label.replace(/ – /, '_')}.csv`);
+        }
+        return res.status(200).type(REPORT_MEDIA_TYPES[reportFormat]).send(renderReport(report, reportFormat));
+      }
+
+      const report = await reportService.generateReport(clientId, { range, digest });
 
-      return res.status(200).json({ report });
+      return res.status(200).json({
+        success: true,
+        report,
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        timezone: range.timezone,
+      });
     } catch (error) {
       console.error('Error generating report:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -36,6 +78,26 @@ export class ReportController {
       });
     }
   }
+
+  /**
+   * GET /report/history
+   * List stored scheduled reports a page at a time, optionally filtered by clientId and frequency
+   */
+  async getReportHistory(req: Request, res: Response): Promise<Response> {
+    try {
+      const { limit, cursor, sort = 'created_at', order, ...filters } = req.query as ReportHistoryQuery;
+
+      const page = await reportService.listReports(
+        { ...filters, organizationId: getOrganizationId(res) },
+        { limit, cursor, sort, order }
+      );
+
+      return res.status(200).json({ success: true, reports: page.items, total: page.total, nextCursor: page.nextCursor });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      return res.status(500).json({ error: 'Internal server error', message: errorMessage });
+    }
+  }
 }
 
 export default new ReportController();
@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import settingsService from '../services/settingsService';
+import { NotificationRetryPolicyUpdate } from '../lib/apiSchemas';
+
+/**
+ * Settings Controller
+ * Handles HTTP requests for application settings endpoints
+ */
+export class SettingsController {
+  /**
+   * GET /settings/notification-retry
+   * Return the automatic retry policy for failed notifications
+   */
+  async getNotificationRetryPolicy(_req: Request, res: Response): Promise<Response> {
+    try {
+      const policy = await settingsService.getNotificationRetryPolicy();
+      return res.status(200).json({ success: true, policy });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error fetching retry policy:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+
+  /**
+   * PUT /settings/notification-retry
+   * Update the retry policy
+   * Body: { enabled?: boolean, intervalMinutes?: number, maxRetries?: number }
+   */
+  async updateNotificationRetryPolicy(req: Request, res: Response): Promise<Response> {
+    try {
+      const policy = await settingsService.updateNotificationRetryPolicy(req.body as NotificationRetryPolicyUpdate);
+      return res.status(200).json({ success: true, policy });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error('Error updating retry policy:', error);
+      return res.status(500).json({ error: 'Internal server error', message });
+    }
+  }
+}
+
+export default new SettingsController();
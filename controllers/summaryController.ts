@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import summaryService from '../services/summaryService';
+import clientService from '../services/clientService';
+import { getOrganizationId } from '../lib/middleware';
+import { ListSummariesQuery } from '../lib/apiSchemas';
 
 /**
  * Summary Controller
@@ -8,18 +11,26 @@ import summaryService from '../services/summaryService';
 export class SummaryController {
   /**
    * GET /summaries
-   * Return recent summaries, optionally filtered by clientId
+   * Return a page of summaries, optionally filtered by clientId
    */
   async getSummaries(req: Request, res: Response): Promise<Response> {
     try {
-      const { clientId } = req.query as Record<string, string | undefined>;
-      const limit = Math.min(parseInt(String(req.query.limit ?? '50'), 10) || 50, 200);
+      const { limit, cursor, sort = 'created_at', order, ...filters } = req.query as ListSummariesQuery;
+      const { clientId } = filters;
+      const organizationId = getOrganizationId(res);
 
-      const summaries = clientId
-        ? await summaryService.getSummariesByClient(clientId)
-        : await summaryService.getRecentSummaries(limit);
+      if (clientId && organizationId && !(await clientService.isClientInOrganization(clientId, organizationId))) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
+        });
+      }
 
-      return res.status(200).json({ success: true, summaries });
+      const page = await summaryService.listSummaries({ ...filters, organizationId }, { limit, cursor, sort, order });
+
+      return res
+        .status(200)
+        .json({ success: true, summaries: page.items, total: page.total, nextCursor: page.nextCursor });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       return res.status(500).json({ error: 'Internal server error', message: errorMessage });
@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import taskService from '../services/taskService';
+import clientService from '../services/clientService';
+import { getOrganizationId } from '../lib/middleware';
+import { CreateTaskBody, ListTasksQuery } from '../lib/apiSchemas';
 
 /**
  * Task Controller
@@ -12,19 +15,20 @@ export class TaskController {
    */
   async createTask(req: Request, res: Response): Promise<Response> {
     try {
-      const { text, clientId } = req.body;
+      const { text, clientId } = req.body as CreateTaskBody;
 
-      if (!text || typeof text !== 'string' || text.trim().length === 0) {
-        return res.status(400).json({
-          error: 'Invalid request',
-          message: 'Request body must contain a non-empty "text" field',
+      const organizationId = getOrganizationId(res);
+      const client = await clientService.getClientById(clientId, organizationId);
+      if (organizationId && !client) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'Client not found',
         });
       }
-
-      if (!clientId || typeof clientId !== 'string' || clientId.trim().length === 0) {
-        return res.status(400).json({
-          error: 'Invalid request',
-          message: 'Request body must contain a non-empty "clientId" field',
+      if (client?.archived_at) {
+        return res.status(409).json({
+          error: 'Conflict',
+          message: 'Client is archived',
         });
       }
 
@@ -44,13 +48,21 @@ export class TaskController {
 
   /**
    * GET /task
-   * Return recent tasks (for dashboard)
+   * Return a page of tasks (for dashboard)
+   * Query params:
+   *   - limit, cursor, sort, order, from, to, q (optional) paging and filters of every list
+   *   - status        (optional) 'pending' | 'processing' | 'completed' | 'failed'
+   *   - errorCategory (optional) failure cause, e.g. 'rate_limit' | 'timeout' | 'auth'
+   *   - clientId      (optional) UUID
    */
   async getRecentTasks(req: Request, res: Response): Promise<Response> {
     try {
-      const limit = Math.min(parseInt(String(req.query.limit ?? '50'), 10) || 50, 200);
-      const tasks = await taskService.getRecentTasks(limit);
-      return res.status(200).json({ success: true, tasks });
+      const { limit, cursor, sort = 'created_at', order, ...filters } = req.query as ListTasksQuery;
+      const page = await taskService.listTasks(
+        { ...filters, organizationId: getOrganizationId(res) },
+        { limit, cursor, sort, order }
+      );
+      return res.status(200).json({ success: true, tasks: page.items, total: page.total, nextCursor: page.nextCursor });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       return res.status(500).json({ error: 'Internal server error', message: errorMessage });
@@ -0,0 +1,32 @@
+import { Request, Response } from 'express';
+import { getAutomationWorkerStats } from '../workers/automationWorker';
+import { getReportSchedulerStats } from '../workers/reportScheduler';
+import { getNotificationRetryStats } from '../workers/notificationRetryWorker';
+
+/**
+ * Worker Controller
+ * Handles HTTP requests for background worker monitoring endpoints
+ */
+export class WorkerController {
+  /**
+   * GET /workers/stats
+   * Return cumulative stats of the background workers running in this process
+   */
+  async getStats(_req: Request, res: Response): Promise<Response> {
+    try {
+      return res.status(200).json({
+        success: true,
+        stats: {
+          automation: getAutomationWorkerStats(),
+          reports: getReportSchedulerStats(),
+          notificationRetry: getNotificationRetryStats(),
+        },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      return res.status(500).json({ error: 'Internal server error', message: errorMessage });
+    }
+  }
+}
+
+export default new WorkerController();
@@ -11,21 +11,23 @@ import { LogsPage } from './pages/LogsPage';
 import { WorkersPage } from './pages/WorkersPage';
 import { SettingsPage } from './pages/SettingsPage';
 import { LoginPage } from './pages/LoginPage';
-
-const ACCESS_CODE = import.meta.env.VITE_DASHBOARD_ACCESS_CODE as string | undefined;
-
-function isAuthenticated(): boolean {
-  if (!ACCESS_CODE) return true;
-  return sessionStorage.getItem('dashboard-auth') === '1';
-}
+import { hasSessionToken, logout, setUnauthorizedHandler } from './api/client';
 
 export default function App() {
-  const [authed, setAuthed] = useState(isAuthenticated);
+  const [authed, setAuthed] = useState(hasSessionToken);
 
+  // Back to the login page when the session expires or is revoked
   useEffect(() => {
-    if (!ACCESS_CODE) setAuthed(true);
+    setUnauthorizedHandler(() => setAuthed(false));
+    return () => setUnauthorizedHandler(null);
   }, []);
 
+  function handleSignOut() {
+    logout()
+      .catch(() => undefined)
+      .finally(() => setAuthed(false));
+  }
+
   if (!authed) {
     return <LoginPage onAuthenticated={() => setAuthed(true)} />;
   }
@@ -33,7 +35,7 @@ export default function App() {
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<Layout />}>
+        <Route path="/" element={<Layout onSignOut={handleSignOut} />}>
           <Route index element={<DashboardPage />} />
           <Route path="clients" element={<ClientsPage />} />
           <Route path="notifications" element={<NotificationsPage />} />
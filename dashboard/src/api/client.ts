@@ -4,63 +4,198 @@
  * In production, set VITE_API_BASE_URL to the backend URL.
  */
 import axios from 'axios';
-import type { Client, NotificationEvent, SystemHealth, WorkflowSettings, Task, Summary } from '../types';
+import type {
+  ArchiveClientResponse,
+  Client,
+  ClientListResponse,
+  ClientResponse,
+  CreateClientBody,
+  ListClientsQuery,
+  ListNotificationsQuery,
+  ListSummariesQuery,
+  ListTasksQuery,
+  LoginBody,
+  LoginResponse,
+  NotificationEvent,
+  NotificationListResponse,
+  NotificationResponse,
+  NotificationRetryPolicy,
+  RetryNotificationsBody,
+  RetryNotificationsResponse,
+  RetryPolicyResponse,
+  SummaryListResponse,
+  SystemHealth,
+  Task,
+  TaskListResponse,
+  Summary,
+  UpdateClientBody,
+  WorkerStats,
+  WorkerStatsResponse,
+} from '../types';
 
 const BASE_URL = import.meta.env.VITE_API_BASE_URL ?? '/api';
 
 const http = axios.create({ baseURL: BASE_URL, timeout: 10000 });
 
+/** Largest page the list endpoints return */
+const MAX_PAGE_SIZE = 200;
+
+/** One page of a list endpoint */
+export interface Page<T> {
+  items: T[];
+  /** Rows matching the filters, on every page */
+  total: number;
+  /** Pass as cursor for the next page; null on the last one */
+  nextCursor: string | null;
+}
+
+/** sessionStorage key of the session token issued by POST /auth/login */
+const TOKEN_KEY = 'dashboard-token';
+
+let onUnauthorized: (() => void) | null = null;
+
+/** Whether a session token is stored (it may still have expired on the server) */
+export function hasSessionToken(): boolean {
+  return sessionStorage.getItem(TOKEN_KEY) !== null;
+}
+
+/** Called when the API rejects the session token, e.g. to show the login page again */
+export function setUnauthorizedHandler(handler: (() => void) | null): void {
+  onUnauthorized = handler;
+}
+
+http.interceptors.request.use((config) => {
+  const token = sessionStorage.getItem(TOKEN_KEY);
+  if (token) config.headers.Authorization = `Bearer ${token}`;
+  return config;
+});
+
+http.interceptors.response.use(undefined, (error) => {
+  if (axios.isAxiosError(error) && error.response?.status === 401 && !error.config?.url?.startsWith('/auth/login')) {
+    sessionStorage.removeItem(TOKEN_KEY);
+    onUnauthorized?.();
+  }
+  return Promise.reject(error);
+});
+
+/** Exchange a user's email and password for a session token; resolves false if they are wrong */
+export async function login(email: string, password: string): Promise<boolean> {
+  try {
+    const body: LoginBody = { email, password };
+    const { data } = await http.post<LoginResponse>('/auth/login', body);
+    sessionStorage.setItem(TOKEN_KEY, data.token);
+    return true;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) return false;
+    throw error;
+  }
+}
+
+/** End the session on the server and forget the token */
+export async function logout(): Promise<void> {
+  try {
+    await http.post('/auth/logout');
+  } finally {
+    sessionStorage.removeItem(TOKEN_KEY);
+  }
+}
+
 /** Health check */
 export async function fetchHealth(): Promise<SystemHealth> {
   const { data } = await http.get<SystemHealth>('/health');
   return data;
 }
 
-/** List all clients */
-export async function fetchClients(): Promise<Client[]> {
-  const { data } = await http.get<{ success: boolean; clients: Client[] }>('/clients');
-  return data.clients;
+/** A page of clients, optionally filtered, searched or sorted */
+export async function fetchClientPage(params?: ListClientsQuery): Promise<Page<Client>> {
+  const { data } = await http.get<ClientListResponse>('/clients', { params });
+  return { items: data.clients, total: data.total, nextCursor: data.nextCursor };
+}
+
+/** List all clients (every page); archived ones too when includeArchived is set */
+export async function fetchClients(includeArchived = false): Promise<Client[]> {
+  const clients: Client[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await fetchClientPage({
+      limit: MAX_PAGE_SIZE,
+      cursor,
+      ...(includeArchived ? { includeArchived: true } : {}),
+    });
+    clients.push(...page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return clients;
 }
 
-/** List notifications, optionally filtered by status or clientId */
-export async function fetchNotifications(params?: {
-  status?: string;
-  clientId?: string;
-}): Promise<NotificationEvent[]> {
-  const { data } = await http.get<{ success: boolean; notifications: NotificationEvent[] }>(
-    '/notifications',
-    { params }
-  );
-  return data.notifications;
+/** A page of notifications, optionally filtered by status, clientId, channel, date or text */
+export async function fetchNotifications(params?: ListNotificationsQuery): Promise<Page<NotificationEvent>> {
+  const { data } = await http.get<NotificationListResponse>('/notifications', { params });
+  return { items: data.notifications, total: data.total, nextCursor: data.nextCursor };
 }
 
-export interface CreateClientPayload {
-  name: string;
-  email?: string;
-  company?: string;
-  phone?: string;
-  workflow_settings?: WorkflowSettings;
+/** Send one failed notification again */
+export async function retryNotification(id: string): Promise<NotificationEvent> {
+  const { data } = await http.post<NotificationResponse>(`/notifications/${id}/retry`);
+  return data.notification;
+}
+
+/** Send failed notifications again, optionally limited by ids, clientId or type */
+export async function retryFailedNotifications(params?: RetryNotificationsBody): Promise<number> {
+  const { data } = await http.post<RetryNotificationsResponse>('/notifications/retry', params ?? {});
+  return data.retried;
+}
+
+/** Automatic retry policy for failed notifications */
+export async function fetchRetryPolicy(): Promise<NotificationRetryPolicy> {
+  const { data } = await http.get<RetryPolicyResponse>('/settings/notification-retry');
+  return data.policy;
 }
 
 /** Create a new client */
-export async function createClient(payload: CreateClientPayload): Promise<Client> {
-  const { data } = await http.post<{ success: boolean; client: Client }>('/clients', payload);
+export async function createClient(payload: CreateClientBody): Promise<Client> {
+  const { data } = await http.post<ClientResponse>('/clients', payload);
   return data.client;
 }
 
-/** List recent tasks, optionally limited */
-export async function fetchTasks(limit = 50): Promise<Task[]> {
-  const { data } = await http.get<{ success: boolean; tasks: Task[] }>('/task', {
-    params: { limit },
-  });
-  return data.tasks;
+/** Change a client's name, contact details or workflow settings */
+export async function updateClient(id: string, payload: UpdateClientBody): Promise<Client> {
+  const { data } = await http.patch<ClientResponse>(`/clients/${id}`, payload);
+  return data.client;
 }
 
-/** List recent summaries, optionally filtered by clientId */
-export async function fetchSummaries(params?: { clientId?: string; limit?: number }): Promise<Summary[]> {
-  const { data } = await http.get<{ success: boolean; summaries: Summary[] }>('/summaries', {
-    params,
-  });
-  return data.summaries;
+/** Archive a client: no new tasks, notifications or reports, history kept */
+export async function archiveClient(id: string): Promise<Client> {
+  const { data } = await http.post<ArchiveClientResponse>(`/clients/${id}/archive`);
+  return data.client;
+}
+
+/** Restore an archived client */
+export async function restoreClient(id: string): Promise<Client> {
+  const { data } = await http.delete<ClientResponse>(`/clients/${id}/archive`);
+  return data.client;
 }
 
+/** Delete a client with all its tasks, emails, summaries, notifications and reports */
+export async function deleteClient(id: string): Promise<void> {
+  await http.delete(`/clients/${id}`);
+}
+
+/** A page of tasks, newest first unless sorted otherwise, optionally filtered */
+export async function fetchTasks(params?: ListTasksQuery): Promise<Page<Task>> {
+  const { data } = await http.get<TaskListResponse>('/task', { params });
+  return { items: data.tasks, total: data.total, nextCursor: data.nextCursor };
+}
+
+/** A page of summaries, optionally filtered by clientId, date or text */
+export async function fetchSummaries(params?: ListSummariesQuery): Promise<Page<Summary>> {
+  const { data } = await http.get<SummaryListResponse>('/summaries', { params });
+  return { items: data.summaries, total: data.total, nextCursor: data.nextCursor };
+}
+
+
+/** Cumulative background worker stats (includes reaped stale tasks) */
+export async function fetchWorkerStats(): Promise<WorkerStats> {
+  const { data } = await http.get<WorkerStatsResponse>('/workers/stats');
+  return data.stats;
+}
@@ -1,5 +1,5 @@
 /**
- * Header — top bar with page title, dark mode toggle, and menu button (mobile).
+ * Header — top bar with page title, dark mode toggle, sign out and menu button (mobile).
  */
 import React from 'react';
 import { useLocation } from 'react-router-dom';
@@ -17,9 +17,10 @@ interface HeaderProps {
   dark: boolean;
   onToggleDark: () => void;
   onMenuClick: () => void;
+  onSignOut: () => void;
 }
 
-export function Header({ dark, onToggleDark, onMenuClick }: HeaderProps) {
+export function Header({ dark, onToggleDark, onMenuClick, onSignOut }: HeaderProps) {
   const { pathname } = useLocation();
   const title = PAGE_TITLES[pathname] ?? 'Dashboard';
 
@@ -38,31 +39,40 @@ export function Header({ dark, onToggleDark, onMenuClick }: HeaderProps) {
 
       <h1 className="text-lg font-semibold text-slate-900 dark:text-slate-50">{title}</h1>
 
-      {/* Dark mode toggle */}
-      <button
-        onClick={onToggleDark}
-        className="p-2 rounded-lg text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
-        aria-label="Toggle dark mode"
-        title={dark ? 'Switch to light mode' : 'Switch to dark mode'}
-      >
-        {dark ? (
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <circle cx="12" cy="12" r="5" />
-            <line x1="12" y1="1" x2="12" y2="3" />
-            <line x1="12" y1="21" x2="12" y2="23" />
-            <line x1="4.22" y1="4.22" x2="5.64" y2="5.64" />
-            <line x1="18.36" y1="18.36" x2="19.78" y2="19.78" />
-            <line x1="1" y1="12" x2="3" y2="12" />
-            <line x1="21" y1="12" x2="23" y2="12" />
-            <line x1="4.22" y1="19.78" x2="5.64" y2="18.36" />
-            <line x1="18.36" y1="5.64" x2="19.78" y2="4.22" />
-          </svg>
-        ) : (
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z" />
-          </svg>
-        )}
-      </button>
+      <div className="flex items-center gap-1">
+        {/* Dark mode toggle */}
+        <button
+          onClick={onToggleDark}
+          className="p-2 rounded-lg text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          aria-label="Toggle dark mode"
+          title={dark ? 'Switch to light mode' : 'Switch to dark mode'}
+        >
+          {dark ? (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="5" />
+              <line x1="12" y1="1" x2="12" y2="3" />
+              <line x1="12" y1="21" x2="12" y2="23" />
+              <line x1="4.22" y1="4.22" x2="5.64" y2="5.64" />
+              <line x1="18.36" y1="18.36" x2="19.78" y2="19.78" />
+              <line x1="1" y1="12" x2="3" y2="12" />
+              <line x1="21" y1="12" x2="23" y2="12" />
+              <line x1="4.22" y1="19.78" x2="5.64" y2="18.36" />
+              <line x1="18.36" y1="5.64" x2="19.78" y2="4.22" />
+            </svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z" />
+            </svg>
+          )}
+        </button>
+
+        <button
+          onClick={onSignOut}
+          className="px-3 py-1.5 rounded-lg text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+        >
+          Sign out
+        </button>
+      </div>
     </header>
   );
 }
@@ -8,7 +8,11 @@ import { Sidebar } from './Sidebar';
 import { Header } from './Header';
 import { useDarkMode } from '../../hooks/useDarkMode';
 
-export function Layout() {
+interface LayoutProps {
+  onSignOut: () => void;
+}
+
+export function Layout({ onSignOut }: LayoutProps) {
   const { dark, toggle } = useDarkMode();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
@@ -38,6 +42,7 @@ export function Layout() {
           dark={dark}
           onToggleDark={toggle}
           onMenuClick={() => setSidebarOpen(true)}
+          onSignOut={onSignOut}
         />
         <main className="flex-1 overflow-y-auto p-6">
           <Outlet />
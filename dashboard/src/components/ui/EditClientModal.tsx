@@ -0,0 +1,186 @@
+/**
+ * EditClientModal — form dialog to change a client's details and workflow settings.
+ * Sends only the fields that changed (PATCH /clients/:id); cleared optional fields are
+ * sent as null.
+ */
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import { Button } from './Button';
+import { Field, Toggle } from './NewClientModal';
+import type { Client, EmailDeliveryMode, UpdateClientBody, WorkflowSettings } from '../../types';
+import { updateClient } from '../../api/client';
+
+interface EditClientModalProps {
+  client: Client;
+  onClose: () => void;
+  onSaved: (client: Client) => void;
+}
+
+const DEFAULT_WORKFLOW: WorkflowSettings = {
+  reportFrequency: 'daily',
+  emailNotifications: true,
+  whatsappNotifications: false,
+};
+
+export function EditClientModal({ client, onClose, onSaved }: EditClientModalProps) {
+  const [name, setName] = useState(client.name);
+  const [email, setEmail] = useState(client.email ?? '');
+  const [company, setCompany] = useState(client.company ?? '');
+  const [phone, setPhone] = useState(client.phone ?? '');
+  const [workflow, setWorkflow] = useState<WorkflowSettings>({ ...DEFAULT_WORKFLOW, ...client.workflow_settings });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function changes(): UpdateClientBody {
+    const payload: UpdateClientBody = {};
+    if (name.trim() !== client.name) payload.name = name.trim();
+    if (email.trim() !== (client.email ?? '')) payload.email = email.trim() || null;
+    if (company.trim() !== (client.company ?? '')) payload.company = company.trim() || null;
+    if (phone.trim() !== (client.phone ?? '')) payload.phone = phone.trim() || null;
+
+    const current: Partial<WorkflowSettings> = { ...DEFAULT_WORKFLOW, ...client.workflow_settings };
+    const settings = Object.fromEntries(
+      (Object.keys(workflow) as (keyof WorkflowSettings)[])
+        .filter((key) => workflow[key] !== current[key])
+        .map((key) => [key, workflow[key]])
+    ) as Partial<WorkflowSettings>;
+    if (Object.keys(settings).length > 0) payload.workflow_settings = settings;
+    return payload;
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const payload = changes();
+    if (Object.keys(payload).length === 0) {
+      onClose();
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      onSaved(await updateClient(client.id, payload));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update client');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const inputClass =
+    'w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-500 placeholder-slate-400 dark:placeholder-slate-500';
+
+  return (
+    /* Backdrop */
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="w-full max-w-lg rounded-xl bg-white dark:bg-slate-900 shadow-xl border border-slate-200 dark:border-slate-700">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-slate-800">
+          <h2 className="text-base font-semibold text-slate-900 dark:text-slate-100">Edit {client.name}</h2>
+          <button
+            onClick={onClose}
+            className="rounded-md p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+            aria-label="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" /><line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4">
+          {error && (
+            <div className="rounded-lg bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 px-3 py-2.5 text-sm text-rose-700 dark:text-rose-300">
+              ⚠️ {error}
+            </div>
+          )}
+
+          <Field label="Full Name" required>
+            <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} required />
+          </Field>
+
+          <Field label="Email">
+            <input
+              type="email"
+              className={inputClass}
+              placeholder="jane@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </Field>
+
+          <Field label="Company">
+            <input className={inputClass} placeholder="Acme Corp (optional)" value={company} onChange={(e) => setCompany(e.target.value)} />
+          </Field>
+
+          <Field label="Phone / WhatsApp">
+            <input
+              type="tel"
+              className={inputClass}
+              placeholder="+1 555 000 0000 (optional)"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+          </Field>
+
+          {/* Workflow settings */}
+          <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3">
+            <p className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wide">Workflow Settings</p>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Report Frequency</label>
+              <select
+                className={clsx(inputClass, 'cursor-pointer')}
+                value={workflow.reportFrequency}
+                onChange={(e) => setWorkflow((w) => ({ ...w, reportFrequency: e.target.value as WorkflowSettings['reportFrequency'] }))}
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="none">None</option>
+              </select>
+            </div>
+
+            <Toggle
+              label="Email notifications"
+              checked={workflow.emailNotifications !== false}
+              onChange={(v) => setWorkflow((w) => ({ ...w, emailNotifications: v }))}
+            />
+
+            {workflow.emailNotifications !== false && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Summary Emails</label>
+                <select
+                  className={clsx(inputClass, 'cursor-pointer')}
+                  value={workflow.emailDelivery ?? 'immediate'}
+                  onChange={(e) => setWorkflow((w) => ({ ...w, emailDelivery: e.target.value as EmailDeliveryMode }))}
+                >
+                  <option value="immediate">One email per summary</option>
+                  <option value="hourly_digest">Hourly digest</option>
+                  <option value="daily_digest">Daily digest</option>
+                </select>
+              </div>
+            )}
+
+            <Toggle
+              label="WhatsApp notifications"
+              checked={workflow.whatsappNotifications !== false}
+              onChange={(v) => setWorkflow((w) => ({ ...w, whatsappNotifications: v }))}
+            />
+          </div>
+
+          <div className="flex items-center justify-end gap-3 pt-1">
+            <Button type="button" variant="secondary" onClick={onClose} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={submitting} disabled={!name.trim()}>
+              Save Changes
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
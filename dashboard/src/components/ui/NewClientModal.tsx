@@ -7,7 +7,7 @@ import React, { useState } from 'react';
 import clsx from 'clsx';
 import { Button } from './Button';
 import { Badge } from './Badge';
-import type { Client, WorkflowSettings } from '../../types';
+import type { Client, EmailDeliveryMode, WorkflowSettings } from '../../types';
 import { createClient } from '../../api/client';
 
 interface NewClientModalProps {
@@ -186,13 +186,28 @@ export function NewClientModal({ onClose, onCreated }: NewClientModalProps) {
 
               <Toggle
                 label="Email notifications"
-                checked={workflow.emailNotifications}
+                checked={workflow.emailNotifications !== false}
                 onChange={(v) => setWorkflow((w) => ({ ...w, emailNotifications: v }))}
               />
 
+              {workflow.emailNotifications !== false && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Summary Emails</label>
+                  <select
+                    className={clsx(inputClass, 'cursor-pointer')}
+                    value={workflow.emailDelivery ?? 'immediate'}
+                    onChange={(e) => setWorkflow((w) => ({ ...w, emailDelivery: e.target.value as EmailDeliveryMode }))}
+                  >
+                    <option value="immediate">One email per summary</option>
+                    <option value="hourly_digest">Hourly digest</option>
+                    <option value="daily_digest">Daily digest</option>
+                  </select>
+                </div>
+              )}
+
               <Toggle
                 label="WhatsApp notifications"
-                checked={workflow.whatsappNotifications}
+                checked={workflow.whatsappNotifications !== false}
                 onChange={(v) => setWorkflow((w) => ({ ...w, whatsappNotifications: v }))}
               />
             </div>
@@ -212,7 +227,8 @@ export function NewClientModal({ onClose, onCreated }: NewClientModalProps) {
   );
 }
 
-function Field({ label, required, children }: { label: string; required?: boolean; children: React.ReactNode }) {
+/** Labelled form field, shared with EditClientModal */
+export function Field({ label, required, children }: { label: string; required?: boolean; children: React.ReactNode }) {
   return (
     <div>
       <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
@@ -233,7 +249,8 @@ function Row({ label, value, children }: { label: string; value?: string; childr
   );
 }
 
-function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (v: boolean) => void }) {
+/** On/off switch, shared with EditClientModal */
+export function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (v: boolean) => void }) {
   return (
     <label className="flex items-center justify-between cursor-pointer">
       <span className="text-sm text-slate-700 dark:text-slate-300">{label}</span>
@@ -0,0 +1,37 @@
+/**
+ * Pagination — footer of a server-paged table: which rows are shown and Previous / Next.
+ * Works with useCursorPages.
+ */
+import React from 'react';
+import { Button } from './Button';
+
+interface PaginationProps {
+  /** 1-based */
+  pageNumber: number;
+  pageSize: number;
+  /** Rows on this page */
+  shown: number;
+  /** Rows matching the filters */
+  total: number;
+  nextCursor: string | null;
+  onNext: (cursor: string) => void;
+  onPrevious: () => void;
+}
+
+export function Pagination({ pageNumber, pageSize, shown, total, nextCursor, onNext, onPrevious }: PaginationProps) {
+  const first = (pageNumber - 1) * pageSize + 1;
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="text-xs text-slate-500 dark:text-slate-400">
+        {shown ? `${first}–${first + shown - 1} of ${total}` : `0 of ${total}`}
+      </span>
+      <Button variant="secondary" size="sm" onClick={onPrevious} disabled={pageNumber === 1}>
+        Previous
+      </Button>
+      <Button variant="secondary" size="sm" onClick={() => nextCursor && onNext(nextCursor)} disabled={!nextCursor}>
+        Next
+      </Button>
+    </div>
+  );
+}
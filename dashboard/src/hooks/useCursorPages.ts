@@ -0,0 +1,37 @@
+/**
+ * useCursorPages — position in a server-paged list.
+ * Keeps the cursors of the pages before the current one so Previous can go back, and
+ * starts again from the first page whenever filterKey (the list's filters) changes.
+ */
+import { useState, useCallback } from 'react';
+
+export function useCursorPages(filterKey: string) {
+  const [state, setState] = useState({ filterKey, cursors: [] as string[] });
+  const cursors = state.filterKey === filterKey ? state.cursors : [];
+
+  const next = useCallback(
+    (cursor: string) =>
+      setState((previous) => ({
+        filterKey,
+        cursors: [...(previous.filterKey === filterKey ? previous.cursors : []), cursor],
+      })),
+    [filterKey]
+  );
+  const previous = useCallback(
+    () =>
+      setState((previous) => ({
+        filterKey,
+        cursors: (previous.filterKey === filterKey ? previous.cursors : []).slice(0, -1),
+      })),
+    [filterKey]
+  );
+
+  return {
+    /** Cursor of the current page; undefined on the first */
+    cursor: cursors[cursors.length - 1] as string | undefined,
+    /** 1-based */
+    pageNumber: cursors.length + 1,
+    next,
+    previous,
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * useDebouncedValue — the value once it has stopped changing for delayMs,
+ * e.g. so a search box does not fetch on every keystroke.
+ */
+import { useState, useEffect } from 'react';
+
+export function useDebouncedValue<T>(value: T, delayMs: number = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
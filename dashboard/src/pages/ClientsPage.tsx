@@ -1,9 +1,15 @@
 /**
- * Clients page — table of all clients with their last summary and notification status.
+ * Clients page — table of clients with their last notification status, searched, sorted
+ * and paged on the server.
  *
  * Live data:
- *   - GET /clients     → client list
- *   - GET /notifications?clientId=xxx → per-client notification status
+ *   - GET /clients     → a page of clients (?includeArchived=true with "Show archived")
+ *   - GET /notifications?clientId=xxx&limit=1 → per-client last notification status
+ *
+ * Actions:
+ *   - Edit             → PATCH /clients/:id
+ *   - Archive/Restore  → POST / DELETE /clients/:id/archive
+ *   - Delete           → DELETE /clients/:id (after confirmation; removes all history)
  *
  * Locked (not implemented):
  *   - Retry per client
@@ -11,62 +17,101 @@
  *   - View logs per client
  */
 import React, { useCallback, useState } from 'react';
+import clsx from 'clsx';
 import { Card } from '../components/ui/Card';
 import { Badge } from '../components/ui/Badge';
 import { Button } from '../components/ui/Button';
 import { Spinner } from '../components/ui/Spinner';
 import { EmptyState } from '../components/ui/EmptyState';
 import { NewClientModal } from '../components/ui/NewClientModal';
+import { EditClientModal } from '../components/ui/EditClientModal';
+import { Pagination } from '../components/ui/Pagination';
 import { usePolling } from '../hooks/usePolling';
-import { fetchClients, fetchNotifications } from '../api/client';
-import type { Client, NotificationEvent } from '../types';
+import { useCursorPages } from '../hooks/useCursorPages';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { archiveClient, deleteClient, fetchClientPage, fetchNotifications, restoreClient } from '../api/client';
+import type { Client, ListClientsQuery, NotificationEvent } from '../types';
 
-function lastNotifStatus(notifications: NotificationEvent[], clientId: string): NotificationEvent['status'] | null {
-  const clientNotifs = notifications
-    .filter((n) => n.client_id === clientId)
-    .sort((a, b) => {
-      const aTime = a.created_at ? new Date(a.created_at).getTime() : -Infinity;
-      const bTime = b.created_at ? new Date(b.created_at).getTime() : -Infinity;
-      return bTime - aTime;
-    });
-  return clientNotifs[0]?.status ?? null;
+const PAGE_SIZE = 25;
+
+const SORTS: { label: string; sort: ListClientsQuery['sort']; order: ListClientsQuery['order'] }[] = [
+  { label: 'Newest first', sort: 'created_at', order: 'desc' },
+  { label: 'Oldest first', sort: 'created_at', order: 'asc' },
+  { label: 'Name A–Z', sort: 'name', order: 'asc' },
+  { label: 'Name Z–A', sort: 'name', order: 'desc' },
+];
+
+/** Status of a client's most recent notification, or null when it has none */
+async function lastNotifStatus(clientId: string): Promise<NotificationEvent['status'] | null> {
+  const { items } = await fetchNotifications({ clientId, limit: 1 });
+  return items[0]?.status ?? null;
 }
 
 export function ClientsPage() {
   const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<Client | null>(null);
   const [search, setSearch] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [sortIndex, setSortIndex] = useState(0);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const query = useDebouncedValue(search.trim());
+  const pages = useCursorPages([query, showArchived, sortIndex].join('|'));
+  const { cursor } = pages;
 
   const fetchAll = useCallback(async () => {
-    const [clients, notifications] = await Promise.all([
-      fetchClients(),
-      fetchNotifications().catch(() => [] as NotificationEvent[]),
-    ]);
-    return { clients, notifications };
-  }, []);
+    const { sort, order } = SORTS[sortIndex];
+    const page = await fetchClientPage({
+      limit: PAGE_SIZE,
+      cursor,
+      sort,
+      order,
+      q: query || undefined,
+      ...(showArchived ? { includeArchived: true } : {}),
+    });
+    const statuses = await Promise.all(page.items.map((c) => lastNotifStatus(c.id).catch(() => null)));
+    const lastStatus = new Map(page.items.map((c, i) => [c.id, statuses[i]]));
+    return { page, lastStatus };
+  }, [cursor, query, showArchived, sortIndex]);
 
   const { data, loading, error, refresh } = usePolling(fetchAll, 12000);
 
-  const filteredClients = (data?.clients ?? []).filter((c) => {
-    if (!search.trim()) return true;
-    const q = search.toLowerCase();
-    return (
-      c.name.toLowerCase().includes(q) ||
-      (c.email ?? '').toLowerCase().includes(q) ||
-      (c.company ?? '').toLowerCase().includes(q)
-    );
-  });
+  /** Run an archive, restore or delete action for one client */
+  async function handleAction(client: Client, action: 'archive' | 'restore' | 'delete') {
+    if (
+      action === 'delete' &&
+      !window.confirm(`Delete ${client.name} with all its tasks, emails, summaries and notifications? This cannot be undone.`)
+    ) {
+      return;
+    }
+
+    setBusy(client.id);
+    setActionError(null);
+    try {
+      if (action === 'archive') await archiveClient(client.id);
+      else if (action === 'restore') await restoreClient(client.id);
+      else await deleteClient(client.id);
+      refresh();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : `Failed to ${action} client`);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const clients = data?.page.items ?? [];
 
   return (
     <div className="space-y-6">
-      {error && (
+      {(error || actionError) && (
         <div className="rounded-lg bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 px-4 py-3 text-sm text-rose-700 dark:text-rose-300">
-          ⚠️ {error}
+          ⚠️ {error ?? actionError}
         </div>
       )}
 
-      <Card title={`Clients (${filteredClients.length}${data?.clients && filteredClients.length !== data.clients.length ? ` of ${data.clients.length}` : ''})`}>
-        {/* Search bar */}
-        <div className="mb-4">
+      <Card title={`Clients${data ? ` (${data.page.total})` : ''}`}>
+        {/* Search bar — searched on the server */}
+        <div className="mb-4 flex flex-wrap items-center gap-4">
           <input
             type="text"
             placeholder="Search by name, email, or company…"
@@ -74,10 +119,28 @@ export function ClientsPage() {
             onChange={(e) => setSearch(e.target.value)}
             className="w-full sm:w-80 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-sky-500"
           />
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="rounded border-slate-300 dark:border-slate-600 text-sky-600 focus:ring-sky-500"
+            />
+            Show archived
+          </label>
+          <select
+            value={sortIndex}
+            onChange={(e) => setSortIndex(Number(e.target.value))}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            {SORTS.map((option, index) => (
+              <option key={option.label} value={index}>{option.label}</option>
+            ))}
+          </select>
         </div>
         {loading && !data ? (
           <div className="flex justify-center py-8"><Spinner /></div>
-        ) : !filteredClients.length ? (
+        ) : !clients.length ? (
           <EmptyState
             icon="👤"
             title={search ? 'No clients match your search' : 'No clients yet'}
@@ -97,18 +160,24 @@ export function ClientsPage() {
                 </tr>
               </thead>
               <tbody>
-              {filteredClients.map((client: Client) => {
-                  const status = lastNotifStatus(data?.notifications ?? [], client.id);
+              {clients.map((client: Client) => {
+                  const status = data?.lastStatus.get(client.id) ?? null;
                   return (
                     <tr
                       key={client.id}
-                      className="border-b border-slate-50 dark:border-slate-800/50 hover:bg-slate-50 dark:hover:bg-slate-800/40 transition-colors"
+                      className={clsx(
+                        'border-b border-slate-50 dark:border-slate-800/50 hover:bg-slate-50 dark:hover:bg-slate-800/40 transition-colors',
+                        client.archived_at && 'opacity-60'
+                      )}
                     >
                       <td className="px-5 py-3 font-medium text-slate-900 dark:text-slate-100">
                         {client.name}
                         {client.company && (
                           <span className="ml-1.5 text-xs text-slate-400">· {client.company}</span>
                         )}
+                        {client.archived_at && (
+                          <Badge variant="gray" className="ml-2">archived</Badge>
+                        )}
                       </td>
                       <td className="px-5 py-3 text-slate-500 dark:text-slate-400">
                         {client.email ?? <span className="italic text-slate-300 dark:text-slate-600">—</span>}
@@ -136,6 +205,25 @@ export function ClientsPage() {
                       </td>
                       <td className="px-5 py-3">
                         <div className="flex items-center gap-1.5">
+                          <Button size="sm" variant="ghost" onClick={() => setEditing(client)}>
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            loading={busy === client.id}
+                            onClick={() => handleAction(client, client.archived_at ? 'restore' : 'archive')}
+                          >
+                            {client.archived_at ? 'Restore' : 'Archive'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="danger"
+                            disabled={busy === client.id}
+                            onClick={() => handleAction(client, 'delete')}
+                          >
+                            Delete
+                          </Button>
                           <Button
                             size="sm"
                             variant="ghost"
@@ -174,9 +262,22 @@ export function ClientsPage() {
           <Button variant="primary" size="sm" onClick={() => setShowModal(true)}>
             + New Client
           </Button>
-          <Button variant="secondary" size="sm" onClick={refresh} loading={loading}>
-            Refresh
-          </Button>
+          <div className="flex items-center gap-3">
+            {data && (
+              <Pagination
+                pageNumber={pages.pageNumber}
+                pageSize={PAGE_SIZE}
+                shown={clients.length}
+                total={data.page.total}
+                nextCursor={data.page.nextCursor}
+                onNext={pages.next}
+                onPrevious={pages.previous}
+              />
+            )}
+            <Button variant="secondary" size="sm" onClick={refresh} loading={loading}>
+              Refresh
+            </Button>
+          </div>
         </div>
       </Card>
 
@@ -186,6 +287,14 @@ export function ClientsPage() {
           onCreated={() => { setShowModal(false); refresh(); }}
         />
       )}
+
+      {editing && (
+        <EditClientModal
+          client={editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => { setEditing(null); refresh(); }}
+        />
+      )}
     </div>
   );
 }
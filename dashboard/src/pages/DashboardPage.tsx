@@ -4,10 +4,12 @@
  * Live data sources:
  *   - GET /health           → system status
  *   - GET /clients          → total clients
- *   - GET /notifications    → pending / failed / sent counts
+ *   - GET /notifications    → recent notifications, pending / failed counts
  *   - GET /task             → total tasks processed
  *   - GET /summaries        → total summaries generated
  *
+ * Counts are the list totals of one-row pages, so they cover every row.
+ *
  * Locked (future):
  *   - Historical trend charts (emails/summaries over time)
  *   - System health per Mac
@@ -29,6 +31,7 @@ import { LockedFeature } from '../components/ui/LockedFeature';
 import { Spinner } from '../components/ui/Spinner';
 import { usePolling } from '../hooks/usePolling';
 import { fetchHealth, fetchClients, fetchNotifications, fetchTasks, fetchSummaries } from '../api/client';
+import type { Page } from '../api/client';
 import type { NotificationEvent, Client } from '../types';
 
 // Placeholder data for the locked trend chart
@@ -42,30 +45,29 @@ const PLACEHOLDER_TREND = [
   { day: 'Sun', emails: 5, summaries: 4 },
 ];
 
-function notifCounts(notifications: NotificationEvent[]) {
-  const pending = notifications.filter((n) => n.status === 'pending').length;
-  const failed  = notifications.filter((n) => n.status === 'failed').length;
-  const sent    = notifications.filter((n) => n.status === 'sent').length;
-  return { pending, failed, sent };
+/** Rows matching a list's filters; 0 when it cannot be fetched */
+function total(page: Promise<Page<unknown>>): Promise<number> {
+  return page.then((p) => p.total).catch(() => 0);
 }
 
 export function DashboardPage() {
   const fetchAll = useCallback(async () => {
-    const [health, clients, notifications, tasks, summaries] = await Promise.all([
+    const [health, clients, notifications, pending, failed, completedTasks, summaries] = await Promise.all([
       fetchHealth().catch(() => null),
       fetchClients().catch(() => [] as Client[]),
-      fetchNotifications().catch(() => [] as NotificationEvent[]),
-      fetchTasks(500).catch(() => []),
-      fetchSummaries({ limit: 500 }).catch(() => []),
+      fetchNotifications({ limit: 8 }).then((p) => p.items).catch(() => [] as NotificationEvent[]),
+      total(fetchNotifications({ status: 'pending', limit: 1 })),
+      total(fetchNotifications({ status: 'failed', limit: 1 })),
+      total(fetchTasks({ status: 'completed', limit: 1 })),
+      total(fetchSummaries({ limit: 1 })),
     ]);
     const clientMap = new Map(clients.map(c => [c.id, c.name]));
-    const completedTasks = tasks.filter(t => t.status === 'completed').length;
-    return { health, clients, notifications, tasks, summaries, clientMap, completedTasks };
+    return { health, clients, notifications, counts: { pending, failed }, completedTasks, summaries, clientMap };
   }, []);
 
   const { data, loading, error } = usePolling(fetchAll, 12000);
 
-  const counts = notifCounts(data?.notifications ?? []);
+  const counts = data?.counts ?? { pending: 0, failed: 0 };
   const systemOnline = data?.health?.status === 'ok';
 
   return (
@@ -121,7 +123,7 @@ export function DashboardPage() {
       <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
         <StatCard
           label="Summaries Generated"
-          value={loading ? '…' : data?.summaries?.length ?? 0}
+          value={loading ? '…' : data?.summaries ?? 0}
           icon={
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
@@ -203,7 +205,7 @@ export function DashboardPage() {
                 </tr>
               </thead>
               <tbody>
-                {data.notifications.slice(0, 8).map((n) => (
+                {data.notifications.map((n) => (
                   <tr key={n.id} className="border-b border-slate-50 dark:border-slate-800/50 hover:bg-slate-50 dark:hover:bg-slate-800/40 transition-colors">
                     <td className="px-5 py-2.5 font-mono text-xs text-slate-400">{n.id.slice(0, 8)}…</td>
                     <td className="px-5 py-2.5 text-xs text-slate-700 dark:text-slate-300">
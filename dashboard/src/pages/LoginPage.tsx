@@ -1,30 +1,36 @@
 /**
- * LoginPage — simple auth gate for the dashboard.
+ * LoginPage — sign-in form for the dashboard.
  *
- * If VITE_DASHBOARD_ACCESS_CODE is set in the environment, the user must enter it
- * to access the dashboard. The result is persisted in sessionStorage so the user
- * stays logged in for the session. If the env var is not set, auth is bypassed.
+ * The user's email and password are exchanged for a session token in their organization
+ * by POST /auth/login; the token is kept in sessionStorage and sent with every request.
  */
 import React, { useState } from 'react';
+import { login } from '../api/client';
 
 interface LoginPageProps {
   onAuthenticated: () => void;
 }
 
-const ACCESS_CODE = import.meta.env.VITE_DASHBOARD_ACCESS_CODE as string | undefined;
-
 export function LoginPage({ onAuthenticated }: LoginPageProps) {
-  const [code, setCode] = useState('');
-  const [error, setError] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
 
-  function handleSubmit(e: React.FormEvent) {
+  async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!ACCESS_CODE || code === ACCESS_CODE) {
-      sessionStorage.setItem('dashboard-auth', '1');
-      onAuthenticated();
-    } else {
-      setError(true);
-      setCode('');
+    setSubmitting(true);
+    try {
+      if (await login(email, password)) {
+        onAuthenticated();
+        return;
+      }
+      setError('Incorrect email or password. Please try again.');
+      setPassword('');
+    } catch {
+      setError('Could not reach the server. Please try again later.');
+    } finally {
+      setSubmitting(false);
     }
   }
 
@@ -42,30 +48,46 @@ export function LoginPage({ onAuthenticated }: LoginPageProps) {
           <form onSubmit={handleSubmit} className="space-y-4">
             {error && (
               <div className="rounded-lg bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 px-3 py-2.5 text-sm text-rose-700 dark:text-rose-300">
-                ⚠️ Incorrect access code. Please try again.
+                ⚠️ {error}
               </div>
             )}
             <div>
-              <label htmlFor="access-code" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                Access Code
+              <label htmlFor="email" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                autoComplete="username"
+                autoFocus
+                value={email}
+                onChange={(e) => { setEmail(e.target.value); setError(null); }}
+                placeholder="you@agency.com"
+                className="w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2.5 text-sm text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-sky-500"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Password
               </label>
               <input
-                id="access-code"
+                id="password"
                 type="password"
                 autoComplete="current-password"
-                autoFocus
-                value={code}
-                onChange={(e) => { setCode(e.target.value); setError(false); }}
-                placeholder="Enter your access code"
+                value={password}
+                onChange={(e) => { setPassword(e.target.value); setError(null); }}
+                placeholder="Enter your password"
                 className="w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-3 py-2.5 text-sm text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-sky-500"
                 required
               />
             </div>
             <button
               type="submit"
-              className="w-full rounded-lg bg-sky-600 hover:bg-sky-700 text-white font-medium text-sm py-2.5 transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2"
+              disabled={submitting}
+              className="w-full rounded-lg bg-sky-600 hover:bg-sky-700 disabled:opacity-60 text-white font-medium text-sm py-2.5 transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2"
             >
-              Sign In
+              {submitting ? 'Signing in…' : 'Sign In'}
             </button>
           </form>
         </div>
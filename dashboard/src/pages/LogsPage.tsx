@@ -1,9 +1,9 @@
 /**
- * Logs page — shows recent tasks with their status and output (summary).
- * Live data from GET /task and GET /summaries.
+ * Logs page — shows tasks with their status and output (summary), a page at a time.
+ * Live data from GET /task, filtered and paged on the server by client, status,
+ * date range and text.
  *
  * Locked (future):
- *   - Log filtering by date/client
  *   - Export logs
  *   - Live log stream from orchestrator
  */
@@ -14,10 +14,27 @@ import { Button } from '../components/ui/Button';
 import { Spinner } from '../components/ui/Spinner';
 import { EmptyState } from '../components/ui/EmptyState';
 import { LockedFeature } from '../components/ui/LockedFeature';
+import { Pagination } from '../components/ui/Pagination';
 import { usePolling } from '../hooks/usePolling';
+import { useCursorPages } from '../hooks/useCursorPages';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
 import { fetchTasks, fetchClients } from '../api/client';
 import type { Task, Client } from '../types';
 
+const PAGE_SIZE = 50;
+
+const STATUS_FILTERS: Task['status'][] = ['pending', 'processing', 'completed', 'failed'];
+
+const FILTER_CLASS =
+  'rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+/** Start of a local day ('YYYY-MM-DD' from a date input), plus some days, as an ISO timestamp */
+function startOfDay(day: string, plusDays = 0): string {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + plusDays);
+  return date.toISOString();
+}
+
 const STATUS_VARIANT: Record<Task['status'], 'green' | 'yellow' | 'red' | 'gray' | 'blue'> = {
   completed: 'green',
   processing: 'blue',
@@ -28,21 +45,35 @@ const STATUS_VARIANT: Record<Task['status'], 'green' | 'yellow' | 'red' | 'gray'
 export function LogsPage() {
   const [expanded, setExpanded] = useState<string | null>(null);
   const [clientFilter, setClientFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<Task['status'] | 'all'>('all');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [search, setSearch] = useState('');
+  const query = useDebouncedValue(search.trim());
+  const pages = useCursorPages([clientFilter, statusFilter, fromDay, toDay, query].join('|'));
+  const { cursor } = pages;
 
   const fetchAll = useCallback(async () => {
     const [tasks, clients] = await Promise.all([
-      fetchTasks(100),
-      fetchClients().catch(() => [] as Client[]),
+      fetchTasks({
+        limit: PAGE_SIZE,
+        cursor,
+        clientId: clientFilter !== 'all' ? clientFilter : undefined,
+        status: statusFilter !== 'all' ? statusFilter : undefined,
+        from: fromDay ? startOfDay(fromDay) : undefined,
+        to: toDay ? startOfDay(toDay, 1) : undefined,
+        q: query || undefined,
+      }),
+      fetchClients(true).catch(() => [] as Client[]),
     ]);
     const clientMap = new Map(clients.map(c => [c.id, c.name]));
     return { tasks, clients, clientMap };
-  }, []);
+  }, [cursor, clientFilter, statusFilter, fromDay, toDay, query]);
 
   const { data, loading, error, refresh } = usePolling(fetchAll, 12000);
 
-  const filteredTasks = (data?.tasks ?? []).filter(
-    (t) => clientFilter === 'all' || t.client_id === clientFilter
-  );
+  const tasks = data?.tasks.items ?? [];
+  const filtered = clientFilter !== 'all' || statusFilter !== 'all' || fromDay || toDay || query;
 
   return (
     <div className="space-y-6">
@@ -52,34 +83,52 @@ export function LogsPage() {
         </div>
       )}
 
-      {/* Search/filter bar — client filter active, date/export locked */}
+      {/* Search/filter bar — applied on the server */}
       <Card>
         <div className="flex items-center gap-3 flex-wrap">
-          <select
-            value={clientFilter}
-            onChange={(e) => setClientFilter(e.target.value)}
-            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-500"
-          >
+          <input
+            type="text"
+            placeholder="Search input, output or error…"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className={`w-full sm:w-72 placeholder-slate-400 dark:placeholder-slate-500 ${FILTER_CLASS}`}
+          />
+          <select value={clientFilter} onChange={(e) => setClientFilter(e.target.value)} className={FILTER_CLASS}>
             <option value="all">All Clients</option>
             {(data?.clients ?? []).map((c) => (
               <option key={c.id} value={c.id}>{c.name}</option>
             ))}
           </select>
-          <LockedFeature message="Date range filter — coming soon">
-            <Button variant="secondary" size="sm" disabled>Date Range</Button>
-          </LockedFeature>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as Task['status'] | 'all')}
+            className={FILTER_CLASS}
+          >
+            <option value="all">All Statuses</option>
+            {STATUS_FILTERS.map((status) => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+            From
+            <input type="date" value={fromDay} max={toDay || undefined} onChange={(e) => setFromDay(e.target.value)} className={FILTER_CLASS} />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+            To
+            <input type="date" value={toDay} min={fromDay || undefined} onChange={(e) => setToDay(e.target.value)} className={FILTER_CLASS} />
+          </label>
         </div>
       </Card>
 
       {/* Task log table */}
-      <Card title={`Tasks${filteredTasks ? ` (${filteredTasks.length})` : ''}`}>
+      <Card title={`Tasks${data ? ` (${data.tasks.total})` : ''}`}>
         {loading && !data ? (
           <div className="flex justify-center py-8"><Spinner /></div>
-        ) : !filteredTasks?.length ? (
+        ) : !tasks.length ? (
           <EmptyState
             icon="📋"
-            title="No tasks yet"
-            description="Tasks appear here once emails or documents are processed."
+            title={filtered ? 'No tasks match the filters' : 'No tasks yet'}
+            description={filtered ? 'Try other filters or dates.' : 'Tasks appear here once emails or documents are processed.'}
           />
         ) : (
           <div className="overflow-x-auto -mx-5">
@@ -95,7 +144,7 @@ export function LogsPage() {
                 </tr>
               </thead>
               <tbody>
-                {filteredTasks.map((task: Task) => {
+                {tasks.map((task: Task) => {
                   const isExpanded = expanded === task.id;
                   const clientName = data?.clientMap.get(task.client_id);
                   return (
@@ -110,6 +159,9 @@ export function LogsPage() {
                       </td>
                       <td className="px-5 py-2.5">
                         <Badge variant={STATUS_VARIANT[task.status]}>{task.status}</Badge>
+                        {task.status === 'failed' && task.error_category && (
+                          <span className="ml-1.5 text-xs text-rose-500 dark:text-rose-400">{task.error_category.replace('_', ' ')}</span>
+                        )}
                       </td>
                       <td className="px-5 py-2.5 text-slate-500 dark:text-slate-400 max-w-xs">
                         <span className="block truncate">
@@ -144,9 +196,22 @@ export function LogsPage() {
           >
             Export CSV
           </Button>
-          <Button variant="secondary" size="sm" onClick={refresh} loading={loading}>
-            Refresh
-          </Button>
+          <div className="flex items-center gap-3">
+            {data && (
+              <Pagination
+                pageNumber={pages.pageNumber}
+                pageSize={PAGE_SIZE}
+                shown={tasks.length}
+                total={data.tasks.total}
+                nextCursor={data.tasks.nextCursor}
+                onNext={pages.next}
+                onPrevious={pages.previous}
+              />
+            )}
+            <Button variant="secondary" size="sm" onClick={refresh} loading={loading}>
+              Refresh
+            </Button>
+          </div>
         </div>
       </Card>
 
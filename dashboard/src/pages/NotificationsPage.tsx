@@ -1,13 +1,14 @@
 /**
- * Notifications page — table of all notification events with status filters.
+ * Notifications page — table of notification events with status, client, channel and
+ * text filters, paged on the server.
  *
  * Live data:
- *   - GET /notifications?status=xxx → filtered list
+ *   - GET /notifications?status=xxx → filtered page
  *   - GET /clients → for displaying client names
+ *   - POST /notifications/:id/retry → retry one failed notification
+ *   - POST /notifications/retry → retry all failed notifications
  *
  * Locked:
- *   - Retry per notification (needs POST /notifications/:id/retry)
- *   - Bulk retry
  *   - Export
  */
 import React, { useCallback, useState } from 'react';
@@ -16,63 +17,130 @@ import { Badge } from '../components/ui/Badge';
 import { Button } from '../components/ui/Button';
 import { Spinner } from '../components/ui/Spinner';
 import { EmptyState } from '../components/ui/EmptyState';
+import { Pagination } from '../components/ui/Pagination';
 import { usePolling } from '../hooks/usePolling';
-import { fetchNotifications, fetchClients } from '../api/client';
-import type { NotificationEvent, Client } from '../types';
+import { useCursorPages } from '../hooks/useCursorPages';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { fetchNotifications, fetchClients, retryNotification, retryFailedNotifications } from '../api/client';
+import type { NotificationChannel, NotificationEvent, Client } from '../types';
 
-type FilterStatus = 'all' | 'pending' | 'sent' | 'failed';
+const PAGE_SIZE = 50;
+
+const FILTER_CLASS =
+  'rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+type FilterStatus = 'all' | 'pending' | 'sent' | 'failed' | 'skipped';
 
 const FILTER_TABS: { label: string; value: FilterStatus }[] = [
   { label: 'All', value: 'all' },
   { label: 'Pending', value: 'pending' },
   { label: 'Sent', value: 'sent' },
   { label: 'Failed', value: 'failed' },
+  { label: 'Skipped', value: 'skipped' },
 ];
 
 export function NotificationsPage() {
   const [filter, setFilter] = useState<FilterStatus>('all');
+  const [clientFilter, setClientFilter] = useState<string>('all');
+  const [channelFilter, setChannelFilter] = useState<NotificationChannel | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const query = useDebouncedValue(search.trim());
+  const pages = useCursorPages([filter, clientFilter, channelFilter, query].join('|'));
+  const { cursor } = pages;
 
   const fetchFn = useCallback(async () => {
-    const [notifications, clients] = await Promise.all([
-      fetchNotifications(filter !== 'all' ? { status: filter } : undefined),
-      fetchClients().catch(() => [] as Client[]),
+    const [page, clients] = await Promise.all([
+      fetchNotifications({
+        limit: PAGE_SIZE,
+        cursor,
+        status: filter !== 'all' ? filter : undefined,
+        clientId: clientFilter !== 'all' ? clientFilter : undefined,
+        type: channelFilter !== 'all' ? channelFilter : undefined,
+        q: query || undefined,
+      }),
+      fetchClients(true).catch(() => [] as Client[]),
     ]);
     const clientMap = new Map(clients.map(c => [c.id, c.name]));
-    return { notifications, clientMap };
-  }, [filter]);
+    return { page, clients, clientMap };
+  }, [cursor, filter, clientFilter, channelFilter, query]);
 
   const { data, loading, error, refresh } = usePolling(fetchFn, 12000);
 
-  const notifications = data?.notifications ?? null;
+  const notifications = data?.page.items ?? null;
   const clientMap = data?.clientMap ?? new Map<string, string>();
 
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [retryError, setRetryError] = useState<string | null>(null);
+
+  /** Retry one notification by id, or every failed one with 'all' */
+  async function handleRetry(target: string) {
+    setRetrying(target);
+    setRetryError(null);
+    try {
+      if (target === 'all') {
+        await retryFailedNotifications();
+      } else {
+        await retryNotification(target);
+      }
+      refresh();
+    } catch (err) {
+      setRetryError(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setRetrying(null);
+    }
+  }
+
   return (
     <div className="space-y-6">
-      {error && (
+      {(error || retryError) && (
         <div className="rounded-lg bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 px-4 py-3 text-sm text-rose-700 dark:text-rose-300">
-          ⚠️ {error}
+          ⚠️ {error ?? retryError}
         </div>
       )}
 
-      {/* Filter tabs */}
-      <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg w-fit">
-        {FILTER_TABS.map((tab) => (
-          <button
-            key={tab.value}
-            onClick={() => setFilter(tab.value)}
-            className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
-              filter === tab.value
-                ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-50 shadow-sm'
-                : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100'
-            }`}
-          >
-            {tab.label}
-          </button>
-        ))}
+      {/* Filters — applied on the server */}
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg w-fit">
+          {FILTER_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setFilter(tab.value)}
+              className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                filter === tab.value
+                  ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-50 shadow-sm'
+                  : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-100'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <select value={clientFilter} onChange={(e) => setClientFilter(e.target.value)} className={FILTER_CLASS}>
+          <option value="all">All Clients</option>
+          {(data?.clients ?? []).map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <select
+          value={channelFilter}
+          onChange={(e) => setChannelFilter(e.target.value as NotificationChannel | 'all')}
+          className={FILTER_CLASS}
+        >
+          <option value="all">All Channels</option>
+          <option value="email">email</option>
+          <option value="whatsapp">whatsapp</option>
+        </select>
+        <input
+          type="text"
+          placeholder="Search errors or message ids…"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={`w-full sm:w-64 placeholder-slate-400 dark:placeholder-slate-500 ${FILTER_CLASS}`}
+        />
       </div>
 
       {/* Table */}
-      <Card title={`Notifications${notifications ? ` (${notifications.length})` : ''}`}>
+      <Card title={`Notifications${data ? ` (${data.page.total})` : ''}`}>
         {loading && !notifications ? (
           <div className="flex justify-center py-8"><Spinner /></div>
         ) : !notifications?.length ? (
@@ -107,15 +175,21 @@ export function NotificationsPage() {
                       <Badge variant={n.type === 'email' ? 'blue' : 'gray'}>{n.type}</Badge>
                     </td>
                     <td className="px-5 py-2.5">
-                      <Badge
-                        variant={
-                          n.status === 'sent' ? 'green'
-                          : n.status === 'pending' ? 'yellow'
-                          : 'red'
-                        }
-                      >
-                        {n.status}
-                      </Badge>
+                      <span title={n.skip_reason ?? n.last_error ?? undefined}>
+                        <Badge
+                          variant={
+                            n.status === 'sent' ? 'green'
+                            : n.status === 'pending' || n.status === 'sending' ? 'yellow'
+                            : n.status === 'skipped' ? 'gray'
+                            : 'red'
+                          }
+                        >
+                          {n.status}
+                        </Badge>
+                      </span>
+                      {n.delivery_status && n.delivery_status !== n.status && (
+                        <span className="ml-1.5 text-xs text-slate-400">{n.delivery_status}</span>
+                      )}
                     </td>
                     <td className="px-5 py-2.5 text-xs text-slate-400">
                       {n.created_at ? new Date(n.created_at).toLocaleString() : '—'}
@@ -124,14 +198,17 @@ export function NotificationsPage() {
                       {n.updated_at ? new Date(n.updated_at).toLocaleString() : '—'}
                     </td>
                     <td className="px-5 py-2.5">
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        locked
-                        lockMessage="Retry — coming soon"
-                      >
-                        Retry
-                      </Button>
+                      {n.status === 'failed' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRetry(n.id)}
+                          loading={retrying === n.id}
+                          disabled={retrying !== null}
+                        >
+                          Retry
+                        </Button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -148,12 +225,24 @@ export function NotificationsPage() {
           >
             Export CSV
           </Button>
-          <div className="flex gap-2">
+          <div className="flex items-center gap-2">
+            {data && (
+              <Pagination
+                pageNumber={pages.pageNumber}
+                pageSize={PAGE_SIZE}
+                shown={data.page.items.length}
+                total={data.page.total}
+                nextCursor={data.page.nextCursor}
+                onNext={pages.next}
+                onPrevious={pages.previous}
+              />
+            )}
             <Button
               variant="danger"
               size="sm"
-              locked
-              lockMessage="Bulk retry — coming soon"
+              onClick={() => handleRetry('all')}
+              loading={retrying === 'all'}
+              disabled={retrying !== null}
             >
               Retry All Failed
             </Button>
@@ -1,14 +1,20 @@
 /**
  * Settings page — configuration for the Included AI system.
  *
- * All settings are locked / not yet implemented.
+ * Live:
+ *   - Retry settings, read-only (GET /settings/notification-retry)
+ *
+ * Other settings are locked / not yet implemented.
  * Shown for visibility and future implementation.
  */
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
 import { LockedFeature } from '../components/ui/LockedFeature';
 import { Badge } from '../components/ui/Badge';
+import { Spinner } from '../components/ui/Spinner';
+import { fetchRetryPolicy } from '../api/client';
+import type { NotificationRetryPolicy } from '../types';
 
 export function SettingsPage() {
   return (
@@ -84,40 +90,59 @@ export function SettingsPage() {
         </Card>
       </LockedFeature>
 
-      {/* Auto-retry settings — locked */}
-      <LockedFeature message="Auto-retry configuration — coming soon">
-        <Card title="Retry Settings">
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm font-medium">Auto-retry failed notifications</p>
-                <p className="text-xs text-slate-400 mt-0.5">Automatically retry failed email sends</p>
-              </div>
-              <div className="relative">
-                <div className="w-10 h-6 bg-slate-200 dark:bg-slate-700 rounded-full"></div>
-                <div className="absolute top-1 left-1 w-4 h-4 bg-white rounded-full shadow"></div>
-              </div>
+      {/* Auto-retry settings — live */}
+      <RetrySettingsCard />
+    </div>
+  );
+}
+
+/**
+ * Automatic retry policy for failed notifications. It is shared by every organization, so
+ * only the platform operator can change it (PUT /settings/notification-retry with the
+ * operator key); the dashboard shows it read-only.
+ */
+function RetrySettingsCard() {
+  const [policy, setPolicy] = useState<NotificationRetryPolicy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRetryPolicy()
+      .then(setPolicy)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load retry settings'));
+  }, []);
+
+  return (
+    <Card title="Retry Settings">
+      {!policy ? (
+        error ? (
+          <p className="text-sm text-rose-600 dark:text-rose-400">⚠️ {error}</p>
+        ) : (
+          <div className="flex justify-center py-4"><Spinner /></div>
+        )
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">Auto-retry failed notifications</p>
+              <p className="text-xs text-slate-400 mt-0.5">Automatically retry failed email and WhatsApp sends</p>
             </div>
+            <Badge variant={policy.enabled ? 'green' : 'gray'}>{policy.enabled ? 'On' : 'Off'}</Badge>
+          </div>
+          <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Retry Interval (minutes)</label>
-              <input
-                readOnly
-                defaultValue="15"
-                className="w-32 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-4 py-2 text-sm text-slate-500 dark:text-slate-400"
-              />
+              <p className="text-xs text-slate-400">Retry Interval</p>
+              <p className="font-medium text-slate-900 dark:text-slate-100">{policy.intervalMinutes} min</p>
             </div>
             <div>
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Max Retries</label>
-              <input
-                readOnly
-                defaultValue="3"
-                className="w-32 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 px-4 py-2 text-sm text-slate-500 dark:text-slate-400"
-              />
+              <p className="text-xs text-slate-400">Max Retries</p>
+              <p className="font-medium text-slate-900 dark:text-slate-100">{policy.maxRetries}</p>
             </div>
-            <Button locked lockMessage="Not implemented yet">Save Retry Settings</Button>
           </div>
-        </Card>
-      </LockedFeature>
-    </div>
+          <p className="text-xs text-slate-400">
+            These settings apply to every organization and can only be changed by the platform operator.
+          </p>
+        </div>
+      )}
+    </Card>
   );
 }
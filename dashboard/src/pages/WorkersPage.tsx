@@ -2,9 +2,11 @@
  * Workers page — LLM task queue monitoring and processing pipeline overview.
  *
  * Live data sources:
- *   - GET /task        → task queue with status distribution
+ *   - GET /task        → task queue, and status counts from the list totals
  *   - GET /summaries   → recently generated summaries
  *   - GET /clients     → for client name resolution
+ *   - GET /workers/stats → automation worker stats (reaped stale tasks); needs the platform
+ *     operator key, so the card says so for organization sessions
  *
  * Locked (future):
  *   - Real-time worker health metrics (CPU / RAM per Mac)
@@ -19,7 +21,7 @@ import { Spinner } from '../components/ui/Spinner';
 import { EmptyState } from '../components/ui/EmptyState';
 import { LockedFeature } from '../components/ui/LockedFeature';
 import { usePolling } from '../hooks/usePolling';
-import { fetchTasks, fetchSummaries, fetchClients } from '../api/client';
+import { fetchTasks, fetchSummaries, fetchClients, fetchWorkerStats } from '../api/client';
 import type { Task, Summary, Client } from '../types';
 
 const STATUS_VARIANT: Record<Task['status'], 'green' | 'yellow' | 'red' | 'gray' | 'blue'> = {
@@ -31,17 +33,26 @@ const STATUS_VARIANT: Record<Task['status'], 'green' | 'yellow' | 'red' | 'gray'
 
 export function WorkersPage() {
   const fetchAll = useCallback(async () => {
-    const [tasks, summaries, clients] = await Promise.all([
-      fetchTasks(200),
-      fetchSummaries({ limit: 20 }),
-      fetchClients().catch(() => [] as Client[]),
+    const [pendingTasks, processingTasks, completedTasks, failedTasks, summaries, clients, workerStats] = await Promise.all([
+      fetchTasks({ status: 'pending', limit: 50 }),
+      fetchTasks({ status: 'processing', limit: 50 }),
+      fetchTasks({ status: 'completed', limit: 1 }),
+      fetchTasks({ status: 'failed', limit: 1 }),
+      fetchSummaries({ limit: 20 }).then((p) => p.items),
+      fetchClients(true).catch(() => [] as Client[]),
+      fetchWorkerStats().catch(() => null),
     ]);
     const clientMap = new Map(clients.map((c) => [c.id, c.name]));
-    const pending    = tasks.filter((t) => t.status === 'pending').length;
-    const processing = tasks.filter((t) => t.status === 'processing').length;
-    const completed  = tasks.filter((t) => t.status === 'completed').length;
-    const failed     = tasks.filter((t) => t.status === 'failed').length;
-    return { tasks, summaries, clientMap, pending, processing, completed, failed };
+    return {
+      activeTasks: [...processingTasks.items, ...pendingTasks.items],
+      summaries,
+      clientMap,
+      pending: pendingTasks.total,
+      processing: processingTasks.total,
+      completed: completedTasks.total,
+      failed: failedTasks.total,
+      workerStats,
+    };
   }, []);
 
   const { data, loading, error, refresh } = usePolling(fetchAll, 10000);
@@ -102,14 +113,68 @@ export function WorkersPage() {
         />
       </div>
 
+      {/* Stale task reaper */}
+      <Card title="Stale Task Reaper">
+        {loading && !data ? (
+          <div className="flex justify-center py-4"><Spinner /></div>
+        ) : !data?.workerStats ? (
+          <p className="text-sm text-slate-400">Worker stats cover every organization and are only available to the platform operator.</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-xs text-slate-400">Re-queued</p>
+              <p className="text-xl font-semibold text-slate-900 dark:text-slate-100">{data.workerStats.automation.reapedRequeued}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Failed (out of attempts)</p>
+              <p className={`text-xl font-semibold ${data.workerStats.automation.reapedFailed ? 'text-rose-600 dark:text-rose-400' : 'text-slate-900 dark:text-slate-100'}`}>
+                {data.workerStats.automation.reapedFailed}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Last run</p>
+              <p className="text-sm text-slate-700 dark:text-slate-300">
+                {data.workerStats.automation.lastRunAt ? new Date(data.workerStats.automation.lastRunAt).toLocaleString() : '—'}
+              </p>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {/* Report scheduler */}
+      <Card title="Report Scheduler">
+        {loading && !data ? (
+          <div className="flex justify-center py-4"><Spinner /></div>
+        ) : !data?.workerStats?.reports ? (
+          <p className="text-sm text-slate-400">Scheduler stats unavailable.</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-xs text-slate-400">Reports sent</p>
+              <p className="text-xl font-semibold text-slate-900 dark:text-slate-100">{data.workerStats.reports.generated}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Failed</p>
+              <p className={`text-xl font-semibold ${data.workerStats.reports.failed ? 'text-rose-600 dark:text-rose-400' : 'text-slate-900 dark:text-slate-100'}`}>
+                {data.workerStats.reports.failed}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Last run</p>
+              <p className="text-sm text-slate-700 dark:text-slate-300">
+                {data.workerStats.reports.lastRunAt ? new Date(data.workerStats.reports.lastRunAt).toLocaleString() : '—'}
+              </p>
+            </div>
+          </div>
+        )}
+      </Card>
+
       {/* Active / in-queue tasks */}
       <Card title="Task Queue (Pending &amp; Processing)">
         {loading && !data ? (
           <div className="flex justify-center py-8"><Spinner /></div>
         ) : (() => {
-          const activeTasks = (data?.tasks ?? []).filter(
-            (t) => t.status === 'pending' || t.status === 'processing'
-          );
+          const activeTasks = data?.activeTasks ?? [];
           return activeTasks.length === 0 ? (
             <EmptyState icon="✅" title="Queue is clear" description="No tasks pending or in progress." />
           ) : (
@@ -1,33 +1,92 @@
-/** Data models mirroring the backend types */
-
-export interface WorkflowSettings {
-  reportFrequency: 'daily' | 'weekly' | 'none';
-  emailNotifications: boolean;
-  whatsappNotifications: boolean;
-}
+/**
+ * API types, generated from lib/apiSchemas.ts by `npm run generate:types`. Do not edit:
+ * change the schemas and run the script again.
+ */
 
 export interface Client {
   id: string;
+  /** The agency (organization) that manages this client */
+  organization_id?: string;
   name: string;
-  email?: string;
-  company?: string;
-  phone?: string;
-  workflow_settings?: WorkflowSettings;
+  email?: string | null;
+  company?: string | null;
+  phone?: string | null;
+  workflow_settings?: WorkflowSettings | null;
+  /** Per-client summarization preferences */
+  prompt_profile?: PromptProfile | null;
+  /** How emails to a client look; unset fields use the Included defaults */
+  branding?: ClientBranding | null;
   inbound_email?: string;
+  /** Set when an email to the client hard-bounced; no more emails are sent until cleared */
+  email_bounced_at?: string | null;
+  email_bounce_reason?: string | null;
+  /** Set while the client is archived: no inbound processing, notifications or reports */
+  archived_at?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
-export interface NotificationEvent {
-  id: string;
-  client_id: string;
-  summary_id: string;
-  type: 'email' | 'whatsapp';
-  status: 'pending' | 'sent' | 'failed';
-  created_at?: string;
-  updated_at?: string;
-  /** Client name joined from clients table (may be populated by backend) */
-  client_name?: string;
+export interface WorkflowSettings {
+  /** Scheduled reports (default: 'none') */
+  reportFrequency?: 'daily' | 'weekly' | 'none';
+  /** Email summaries to the client (default: true) */
+  emailNotifications?: boolean;
+  /** Send summaries over WhatsApp (default: true) */
+  whatsappNotifications?: boolean;
+  /** Overrides the LLM_PROVIDER environment default for this client */
+  llmProvider?: LLMProviderName;
+  /** IANA time zone used for report scheduling and quiet hours (default: REPORT_TIMEZONE or UTC) */
+  timezone?: string;
+  /** Local hour (0–23) scheduled reports are sent at (default: REPORT_HOUR or 8) */
+  reportHour?: number;
+  /** Day weekly reports are sent on, 0 = Sunday … 6 = Saturday (default: 1, Monday) */
+  reportWeekday?: number;
+  /** Add an LLM-written executive digest to scheduled reports (default: false) */
+  reportDigest?: boolean;
+  /** Local times notifications are held back, in the client's time zone */
+  quietHours?: QuietHours;
+  /** Email each summary as it is ready, or batch them into hourly or daily digests (default: 'immediate') */
+  emailDelivery?: EmailDeliveryMode;
+  /** Local hour (0–23) daily digests are sent at (default: 17) */
+  digestHour?: number;
+}
+
+/** LLM backend a client's tasks are processed with */
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'stub';
+
+/** 'HH:MM' local times; a start after the end spans midnight (e.g. 22:00–07:00) */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+/** How summary emails reach a client */
+export type EmailDeliveryMode = 'immediate' | 'hourly_digest' | 'daily_digest';
+
+/** Per-client summarization preferences */
+export interface PromptProfile {
+  /** Output shape (default: 'paragraph') */
+  format?: PromptProfileFormat;
+  /** Maximum sentences, bullets or action items (default: 2 for paragraphs, 5 otherwise) */
+  maxLength?: number;
+  /** Tone of voice, e.g. 'formal' (default: 'professional') */
+  tone?: string;
+  /** Output language, e.g. 'Spanish' (default: the model's choice, usually the input language) */
+  language?: string;
+  /** Free-form extra instructions, e.g. "Always mention case numbers" */
+  instructions?: string;
+}
+
+export type PromptProfileFormat = 'paragraph' | 'bullets' | 'action_items';
+
+/** How emails to a client look; unset fields use the Included defaults */
+export interface ClientBranding {
+  /** https URL of a logo shown at the top of emails */
+  logoUrl?: string;
+  /** Accent colour, '#rgb' or '#rrggbb' */
+  primaryColor?: string;
+  /** Closing line, replacing "Included AI Assistant" */
+  signOff?: string;
 }
 
 export interface Task {
@@ -36,19 +95,439 @@ export interface Task {
   output: string | null;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   client_id: string;
+  lease_owner?: string | null;
+  lease_expires_at?: string | null;
+  heartbeat_at?: string | null;
+  attempts?: number;
+  processing_started_at?: string | null;
+  last_error?: string | null;
+  /** Why a task failed: an LLM failure category, a pipeline error ('internal') or the stale-task reaper ('reaped') */
+  error_category?: TaskErrorCategory | null;
   created_at?: string;
   updated_at?: string;
 }
 
+/** Why a task failed: an LLM failure category, a pipeline error ('internal') or the stale-task reaper ('reaped') */
+export type TaskErrorCategory = 'rate_limit' | 'timeout' | 'empty_response' | 'invalid_response' | 'auth' | 'invalid_request' | 'server_error' | 'network' | 'unknown' | 'internal' | 'reaped';
+
 export interface Summary {
   id: string;
   task_id: string;
   client_id: string;
   summary: string;
+  /** Structured data extracted from the task input, when available */
+  extraction?: Extraction | null;
+  created_at?: string;
+}
+
+export interface Extraction {
+  priority: ExtractionPriority;
+  action_items: ActionItem[];
+  deadlines: Deadline[];
+  amounts: MonetaryAmount[];
+  counterparties: Counterparty[];
+  id: string;
+  summary_id: string;
+  task_id: string;
+  client_id: string;
+  model: string | null;
   created_at?: string;
 }
 
+export type ExtractionPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface ActionItem {
+  description: string;
+  /** Person or party responsible, if stated */
+  owner: string | null;
+  /** ISO date (YYYY-MM-DD), if stated */
+  due_date: string | null;
+}
+
+export interface Deadline {
+  description: string;
+  /** ISO date (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface MonetaryAmount {
+  amount: number;
+  /** ISO 4217 code, e.g. 'USD' */
+  currency: string;
+  /** What the amount refers to, e.g. 'invoice #123' */
+  description: string | null;
+}
+
+export interface Counterparty {
+  name: string;
+  type: 'person' | 'organization';
+  /** Role in the communication, e.g. 'supplier', 'attorney' */
+  role: string | null;
+}
+
+export interface NotificationEvent {
+  id: string;
+  client_id: string;
+  /** Set for summary notifications */
+  summary_id: string | null;
+  /** Set for scheduled report notifications */
+  report_id?: string | null;
+  type: NotificationChannel;
+  status: NotificationStatus;
+  /** Why the channel was skipped (disabled, or no email/phone) */
+  skip_reason?: string | null;
+  /** Quiet hours: not sent before this instant */
+  scheduled_for?: string | null;
+  /** Send attempts so far, manual and automatic retries included */
+  attempts?: number;
+  /** Error of the latest failed attempt */
+  last_error?: string | null;
+  /** The provider rejected the latest attempt for good; not retried automatically */
+  permanent_failure?: boolean;
+  /** Id the provider gave the sent message, used to match delivery status callbacks */
+  provider_message_id?: string | null;
+  /** Latest status reported by the provider */
+  delivery_status?: DeliveryStatus | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type NotificationChannel = 'email' | 'whatsapp';
+
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+/** Statuses WhatsApp or the email provider reported for a sent message */
+export type DeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed' | 'opened' | 'clicked' | 'bounced' | 'complained';
+
+/** Automatic retry of failed notifications */
+export interface NotificationRetryPolicy {
+  enabled: boolean;
+  /** Minutes a failed notification waits before it is retried */
+  intervalMinutes: number;
+  /** Automatic retries per notification after the first attempt */
+  maxRetries: number;
+}
+
+export interface WorkerStats {
+  automation: AutomationWorkerStats;
+  reports: ReportSchedulerStats;
+  notificationRetry: NotificationRetryStats;
+}
+
+export interface AutomationWorkerStats {
+  runs: number;
+  lastRunAt: string | null;
+  claimed: number;
+  completed: number;
+  failed: number;
+  /** Stale tasks put back in the queue by the reaper */
+  reapedRequeued: number;
+  /** Stale tasks failed by the reaper after running out of attempts */
+  reapedFailed: number;
+  /** Claimed tasks whose lease was lost before they finished; left to their new owner */
+  leaseLost: number;
+}
+
+export interface ReportSchedulerStats {
+  runs: number;
+  lastRunAt: string | null;
+  /** Reports generated and enqueued */
+  generated: number;
+  /** Clients whose current report already existed */
+  skipped: number;
+  failed: number;
+}
+
+export interface NotificationRetryStats {
+  runs: number;
+  lastRunAt: string | null;
+  /** Notifications re-queued */
+  retried: number;
+}
+
 export interface SystemHealth {
-  status: 'ok' | 'error';
+  status: 'ok';
   timestamp: string;
 }
+
+export interface CreateClientBody {
+  name: string;
+  email?: string | null;
+  company?: string | null;
+  phone?: string | null;
+  workflow_settings?: {
+    /** Scheduled reports (default: 'none') */
+    reportFrequency?: 'daily' | 'weekly' | 'none';
+    /** Email summaries to the client (default: true) */
+    emailNotifications?: boolean;
+    /** Send summaries over WhatsApp (default: true) */
+    whatsappNotifications?: boolean;
+    /** Overrides the LLM_PROVIDER environment default for this client */
+    llmProvider?: LLMProviderName;
+    /** IANA time zone used for report scheduling and quiet hours (default: REPORT_TIMEZONE or UTC) */
+    timezone?: string;
+    /** Local hour (0–23) scheduled reports are sent at (default: REPORT_HOUR or 8) */
+    reportHour?: number;
+    /** Day weekly reports are sent on, 0 = Sunday … 6 = Saturday (default: 1, Monday) */
+    reportWeekday?: number;
+    /** Add an LLM-written executive digest to scheduled reports (default: false) */
+    reportDigest?: boolean;
+    /** Local times notifications are held back, in the client's time zone */
+    quietHours?: QuietHours;
+    /** Email each summary as it is ready, or batch them into hourly or daily digests (default: 'immediate') */
+    emailDelivery?: EmailDeliveryMode;
+    /** Local hour (0–23) daily digests are sent at (default: 17) */
+    digestHour?: number;
+  };
+  /** Per-client summarization preferences */
+  prompt_profile?: PromptProfile | null;
+  /** How emails to a client look; unset fields use the Included defaults */
+  branding?: ClientBranding | null;
+}
+
+/** Fields PATCH /clients/:id can change; null clears email, company or phone */
+export interface UpdateClientBody {
+  name?: string;
+  email?: string | null;
+  company?: string | null;
+  phone?: string | null;
+  /** Merged into the current settings; null removes a setting */
+  workflow_settings?: {
+    /** Scheduled reports (default: 'none') */
+    reportFrequency?: 'daily' | 'weekly' | 'none' | null;
+    /** Email summaries to the client (default: true) */
+    emailNotifications?: boolean | null;
+    /** Send summaries over WhatsApp (default: true) */
+    whatsappNotifications?: boolean | null;
+    /** Overrides the LLM_PROVIDER environment default for this client */
+    llmProvider?: LLMProviderName | null;
+    /** IANA time zone used for report scheduling and quiet hours (default: REPORT_TIMEZONE or UTC) */
+    timezone?: string | null;
+    /** Local hour (0–23) scheduled reports are sent at (default: REPORT_HOUR or 8) */
+    reportHour?: number | null;
+    /** Day weekly reports are sent on, 0 = Sunday … 6 = Saturday (default: 1, Monday) */
+    reportWeekday?: number | null;
+    /** Add an LLM-written executive digest to scheduled reports (default: false) */
+    reportDigest?: boolean | null;
+    /** Local times notifications are held back, in the client's time zone */
+    quietHours?: QuietHours | null;
+    /** Email each summary as it is ready, or batch them into hourly or daily digests (default: 'immediate') */
+    emailDelivery?: EmailDeliveryMode | null;
+    /** Local hour (0–23) daily digests are sent at (default: 17) */
+    digestHour?: number | null;
+  };
+}
+
+/** Every failed notification matching all given filters is retried */
+export interface RetryNotificationsBody {
+  ids?: string[];
+  clientId?: string;
+  type?: NotificationChannel;
+}
+
+export interface NotificationRetryPolicyUpdate {
+  enabled?: boolean;
+  /** Minutes a failed notification waits before it is retried */
+  intervalMinutes?: number;
+  /** Automatic retries per notification after the first attempt */
+  maxRetries?: number;
+}
+
+export interface LoginBody {
+  email: string;
+  password: string;
+  /** Organization to sign in to (default: the user's first) */
+  organizationId?: string;
+}
+
+export interface ListClientsQuery {
+  /** Rows per page (default: 50) */
+  limit?: number;
+  /** nextCursor of the previous page, with the same filters and sort */
+  cursor?: string;
+  /** Sort column (default: created_at); ties are ordered by id */
+  sort?: 'created_at' | 'name';
+  /** Default: 'desc' */
+  order?: 'asc' | 'desc';
+  /** Created at or after */
+  from?: string;
+  /** Created before */
+  to?: string;
+  /** Case-insensitive text in the name, email or company */
+  q?: string;
+  /** Include archived clients (default: false) */
+  includeArchived?: boolean;
+}
+
+export interface ListTasksQuery {
+  /** Rows per page (default: 50) */
+  limit?: number;
+  /** nextCursor of the previous page, with the same filters and sort */
+  cursor?: string;
+  /** Sort column (default: created_at); ties are ordered by id */
+  sort?: 'created_at' | 'updated_at';
+  /** Default: 'desc' */
+  order?: 'asc' | 'desc';
+  /** Created at or after */
+  from?: string;
+  /** Created before */
+  to?: string;
+  /** Case-insensitive text in the input, output or error */
+  q?: string;
+  status?: 'pending' | 'processing' | 'completed' | 'failed';
+  /** Why a task failed: an LLM failure category, a pipeline error ('internal') or the stale-task reaper ('reaped') */
+  errorCategory?: TaskErrorCategory;
+  clientId?: string;
+}
+
+export interface ListSummariesQuery {
+  /** Rows per page (default: 50) */
+  limit?: number;
+  /** nextCursor of the previous page, with the same filters and sort */
+  cursor?: string;
+  /** Sort column (default: created_at); ties are ordered by id */
+  sort?: 'created_at';
+  /** Default: 'desc' */
+  order?: 'asc' | 'desc';
+  /** Created at or after */
+  from?: string;
+  /** Created before */
+  to?: string;
+  /** Case-insensitive text in the summary */
+  q?: string;
+  clientId?: string;
+}
+
+export interface ListNotificationsQuery {
+  /** Rows per page (default: 50) */
+  limit?: number;
+  /** nextCursor of the previous page, with the same filters and sort */
+  cursor?: string;
+  /** Sort column (default: created_at); ties are ordered by id */
+  sort?: 'created_at' | 'updated_at';
+  /** Default: 'desc' */
+  order?: 'asc' | 'desc';
+  /** Created at or after */
+  from?: string;
+  /** Created before */
+  to?: string;
+  /** Case-insensitive text in the error, skip reason or provider message id */
+  q?: string;
+  status?: NotificationStatus;
+  clientId?: string;
+  type?: NotificationChannel;
+}
+
+export interface ClientResponse {
+  success: true;
+  client: Client;
+}
+
+export interface ClientListResponse {
+  success: true;
+  clients: Client[];
+  /** Rows matching the filters, on every page */
+  total: number;
+  /** cursor of the next page; null on the last one */
+  nextCursor: string | null;
+}
+
+export interface ArchiveClientResponse {
+  success: true;
+  client: Client;
+  /** Pending and failed notifications skipped by archiving */
+  skippedNotifications: number;
+}
+
+export interface DeleteClientResponse {
+  success: true;
+  /** Rows removed with a deleted client */
+  deleted: ClientDeletion;
+}
+
+/** Rows removed with a deleted client */
+export interface ClientDeletion {
+  tasks: number;
+  emails: number;
+  summaries: number;
+  notifications: number;
+  reports: number;
+}
+
+export interface TaskListResponse {
+  success: true;
+  tasks: Task[];
+  /** Rows matching the filters, on every page */
+  total: number;
+  /** cursor of the next page; null on the last one */
+  nextCursor: string | null;
+}
+
+export interface SummaryListResponse {
+  success: true;
+  summaries: Summary[];
+  /** Rows matching the filters, on every page */
+  total: number;
+  /** cursor of the next page; null on the last one */
+  nextCursor: string | null;
+}
+
+export interface NotificationListResponse {
+  success: true;
+  notifications: NotificationEvent[];
+  /** Rows matching the filters, on every page */
+  total: number;
+  /** cursor of the next page; null on the last one */
+  nextCursor: string | null;
+}
+
+export interface NotificationResponse {
+  success: true;
+  notification: NotificationEvent;
+}
+
+export interface RetryNotificationsResponse {
+  success: true;
+  retried: number;
+  notifications: NotificationEvent[];
+}
+
+export interface RetryPolicyResponse {
+  success: true;
+  /** Automatic retry of failed notifications */
+  policy: NotificationRetryPolicy;
+}
+
+export interface WorkerStatsResponse {
+  success: true;
+  stats: WorkerStats;
+}
+
+export interface LoginResponse {
+  success: true;
+  token: string;
+  expiresAt: string;
+  organizationId: string;
+  /** owner: everything (admin scope); operator: read and write; viewer: read only */
+  role: OrganizationRole;
+}
+
+/** owner: everything (admin scope); operator: read and write; viewer: read only */
+export type OrganizationRole = 'owner' | 'operator' | 'viewer';
+
+export interface ErrorResponse {
+  /** e.g. 'Invalid request', 'Not found' */
+  error: string;
+  message: string;
+  /** Every invalid field, for validation errors */
+  errors?: FieldError[];
+  /** LLM failure category, for LLM errors */
+  category?: string;
+}
+
+export interface FieldError {
+  /** Path of the field, e.g. 'workflow_settings.reportHour'; '' for the whole body */
+  field: string;
+  location: 'body' | 'query' | 'params';
+  message: string;
+}
@@ -0,0 +1,15 @@
+-- Add lease columns to tasks so the table can be used as a durable work queue.
+-- A worker claims a task by flipping it from 'pending' to 'processing' and
+-- recording itself as lease_owner; the lease is renewed by heartbeats and is
+-- re-queued by any worker once lease_expires_at has passed.
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Create index on status and lease expiry for claiming and re-queueing tasks
+CREATE INDEX IF NOT EXISTS idx_tasks_status_lease_expires_at ON tasks(status, lease_expires_at);
+
+-- Create index on status and created_at for claiming the oldest pending tasks first
+CREATE INDEX IF NOT EXISTS idx_tasks_status_created_at ON tasks(status, created_at);
@@ -0,0 +1,12 @@
+-- Track processing attempts on tasks so stale tasks can be re-queued a limited
+-- number of times before being marked failed.
+--   attempts              - incremented every time a worker claims the task
+--   processing_started_at - when the current attempt was claimed
+--   last_error            - why the last attempt ended (e.g. reaped after a timeout)
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+-- Create index on status and processing_started_at for finding stale tasks
+CREATE INDEX IF NOT EXISTS idx_tasks_status_processing_started_at ON tasks(status, processing_started_at);
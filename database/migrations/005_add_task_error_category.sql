@@ -0,0 +1,9 @@
+-- Record why a task failed so failures can be filtered by cause.
+-- LLM failures use the category reported by the LLM worker (rate_limit, timeout,
+-- empty_response, auth, invalid_request, server_error, network, unknown);
+-- 'internal' covers errors in our own pipeline and 'reaped' tasks given up on by the reaper.
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS error_category TEXT;
+
+-- Create index on status and error_category for filtering failures by cause
+CREATE INDEX IF NOT EXISTS idx_tasks_status_error_category ON tasks(status, error_category);
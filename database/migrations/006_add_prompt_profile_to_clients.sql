@@ -0,0 +1,5 @@
+-- Per-client prompt profile used to build the summarizer system prompt:
+-- {format, maxLength, tone, language, instructions}. NULL uses the default
+-- "max 2 sentences, professional tone" prompt.
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS prompt_profile JSONB;
@@ -0,0 +1,22 @@
+-- Structured data extracted from each task alongside its free-text summary.
+-- One row per summary; the list columns hold validated JSON arrays:
+--   action_items:   [{ description, owner, due_date }]
+--   deadlines:      [{ description, date }]
+--   amounts:        [{ amount, currency, description }]
+--   counterparties: [{ name, type, role }]
+CREATE TABLE IF NOT EXISTS extractions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id UUID NOT NULL UNIQUE REFERENCES summaries(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  priority TEXT NOT NULL CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  action_items JSONB NOT NULL DEFAULT '[]',
+  deadlines JSONB NOT NULL DEFAULT '[]',
+  amounts JSONB NOT NULL DEFAULT '[]',
+  counterparties JSONB NOT NULL DEFAULT '[]',
+  model TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create index on client_id and priority for client-specific queries
+CREATE INDEX IF NOT EXISTS idx_extractions_client_priority ON extractions(client_id, priority);
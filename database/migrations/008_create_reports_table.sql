@@ -0,0 +1,32 @@
+-- Scheduled reports, one per client, frequency and period. The unique key makes
+-- report generation idempotent: a restarted (or second) orchestrator instance that
+-- tries to build the same day's report gets a unique violation instead of a duplicate.
+CREATE TABLE IF NOT EXISTS reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  period_key TEXT NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (client_id, frequency, period_key)
+);
+
+-- Create index on client_id and created_at for report history queries
+CREATE INDEX IF NOT EXISTS idx_reports_client_created ON reports(client_id, created_at DESC);
+
+-- Notification events can now point at a report instead of a summary
+ALTER TABLE notification_events
+ALTER COLUMN summary_id DROP NOT NULL;
+
+ALTER TABLE notification_events
+ADD COLUMN IF NOT EXISTS report_id UUID REFERENCES reports(id) ON DELETE CASCADE;
+
+ALTER TABLE notification_events
+ADD CONSTRAINT notification_events_subject_check CHECK (summary_id IS NOT NULL OR report_id IS NOT NULL);
+
+-- One notification per report and channel, so re-enqueueing a report is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_events_report_type
+ON notification_events(report_id, type) WHERE report_id IS NOT NULL;
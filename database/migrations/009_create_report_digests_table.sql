@@ -0,0 +1,19 @@
+-- LLM-written executive digests of report periods, cached so repeated report requests
+-- for the same client and period do not call the LLM again. source_hash identifies the
+-- summaries a digest was written from; when they change the row is regenerated in place.
+CREATE TABLE IF NOT EXISTS report_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  source_hash TEXT NOT NULL,
+  summary_count INTEGER NOT NULL,
+  overview TEXT NOT NULL,
+  themes JSONB NOT NULL DEFAULT '[]',
+  open_action_items JSONB NOT NULL DEFAULT '[]',
+  urgent JSONB NOT NULL DEFAULT '[]',
+  model TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (client_id, period_start, period_end)
+);
@@ -0,0 +1,14 @@
+-- Delivery tracking for notification events.
+--   error_message:       why the event failed
+--   provider_message_id: id the channel provider gave the sent message (e.g. WhatsApp wamid)
+--   delivery_status:     latest status reported by the provider: sent, delivered, read or failed
+ALTER TABLE notification_events
+ADD COLUMN IF NOT EXISTS error_message TEXT,
+ADD COLUMN IF NOT EXISTS provider_message_id TEXT,
+ADD COLUMN IF NOT EXISTS delivery_status TEXT
+  CHECK (delivery_status IN ('sent', 'delivered', 'read', 'failed'));
+
+-- Look up events from provider status callbacks
+CREATE INDEX IF NOT EXISTS idx_notification_events_provider_message_id
+ON notification_events(provider_message_id)
+WHERE provider_message_id IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Notification routing: events for channels a client has disabled or cannot be reached
+-- on are stored as 'skipped' with the reason, and events created during a client's
+-- quiet hours wait until scheduled_for before the workers send them.
+ALTER TABLE notification_events
+DROP CONSTRAINT IF EXISTS notification_events_status_check;
+
+ALTER TABLE notification_events
+ADD CONSTRAINT notification_events_status_check
+  CHECK (status IN ('pending', 'sent', 'failed', 'skipped'));
+
+ALTER TABLE notification_events
+ADD COLUMN IF NOT EXISTS skip_reason TEXT,
+ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+
+-- Workers fetch pending events per channel that are due
+CREATE INDEX IF NOT EXISTS idx_notification_events_pending_due
+ON notification_events(type, scheduled_for, created_at)
+WHERE status = 'pending';
@@ -0,0 +1,20 @@
+-- Notification retries: every send attempt is counted, and the error of the latest
+-- failed attempt is kept in last_error (named like tasks.last_error).
+ALTER TABLE notification_events
+RENAME COLUMN error_message TO last_error;
+
+ALTER TABLE notification_events
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+
+-- The automatic retry worker looks for failed events by age
+CREATE INDEX IF NOT EXISTS idx_notification_events_failed_updated
+ON notification_events(updated_at)
+WHERE status = 'failed';
+
+-- Application settings edited from the dashboard, one JSON document per key
+-- (e.g. 'notification_retry': { "enabled": true, "intervalMinutes": 15, "maxRetries": 3 })
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
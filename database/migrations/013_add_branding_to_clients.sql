@@ -0,0 +1,3 @@
+-- Per-client email branding: { "logoUrl", "primaryColor", "signOff" }, all optional
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS branding JSONB;
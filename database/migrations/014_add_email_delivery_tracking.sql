@@ -0,0 +1,30 @@
+-- Email delivery tracking from provider webhooks (Resend: delivered, bounced, complained,
+-- opened, clicked).
+ALTER TABLE notification_events
+DROP CONSTRAINT IF EXISTS notification_events_delivery_status_check;
+
+ALTER TABLE notification_events
+ADD CONSTRAINT notification_events_delivery_status_check
+  CHECK (delivery_status IN ('sent', 'delivered', 'read', 'failed', 'opened', 'clicked', 'bounced', 'complained'));
+
+-- Delivery timeline: one row per provider callback about a notification. A digest email
+-- covers several notifications, so one callback can add a row to each of them.
+CREATE TABLE IF NOT EXISTS notification_delivery_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_event_id UUID NOT NULL REFERENCES notification_events(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  -- Webhook delivery id (svix-id); redelivered webhooks are recorded once
+  provider_event_id TEXT NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider_event_id, notification_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_delivery_events_notification
+ON notification_delivery_events(notification_event_id, occurred_at);
+
+-- Hard bounces flag the client's address; routing skips email until the flag is cleared
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS email_bounced_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS email_bounce_reason TEXT;
@@ -0,0 +1,12 @@
+-- Signed webhook deliveries already accepted, by source and webhook id (svix-id), so a
+-- replayed or redelivered webhook is processed once. Rows older than 7 days are pruned,
+-- past the window in which Svix retries (re-signed, so they pass the 5-minute check).
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  source TEXT NOT NULL,
+  id TEXT NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at
+ON webhook_deliveries(received_at);
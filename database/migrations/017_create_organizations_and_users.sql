@@ -0,0 +1,61 @@
+-- Organizations (agencies) own clients; every task, summary, notification and report is
+-- reached through its client, so scoping clients scopes everything else.
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Dashboard users; emails are stored lowercased, passwords as scrypt hashes
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE,
+  name TEXT,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'operator', 'viewer')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id
+ON organization_members(user_id);
+
+-- Existing clients and API keys move to a default organization
+INSERT INTO organizations (id, name)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default organization')
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+UPDATE clients SET organization_id = '00000000-0000-0000-0000-000000000001' WHERE organization_id IS NULL;
+
+ALTER TABLE clients ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_clients_organization_id
+ON clients(organization_id);
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+UPDATE api_keys SET organization_id = '00000000-0000-0000-0000-000000000001' WHERE organization_id IS NULL;
+
+ALTER TABLE api_keys ALTER COLUMN organization_id SET NOT NULL;
+
+-- Sessions now belong to a user in an organization, and take their scopes from the user's
+-- role. Password-only sessions from before cannot be mapped to a user and are ended.
+DELETE FROM sessions;
+
+ALTER TABLE sessions
+DROP COLUMN IF EXISTS scopes,
+ADD COLUMN IF NOT EXISTS user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE;
@@ -0,0 +1,7 @@
+-- Archived clients keep their history but get no new tasks from inbound email and no
+-- notifications or scheduled reports until restored
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_clients_organization_active
+ON clients(organization_id) WHERE archived_at IS NULL;
@@ -0,0 +1,17 @@
+-- Invitations to join an organization. Owners no longer add accounts directly: the invitee
+-- accepts with the token (POST /auth/invitations/accept), proving they own the email's
+-- account by its password, or setting one for a new account. Only the SHA-256 hash of the
+-- token is stored; the token is shown once to the owner who sent the invitation.
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'operator', 'viewer')),
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_organization_id
+ON organization_invitations(organization_id);
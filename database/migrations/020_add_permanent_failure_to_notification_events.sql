@@ -0,0 +1,5 @@
+-- Permanent notification failures: the provider rejected the attempt for good (SMTP 5xx,
+-- invalid recipient, WhatsApp request errors). The automatic retry worker skips them;
+-- a manual retry clears the flag.
+ALTER TABLE notification_events
+ADD COLUMN IF NOT EXISTS permanent_failure BOOLEAN NOT NULL DEFAULT FALSE;
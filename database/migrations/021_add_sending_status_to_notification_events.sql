@@ -0,0 +1,8 @@
+-- Email worker runs claim each event before sending it ('pending' -> 'sending'), so a run
+-- that outlasts the polling interval is never overlapped by one sending the same events.
+ALTER TABLE notification_events
+DROP CONSTRAINT IF EXISTS notification_events_status_check;
+
+ALTER TABLE notification_events
+ADD CONSTRAINT notification_events_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped'));
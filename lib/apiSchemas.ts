@@ -0,0 +1,1281 @@
+import * as s from './schema';
+import { LLM_PROVIDER_NAMES } from './llmProviders';
+import { EMAIL_DELIVERY_MODES, NOTIFICATION_CHANNELS } from './notificationRouting';
+import { MAX_INSTRUCTIONS_LENGTH, MAX_LANGUAGE_LENGTH, MAX_LENGTH_LIMIT, MAX_TONE_LENGTH, PROMPT_PROFILE_FORMATS } from './promptProfiles';
+import { EMAIL_TEMPLATE_NAMES, RenderedEmail } from './emailTemplates';
+import { EXTRACTION_PRIORITIES } from './extraction';
+import { MAX_INTERVAL_MINUTES, MAX_RETRIES } from './notificationRetry';
+import { REPORT_FORMATS } from './reportFormats';
+import { getCursorError, LIST_SORTS, MAX_PAGE_SIZE, SORT_ORDERS } from './pagination';
+import { REPORT_PERIODS } from './reportRanges';
+import { AUTH_SCOPES, ORGANIZATION_ROLES } from './auth';
+import { isValidTimeZone } from './timezones';
+import {
+  ApiKey,
+  Client,
+  ClientBranding,
+  ClientChanges,
+  ClientDeletion,
+  DigestContent,
+  Extraction,
+  NotificationDeliveryEvent,
+  NotificationEvent,
+  NotificationRetryPolicy,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  PromptProfile,
+  QuietHours,
+  Report,
+  ReportDocument,
+  Summary,
+  Task,
+  User,
+  WorkflowSettings,
+} from '../types/task';
+import { AutomationWorkerStats } from '../workers/automationWorker';
+import { ReportSchedulerStats } from '../workers/reportScheduler';
+import { NotificationRetryStats } from '../workers/notificationRetryWorker';
+import { OrganizationMemberDetails } from '../services/organizationService';
+
+/**
+ * API Schemas
+ * Request and response schemas of the API routes, and the data models they are built from.
+ * Routes check requests with validateRequest (lib/middleware.ts). The models must describe
+ * exactly the types in types/task.ts, which is checked at compile time at the end of this
+ * file, and the dashboard's types are generated from them (npm run generate:types).
+ */
+
+const nonEmptyString = (description?: string) => s.string({ trim: true, minLength: 1, description });
+
+const timestamp = s.string({ format: 'date-time' });
+
+/** Timestamps every table has */
+const rowTimestamps = {
+  created_at: s.optional(s.string()),
+  updated_at: s.optional(s.string()),
+};
+
+/** '' or null clears an optional email address */
+const emailAddress = s.string({
+  trim: true,
+  maxLength: 254,
+  refine: (email) => (email === '' || /^[^\s@]+@[^\s@]+$/.test(email) ? null : 'must be a valid email address'),
+});
+
+const hour = (description: string) => s.integer({ minimum: 0, maximum: 23, description });
+
+// ---------------------------------------------------------------------------------------
+// Models
+// ---------------------------------------------------------------------------------------
+
+export const llmProviderNameSchema = s.named(
+  'LLMProviderName',
+  s.oneOf(LLM_PROVIDER_NAMES, { description: 'LLM backend a client\'s tasks are processed with' })
+);
+
+export const emailDeliveryModeSchema = s.named(
+  'EmailDeliveryMode',
+  s.oneOf(EMAIL_DELIVERY_MODES, { description: 'How summary emails reach a client' })
+);
+
+export const quietHoursSchema = s.named(
+  'QuietHours',
+  s.object(
+    {
+      start: s.string({ format: 'time' }),
+      end: s.string({ format: 'time' }),
+    },
+    {
+      description: '\'HH:MM\' local times; a start after the end spans midnight (e.g. 22:00–07:00)',
+      refine: ({ start, end }) => (start === end ? 'start and end must differ' : null),
+    }
+  )
+);
+
+export const workflowSettingsSchema = s.named(
+  'WorkflowSettings',
+  s.object({
+    reportFrequency: s.optional(s.oneOf(['daily', 'weekly', 'none'], { description: 'Scheduled reports (default: \'none\')' })),
+    emailNotifications: s.optional(s.boolean({ description: 'Email summaries to the client (default: true)' })),
+    whatsappNotifications: s.optional(s.boolean({ description: 'Send summaries over WhatsApp (default: true)' })),
+    llmProvider: s.optional(s.describe(llmProviderNameSchema, 'Overrides the LLM_PROVIDER environment default for this client')),
+    timezone: s.optional(
+      s.string({
+        description: 'IANA time zone used for report scheduling and quiet hours (default: REPORT_TIMEZONE or UTC)',
+        refine: (zone) => (isValidTimeZone(zone) ? null : 'must be an IANA time zone, e.g. "Europe/Madrid"'),
+      })
+    ),
+    reportHour: s.optional(hour('Local hour (0–23) scheduled reports are sent at (default: REPORT_HOUR or 8)')),
+    reportWeekday: s.optional(
+      s.integer({
+        minimum: 0,
+        maximum: 6,
+        description: 'Day weekly reports are sent on, 0 = Sunday … 6 = Saturday (default: 1, Monday)',
+      })
+    ),
+    reportDigest: s.optional(s.boolean({ description: 'Add an LLM-written executive digest to scheduled reports (default: false)' })),
+    quietHours: s.optional(s.describe(quietHoursSchema, 'Local times notifications are held back, in the client\'s time zone')),
+    emailDelivery: s.optional(
+      s.describe(
+        emailDeliveryModeSchema,
+        'Email each summary as it is ready, or batch them into hourly or daily digests (default: \'immediate\')'
+      )
+    ),
+    digestHour: s.optional(hour('Local hour (0–23) daily digests are sent at (default: 17)')),
+  })
+);
+
+export const promptProfileFormatSchema = s.named('PromptProfileFormat', s.oneOf(PROMPT_PROFILE_FORMATS));
+
+export const promptProfileSchema = s.named(
+  'PromptProfile',
+  s.object(
+    {
+      format: s.optional(s.describe(promptProfileFormatSchema, 'Output shape (default: \'paragraph\')')),
+      maxLength: s.optional(
+        s.integer({
+          minimum: 1,
+          maximum: MAX_LENGTH_LIMIT,
+          description: 'Maximum sentences, bullets or action items (default: 2 for paragraphs, 5 otherwise)',
+        })
+      ),
+      tone: s.optional(
+        s.string({ trim: true, minLength: 1, maxLength: MAX_TONE_LENGTH, description: 'Tone of voice, e.g. \'formal\' (default: \'professional\')' })
+      ),
+      language: s.optional(
+        s.string({
+          trim: true,
+          minLength: 1,
+          maxLength: MAX_LANGUAGE_LENGTH,
+          description: 'Output language, e.g. \'Spanish\' (default: the model\'s choice, usually the input language)',
+        })
+      ),
+      instructions: s.optional(
+        s.string({
+          trim: true,
+          minLength: 1,
+          maxLength: MAX_INSTRUCTIONS_LENGTH,
+          description: 'Free-form extra instructions, e.g. "Always mention case numbers"',
+        })
+      ),
+    },
+    { description: 'Per-client summarization preferences' }
+  )
+);
+
+export const clientBrandingSchema = s.named(
+  'ClientBranding',
+  s.object(
+    {
+      logoUrl: s.optional(
+        s.string({
+          maxLength: 2048,
+          pattern: /^https:\/\/\S+$/,
+          message: 'must be an https URL',
+          description: 'https URL of a logo shown at the top of emails',
+        })
+      ),
+      primaryColor: s.optional(
+        s.string({
+          pattern: /^#([0-9a-f]{3}|[0-9a-f]{6})$/i,
+          message: 'must be a hex colour, e.g. "#2c3e50"',
+          description: 'Accent colour, \'#rgb\' or \'#rrggbb\'',
+        })
+      ),
+      signOff: s.optional(
+        s.string({ trim: true, minLength: 1, maxLength: 200, description: 'Closing line, replacing "Included AI Assistant"' })
+      ),
+    },
+    { description: 'How emails to a client look; unset fields use the Included defaults' }
+  )
+);
+
+export const clientSchema = s.named(
+  'Client',
+  s.object({
+    id: s.string(),
+    organization_id: s.optional(s.string({ description: 'The agency (organization) that manages this client' })),
+    name: s.string(),
+    email: s.optional(s.nullable(s.string())),
+    company: s.optional(s.nullable(s.string())),
+    phone: s.optional(s.nullable(s.string())),
+    workflow_settings: s.optional(s.nullable(workflowSettingsSchema)),
+    prompt_profile: s.optional(s.nullable(promptProfileSchema)),
+    branding: s.optional(s.nullable(clientBrandingSchema)),
+    inbound_email: s.optional(s.string()),
+    email_bounced_at: s.optional(
+      s.nullable(s.string({ description: 'Set when an email to the client hard-bounced; no more emails are sent until cleared' }))
+    ),
+    email_bounce_reason: s.optional(s.nullable(s.string())),
+    archived_at: s.optional(
+      s.nullable(s.string({ description: 'Set while the client is archived: no inbound processing, notifications or reports' }))
+    ),
+    ...rowTimestamps,
+  })
+);
+
+export const clientDeletionSchema = s.named(
+  'ClientDeletion',
+  s.object(
+    {
+      tasks: s.integer(),
+      emails: s.integer(),
+      summaries: s.integer(),
+      notifications: s.integer(),
+      reports: s.integer(),
+    },
+    { description: 'Rows removed with a deleted client' }
+  )
+);
+
+export const taskErrorCategorySchema = s.named(
+  'TaskErrorCategory',
+  s.oneOf(
+    [
+      'rate_limit',
+      'timeout',
+      'empty_response',
+      'invalid_response',
+      'auth',
+      'invalid_request',
+      'server_error',
+      'network',
+      'unknown',
+      'internal',
+      'reaped',
+    ],
+    { description: 'Why a task failed: an LLM failure category, a pipeline error (\'internal\') or the stale-task reaper (\'reaped\')' }
+  )
+);
+
+export const taskStatusSchema = s.oneOf(['pending', 'processing', 'completed', 'failed']);
+
+export const taskSchema = s.named(
+  'Task',
+  s.object({
+    id: s.string(),
+    input: s.string(),
+    output: s.nullable(s.string()),
+    status: taskStatusSchema,
+    client_id: s.string(),
+    lease_owner: s.optional(s.nullable(s.string())),
+    lease_expires_at: s.optional(s.nullable(s.string())),
+    heartbeat_at: s.optional(s.nullable(s.string())),
+    attempts: s.optional(s.integer()),
+    processing_started_at: s.optional(s.nullable(s.string())),
+    last_error: s.optional(s.nullable(s.string())),
+    error_category: s.optional(s.nullable(taskErrorCategorySchema)),
+    ...rowTimestamps,
+  })
+);
+
+export const extractionPrioritySchema = s.named('ExtractionPriority', s.oneOf(EXTRACTION_PRIORITIES));
+
+export const extractedDataSchema = s.named(
+  'ExtractedData',
+  s.object(
+    {
+      priority: extractionPrioritySchema,
+      action_items: s.array(
+        s.named(
+          'ActionItem',
+          s.object({
+            description: s.string(),
+            owner: s.nullable(s.string({ description: 'Person or party responsible, if stated' })),
+            due_date: s.nullable(s.string({ description: 'ISO date (YYYY-MM-DD), if stated' })),
+          })
+        )
+      ),
+      deadlines: s.array(
+        s.named(
+          'Deadline',
+          s.object({
+            description: s.string(),
+            date: s.string({ description: 'ISO date (YYYY-MM-DD)' }),
+          })
+        )
+      ),
+      amounts: s.array(
+        s.named(
+          'MonetaryAmount',
+          s.object({
+            amount: s.number(),
+            currency: s.string({ description: 'ISO 4217 code, e.g. \'USD\'' }),
+            description: s.nullable(s.string({ description: 'What the amount refers to, e.g. \'invoice #123\'' })),
+          })
+        )
+      ),
+      counterparties: s.array(
+        s.named(
+          'Counterparty',
+          s.object({
+            name: s.string(),
+            type: s.oneOf(['person', 'organization']),
+            role: s.nullable(s.string({ description: 'Role in the communication, e.g. \'supplier\', \'attorney\'' })),
+          })
+        )
+      ),
+    },
+    { description: 'Structured fields extracted by the LLM' }
+  )
+);
+
+export const extractionSchema = s.named(
+  'Extraction',
+  s.extend(extractedDataSchema, {
+    id: s.string(),
+    summary_id: s.string(),
+    task_id: s.string(),
+    client_id: s.string(),
+    model: s.nullable(s.string()),
+    created_at: s.optional(s.string()),
+  })
+);
+
+export const summarySchema = s.named(
+  'Summary',
+  s.object({
+    id: s.string(),
+    task_id: s.string(),
+    client_id: s.string(),
+    summary: s.string(),
+    extraction: s.optional(
+      s.nullable(s.describe(extractionSchema, 'Structured data extracted from the task input, when available'))
+    ),
+    created_at: s.optional(s.string()),
+  })
+);
+
+export const notificationChannelSchema = s.named('NotificationChannel', s.oneOf(NOTIFICATION_CHANNELS));
+
+export const notificationStatusSchema = s.named('NotificationStatus', s.oneOf(['pending', 'sending', 'sent', 'failed', 'skipped']));
+
+export const deliveryStatusSchema = s.named(
+  'DeliveryStatus',
+  s.oneOf(['sent', 'delivered', 'read', 'failed', 'opened', 'clicked', 'bounced', 'complained'], {
+    description: 'Statuses WhatsApp or the email provider reported for a sent message',
+  })
+);
+
+export const notificationEventSchema = s.named(
+  'NotificationEvent',
+  s.object({
+    id: s.string(),
+    client_id: s.string(),
+    summary_id: s.nullable(s.string({ description: 'Set for summary notifications' })),
+    report_id: s.optional(s.nullable(s.string({ description: 'Set for scheduled report notifications' }))),
+    type: notificationChannelSchema,
+    status: notificationStatusSchema,
+    skip_reason: s.optional(s.nullable(s.string({ description: 'Why the channel was skipped (disabled, or no email/phone)' }))),
+    scheduled_for: s.optional(s.nullable(s.string({ description: 'Quiet hours: not sent before this instant' }))),
+    attempts: s.optional(s.integer({ description: 'Send attempts so far, manual and automatic retries included' })),
+    last_error: s.optional(s.nullable(s.string({ description: 'Error of the latest failed attempt' }))),
+    permanent_failure: s.optional(
+      s.boolean({ description: 'The provider rejected the latest attempt for good; not retried automatically' })
+    ),
+    provider_message_id: s.optional(
+      s.nullable(s.string({ description: 'Id the provider gave the sent message, used to match delivery status callbacks' }))
+    ),
+    delivery_status: s.optional(s.nullable(s.describe(deliveryStatusSchema, 'Latest status reported by the provider'))),
+    ...rowTimestamps,
+  })
+);
+
+export const notificationDeliveryEventSchema = s.named(
+  'NotificationDeliveryEvent',
+  s.object(
+    {
+      id: s.string(),
+      notification_event_id: s.string(),
+      status: deliveryStatusSchema,
+      provider_event_id: s.string({ description: 'The webhook delivery id; a redelivered webhook is recorded once' }),
+      occurred_at: s.string(),
+      details: s.optional(s.nullable(s.record(s.unknown(), { description: 'e.g. the bounce type and message, or the clicked link' }))),
+      created_at: s.optional(s.string()),
+    },
+    { description: 'One provider callback about a sent notification: its delivery timeline' }
+  )
+);
+
+export const notificationRetryPolicySchema = s.named(
+  'NotificationRetryPolicy',
+  s.object(
+    {
+      enabled: s.boolean(),
+      intervalMinutes: s.integer({
+        minimum: 1,
+        maximum: MAX_INTERVAL_MINUTES,
+        description: 'Minutes a failed notification waits before it is retried',
+      }),
+      maxRetries: s.integer({ minimum: 0, maximum: MAX_RETRIES, description: 'Automatic retries per notification after the first attempt' }),
+    },
+    { description: 'Automatic retry of failed notifications' }
+  )
+);
+
+export const reportSchema = s.named(
+  'Report',
+  s.object(
+    {
+      id: s.string(),
+      client_id: s.string(),
+      frequency: s.named('ReportFrequency', s.oneOf(['daily', 'weekly'])),
+      period_key: s.string({ description: 'Local date the period starts on (\'YYYY-MM-DD\'); unique per client and frequency' }),
+      period_start: s.string(),
+      period_end: s.string(),
+      timezone: s.string(),
+      content: s.string(),
+      created_at: s.optional(s.string()),
+    },
+    { description: 'A scheduled report, stored once per client, frequency and period' }
+  )
+);
+
+export const digestContentSchema = s.named(
+  'DigestContent',
+  s.object(
+    {
+      overview: s.string(),
+      themes: s.array(s.string()),
+      open_action_items: s.array(s.string()),
+      urgent: s.array(s.string()),
+    },
+    { description: 'LLM-written executive digest of a report period' }
+  )
+);
+
+export const reportDocumentSchema = s.named(
+  'ReportDocument',
+  s.object(
+    {
+      title: s.string({ description: '\'Daily Report\', \'Weekly Report\' or \'Report\'' }),
+      client: s.object({ id: s.string(), name: s.nullable(s.string()) }),
+      period: s.object({
+        from: s.string(),
+        to: s.string(),
+        timezone: s.string(),
+        label: s.string({ description: 'Local dates covered, e.g. \'2026-10-18\' or \'2026-10-01 – 2026-10-07\'' }),
+      }),
+      generated_at: s.string(),
+      totals: s.object({ completed: s.integer(), failed: s.integer(), summaries: s.integer() }),
+      digest: s.optional(s.nullable(s.describe(digestContentSchema, 'Executive digest, when requested and the period has summaries'))),
+      digest_error: s.optional(s.nullable(s.string({ description: 'Why the requested digest is missing, e.g. the LLM call failed' }))),
+      sections: s.array(
+        s.named(
+          'ReportSection',
+          s.object(
+            {
+              date: s.string({ description: 'Local date, \'YYYY-MM-DD\'' }),
+              items: s.array(
+                s.named(
+                  'ReportItem',
+                  s.object(
+                    {
+                      summary_id: s.string(),
+                      task_id: s.string(),
+                      summary: s.string(),
+                      created_at: s.nullable(s.string()),
+                      extraction: s.nullable(extractedDataSchema),
+                    },
+                    { description: 'One summary in a report, with its extracted details (null when none were stored)' }
+                  )
+                )
+              ),
+            },
+            { description: 'Summaries created on one local day of the report range' }
+          )
+        ),
+        { description: 'Newest day first' }
+      ),
+    },
+    { description: 'Structured report, as returned by GET /report?format=json' }
+  )
+);
+
+export const workerStatsSchema = s.named(
+  'WorkerStats',
+  s.object({
+    automation: s.named(
+      'AutomationWorkerStats',
+      s.object({
+        runs: s.integer(),
+        lastRunAt: s.nullable(s.string()),
+        claimed: s.integer(),
+        completed: s.integer(),
+        failed: s.integer(),
+        reapedRequeued: s.integer({ description: 'Stale tasks put back in the queue by the reaper' }),
+        reapedFailed: s.integer({ description: 'Stale tasks failed by the reaper after running out of attempts' }),
+        leaseLost: s.integer({ description: 'Claimed tasks whose lease was lost before they finished; left to their new owner' }),
+      })
+    ),
+    reports: s.named(
+      'ReportSchedulerStats',
+      s.object({
+        runs: s.integer(),
+        lastRunAt: s.nullable(s.string()),
+        generated: s.integer({ description: 'Reports generated and enqueued' }),
+        skipped: s.integer({ description: 'Clients whose current report already existed' }),
+        failed: s.integer(),
+      })
+    ),
+    notificationRetry: s.named(
+      'NotificationRetryStats',
+      s.object({
+        runs: s.integer(),
+        lastRunAt: s.nullable(s.string()),
+        retried: s.integer({ description: 'Notifications re-queued' }),
+      })
+    ),
+  })
+);
+
+export const renderedEmailSchema = s.named(
+  'RenderedEmail',
+  s.object({
+    template: s.oneOf(EMAIL_TEMPLATE_NAMES),
+    version: s.integer(),
+    subject: s.string(),
+    html: s.string(),
+    text: s.string(),
+  })
+);
+
+export const authScopeSchema = s.named('AuthScope', s.oneOf(AUTH_SCOPES));
+
+export const organizationRoleSchema = s.named(
+  'OrganizationRole',
+  s.oneOf(ORGANIZATION_ROLES, { description: 'owner: everything (admin scope); operator: read and write; viewer: read only' })
+);
+
+export const apiKeySchema = s.named(
+  'ApiKey',
+  s.object(
+    {
+      id: s.string(),
+      organization_id: s.string(),
+      name: s.string(),
+      key_prefix: s.string({ description: 'First characters of the key, to recognise it in listings' }),
+      scopes: s.array(authScopeSchema),
+      last_used_at: s.optional(s.nullable(s.string())),
+      revoked_at: s.optional(s.nullable(s.string())),
+      ...rowTimestamps,
+    },
+    { description: 'An API key, without its hash' }
+  )
+);
+
+export const organizationSchema = s.named(
+  'Organization',
+  s.object(
+    {
+      id: s.string(),
+      name: s.string(),
+      ...rowTimestamps,
+    },
+    { description: 'An agency: the tenant that owns clients and everything derived from them' }
+  )
+);
+
+export const organizationMemberSchema = s.named(
+  'OrganizationMember',
+  s.object({
+    organization_id: s.string(),
+    user_id: s.string(),
+    role: organizationRoleSchema,
+    ...rowTimestamps,
+  })
+);
+
+export const organizationInvitationSchema = s.named(
+  'OrganizationInvitation',
+  s.object(
+    {
+      id: s.string(),
+      organization_id: s.string(),
+      email: s.string({ description: 'Stored lowercased' }),
+      role: organizationRoleSchema,
+      expires_at: s.string(),
+      accepted_at: s.optional(s.nullable(s.string())),
+      created_at: s.optional(s.string()),
+    },
+    { description: 'An invitation to join an organization, without its token hash' }
+  )
+);
+
+export const userSummarySchema = s.named(
+  'User',
+  s.object(
+    {
+      id: s.string(),
+      email: s.string({ description: 'Stored lowercased' }),
+      name: s.optional(s.nullable(s.string())),
+      ...rowTimestamps,
+    },
+    { description: 'A dashboard user, without the password hash' }
+  )
+);
+
+export const systemHealthSchema = s.named(
+  'SystemHealth',
+  s.object({
+    status: s.literal('ok'),
+    timestamp,
+  })
+);
+
+// ---------------------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------------------
+
+/** Path of the routes acting on one resource, e.g. /clients/:id */
+export const idParams = s.object({ id: nonEmptyString() });
+
+/** workflow_settings of a new client: any subset of the settings */
+const workflowSettingsInput = s.partial(workflowSettingsSchema);
+
+export const createClientRequest = {
+  body: s.named(
+    'CreateClientBody',
+    s.object({
+      name: nonEmptyString(),
+      email: s.optional(s.nullable(emailAddress)),
+      company: s.optional(s.nullable(s.string({ trim: true }))),
+      phone: s.optional(s.nullable(s.string({ trim: true }))),
+      workflow_settings: s.optional(workflowSettingsInput),
+      prompt_profile: s.optional(s.nullable(promptProfileSchema)),
+      branding: s.optional(s.nullable(clientBrandingSchema)),
+    })
+  ),
+};
+
+/**
+ * Query parameters of a list endpoint: paging, sorting, the creation date range and free
+ * text, besides the list's own filters
+ * @param sorts    - Columns the list can be sorted by, the default first
+ * @param searched - What the free text is matched against
+ */
+function listQuery<S extends readonly string[], P extends Record<string, s.Schema<unknown>>>(
+  sorts: S,
+  searched: string,
+  filters: P
+) {
+  return s.object(
+    {
+      limit: s.optional(s.integer({ minimum: 1, maximum: MAX_PAGE_SIZE, description: 'Rows per page (default: 50)' })),
+      cursor: s.optional(s.string({ minLength: 1, description: 'nextCursor of the previous page, with the same filters and sort' })),
+      sort: s.optional(s.oneOf(sorts, { description: `Sort column (default: ${sorts[0]}); ties are ordered by id` })),
+      order: s.optional(s.oneOf(SORT_ORDERS, { description: 'Default: \'desc\'' })),
+      from: s.optional(s.string({ format: 'date-time', description: 'Created at or after' })),
+      to: s.optional(s.string({ format: 'date-time', description: 'Created before' })),
+      q: s.optional(nonEmptyString(`Case-insensitive text in ${searched}`)),
+      ...filters,
+    },
+    { refine: (query) => getCursorError(query, sorts[0]) }
+  );
+}
+
+export const listClientsRequest = {
+  query: s.named(
+    'ListClientsQuery',
+    listQuery(LIST_SORTS.clients, 'the name, email or company', {
+      includeArchived: s.optional(s.boolean({ description: 'Include archived clients (default: false)' })),
+    })
+  ),
+};
+
+/** Fields PATCH /clients/:id can change */
+const EDITABLE_CLIENT_FIELDS = ['name', 'email', 'company', 'phone', 'workflow_settings'];
+
+export const updateClientRequest = {
+  params: idParams,
+  body: s.named(
+    'UpdateClientBody',
+    s.object(
+      {
+        name: s.optional(nonEmptyString()),
+        email: s.optional(s.nullable(emailAddress)),
+        company: s.optional(s.nullable(s.string({ trim: true }))),
+        phone: s.optional(s.nullable(s.string({ trim: true }))),
+        workflow_settings: s.optional(
+          s.clearable(workflowSettingsSchema, { description: 'Merged into the current settings; null removes a setting' })
+        ),
+      },
+      {
+        description: 'Fields PATCH /clients/:id can change; null clears email, company or phone',
+        refine: (changes) =>
+          Object.keys(changes).length === 0 ? `must contain at least one of: ${EDITABLE_CLIENT_FIELDS.join(', ')}` : null,
+      }
+    )
+  ),
+};
+
+export const updatePromptProfileRequest = {
+  params: idParams,
+  body: s.object({
+    prompt_profile: s.nullable(s.describe(promptProfileSchema, 'null resets the client to the default prompt')),
+  }),
+};
+
+export const previewPromptProfileRequest = {
+  params: idParams,
+  body: s.object({
+    text: s.optional(nonEmptyString('Summarized with the profile, without creating a task')),
+    prompt_profile: s.optional(s.nullable(s.describe(promptProfileSchema, 'Draft profile to preview instead of the client\'s'))),
+  }),
+};
+
+export const updateBrandingRequest = {
+  params: idParams,
+  body: s.object({
+    branding: s.nullable(s.describe(clientBrandingSchema, 'null resets the client to the default branding')),
+  }),
+};
+
+export const previewEmailRequest = {
+  params: idParams,
+  body: s.object({
+    template: s.oneOf(EMAIL_TEMPLATE_NAMES),
+    summaryId: s.optional(nonEmptyString()),
+    reportId: s.optional(nonEmptyString()),
+    taskId: s.optional(nonEmptyString()),
+    branding: s.optional(s.nullable(s.describe(clientBrandingSchema, 'Draft branding to preview instead of the client\'s'))),
+  }),
+};
+
+export const createTaskRequest = {
+  body: s.named(
+    'CreateTaskBody',
+    s.object({
+      text: nonEmptyString('Text to summarize'),
+      clientId: nonEmptyString(),
+    })
+  ),
+};
+
+export const listTasksRequest = {
+  query: s.named(
+    'ListTasksQuery',
+    listQuery(LIST_SORTS.tasks, 'the input, output or error', {
+      status: s.optional(taskStatusSchema),
+      errorCategory: s.optional(taskErrorCategorySchema),
+      clientId: s.optional(nonEmptyString()),
+    })
+  ),
+};
+
+export const listSummariesRequest = {
+  query: s.named(
+    'ListSummariesQuery',
+    listQuery(LIST_SORTS.summaries, 'the summary', {
+      clientId: s.optional(nonEmptyString()),
+    })
+  ),
+};
+
+export const reportRequest = {
+  query: s.object({
+    clientId: nonEmptyString(),
+    period: s.optional(s.oneOf(REPORT_PERIODS, { description: 'Calendar period to date (default: today)' })),
+    from: s.optional(s.string({ description: '\'YYYY-MM-DD\' (start of that local day) or an ISO timestamp' })),
+    to: s.optional(s.string({ description: '\'YYYY-MM-DD\' (inclusive) or an ISO timestamp (exclusive)' })),
+    timezone: s.optional(
+      s.string({
+        description: 'Day boundaries (default: the client\'s time zone)',
+        refine: (zone) => (isValidTimeZone(zone) ? null : 'must be an IANA time zone, e.g. "Europe/Madrid"'),
+      })
+    ),
+    format: s.optional(s.oneOf(REPORT_FORMATS)),
+    digest: s.optional(s.boolean({ description: 'Add the LLM-written executive digest' })),
+  }),
+};
+
+export const reportHistoryRequest = {
+  query: listQuery(LIST_SORTS.reports, 'the report', {
+    clientId: s.optional(nonEmptyString()),
+    frequency: s.optional(s.oneOf(['daily', 'weekly'])),
+  }),
+};
+
+export const listNotificationsRequest = {
+  query: s.named(
+    'ListNotificationsQuery',
+    listQuery(LIST_SORTS.notifications, 'the error, skip reason or provider message id', {
+      status: s.optional(notificationStatusSchema),
+      clientId: s.optional(nonEmptyString()),
+      type: s.optional(notificationChannelSchema),
+    })
+  ),
+};
+
+export const retryNotificationsRequest = {
+  body: s.named(
+    'RetryNotificationsBody',
+    s.object(
+      {
+        ids: s.optional(s.array(nonEmptyString(), { minItems: 1, maxItems: 500 })),
+        clientId: s.optional(nonEmptyString()),
+        type: s.optional(notificationChannelSchema),
+      },
+      { description: 'Every failed notification matching all given filters is retried' }
+    )
+  ),
+};
+
+export const updateRetryPolicyRequest = {
+  body: s.named('NotificationRetryPolicyUpdate', s.partial(notificationRetryPolicySchema)),
+};
+
+export const loginRequest = {
+  body: s.named(
+    'LoginBody',
+    s.object({
+      email: nonEmptyString(),
+      password: s.string({ minLength: 1 }),
+      organizationId: s.optional(nonEmptyString('Organization to sign in to (default: the user\'s first)')),
+    })
+  ),
+};
+
+export const createApiKeyRequest = {
+  body: s.object({
+    name: nonEmptyString(),
+    scopes: s.array(s.oneOf(AUTH_SCOPES), { minItems: 1 }),
+  }),
+};
+
+export const inviteMemberRequest = {
+  body: s.object({
+    email: s.string({ trim: true, format: 'email' }),
+    role: s.oneOf(ORGANIZATION_ROLES),
+  }),
+};
+
+export const acceptInvitationRequest = {
+  body: s.object({
+    token: nonEmptyString('The invitation token'),
+    password: s.string({ minLength: 1, description: 'The password of the email\'s account, or the new account\'s password' }),
+    name: s.optional(s.string({ trim: true, description: 'Name of a new account' })),
+  }),
+};
+
+/** Path of the routes acting on one member, /organization/members/:userId */
+export const memberParams = s.object({ userId: nonEmptyString() });
+
+export const updateMemberRoleRequest = {
+  params: memberParams,
+  body: s.object({
+    role: s.oneOf(ORGANIZATION_ROLES),
+  }),
+};
+
+/** POST /email-webhook */
+export const emailWebhookRequest = {
+  body: s.object({
+    clientId: nonEmptyString(),
+    sender: nonEmptyString(),
+    subject: nonEmptyString(),
+    body: nonEmptyString(),
+    attachments: s.optional(s.array(s.string())),
+  }),
+};
+
+/** POST /webhooks/resend-inbound: Resend's inbound email payload, which has more fields than these */
+export const resendInboundRequest = {
+  body: s.object(
+    {
+      from: nonEmptyString(),
+      to: nonEmptyString('The client\'s inbound address, client_<uuid>@<domain>'),
+      subject: nonEmptyString(),
+      text: nonEmptyString(),
+      html: s.optional(s.string()),
+    },
+    { passthrough: true }
+  ),
+};
+
+/** POST /webhooks/resend: an email event; the type decides what is recorded */
+export const resendEventRequest = {
+  body: s.object(
+    {
+      type: nonEmptyString('e.g. \'email.delivered\' or \'email.bounced\''),
+      created_at: s.optional(s.string()),
+      data: s.object(
+        {
+          email_id: nonEmptyString(),
+          bounce: s.optional(s.object({ type: s.optional(s.string()), message: s.optional(s.string()) }, { passthrough: true })),
+          click: s.optional(s.record(s.unknown())),
+        },
+        { passthrough: true }
+      ),
+    },
+    { passthrough: true }
+  ),
+};
+
+/** GET /webhooks/whatsapp: Meta's subscription check */
+export const whatsappVerifyRequest = {
+  query: s.object(
+    {
+      'hub.mode': s.optional(s.string({ description: '\'subscribe\'' })),
+      'hub.verify_token': s.optional(s.string({ description: 'Must equal WHATSAPP_VERIFY_TOKEN' })),
+      'hub.challenge': s.optional(s.string({ description: 'Echoed back when the token matches' })),
+    },
+    { passthrough: true }
+  ),
+};
+
+/** A message status in a WhatsApp webhook: 'sent', 'delivered', 'read', 'failed', ... */
+const whatsappStatus = s.object(
+  {
+    id: s.string({ description: 'WhatsApp message id (wamid)' }),
+    status: s.string(),
+    errors: s.optional(
+      s.array(
+        s.object(
+          { code: s.optional(s.integer()), title: s.optional(s.string()), message: s.optional(s.string()) },
+          { passthrough: true }
+        )
+      )
+    ),
+  },
+  { passthrough: true }
+);
+
+/** POST /webhooks/whatsapp: statuses are read from entry[].changes[].value.statuses[] */
+export const whatsappEventRequest = {
+  body: s.object(
+    {
+      object: s.literal('whatsapp_business_account'),
+      entry: s.array(
+        s.object(
+          {
+            changes: s.optional(
+              s.array(
+                s.object(
+                  {
+                    value: s.optional(s.object({ statuses: s.optional(s.array(whatsappStatus)) }, { passthrough: true })),
+                  },
+                  { passthrough: true }
+                )
+              )
+            ),
+          },
+          { passthrough: true }
+        )
+      ),
+    },
+    { passthrough: true }
+  ),
+};
+
+export type CreateClientBody = s.Infer<typeof createClientRequest.body>;
+export type ListClientsQuery = s.Infer<typeof listClientsRequest.query>;
+export type UpdateClientBody = s.Infer<typeof updateClientRequest.body>;
+export type UpdatePromptProfileBody = s.Infer<typeof updatePromptProfileRequest.body>;
+export type PreviewPromptProfileBody = s.Infer<typeof previewPromptProfileRequest.body>;
+export type UpdateBrandingBody = s.Infer<typeof updateBrandingRequest.body>;
+export type PreviewEmailBody = s.Infer<typeof previewEmailRequest.body>;
+export type CreateTaskBody = s.Infer<typeof createTaskRequest.body>;
+export type ListTasksQuery = s.Infer<typeof listTasksRequest.query>;
+export type ListSummariesQuery = s.Infer<typeof listSummariesRequest.query>;
+export type ReportQuery = s.Infer<typeof reportRequest.query>;
+export type ReportHistoryQuery = s.Infer<typeof reportHistoryRequest.query>;
+export type ListNotificationsQuery = s.Infer<typeof listNotificationsRequest.query>;
+export type RetryNotificationsBody = s.Infer<typeof retryNotificationsRequest.body>;
+export type NotificationRetryPolicyUpdate = s.Infer<typeof updateRetryPolicyRequest.body>;
+export type LoginBody = s.Infer<typeof loginRequest.body>;
+export type CreateApiKeyBody = s.Infer<typeof createApiKeyRequest.body>;
+export type InviteMemberBody = s.Infer<typeof inviteMemberRequest.body>;
+export type AcceptInvitationBody = s.Infer<typeof acceptInvitationRequest.body>;
+export type UpdateMemberRoleBody = s.Infer<typeof updateMemberRoleRequest.body>;
+export type EmailWebhookBody = s.Infer<typeof emailWebhookRequest.body>;
+export type ResendInboundBody = s.Infer<typeof resendInboundRequest.body>;
+export type ResendEventBody = s.Infer<typeof resendEventRequest.body>;
+export type WhatsAppEventBody = s.Infer<typeof whatsappEventRequest.body>;
+
+// ---------------------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------------------
+
+const success = s.literal(true);
+
+/** Paging fields of the list responses */
+const pageInfo = {
+  total: s.integer({ description: 'Rows matching the filters, on every page' }),
+  nextCursor: s.nullable(s.string({ description: 'cursor of the next page; null on the last one' })),
+};
+
+export const clientResponse = s.named('ClientResponse', s.object({ success, client: clientSchema }));
+
+export const clientListResponse = s.named('ClientListResponse', s.object({ success, clients: s.array(clientSchema), ...pageInfo }));
+
+export const archiveClientResponse = s.named(
+  'ArchiveClientResponse',
+  s.object({
+    success,
+    client: clientSchema,
+    skippedNotifications: s.integer({ description: 'Pending and failed notifications skipped by archiving' }),
+  })
+);
+
+export const deleteClientResponse = s.named('DeleteClientResponse', s.object({ success, deleted: clientDeletionSchema }));
+
+export const createTaskResponse = s.named(
+  'CreateTaskResponse',
+  s.object({ success, taskId: s.string(), status: s.literal('processing') })
+);
+
+export const taskListResponse = s.named('TaskListResponse', s.object({ success, tasks: s.array(taskSchema), ...pageInfo }));
+
+export const summaryListResponse = s.named('SummaryListResponse', s.object({ success, summaries: s.array(summarySchema), ...pageInfo }));
+
+/** GET /report without a format: the plain-text report and the range it covers */
+export const reportResponse = s.named(
+  'ReportResponse',
+  s.object({ success, report: s.string(), from: timestamp, to: timestamp, timezone: s.string() })
+);
+
+export const reportDocumentResponse = s.named('ReportDocumentResponse', s.object({ success, report: reportDocumentSchema }));
+
+export const reportHistoryResponse = s.named('ReportHistoryResponse', s.object({ success, reports: s.array(reportSchema), ...pageInfo }));
+
+export const notificationListResponse = s.named(
+  'NotificationListResponse',
+  s.object({ success, notifications: s.array(notificationEventSchema), ...pageInfo })
+);
+
+export const notificationResponse = s.named('NotificationResponse', s.object({ success, notification: notificationEventSchema }));
+
+export const notificationTimelineResponse = s.named(
+  'NotificationTimelineResponse',
+  s.object({
+    success,
+    notification: notificationEventSchema,
+    timeline: s.array(notificationDeliveryEventSchema, { description: 'Oldest first' }),
+  })
+);
+
+export const retryNotificationsResponse = s.named(
+  'RetryNotificationsResponse',
+  s.object({ success, retried: s.integer(), notifications: s.array(notificationEventSchema) })
+);
+
+export const retryPolicyResponse = s.named('RetryPolicyResponse', s.object({ success, policy: notificationRetryPolicySchema }));
+
+export const workerStatsResponse = s.named('WorkerStatsResponse', s.object({ success, stats: workerStatsSchema }));
+
+export const loginResponse = s.named(
+  'LoginResponse',
+  s.object({
+    success,
+    token: s.string(),
+    expiresAt: timestamp,
+    organizationId: s.string(),
+    role: organizationRoleSchema,
+  })
+);
+
+/** Responses that only confirm the change */
+export const successResponse = s.named('SuccessResponse', s.object({ success }));
+
+export const currentAuthResponse = s.named(
+  'CurrentAuthResponse',
+  s.object({
+    success,
+    auth: s.nullable(
+      s.object(
+        {
+          type: s.oneOf(['api_key', 'session']),
+          organizationId: s.string(),
+          scopes: s.array(authScopeSchema),
+          userId: s.optional(s.string({ description: 'Sessions only' })),
+          role: s.optional(organizationRoleSchema),
+        },
+        { description: 'null while authentication is disabled and no token was sent' }
+      )
+    ),
+  })
+);
+
+export const apiKeyListResponse = s.named(
+  'ApiKeyListResponse',
+  s.object({ success, count: s.integer(), apiKeys: s.array(apiKeySchema) })
+);
+
+export const createApiKeyResponse = s.named(
+  'CreateApiKeyResponse',
+  s.object({ success, apiKey: apiKeySchema, key: s.string({ description: 'The key itself, shown only this once' }) })
+);
+
+export const organizationResponse = s.named(
+  'OrganizationResponse',
+  s.object({
+    success,
+    organization: organizationSchema,
+    members: s.array(
+      s.named('OrganizationMemberDetails', s.extend(organizationMemberSchema, { user: s.nullable(userSummarySchema) }))
+    ),
+  })
+);
+
+export const memberResponse = s.named('MemberResponse', s.object({ success, member: organizationMemberSchema }));
+
+export const invitationResponse = s.named(
+  'InvitationResponse',
+  s.object({
+    success,
+    invitation: organizationInvitationSchema,
+    token: s.string({ description: 'Give it to the invitee to accept with; shown only this once' }),
+  })
+);
+
+export const promptProfilePreviewResponse = s.named(
+  'PromptProfilePreviewResponse',
+  s.object({
+    success,
+    prompt_profile: s.nullable(promptProfileSchema),
+    systemPrompt: s.string(),
+    summary: s.optional(s.string({ description: 'When "text" was given: the summary made with the profile' })),
+    model: s.optional(s.string()),
+    provider: s.optional(llmProviderNameSchema),
+  })
+);
+
+export const emailPreviewResponse = s.named('EmailPreviewResponse', s.object({ success, preview: renderedEmailSchema }));
+
+/** POST /email-webhook */
+export const emailWebhookResponse = s.named(
+  'EmailWebhookResponse',
+  s.object({ success, message: s.string(), taskId: s.string() })
+);
+
+/** POST /webhooks/resend-inbound; duplicate for a redelivery, ignored for an archived client */
+export const resendInboundResponse = s.object({
+  success,
+  duplicate: s.optional(s.literal(true)),
+  ignored: s.optional(s.string()),
+});
+
+/** POST /webhooks/resend; matched is false for unknown messages and ignored event types */
+export const resendEventResponse = s.object({ success, matched: s.boolean() });
+
+/** POST /webhooks/whatsapp */
+export const whatsappEventResponse = s.object({ success, processed: s.integer(), matched: s.integer() });
+
+/** Every 4xx and 5xx response */
+export const errorResponse = s.named(
+  'ErrorResponse',
+  s.object({
+    error: s.string({ description: 'e.g. \'Invalid request\', \'Not found\'' }),
+    message: s.string(),
+    errors: s.optional(
+      s.array(
+        s.named(
+          'FieldError',
+          s.object({
+            field: s.string({ description: 'Path of the field, e.g. \'workflow_settings.reportHour\'; \'\' for the whole body' }),
+            location: s.oneOf(['body', 'query', 'params']),
+            message: s.string(),
+          })
+        ),
+        { description: 'Every invalid field, for validation errors' }
+      )
+    ),
+    category: s.optional(s.string({ description: 'LLM failure category, for LLM errors' })),
+  })
+);
+
+// ---------------------------------------------------------------------------------------
+// Dashboard types
+// ---------------------------------------------------------------------------------------
+
+/** Types the dashboard uses; the types they refer to are generated too */
+const DASHBOARD_SCHEMAS: s.Schema[] = [
+  clientSchema,
+  taskSchema,
+  summarySchema,
+  notificationEventSchema,
+  notificationRetryPolicySchema,
+  workerStatsSchema,
+  systemHealthSchema,
+  createClientRequest.body,
+  updateClientRequest.body,
+  retryNotificationsRequest.body,
+  updateRetryPolicyRequest.body,
+  loginRequest.body,
+  listClientsRequest.query,
+  listTasksRequest.query,
+  listSummariesRequest.query,
+  listNotificationsRequest.query,
+  clientResponse,
+  clientListResponse,
+  archiveClientResponse,
+  deleteClientResponse,
+  taskListResponse,
+  summaryListResponse,
+  notificationListResponse,
+  notificationResponse,
+  retryNotificationsResponse,
+  retryPolicyResponse,
+  workerStatsResponse,
+  loginResponse,
+  errorResponse,
+];
+
+/**
+ * Source of dashboard/src/types.ts; tests fail when the file is out of date
+ */
+export function generateDashboardTypes(): string {
+  return [
+    '/**',
+    ' * API types, generated from lib/apiSchemas.ts by `npm run generate:types`. Do not edit:',
+    ' * change the schemas and run the script again.',
+    ' */',
+    '',
+    s.toTypeDeclarations(s.collectNamedSchemas(DASHBOARD_SCHEMAS)),
+  ].join('\n');
+}
+
+// ---------------------------------------------------------------------------------------
+// Compile-time check that the models match types/task.ts
+// ---------------------------------------------------------------------------------------
+
+type Same<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+
+type ModelsMatchTypes = [
+  Same<s.Infer<typeof clientSchema>, Client>,
+  Same<s.Infer<typeof workflowSettingsSchema>, WorkflowSettings>,
+  Same<s.Infer<typeof quietHoursSchema>, QuietHours>,
+  Same<s.Infer<typeof promptProfileSchema>, PromptProfile>,
+  Same<s.Infer<typeof clientBrandingSchema>, ClientBranding>,
+  Same<s.Infer<typeof clientDeletionSchema>, ClientDeletion>,
+  Same<Omit<UpdateClientBody, 'workflow_settings'>, Omit<ClientChanges, 'workflow_settings'>>,
+  Same<NonNullable<UpdateClientBody['workflow_settings']>, NonNullable<ClientChanges['workflow_settings']>>,
+  Same<s.Infer<typeof taskSchema>, Task>,
+  Same<s.Infer<typeof summarySchema>, Summary>,
+  Same<s.Infer<typeof extractionSchema>, Extraction>,
+  Same<s.Infer<typeof notificationEventSchema>, NotificationEvent>,
+  Same<s.Infer<typeof notificationRetryPolicySchema>, NotificationRetryPolicy>,
+  Same<s.Infer<typeof reportSchema>, Report>,
+  Same<s.Infer<typeof digestContentSchema>, DigestContent>,
+  Same<s.Infer<typeof reportDocumentSchema>, ReportDocument>,
+  Same<s.Infer<typeof workerStatsSchema>['automation'], AutomationWorkerStats>,
+  Same<s.Infer<typeof workerStatsSchema>['reports'], ReportSchedulerStats>,
+  Same<s.Infer<typeof workerStatsSchema>['notificationRetry'], NotificationRetryStats>,
+  Same<s.Infer<typeof notificationDeliveryEventSchema>, NotificationDeliveryEvent>,
+  Same<s.Infer<typeof renderedEmailSchema>, RenderedEmail>,
+  Same<s.Infer<typeof apiKeySchema>, Omit<ApiKey, 'key_hash'>>,
+  Same<s.Infer<typeof organizationSchema>, Organization>,
+  Same<s.Infer<typeof organizationMemberSchema>, OrganizationMember>,
+  Same<s.Infer<typeof organizationInvitationSchema>, Omit<OrganizationInvitation, 'token_hash'>>,
+  Same<s.Infer<typeof userSummarySchema>, Omit<User, 'password_hash'>>,
+  Same<s.Infer<typeof organizationResponse>['members'][number], OrganizationMemberDetails>,
+];
+
+/** Fails to compile, naming the mismatched entry, when a schema and its type differ */
+export const MODELS_MATCH_TYPES: ModelsMatchTypes = [
+  true, true, true, true, true, true, true, true, true, true,
+  true, true, true, true, true, true, true, true, true, true,
+  true, true, true, true, true, true, true,
+];
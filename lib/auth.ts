@@ -0,0 +1,133 @@
+/**
+ * Authentication
+ * Token generation, hashing and scope checks for API keys and dashboard sessions, and
+ * password hashing for users. Tokens are random and only their SHA-256 hash is stored, so
+ * a database leak does not expose working credentials.
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { AuthScope, OrganizationRole } from '../types/task';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const AUTH_SCOPES: AuthScope[] = ['read', 'write', 'webhook', 'admin'];
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'operator', 'viewer'];
+
+/** What a session may do, by the user's role in the organization */
+export const ROLE_SCOPES: Record<OrganizationRole, AuthScope[]> = {
+  owner: ['admin'],
+  operator: ['read', 'write'],
+  viewer: ['read'],
+};
+
+/**
+ * Created by migration 017: owns the data from before organizations, and clients created
+ * while authentication is disabled
+ */
+export const DEFAULT_ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+
+export const MIN_PASSWORD_LENGTH = 10;
+const PASSWORD_KEY_LENGTH = 64;
+
+/** Prefixes that tell API keys and session tokens apart when they appear in logs or configs */
+export const API_KEY_PREFIX = 'inc_key_';
+export const SESSION_TOKEN_PREFIX = 'inc_sess_';
+export const INVITATION_TOKEN_PREFIX = 'inc_inv_';
+
+/** Characters of an API key kept in clear to recognise it in listings */
+const KEY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+const DEFAULT_SESSION_TTL_HOURS = 12;
+const MAX_SESSION_TTL_HOURS = 30 * 24;
+
+/**
+ * Generate a new random token with the given prefix
+ */
+export function generateToken(prefix: string): string {
+  return `${prefix}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * The stored form of a token
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The part of an API key shown in listings
+ */
+export function getKeyPrefix(key: string): string {
+  return key.slice(0, KEY_PREFIX_LENGTH);
+}
+
+/**
+ * Hash a user's password for storage
+ * @returns "scrypt$<salt>$<hash>", base64
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * Check a password against a stored hash, in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check a new password
+ * @returns An error message, or null if acceptable
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `"password" must be a string of at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Whether the granted scopes allow the required one: admin allows everything and write
+ * implies read
+ */
+export function hasScope(granted: AuthScope[], required: AuthScope): boolean {
+  if (granted.includes('admin') || granted.includes(required)) return true;
+  return required === 'read' && granted.includes('write');
+}
+
+/**
+ * Session lifetime from SESSION_TTL_HOURS (default 12 hours, at most 30 days)
+ */
+export function getSessionTtlMs(): number {
+  const hours = parseInt(process.env.SESSION_TTL_HOURS || '', 10);
+  const valid = Number.isInteger(hours) && hours >= 1 && hours <= MAX_SESSION_TTL_HOURS;
+  return (valid ? hours : DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Whether a token is the platform operator key (OPERATOR_API_KEY), compared in constant
+ * time. The operator runs the deployment and is the only one allowed to see or change
+ * what is shared by every organization; no token matches while the key is unset.
+ */
+export function isOperatorToken(token: string): boolean {
+  const operatorKey = process.env.OPERATOR_API_KEY;
+  if (!operatorKey) return false;
+  return crypto.timingSafeEqual(Buffer.from(hashToken(token), 'hex'), Buffer.from(hashToken(operatorKey), 'hex'));
+}
+
+/**
+ * Whether authentication is switched off (AUTH_DISABLED=true); never honoured in production
+ */
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === 'true' && process.env.NODE_ENV !== 'production';
+}
@@ -0,0 +1,121 @@
+import { DigestContent } from '../types/task';
+
+/**
+ * Report Digest
+ * JSON schema, prompts, validation and chunking for the LLM-written executive digest
+ * of a report period. Periods with more summaries than fit in one request are digested
+ * chunk by chunk (map) and the partial digests merged (reduce).
+ */
+
+const DEFAULT_CHUNK_CHARS = 12000;
+const MAX_LIST_ITEMS = 10;
+
+const stringList = { type: 'array', items: { type: 'string' } };
+
+export const DIGEST_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['overview', 'themes', 'open_action_items', 'urgent'],
+  properties: {
+    overview: { type: 'string', description: '2-4 sentence executive overview' },
+    themes: { ...stringList, description: 'Recurring topics, most significant first' },
+    open_action_items: { ...stringList, description: 'Outstanding actions, with owner and due date when known' },
+    urgent: { ...stringList, description: 'Matters needing attention now; empty when nothing is urgent' },
+  },
+};
+
+/**
+ * Maximum characters of input per digest request (DIGEST_CHUNK_CHARS, default 12000)
+ */
+export function getDigestChunkChars(): number {
+  const value = parseInt(process.env.DIGEST_CHUNK_CHARS || '', 10);
+  return value > 0 ? value : DEFAULT_CHUNK_CHARS;
+}
+
+/**
+ * System prompt for a digest request. 'summaries' digests task summaries directly; 'merge'
+ * combines partial digests of consecutive chunks of the same period.
+ */
+export function buildDigestPrompt(stage: 'summaries' | 'merge'): string {
+  const input =
+    stage === 'summaries'
+      ? 'You receive the task summaries for one client and reporting period, one per line, newest first, with the extracted action items and deadlines.'
+      : 'You receive partial digests (JSON), each covering part of one client\'s reporting period. Merge them into a single digest of the whole period.';
+
+  return `
+You write executive digests for SMB owners.
+
+${input}
+
+RULES:
+
+- Return ONLY JSON matching the provided schema
+- overview: 2-4 sentences on what happened in the period and what matters most
+- themes: up to ${MAX_LIST_ITEMS} recurring topics, most significant first
+- open_action_items: up to ${MAX_LIST_ITEMS} outstanding actions, with owner and due date when known; merge duplicates
+- urgent: anything with a deadline in the next few days, significant money at stake or explicitly urgent; empty when nothing is
+- Professional and factual tone; no advice
+- Do not invent information that is not in the input
+`;
+}
+
+type ValidationResult = { data: DigestContent; error?: undefined } | { data?: undefined; error: string };
+
+const toStringList = (value: unknown): string[] | null =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string')
+    ? value.map((item: string) => item.trim()).filter(Boolean).slice(0, MAX_LIST_ITEMS)
+    : null;
+
+/**
+ * Validate and normalise digest output from the LLM
+ * Lists are trimmed, blank entries dropped and capped at MAX_LIST_ITEMS.
+ */
+export function validateDigest(value: unknown): ValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'Digest must be a JSON object' };
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.overview !== 'string' || record.overview.trim().length === 0) {
+    return { error: '"overview" must be a non-empty string' };
+  }
+
+  const lists: Partial<Record<'themes' | 'open_action_items' | 'urgent', string[]>> = {};
+  for (const field of ['themes', 'open_action_items', 'urgent'] as const) {
+    const list = toStringList(record[field]);
+    if (!list) {
+      return { error: `"${field}" must be an array of strings` };
+    }
+    lists[field] = list;
+  }
+
+  return {
+    data: {
+      overview: record.overview.trim(),
+      themes: lists.themes as string[],
+      open_action_items: lists.open_action_items as string[],
+      urgent: lists.urgent as string[],
+    },
+  };
+}
+
+/**
+ * Group lines into chunks of at most maxChars (a single longer line gets a chunk of its own)
+ */
+export function chunkLines(lines: string[], maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const line of lines) {
+    if (current && current.length + 1 + line.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
@@ -0,0 +1,153 @@
+/**
+ * Email Templates
+ * Named, versioned templates for outgoing emails. Each renders a subject, an HTML part and
+ * a plain-text alternative from its variables, inside a shared layout that carries the
+ * client's branding (logo, accent colour, sign-off). Bump a template's version whenever
+ * its wording or layout changes; sent emails are tagged with name@version.
+ */
+
+import { escapeHtml } from './html';
+import { ClientBranding } from '../types/task';
+
+export type EmailTemplateName = 'summary_ready' | 'summary_digest' | 'daily_report' | 'weekly_report' | 'failure_alert';
+
+/** Variables each template is rendered with */
+export interface EmailTemplateVariables {
+  summary_ready: { clientName: string; summary: string };
+  summary_digest: { clientName: string; summaries: string[] };
+  daily_report: { clientName: string; report: string };
+  weekly_report: { clientName: string; report: string };
+  failure_alert: { clientName: string; taskId: string; error: string; failedAt: string; input: string };
+}
+
+export interface RenderedEmail {
+  template: EmailTemplateName;
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Greeting, intro line and the highlighted content block of an email */
+interface EmailBody {
+  intro: string;
+  content: string;
+  /** Label/value lines shown under the content */
+  details?: Array<[string, string]>;
+}
+
+interface EmailTemplate<N extends EmailTemplateName> {
+  version: number;
+  subject(variables: EmailTemplateVariables[N]): string;
+  body(variables: EmailTemplateVariables[N]): EmailBody;
+}
+
+export const DEFAULT_BRANDING: Required<Omit<ClientBranding, 'logoUrl'>> = {
+  primaryColor: '#2c3e50',
+  signOff: 'Included AI Assistant',
+};
+
+const INPUT_PREVIEW_CHARS = 300;
+
+const TEMPLATES: { [N in EmailTemplateName]: EmailTemplate<N> } = {
+  summary_ready: {
+    version: 2,
+    subject: () => 'Included — New Summary Ready',
+    body: ({ summary }) => ({ intro: 'Here is your latest summary:', content: summary }),
+  },
+  summary_digest: {
+    version: 1,
+    subject: ({ summaries }) => `Included — ${summaries.length} New ${summaries.length === 1 ? 'Summary' : 'Summaries'}`,
+    body: ({ summaries }) => ({
+      intro: summaries.length === 1 ? 'Here is your new summary:' : `Here are your ${summaries.length} new summaries:`,
+      content: summaries.map((summary, index) => `${index + 1}. ${summary}`).join('\n\n'),
+    }),
+  },
+  daily_report: {
+    version: 2,
+    subject: () => 'Included — Your Daily Report',
+    body: ({ report }) => ({ intro: 'Here is your daily report:', content: report }),
+  },
+  weekly_report: {
+    version: 2,
+    subject: () => 'Included — Your Weekly Report',
+    body: ({ report }) => ({ intro: 'Here is your weekly report:', content: report }),
+  },
+  failure_alert: {
+    version: 1,
+    subject: ({ clientName }) => `Included — Task failed for ${clientName}`,
+    body: ({ taskId, error, failedAt, input }) => ({
+      intro: 'A task could not be processed and needs attention:',
+      content: error,
+      details: [
+        ['Task', taskId],
+        ['Failed at', failedAt],
+        ['Input', input.length > INPUT_PREVIEW_CHARS ? `${input.slice(0, INPUT_PREVIEW_CHARS - 1).trimEnd()}…` : input],
+      ],
+    }),
+  },
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(TEMPLATES) as EmailTemplateName[];
+
+/**
+ * Render a template with the client's branding (defaults for anything not set)
+ */
+export function renderEmailTemplate<N extends EmailTemplateName>(
+  name: N,
+  variables: EmailTemplateVariables[N],
+  branding?: ClientBranding | null
+): RenderedEmail {
+  const template = TEMPLATES[name] as EmailTemplate<N>;
+  const subject = template.subject(variables);
+  const body = template.body(variables);
+  const brand = { ...DEFAULT_BRANDING, ...branding };
+
+  return {
+    template: name,
+    version: template.version,
+    subject,
+    html: renderHtml(subject, variables.clientName, body, brand),
+    text: renderText(variables.clientName, body, brand.signOff),
+  };
+}
+
+function renderHtml(subject: string, clientName: string, body: EmailBody, brand: ClientBranding & typeof DEFAULT_BRANDING): string {
+  const logo = brand.logoUrl
+    ? `\n  <p><img src="${escapeHtml(brand.logoUrl)}" alt="${escapeHtml(brand.signOff)}" style="max-height: 48px;"></p>\n`
+    : '';
+  const details = body.details?.length
+    ? `\n  <table style="font-size: 14px; border-collapse: collapse;">\n${body.details
+        .map(
+          ([label, value]) =>
+            `    <tr><td style="padding: 2px 12px 2px 0; color: #777;">${escapeHtml(label)}</td><td style="padding: 2px 0;">${escapeHtml(value)}</td></tr>`
+        )
+        .join('\n')}\n  </table>\n`
+    : '';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">${logo}
+  <p>Hello ${escapeHtml(clientName)},</p>
+
+  <p>${escapeHtml(body.intro)}</p>
+
+  <div style="background-color: #f9f9f9; border-left: 4px solid ${escapeHtml(brand.primaryColor)}; padding: 15px; margin: 20px 0;">
+    <p style="margin: 0; font-size: 16px; line-height: 1.6; white-space: pre-wrap;">${escapeHtml(body.content)}</p>
+  </div>
+${details}
+  <p style="margin-top: 30px;">${escapeHtml(brand.signOff)}</p>
+</body>
+</html>
+`.trim();
+}
+
+function renderText(clientName: string, body: EmailBody, signOff: string): string {
+  const details = body.details?.length ? `\n\n${body.details.map(([label, value]) => `${label}: ${value}`).join('\n')}` : '';
+  return `Hello ${clientName},\n\n${body.intro}\n\n${body.content}${details}\n\n-- \n${signOff}\n`;
+}
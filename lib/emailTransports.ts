@@ -0,0 +1,364 @@
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { parseRetryAfter, TokenBucket } from './rateLimit';
+import { sendSmtpMessage, SmtpError, SmtpOptions } from './smtp';
+
+/**
+ * Email Transports
+ * Backends the email service hands finished messages to. Transports send a single
+ * message and throw on failure; retries live in services/emailService.ts.
+ *
+ * Selected with EMAIL_TRANSPORT:
+ *   - resend — Resend HTTP API (RESEND_API_KEY), the default
+ *   - smtp   — any SMTP server or relay (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD)
+ *   - outbox — writes each message as an .eml file to EMAIL_OUTBOX_DIR, for development
+ *              and tests; nothing leaves the machine
+ *
+ * Credentials are read when a message is sent, so a missing key only fails sending.
+ *
+ * Sends are paced per transport by a token bucket (RESEND_RATE_LIMIT, SMTP_RATE_LIMIT,
+ * in messages per second; 0 turns pacing off).
+ */
+
+export type EmailTransportName = 'resend' | 'smtp' | 'outbox';
+
+export const EMAIL_TRANSPORT_NAMES: EmailTransportName[] = ['resend', 'smtp', 'outbox'];
+
+export interface OutgoingEmail {
+  /** Sender, "noreply@example.com" or "Included <noreply@example.com>" */
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text alternative part */
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  /** @returns The provider's message ID (the Message-ID for SMTP and outbox) */
+  send(email: OutgoingEmail): Promise<{ id: string }>;
+}
+
+/**
+ * A failed send. Rate limits, server errors and network failures may succeed on a later
+ * attempt; rejected recipients, bad requests and missing configuration will not.
+ */
+export class EmailTransportError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    /** How long the provider asked us to wait (Retry-After), in milliseconds */
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'EmailTransportError';
+  }
+}
+
+/** Messages per second when RESEND_RATE_LIMIT / SMTP_RATE_LIMIT are not set */
+const DEFAULT_RATE_LIMITS: Record<EmailTransportName, number> = {
+  resend: 2, // Resend's default API limit
+  smtp: 5,
+  outbox: 0,
+};
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** Body of a Resend API error response */
+interface ResendErrorBody {
+  message?: string;
+}
+
+/**
+ * Resend HTTP API
+ */
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend' as const;
+
+  async send(email: OutgoingEmail): Promise<{ id: string }> {
+    const apiKey = process.env.RESEND_API_KEY || process.env.EMAIL_PROVIDER_API_KEY;
+    if (!apiKey) {
+      throw new EmailTransportError('RESEND_API_KEY (or EMAIL_PROVIDER_API_KEY) environment variable is not set', false);
+    }
+
+    try {
+      const response = await axios.post(
+        'https://api.resend.com/emails',
+        {
+          from: email.from,
+          to: [email.to],
+          subject: email.subject,
+          html: email.html,
+          ...(email.text ? { text: email.text } : {}),
+          ...(email.headers ? { headers: email.headers } : {}),
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+        }
+      );
+
+      return { id: response.data?.id || 'unknown' };
+    } catch (error) {
+      if (!axios.isAxiosError<ResendErrorBody>(error)) {
+        throw new EmailTransportError(`Resend API error: ${error instanceof Error ? error.message : 'Unknown error'}`, true);
+      }
+      const status = error.response?.status;
+      throw new EmailTransportError(
+        `Resend API error: ${error.response?.data?.message || error.message}`,
+        status === undefined || status === 429 || status >= 500,
+        parseRetryAfter(error.response?.headers?.['retry-after']) ?? undefined
+      );
+    }
+  }
+}
+
+/**
+ * SMTP server or relay. Port 465 (or SMTP_SECURE=true) uses implicit TLS; other ports
+ * upgrade with STARTTLS when the server offers it. 4xx replies and connection failures
+ * are retryable, 5xx replies are not.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+
+  async send(email: OutgoingEmail): Promise<{ id: string }> {
+    const options = getSmtpOptions();
+    const { id, message } = buildMimeMessage(email);
+
+    try {
+      await sendSmtpMessage(options, { from: getAddress(email.from), to: [getAddress(email.to)] }, message);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const code = error instanceof SmtpError ? error.code : undefined;
+      throw new EmailTransportError(`SMTP error: ${errorMessage}`, code === undefined || code < 500);
+    }
+
+    return { id };
+  }
+}
+
+/**
+ * Writes messages to EMAIL_OUTBOX_DIR (default: ./outbox) as .eml files, which open in
+ * any mail client
+ */
+export class OutboxTransport implements EmailTransport {
+  readonly name = 'outbox' as const;
+  private dir?: string;
+
+  constructor(dir?: string) {
+    this.dir = dir;
+  }
+
+  async send(email: OutgoingEmail): Promise<{ id: string }> {
+    const dir = path.resolve(this.dir || process.env.EMAIL_OUTBOX_DIR || 'outbox');
+    const { id, message } = buildMimeMessage(email);
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${id.split('@')[0]}.eml`;
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, fileName), message, 'utf8');
+
+    return { id };
+  }
+}
+
+function getSmtpOptions(): SmtpOptions {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new EmailTransportError('SMTP_HOST environment variable is not set', false);
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '', 10) || 587;
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    requireTLS: process.env.SMTP_REQUIRE_TLS ? process.env.SMTP_REQUIRE_TLS === 'true' : undefined,
+  };
+}
+
+/**
+ * The bare address of "Name <address>" (or of a bare address)
+ */
+export function getAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]*)>\s*$/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Build an RFC 5322 message: multipart/alternative when there is a text part, quoted-printable
+ * bodies and RFC 2047 encoded subjects
+ * @returns The message and its Message-ID (without angle brackets)
+ */
+export function buildMimeMessage(email: OutgoingEmail, now: Date = new Date()): { id: string; message: string } {
+  const domain = getAddress(email.from).split('@')[1] || 'localhost';
+  const id = `${uuidv4()}@${domain}`;
+
+  const headers = [
+    `From: ${stripLineBreaks(email.from)}`,
+    `To: ${stripLineBreaks(email.to)}`,
+    encodeHeader('Subject', email.subject),
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${id}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  for (const [name, value] of Object.entries(email.headers || {})) {
+    if (/^[A-Za-z0-9-]+$/.test(name)) {
+      headers.push(encodeHeader(name, value));
+    }
+  }
+
+  const htmlPart = bodyPart('text/html', email.html);
+
+  if (!email.text) {
+    return { id, message: [...headers, ...htmlPart, ''].join('\r\n') };
+  }
+
+  const boundary = `included-${uuidv4()}`;
+  const textPart = bodyPart('text/plain', email.text);
+
+  return {
+    id,
+    message: [
+      ...headers,
+      `Content-Type: multipart/alternative;\r\n boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      ...textPart,
+      `--${boundary}`,
+      ...htmlPart,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n'),
+  };
+}
+
+const bodyPart = (contentType: string, content: string): string[] => [
+  `Content-Type: ${contentType}; charset=UTF-8`,
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  encodeQuotedPrintable(content),
+];
+
+const stripLineBreaks = (value: string): string => value.replace(/[\r\n]+/g, ' ');
+
+/** Longest encoded word (RFC 2047 §2) */
+const MAX_ENCODED_WORD_LENGTH = 75;
+/** Longest line of a header that contains encoded words (RFC 2047 §2) */
+const MAX_HEADER_LINE_LENGTH = 76;
+
+const encodeWord = (text: string): string => `=?UTF-8?B?${Buffer.from(text, 'utf8').toString('base64')}?=`;
+
+/** "=?UTF-8?B?" and "?=" around the base64 of the text's UTF-8 bytes */
+const encodedWordLength = (text: string): number => 12 + 4 * Math.ceil(Buffer.byteLength(text, 'utf8') / 3);
+
+/**
+ * A header line: ASCII values as they are; anything else as UTF-8 encoded words, folded
+ * across lines. Words are split between characters, never inside one, by encoded length.
+ */
+function encodeHeader(name: string, value: string): string {
+  const clean = stripLineBreaks(value);
+  if (/^[\x20-\x7e]*$/.test(clean)) return `${name}: ${clean}`;
+
+  const words: string[] = [];
+  let word = '';
+  // The first word shares its line with "Name: "
+  let maxLength = Math.min(MAX_ENCODED_WORD_LENGTH, MAX_HEADER_LINE_LENGTH - name.length - 2);
+  for (const char of clean) {
+    if (word && encodedWordLength(word + char) > maxLength) {
+      words.push(encodeWord(word));
+      word = '';
+      maxLength = MAX_ENCODED_WORD_LENGTH;
+    }
+    word += char;
+  }
+  words.push(encodeWord(word));
+
+  return `${name}: ${words.join('\r\n ')}`;
+}
+
+/**
+ * Quoted-printable (RFC 2045): printable ASCII as is, everything else as =XX, with soft
+ * line breaks keeping lines under 76 characters
+ */
+function encodeQuotedPrintable(value: string): string {
+  return value
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const bytes = Buffer.from(line, 'utf8');
+      const lines: string[] = [];
+      let current = '';
+
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1;
+        const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        const token = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+
+        if (current.length + token.length > 75) {
+          lines.push(`${current}=`);
+          current = '';
+        }
+        current += token;
+      });
+
+      return [...lines, current].join('\r\n');
+    })
+    .join('\r\n');
+}
+
+export function isEmailTransportName(value: unknown): value is EmailTransportName {
+  return typeof value === 'string' && (EMAIL_TRANSPORT_NAMES as string[]).includes(value);
+}
+
+const transports = new Map<EmailTransportName, EmailTransport>();
+
+/**
+ * Get the transport instance for a name, falling back to EMAIL_TRANSPORT and then Resend
+ */
+export function getEmailTransport(name?: EmailTransportName | null): EmailTransport {
+  const envTransport = process.env.EMAIL_TRANSPORT;
+  const resolved: EmailTransportName = name || (isEmailTransportName(envTransport) ? envTransport : 'resend');
+
+  let transport = transports.get(resolved);
+  if (!transport) {
+    switch (resolved) {
+      case 'smtp':
+        transport = new SmtpTransport();
+        break;
+      case 'outbox':
+        transport = new OutboxTransport();
+        break;
+      default:
+        transport = new ResendTransport();
+    }
+    transports.set(resolved, transport);
+  }
+
+  return transport;
+}
+
+const rateLimiters = new Map<EmailTransportName, TokenBucket>();
+
+/**
+ * Get the token bucket that paces a transport's sends, shared by every sender in the process
+ */
+export function getEmailRateLimiter(name: EmailTransportName): TokenBucket {
+  let limiter = rateLimiters.get(name);
+  if (!limiter) {
+    const configured = parseFloat(process.env[`${name.toUpperCase()}_RATE_LIMIT`] || '');
+    limiter = new TokenBucket(configured >= 0 ? configured : DEFAULT_RATE_LIMITS[name]);
+    rateLimiters.set(name, limiter);
+  }
+
+  return limiter;
+}
@@ -0,0 +1,200 @@
+import {
+  ActionItem,
+  Counterparty,
+  Deadline,
+  ExtractedData,
+  ExtractionPriority,
+  MonetaryAmount,
+} from '../types/task';
+
+/**
+ * Structured Extraction
+ * JSON schema, prompt and validation for the action items, deadlines, amounts,
+ * counterparties and priority extracted from each task. The schema is sent to the
+ * provider as a strict response format; the validator re-checks the output because
+ * not every backend enforces it.
+ */
+
+export const EXTRACTION_PRIORITIES: ExtractionPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+const MAX_ITEMS = 20;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const nullableString = { type: ['string', 'null'] };
+
+export const EXTRACTION_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['priority', 'action_items', 'deadlines', 'amounts', 'counterparties'],
+  properties: {
+    priority: { type: 'string', enum: EXTRACTION_PRIORITIES },
+    action_items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['description', 'owner', 'due_date'],
+        properties: {
+          description: { type: 'string' },
+          owner: nullableString,
+          due_date: { ...nullableString, description: 'YYYY-MM-DD' },
+        },
+      },
+    },
+    deadlines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['description', 'date'],
+        properties: {
+          description: { type: 'string' },
+          date: { type: 'string', description: 'YYYY-MM-DD' },
+        },
+      },
+    },
+    amounts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['amount', 'currency', 'description'],
+        properties: {
+          amount: { type: 'number' },
+          currency: { type: 'string', description: 'ISO 4217 code, e.g. USD' },
+          description: nullableString,
+        },
+      },
+    },
+    counterparties: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'type', 'role'],
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string', enum: ['person', 'organization'] },
+          role: nullableString,
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Whether tasks get a structured extraction (EXTRACTION_ENABLED, default true)
+ */
+export function isExtractionEnabled(): boolean {
+  return process.env.EXTRACTION_ENABLED !== 'false';
+}
+
+/**
+ * System prompt for extraction. Relative dates are resolved against `today`.
+ */
+export function buildExtractionPrompt(today: string): string {
+  return `
+You extract structured data from SMB business communications.
+
+Today's date is ${today}.
+
+RULES:
+
+- Return ONLY JSON matching the provided schema
+- action_items: concrete tasks someone must do; owner is the responsible person or party if stated, otherwise null
+- deadlines: dated commitments or expiries that are not already an action item's due_date
+- amounts: monetary amounts mentioned, with ISO 4217 currency codes
+- counterparties: people and organizations involved, excluding the recipient's own team
+- priority: "urgent" for same-day or explicitly urgent matters, "high" for deadlines within a week or significant money, "low" for purely informational messages, otherwise "medium"
+- Dates as YYYY-MM-DD; resolve relative dates ("next Friday") against today's date
+- Use empty arrays when nothing applies
+- Do not invent information that is not in the text
+`;
+}
+
+type ValidationResult = { data: ExtractedData; error?: undefined } | { data?: undefined; error: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+
+/**
+ * Validate and normalise extraction output from the LLM
+ * Blank strings become null; items with a missing description, an invalid date or amount fail validation.
+ */
+export function validateExtraction(value: unknown): ValidationResult {
+  if (!isObject(value)) {
+    return { error: 'Extraction must be a JSON object' };
+  }
+
+  if (!EXTRACTION_PRIORITIES.includes(value.priority as ExtractionPriority)) {
+    return { error: `"priority" must be one of: ${EXTRACTION_PRIORITIES.join(', ')}` };
+  }
+
+  for (const field of ['action_items', 'deadlines', 'amounts', 'counterparties']) {
+    if (!Array.isArray(value[field])) {
+      return { error: `"${field}" must be an array` };
+    }
+    if ((value[field] as unknown[]).length > MAX_ITEMS) {
+      return { error: `"${field}" has more than ${MAX_ITEMS} items` };
+    }
+    if (!(value[field] as unknown[]).every(isObject)) {
+      return { error: `"${field}" must only contain objects` };
+    }
+  }
+
+  const actionItems: ActionItem[] = [];
+  for (const item of value.action_items as Record<string, unknown>[]) {
+    const description = optionalText(item.description);
+    const dueDate = optionalText(item.due_date);
+    if (!description) return { error: 'Action item is missing a description' };
+    if (dueDate && !isValidDate(dueDate)) return { error: `Invalid action item due_date: ${dueDate}` };
+    actionItems.push({ description, owner: optionalText(item.owner), due_date: dueDate });
+  }
+
+  const deadlines: Deadline[] = [];
+  for (const item of value.deadlines as Record<string, unknown>[]) {
+    const description = optionalText(item.description);
+    const date = optionalText(item.date);
+    if (!description) return { error: 'Deadline is missing a description' };
+    if (!date || !isValidDate(date)) return { error: `Invalid deadline date: ${date}` };
+    deadlines.push({ description, date });
+  }
+
+  const amounts: MonetaryAmount[] = [];
+  for (const item of value.amounts as Record<string, unknown>[]) {
+    const currency = optionalText(item.currency)?.toUpperCase();
+    if (typeof item.amount !== 'number' || !Number.isFinite(item.amount)) {
+      return { error: 'Amount must be a finite number' };
+    }
+    if (!currency || !CURRENCY_CODE.test(currency)) return { error: `Invalid currency code: ${item.currency}` };
+    amounts.push({ amount: item.amount, currency, description: optionalText(item.description) });
+  }
+
+  const counterparties: Counterparty[] = [];
+  for (const item of value.counterparties as Record<string, unknown>[]) {
+    const name = optionalText(item.name);
+    if (!name) return { error: 'Counterparty is missing a name' };
+    if (item.type !== 'person' && item.type !== 'organization') {
+      return { error: `Invalid counterparty type: ${item.type}` };
+    }
+    counterparties.push({ name, type: item.type, role: optionalText(item.role) });
+  }
+
+  return {
+    data: {
+      priority: value.priority as ExtractionPriority,
+      action_items: actionItems,
+      deadlines,
+      amounts,
+      counterparties,
+    },
+  };
+}
+
+function isValidDate(value: string): boolean {
+  return ISO_DATE.test(value) && !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime());
+}
@@ -0,0 +1,22 @@
+/**
+ * HTML Helpers
+ */
+
+const HTML_ESCAPE_MAP: { [key: string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#x27;',
+  '/': '&#x2F;',
+};
+
+/**
+ * Escape HTML special characters to prevent XSS
+ *
+ * @param text - Text to escape
+ * @returns HTML-safe text
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"'/]/g, (char) => HTML_ESCAPE_MAP[char] || char);
+}
@@ -0,0 +1,315 @@
+import OpenAI from 'openai';
+import axios from 'axios';
+import { LLMProviderName } from '../types/task';
+
+export type { LLMProviderName } from '../types/task';
+
+/**
+ * LLM Providers
+ * Backends the LLM worker can send chat completions to. Providers make a single
+ * request and throw on failure; retries, backoff and error classification live in
+ * workers/llmWorker.ts so every provider gets them.
+ *
+ * Selected per environment with LLM_PROVIDER and per client with
+ * workflow_settings.llmProvider:
+ *   - openai            — OpenAI API (OPENAI_API_KEY)
+ *   - openai-compatible — any server exposing /chat/completions (Ollama, llama.cpp, vLLM)
+ *                         at LLM_BASE_URL, for data that has to stay on-prem
+ *   - stub              — deterministic in-process summarizer for tests and demos
+ */
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'openai-compatible', 'stub'];
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** JSON schema the completion must conform to (structured output) */
+export interface LLMResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  /** Constrain the output to JSON matching a schema; omitted for free text */
+  responseFormat?: LLMResponseFormat;
+}
+
+export interface LLMCompletion {
+  /** Raw message content; empty or null when the model returned nothing */
+  content: string | null;
+  usage: LLMUsage | null;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Error thrown by providers for failed HTTP calls, carrying the status and
+ * network error code the worker uses to classify failures
+ */
+export class LLMProviderError extends Error {
+  status?: number;
+  code?: string;
+
+  constructor(message: string, status?: number, code?: string) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * OpenAI chat completions via the official SDK
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+  private model: string;
+
+  constructor(model?: string) {
+    this.model = model || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = process.env.OPENAI_API_KEY;
+
+      if (!apiKey) {
+        throw new LLMProviderError('OPENAI_API_KEY environment variable is not set', 401);
+      }
+
+      this.client = new OpenAI({
+        apiKey,
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+    }
+
+    return this.client;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      ...(request.responseFormat ? { response_format: toResponseFormat(request.responseFormat) } : {}),
+    });
+
+    return {
+      content: response.choices?.[0]?.message?.content ?? null,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : null,
+      model: response.model || this.model,
+    };
+  }
+}
+
+/**
+ * Any OpenAI-compatible /chat/completions endpoint (Ollama, llama.cpp server, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible' as const;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl?: string; model?: string; apiKey?: string } = {}) {
+    this.baseUrl = (options.baseUrl || process.env.LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+    this.model = options.model || process.env.LLM_MODEL || 'llama3.1';
+    this.apiKey = options.apiKey || process.env.LLM_API_KEY;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        {
+          model: this.model,
+          messages: request.messages,
+          stream: false,
+          ...(request.responseFormat ? { response_format: toResponseFormat(request.responseFormat) } : {}),
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+        }
+      );
+
+      const data = response.data || {};
+      return {
+        content: data.choices?.[0]?.message?.content ?? null,
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.prompt_tokens ?? 0,
+              completionTokens: data.usage.completion_tokens ?? 0,
+              totalTokens: data.usage.total_tokens ?? 0,
+            }
+          : null,
+        model: data.model || this.model,
+      };
+    } catch (error) {
+      if (error instanceof LLMProviderError) throw error;
+      if (!axios.isAxiosError(error)) {
+        throw new LLMProviderError(`LLM endpoint error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      throw new LLMProviderError(
+        `LLM endpoint error: ${getApiError(error.response?.data) ?? error.message}`,
+        error.response?.status,
+        error.code
+      );
+    }
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The error an OpenAI-compatible server put in its response body:
+ * `{ "error": { "message": ... } }` like OpenAI, or `{ "error": "..." }` like Ollama
+ */
+function getApiError(body: unknown): string | undefined {
+  if (!isObject(body) || !body.error) return undefined;
+  if (typeof body.error === 'string') return body.error;
+  if (isObject(body.error) && typeof body.error.message === 'string' && body.error.message) return body.error.message;
+  return JSON.stringify(body.error);
+}
+
+/**
+ * Deterministic in-process provider: returns the first two sentences of the user
+ * message, or for structured output the smallest value matching the schema (with
+ * required strings set to those sentences).
+ * No network, no cost, same output for the same input.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const prompt = request.messages.map((m) => m.content).join('\n');
+    let content: string;
+
+    const input = [...request.messages].reverse().find((m) => m.role === 'user')?.content || '';
+    const text = input.replace(/\s+/g, ' ').trim();
+    const sentences = text.match(/[^.!?]+[.!?]+/g) || (text ? [text] : []);
+    let summary = sentences.slice(0, 2).map((s) => s.trim()).join(' ');
+    if (summary.length > 300) {
+      summary = `${summary.slice(0, 297).trimEnd()}...`;
+    }
+
+    if (request.responseFormat) {
+      content = JSON.stringify(minimalInstance(request.responseFormat.schema, summary));
+    } else {
+      content = summary;
+    }
+
+    const promptTokens = countWords(prompt);
+    const completionTokens = countWords(content);
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      model: 'stub',
+    };
+  }
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Smallest value satisfying a JSON schema: empty arrays, first enum value, null where
+ * allowed, and `text` for strings
+ */
+function minimalInstance(schema: Record<string, unknown>, text: string): unknown {
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? (schema.type.includes('null') ? 'null' : schema.type[0]) : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = isObject(schema.properties) ? schema.properties : {};
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, minimalInstance(isObject(value) ? value : {}, text)])
+      );
+    }
+    case 'array':
+      return [];
+    case 'string':
+      return text;
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * OpenAI-style response_format for strict JSON schema output
+ */
+function toResponseFormat(format: LLMResponseFormat) {
+  return {
+    type: 'json_schema' as const,
+    json_schema: { name: format.name, schema: format.schema, strict: true },
+  };
+}
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value);
+}
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Get the provider instance for a name, falling back to LLM_PROVIDER and then OpenAI
+ */
+export function getLLMProvider(name?: LLMProviderName | null): LLMProvider {
+  const envProvider = process.env.LLM_PROVIDER;
+  const resolved: LLMProviderName = name || (isLLMProviderName(envProvider) ? envProvider : 'openai');
+
+  let provider = providers.get(resolved);
+  if (!provider) {
+    switch (resolved) {
+      case 'openai-compatible':
+        provider = new OpenAICompatibleProvider();
+        break;
+      case 'stub':
+        provider = new StubProvider();
+        break;
+      default:
+        provider = new OpenAIProvider();
+    }
+    providers.set(resolved, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Drop cached provider instances (e.g. after changing LLM_* environment variables)
+ */
+export function resetLLMProviders(): void {
+  providers.clear();
+}
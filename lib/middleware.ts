@@ -1,4 +1,27 @@
+import { IncomingMessage, ServerResponse } from 'http';
 import { Request, Response, NextFunction } from 'express';
+import { getSvixHeaders, verifyHubSignature, verifySvixSignature } from './webhookSignatures';
+import { hasScope, isAuthDisabled, isOperatorToken } from './auth';
+import { FieldError, Schema, validate } from './schema';
+import authService from '../services/authService';
+import { AuthContext, AuthScope } from '../types/task';
+
+const rawBodies = new WeakMap<IncomingMessage, Buffer>();
+
+/**
+ * Body parser verify hook: keep the raw request body, which webhook signatures are
+ * computed over
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buffer: Buffer): void {
+  rawBodies.set(req, buffer);
+}
+
+/**
+ * The raw body kept by captureRawBody, if the request had one
+ */
+export function getRawBody(req: Request): Buffer | undefined {
+  return rawBodies.get(req);
+}
 
 /**
  * Error handler middleware
@@ -29,3 +52,246 @@ export function requestLogger(req: Request, _res: Response, next: NextFunction):
   console.log(`[${timestamp}] ${req.method} ${req.path}`);
   next();
 }
+
+/** Where in the request a schema applies */
+export type RequestLocation = 'params' | 'query' | 'body';
+
+/** Schemas for the parts of a request (see lib/apiSchemas.ts) */
+export type RequestSchemas = Partial<Record<RequestLocation, Schema<unknown>>>;
+
+const LOCATION_NAMES: Record<RequestLocation, [field: string, whole: string]> = {
+  params: ['Path parameter ', 'Path'],
+  query: ['Query parameter ', 'Query string'],
+  body: ['', 'Request body'],
+};
+
+/** '"workflow_settings.reportHour" must be …', 'Query parameter "limit" must be …' */
+function describeFieldError(location: RequestLocation, { field, message }: FieldError): string {
+  const [prefix, whole] = LOCATION_NAMES[location];
+  return `${field ? `${prefix}"${field}"` : whole} ${message}`;
+}
+
+/**
+ * Validate the path parameters, query string and body of a request against schemas; the
+ * values are replaced with the parsed ones (trimmed strings, query numbers and booleans).
+ * 400 listing every invalid field otherwise:
+ * { error, message, errors: [{ field, location, message }] }. Webhooks pass
+ * 'Invalid payload' as the error.
+ */
+export function validateRequest(schemas: RequestSchemas, error = 'Invalid request') {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const errors: (FieldError & { location: RequestLocation })[] = [];
+    const parsed: Partial<Record<RequestLocation, unknown>> = {};
+
+    for (const location of ['params', 'query', 'body'] as const) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = validate(schema, req[location], { coerce: location !== 'body' });
+      if (result.errors) {
+        errors.push(...result.errors.map((fieldError) => ({ ...fieldError, location })));
+      } else {
+        parsed[location] = result.value;
+      }
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({
+        error,
+        message: errors.map((fieldError) => describeFieldError(fieldError.location, fieldError)).join('; '),
+        errors: errors.map(({ field, location, message }) => ({ field, location, message })),
+      });
+      return;
+    }
+
+    if (parsed.params) req.params = parsed.params as Request['params'];
+    if (parsed.query) req.query = parsed.query as Request['query'];
+    if (parsed.body) req.body = parsed.body;
+    next();
+  };
+}
+
+/**
+ * The query string as validateRequest parsed it with this schema, typed by the schema.
+ * Only for handlers behind validateRequest with the same query schema.
+ */
+export function getParsedQuery<T>(req: Request, _schema: Schema<T>): T {
+  return req.query as T;
+}
+
+/**
+ * Require a valid Svix-style signature (see lib/webhookSignatures.ts) made with the secret
+ * in the given environment variable: 503 while it is unset, 401 when the signature is
+ * missing, wrong or too old
+ */
+export function requireSvixSignature(secretEnvVar: string) {
+  return requireSignature(secretEnvVar, (secret, req) =>
+    verifySvixSignature(secret, getSvixHeaders((name) => req.header(name)), getRawBody(req) ?? '')
+  );
+}
+
+/**
+ * Require a valid X-Hub-Signature-256 header (Meta webhooks) made with the app secret in the
+ * given environment variable: 503 while it is unset, 401 when the signature is missing or wrong
+ */
+export function requireHubSignature(secretEnvVar: string) {
+  return requireSignature(secretEnvVar, (secret, req) =>
+    verifyHubSignature(secret, req.header('x-hub-signature-256'), getRawBody(req) ?? '')
+  );
+}
+
+function requireSignature(secretEnvVar: string, verify: (secret: string, req: Request) => string | null) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const secret = process.env[secretEnvVar];
+    if (!secret) {
+      console.error(`Webhook ${req.baseUrl} rejected: ${secretEnvVar} is not set`);
+      res.status(503).json({
+        error: 'Service unavailable',
+        message: 'Webhook is not configured',
+      });
+      return;
+    }
+
+    const signatureError = verify(secret, req);
+    if (signatureError) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: signatureError,
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * The bearer token of a request: "Authorization: Bearer <token>" or "X-API-Key: <token>"
+ */
+export function getBearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.header('authorization') || '');
+  return match?.[1] || req.header('x-api-key') || undefined;
+}
+
+/**
+ * The credential requireAuth accepted for this request
+ */
+export function getAuthContext(res: Response): AuthContext | undefined {
+  return res.locals.auth;
+}
+
+/**
+ * The organization the request is limited to. Undefined only while authentication is
+ * disabled (AUTH_DISABLED), in which case services return every organization's data.
+ */
+export function getOrganizationId(res: Response): string | undefined {
+  return getAuthContext(res)?.organizationId;
+}
+
+/**
+ * Require an API key or dashboard session with the given scope; without one, GET and HEAD
+ * requests need "read" and everything else "write". 401 when the token is missing or
+ * unknown, 403 when it lacks the scope. A token already accepted earlier in the chain is
+ * not looked up again, so routers can add stricter scopes to single routes.
+ */
+export function requireAuth(scope?: AuthScope) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (isAuthDisabled()) {
+      // Scopes are not enforced, but a valid token still limits the request to its organization
+      const token = getBearerToken(req);
+      if (token && !getAuthContext(res)) {
+        try {
+          res.locals.auth = (await authService.authenticate(token)) ?? undefined;
+        } catch (error) {
+          next(error);
+          return;
+        }
+      }
+      next();
+      return;
+    }
+
+    let auth = getAuthContext(res) ?? null;
+    if (!auth) {
+      const token = getBearerToken(req);
+      if (!token) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Missing API key or session token',
+        });
+        return;
+      }
+
+      try {
+        auth = await authService.authenticate(token);
+      } catch (error) {
+        next(error);
+        return;
+      }
+    }
+
+    if (!auth) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid, revoked or expired token',
+      });
+      return;
+    }
+
+    const required = scope ?? (req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'write');
+    if (!hasScope(auth.scopes, required)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `This token lacks the "${required}" scope`,
+      });
+      return;
+    }
+
+    res.locals.auth = auth;
+    next();
+  };
+}
+
+/**
+ * Require the platform operator key (OPERATOR_API_KEY), for routes that read or change
+ * state shared by every organization. Organization API keys and sessions get 403,
+ * whatever their scope. Skipped while authentication is disabled.
+ */
+export function requireOperator(req: Request, res: Response, next: NextFunction): void {
+  if (isAuthDisabled()) {
+    next();
+    return;
+  }
+
+  const token = getBearerToken(req);
+  if (!token) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Missing API key or session token',
+    });
+    return;
+  }
+  if (!isOperatorToken(token)) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Only the platform operator key can use this endpoint',
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * For routes acting on the caller's organization: 400 when authentication is disabled and
+ * the request therefore has none. Use after requireAuth.
+ */
+export function requireOrganization(_req: Request, res: Response, next: NextFunction): void {
+  if (!getOrganizationId(res)) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'This endpoint needs an API key or session token, even with AUTH_DISABLED',
+    });
+    return;
+  }
+  next();
+}
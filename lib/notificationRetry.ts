@@ -0,0 +1,34 @@
+/**
+ * Notification Retry Policy
+ * Defaults for the automatic retry of failed notifications. The policy is
+ * edited from the dashboard and stored in app_settings; the environment provides the
+ * defaults until it has been saved.
+ */
+
+import { NotificationRetryPolicy } from '../types/task';
+
+export const NOTIFICATION_RETRY_SETTING = 'notification_retry';
+
+export const MAX_INTERVAL_MINUTES = 7 * 24 * 60;
+export const MAX_RETRIES = 20;
+
+const isIntegerInRange = (value: unknown, min: number, max: number): boolean =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+function envInteger(name: string, fallback: number, min: number, max: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isIntegerInRange(value, min, max) ? value : fallback;
+}
+
+/**
+ * Policy from NOTIFICATION_AUTO_RETRY, NOTIFICATION_RETRY_INTERVAL_MINUTES and
+ * NOTIFICATION_MAX_RETRIES (default: enabled, every 15 minutes, 3 retries)
+ */
+export function getDefaultRetryPolicy(): NotificationRetryPolicy {
+  return {
+    enabled: process.env.NOTIFICATION_AUTO_RETRY !== 'false',
+    intervalMinutes: envInteger('NOTIFICATION_RETRY_INTERVAL_MINUTES', 15, 1, MAX_INTERVAL_MINUTES),
+    maxRetries: envInteger('NOTIFICATION_MAX_RETRIES', 3, 0, MAX_RETRIES),
+  };
+}
+
@@ -0,0 +1,156 @@
+/**
+ * Notification Routing
+ * Decides, per channel, whether a client gets a notification: the channel must be enabled
+ * in workflow_settings (emailNotifications / whatsappNotifications, on unless set to false)
+ * and the client must have an email address or a valid phone number. Notifications created
+ * during the client's quiet hours are held until the quiet hours end, and summary emails
+ * for clients on a digest (emailDelivery) are held until the next digest goes out.
+ * Clients whose email address bounced get no email until the bounce is cleared, and
+ * archived clients get nothing until restored.
+ */
+
+import { normalizeWhatsAppNumber } from './whatsappTemplates';
+import { getReportTimeZone } from './reportRanges';
+import { addDays, getZonedDateParts, zonedTimeToDate } from './timezones';
+import { Client, EmailDeliveryMode, NotificationChannel, QuietHours, WorkflowSettings } from '../types/task';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'whatsapp'];
+
+export const EMAIL_DELIVERY_MODES: EmailDeliveryMode[] = ['immediate', 'hourly_digest', 'daily_digest'];
+
+const DEFAULT_DIGEST_HOUR = 17;
+
+export const EMAIL_BOUNCED_REASON = 'Client email address bounced';
+
+export const CLIENT_ARCHIVED_REASON = 'Client is archived';
+
+/** What to store for one channel of a new notification */
+export type NotificationRoute =
+  | { type: NotificationChannel; status: 'pending'; scheduled_for: string | null }
+  | { type: NotificationChannel; status: 'skipped'; skip_reason: string };
+
+/** The client fields routing needs */
+export type RoutableClient = Pick<Client, 'email' | 'phone' | 'workflow_settings' | 'email_bounced_at' | 'archived_at'>;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function toMinuteOfDay(time: string): number {
+  const [, hours, minutes] = TIME_PATTERN.exec(time)!;
+  return parseInt(hours, 10) * 60 + parseInt(minutes, 10);
+}
+
+/**
+ * When the quiet hours around an instant end
+ * @returns The end of the quiet hours, or null if the instant is outside them
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, timeZone: string, now: Date = new Date()): Date | null {
+  const start = toMinuteOfDay(quietHours.start);
+  const end = toMinuteOfDay(quietHours.end);
+  const local = getZonedDateParts(now, timeZone);
+  const minute = local.hour * 60 + local.minute;
+
+  if (start < end) {
+    return minute >= start && minute < end ? zonedTimeToDate(local.date, end, timeZone) : null;
+  }
+
+  // Spans midnight: before the end it finishes today, after the start tomorrow
+  if (minute < end) return zonedTimeToDate(local.date, end, timeZone);
+  if (minute >= start) return zonedTimeToDate(addDays(local.date, 1), end, timeZone);
+  return null;
+}
+
+/**
+ * Why a channel cannot be used for a client, or null if it can
+ */
+function getSkipReason(channel: NotificationChannel, client: RoutableClient): string | null {
+  const settings = client.workflow_settings;
+
+  if (client.archived_at) return CLIENT_ARCHIVED_REASON;
+
+  if (channel === 'email') {
+    if (settings?.emailNotifications === false) return 'Email notifications are disabled';
+    if (!client.email?.trim()) return 'Client has no email address';
+    if (client.email_bounced_at) return EMAIL_BOUNCED_REASON;
+    return null;
+  }
+
+  if (settings?.whatsappNotifications === false) return 'WhatsApp notifications are disabled';
+  if (!client.phone) return 'Client has no phone number';
+  if (!normalizeWhatsAppNumber(client.phone)) return `Client phone is not a valid WhatsApp number: ${client.phone}`;
+  return null;
+}
+
+/**
+ * Route a new notification to each channel
+ *
+ * @param channels - Channels to route (default: all)
+ */
+export function routeNotification(
+  client: RoutableClient,
+  now: Date = new Date(),
+  channels: NotificationChannel[] = NOTIFICATION_CHANNELS
+): NotificationRoute[] {
+  const quietHours = client.workflow_settings?.quietHours;
+  const quietUntil = quietHours ? getQuietHoursEnd(quietHours, getReportTimeZone(client.workflow_settings), now) : null;
+
+  return channels.map((type) => {
+    const skipReason = getSkipReason(type, client);
+    return skipReason
+      ? { type, status: 'skipped' as const, skip_reason: skipReason }
+      : { type, status: 'pending' as const, scheduled_for: quietUntil ? quietUntil.toISOString() : null };
+  });
+}
+
+/**
+ * Route a new summary notification: as routeNotification, with the email held until the
+ * client's next digest when they are on one (and past quiet hours if it falls in them)
+ */
+export function routeSummaryNotification(client: RoutableClient, now: Date = new Date()): NotificationRoute[] {
+  const digestAt = getNextDigestTime(client.workflow_settings, now);
+
+  return routeNotification(client, now).map((route) => {
+    if (!digestAt || route.type !== 'email' || route.status !== 'pending') return route;
+
+    const quietHours = client.workflow_settings?.quietHours;
+    const quietUntil = quietHours
+      ? getQuietHoursEnd(quietHours, getReportTimeZone(client.workflow_settings), digestAt)
+      : null;
+    return { ...route, scheduled_for: (quietUntil ?? digestAt).toISOString() };
+  });
+}
+
+/**
+ * Whether a client's summary emails are batched into digests
+ */
+export function isDigestDelivery(settings?: WorkflowSettings | null): boolean {
+  return settings?.emailDelivery === 'hourly_digest' || settings?.emailDelivery === 'daily_digest';
+}
+
+/**
+ * When the next digest goes out: the next full local hour (hourly_digest) or the next
+ * digestHour (daily_digest), in the client's time zone
+ * @returns null for immediate delivery
+ */
+export function getNextDigestTime(settings?: WorkflowSettings | null, now: Date = new Date()): Date | null {
+  if (!isDigestDelivery(settings)) return null;
+
+  const timeZone = getReportTimeZone(settings);
+  const local = getZonedDateParts(now, timeZone);
+
+  if (settings?.emailDelivery === 'hourly_digest') {
+    return local.hour === 23
+      ? zonedTimeToDate(addDays(local.date, 1), 0, timeZone)
+      : zonedTimeToDate(local.date, (local.hour + 1) * 60, timeZone);
+  }
+
+  const digestHour = settings?.digestHour ?? DEFAULT_DIGEST_HOUR;
+  const date = local.hour < digestHour ? local.date : addDays(local.date, 1);
+  return zonedTimeToDate(date, digestHour * 60, timeZone);
+}
+
+/**
+ * PostgREST filter for pending events that are due: not held, or held until before now
+ */
+export function getDueFilter(now: Date = new Date()): string {
+  return `scheduled_for.is.null,scheduled_for.lte."${now.toISOString()}"`;
+}
@@ -0,0 +1,714 @@
+import * as s from './schema';
+import * as api from './apiSchemas';
+import { REPORT_MEDIA_TYPES } from './reportFormats';
+import { AuthScope } from '../types/task';
+import { version } from '../package.json';
+
+/**
+ * OpenAPI
+ * Every route the app mounts, described with the request and response schemas the routes
+ * validate with (lib/apiSchemas.ts), and the OpenAPI 3.1 document built from them, served at
+ * GET /openapi.json. tests/openapi.test.ts fails when a mounted route is missing here or a
+ * response does not match its schema.
+ */
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Who may call an operation: a token with this scope, the platform operator key, a
+ * Svix-signed provider webhook, a Meta-signed webhook (X-Hub-Signature-256), or anyone (null)
+ */
+export type OperationAuth = AuthScope | 'operator' | 'signature' | 'hubSignature' | null;
+
+export interface ApiResponse {
+  description: string;
+  /** JSON body; several schemas when the body depends on the request */
+  schema?: s.Schema | s.Schema[];
+  /** Non-JSON media types the operation may answer with instead */
+  mediaTypes?: string[];
+}
+
+export interface ApiOperation {
+  id: string;
+  method: HttpMethod;
+  /** Express path, e.g. '/clients/:id' */
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  auth: OperationAuth;
+  /** Needs a token's organization even with AUTH_DISABLED (400 otherwise) */
+  requiresOrganization?: boolean;
+  request?: { params?: s.Schema; query?: s.Schema; body?: s.Schema };
+  /** Error returned for an invalid request (default 'Invalid request') */
+  invalidRequestError?: string;
+  status?: 200 | 201;
+  response: ApiResponse;
+  /** Error statuses besides the ones validation, auth and unexpected failures give */
+  errors?: Partial<Record<number, string>>;
+}
+
+const TAGS = [
+  { name: 'Meta', description: 'Health check and this document' },
+  { name: 'Auth', description: 'Dashboard sessions and API keys' },
+  { name: 'Organization', description: 'The caller\'s organization and its members' },
+  { name: 'Clients', description: 'Clients, their settings, prompt profiles and branding' },
+  { name: 'Tasks', description: 'Summarization tasks' },
+  { name: 'Summaries', description: 'Summaries and their extracted data' },
+  { name: 'Reports', description: 'On-demand and scheduled reports' },
+  { name: 'Notifications', description: 'Email and WhatsApp notifications, delivery and retries' },
+  { name: 'Workers', description: 'Background worker monitoring' },
+  { name: 'Settings', description: 'Settings shared by all organizations' },
+  { name: 'Webhooks', description: 'Inbound email and provider delivery callbacks' },
+];
+
+const byId = { params: api.idParams };
+const notFound = (what: string) => ({ 404: `${what} not found` });
+
+/** How every list endpoint pages */
+const PAGED_LIST =
+  'Cursor-paginated: for the next page, send `nextCursor` back as `cursor` with the same filters and sort; ' +
+  'it is null on the last page. `total` counts every row matching the filters.';
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    id: 'getHealth',
+    method: 'get',
+    path: '/health',
+    tag: 'Meta',
+    summary: 'Health check',
+    auth: null,
+    response: { description: 'The API is up', schema: api.systemHealthSchema },
+  },
+  {
+    id: 'getOpenApiDocument',
+    method: 'get',
+    path: '/openapi.json',
+    tag: 'Meta',
+    summary: 'This OpenAPI document',
+    auth: null,
+    response: { description: 'OpenAPI 3.1 document', schema: s.record(s.unknown()) },
+  },
+  {
+    id: 'getApiDocs',
+    method: 'get',
+    path: '/docs',
+    tag: 'Meta',
+    summary: 'Interactive API documentation',
+    auth: null,
+    response: { description: 'HTML page rendering this document', mediaTypes: ['text/html'] },
+  },
+
+  {
+    id: 'login',
+    method: 'post',
+    path: '/auth/login',
+    tag: 'Auth',
+    summary: 'Exchange a user\'s email and password for a session token',
+    auth: null,
+    request: api.loginRequest,
+    response: { description: 'Session token', schema: api.loginResponse },
+    errors: { 401: 'Wrong email or password, or not a member of the organization' },
+  },
+  {
+    id: 'acceptInvitation',
+    method: 'post',
+    path: '/auth/invitations/accept',
+    tag: 'Auth',
+    summary: 'Join an organization with an invitation token and start a session there',
+    description: 'An existing account gives its password; otherwise the account is created with the password given.',
+    auth: null,
+    request: api.acceptInvitationRequest,
+    response: { description: 'Session token in the organization', schema: api.loginResponse },
+    errors: {
+      401: 'Wrong password for the invited email\'s account',
+      404: 'Unknown, already accepted or expired invitation',
+    },
+  },
+  {
+    id: 'logout',
+    method: 'post',
+    path: '/auth/logout',
+    tag: 'Auth',
+    summary: 'End the current session',
+    auth: 'read',
+    response: { description: 'Session ended (API keys are left as they are)', schema: api.successResponse },
+  },
+  {
+    id: 'getCurrentAuth',
+    method: 'get',
+    path: '/auth/me',
+    tag: 'Auth',
+    summary: 'Type, organization, scopes and role of the current token',
+    auth: 'read',
+    response: { description: 'The current credential', schema: api.currentAuthResponse },
+  },
+  {
+    id: 'listApiKeys',
+    method: 'get',
+    path: '/auth/api-keys',
+    tag: 'Auth',
+    summary: 'List the organization\'s API keys',
+    auth: 'admin',
+    requiresOrganization: true,
+    response: { description: 'API keys, without their hashes', schema: api.apiKeyListResponse },
+  },
+  {
+    id: 'createApiKey',
+    method: 'post',
+    path: '/auth/api-keys',
+    tag: 'Auth',
+    summary: 'Create an API key',
+    auth: 'admin',
+    requiresOrganization: true,
+    request: api.createApiKeyRequest,
+    status: 201,
+    response: { description: 'The key, shown only in this response', schema: api.createApiKeyResponse },
+  },
+  {
+    id: 'revokeApiKey',
+    method: 'delete',
+    path: '/auth/api-keys/:id',
+    tag: 'Auth',
+    summary: 'Revoke an API key',
+    auth: 'admin',
+    requiresOrganization: true,
+    request: byId,
+    response: { description: 'Key revoked', schema: api.successResponse },
+    errors: notFound('API key'),
+  },
+
+  {
+    id: 'getOrganization',
+    method: 'get',
+    path: '/organization',
+    tag: 'Organization',
+    summary: 'The caller\'s organization and its members',
+    auth: 'read',
+    requiresOrganization: true,
+    response: { description: 'Organization and members', schema: api.organizationResponse },
+    errors: notFound('Organization'),
+  },
+  {
+    id: 'inviteMember',
+    method: 'post',
+    path: '/organization/members',
+    tag: 'Organization',
+    summary: 'Invite an email to the organization',
+    description: 'The answer is the same whether or not the email has an account; the invitee joins with POST /auth/invitations/accept.',
+    auth: 'admin',
+    requiresOrganization: true,
+    request: api.inviteMemberRequest,
+    status: 201,
+    response: { description: 'Invitation and its token', schema: api.invitationResponse },
+    errors: { 409: 'The user is already a member' },
+  },
+  {
+    id: 'updateMemberRole',
+    method: 'put',
+    path: '/organization/members/:userId',
+    tag: 'Organization',
+    summary: 'Change a member\'s role',
+    auth: 'admin',
+    requiresOrganization: true,
+    request: api.updateMemberRoleRequest,
+    response: { description: 'Updated membership', schema: api.memberResponse },
+    errors: { ...notFound('Member'), 409: 'The last owner cannot be demoted' },
+  },
+  {
+    id: 'removeMember',
+    method: 'delete',
+    path: '/organization/members/:userId',
+    tag: 'Organization',
+    summary: 'Remove a member',
+    auth: 'admin',
+    requiresOrganization: true,
+    request: { params: api.memberParams },
+    response: { description: 'Member removed', schema: api.successResponse },
+    errors: { ...notFound('Member'), 409: 'The last owner cannot be removed' },
+  },
+
+  {
+    id: 'createClient',
+    method: 'post',
+    path: '/clients',
+    tag: 'Clients',
+    summary: 'Create a client',
+    auth: 'write',
+    request: api.createClientRequest,
+    status: 201,
+    response: { description: 'New client, with its inbound email address', schema: api.clientResponse },
+  },
+  {
+    id: 'listClients',
+    method: 'get',
+    path: '/clients',
+    tag: 'Clients',
+    summary: 'List clients',
+    description: PAGED_LIST,
+    auth: 'read',
+    request: api.listClientsRequest,
+    response: { description: 'A page of clients, newest first unless sorted otherwise', schema: api.clientListResponse },
+  },
+  {
+    id: 'getClient',
+    method: 'get',
+    path: '/clients/:id',
+    tag: 'Clients',
+    summary: 'Get a client',
+    auth: 'read',
+    request: byId,
+    response: { description: 'The client', schema: api.clientResponse },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'updateClient',
+    method: 'patch',
+    path: '/clients/:id',
+    tag: 'Clients',
+    summary: 'Change a client\'s name, contact details or workflow settings',
+    auth: 'write',
+    request: api.updateClientRequest,
+    response: { description: 'Updated client', schema: api.clientResponse },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'archiveClient',
+    method: 'post',
+    path: '/clients/:id/archive',
+    tag: 'Clients',
+    summary: 'Archive a client',
+    description: 'No new tasks, notifications or reports until restored; pending and failed notifications are skipped.',
+    auth: 'write',
+    request: byId,
+    response: { description: 'Archived client', schema: api.archiveClientResponse },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'restoreClient',
+    method: 'delete',
+    path: '/clients/:id/archive',
+    tag: 'Clients',
+    summary: 'Restore an archived client',
+    auth: 'write',
+    request: byId,
+    response: { description: 'Restored client', schema: api.clientResponse },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'deleteClient',
+    method: 'delete',
+    path: '/clients/:id',
+    tag: 'Clients',
+    summary: 'Delete a client with all its tasks, emails, summaries, notifications and reports',
+    auth: 'admin',
+    request: byId,
+    response: { description: 'Rows removed', schema: api.deleteClientResponse },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'updatePromptProfile',
+    method: 'put',
+    path: '/clients/:id/prompt-profile',
+    tag: 'Clients',
+    summary: 'Set or reset a client\'s prompt profile',
+    auth: 'write',
+    request: api.updatePromptProfileRequest,
+    response: { description: 'Updated client', schema: api.clientResponse },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'previewPromptProfile',
+    method: 'post',
+    path: '/clients/:id/prompt-profile/preview',
+    tag: 'Clients',
+    summary: 'Show the system prompt of a profile and optionally summarize a text with it',
+    auth: 'write',
+    request: api.previewPromptProfileRequest,
+    response: { description: 'System prompt, and the summary when text was given', schema: api.promptProfilePreviewResponse },
+    errors: { ...notFound('Client'), 502: 'The LLM call failed' },
+  },
+  {
+    id: 'updateBranding',
+    method: 'put',
+    path: '/clients/:id/branding',
+    tag: 'Clients',
+    summary: 'Set or reset a client\'s email branding',
+    auth: 'write',
+    request: api.updateBrandingRequest,
+    response: { description: 'Updated client', schema: api.clientResponse },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'clearEmailBounce',
+    method: 'delete',
+    path: '/clients/:id/email-bounce',
+    tag: 'Clients',
+    summary: 'Clear a bounced email address so emails are sent again',
+    auth: 'write',
+    request: byId,
+    response: { description: 'Updated client', schema: api.clientResponse },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'previewEmail',
+    method: 'post',
+    path: '/clients/:id/email-preview',
+    tag: 'Clients',
+    summary: 'Render an email template with the client\'s data without sending it',
+    auth: 'write',
+    request: api.previewEmailRequest,
+    response: { description: 'Rendered email', schema: api.emailPreviewResponse },
+    errors: notFound('Client, or a summary, report or task to render from,'),
+  },
+
+  {
+    id: 'createTask',
+    method: 'post',
+    path: '/task',
+    tag: 'Tasks',
+    summary: 'Queue a text for summarization',
+    auth: 'write',
+    request: api.createTaskRequest,
+    status: 201,
+    response: { description: 'Task queued', schema: api.createTaskResponse },
+    errors: { ...notFound('Client'), 409: 'The client is archived' },
+  },
+  {
+    id: 'listTasks',
+    method: 'get',
+    path: '/task',
+    tag: 'Tasks',
+    summary: 'List tasks',
+    description: PAGED_LIST,
+    auth: 'read',
+    request: api.listTasksRequest,
+    response: { description: 'A page of tasks, newest first unless sorted otherwise', schema: api.taskListResponse },
+  },
+
+  {
+    id: 'listSummaries',
+    method: 'get',
+    path: '/summaries',
+    tag: 'Summaries',
+    summary: 'List summaries with their extracted data',
+    description: PAGED_LIST,
+    auth: 'read',
+    request: api.listSummariesRequest,
+    response: { description: 'A page of summaries, newest first unless sorted otherwise', schema: api.summaryListResponse },
+    errors: notFound('Client'),
+  },
+
+  {
+    id: 'getReport',
+    method: 'get',
+    path: '/report',
+    tag: 'Reports',
+    summary: 'Generate a client report for a period or date range',
+    description:
+      'Without a format the plain-text report comes in a JSON envelope; format=json returns the structured ' +
+      'document. The other formats, or an Accept header naming one, return the rendered report.',
+    auth: 'read',
+    request: api.reportRequest,
+    response: {
+      description: 'The report',
+      schema: [api.reportResponse, api.reportDocumentResponse],
+      mediaTypes: Object.values(REPORT_MEDIA_TYPES).filter((type) => type !== 'application/json'),
+    },
+    errors: notFound('Client'),
+  },
+  {
+    id: 'listReportHistory',
+    method: 'get',
+    path: '/report/history',
+    tag: 'Reports',
+    summary: 'List stored scheduled reports',
+    description: PAGED_LIST,
+    auth: 'read',
+    request: api.reportHistoryRequest,
+    response: { description: 'A page of reports, newest first unless sorted otherwise', schema: api.reportHistoryResponse },
+  },
+
+  {
+    id: 'listNotifications',
+    method: 'get',
+    path: '/notifications',
+    tag: 'Notifications',
+    summary: 'List notifications',
+    description: PAGED_LIST,
+    auth: 'read',
+    request: api.listNotificationsRequest,
+    response: { description: 'A page of notifications, newest first unless sorted otherwise', schema: api.notificationListResponse },
+  },
+  {
+    id: 'retryNotifications',
+    method: 'post',
+    path: '/notifications/retry',
+    tag: 'Notifications',
+    summary: 'Send failed notifications again',
+    auth: 'write',
+    request: api.retryNotificationsRequest,
+    response: { description: 'Notifications queued again', schema: api.retryNotificationsResponse },
+  },
+  {
+    id: 'getNotificationTimeline',
+    method: 'get',
+    path: '/notifications/:id/timeline',
+    tag: 'Notifications',
+    summary: 'Delivery events the provider reported for a notification',
+    auth: 'read',
+    request: byId,
+    response: { description: 'Notification and its delivery timeline', schema: api.notificationTimelineResponse },
+    errors: notFound('Notification'),
+  },
+  {
+    id: 'retryNotification',
+    method: 'post',
+    path: '/notifications/:id/retry',
+    tag: 'Notifications',
+    summary: 'Send one failed notification again',
+    auth: 'write',
+    request: byId,
+    response: { description: 'Notification queued again', schema: api.notificationResponse },
+    errors: { ...notFound('Notification'), 400: 'Only failed notifications can be retried' },
+  },
+
+  {
+    id: 'getWorkerStats',
+    method: 'get',
+    path: '/workers/stats',
+    tag: 'Workers',
+    summary: 'Cumulative stats of the background workers',
+    description: 'Counts cover every organization, so only the platform operator key may read them.',
+    auth: 'operator',
+    response: { description: 'Worker stats', schema: api.workerStatsResponse },
+  },
+
+  {
+    id: 'getNotificationRetryPolicy',
+    method: 'get',
+    path: '/settings/notification-retry',
+    tag: 'Settings',
+    summary: 'Automatic retry policy for failed notifications',
+    auth: 'read',
+    response: { description: 'Retry policy', schema: api.retryPolicyResponse },
+  },
+  {
+    id: 'updateNotificationRetryPolicy',
+    method: 'put',
+    path: '/settings/notification-retry',
+    tag: 'Settings',
+    summary: 'Change the automatic retry policy',
+    description: 'The policy applies to every organization, so only the platform operator key may change it.',
+    auth: 'operator',
+    request: api.updateRetryPolicyRequest,
+    response: { description: 'Updated retry policy', schema: api.retryPolicyResponse },
+  },
+
+  {
+    id: 'receiveEmail',
+    method: 'post',
+    path: '/email-webhook',
+    tag: 'Webhooks',
+    summary: 'Create a task from an email forwarded by a mail integration',
+    auth: 'webhook',
+    request: api.emailWebhookRequest,
+    invalidRequestError: 'Invalid payload',
+    response: { description: 'Task created', schema: api.emailWebhookResponse },
+    errors: { ...notFound('Client'), 409: 'The client is archived' },
+  },
+  {
+    id: 'receiveResendInboundEmail',
+    method: 'post',
+    path: '/webhooks/resend-inbound',
+    tag: 'Webhooks',
+    summary: 'Resend inbound email: create a task for the client it was sent to',
+    auth: 'signature',
+    request: api.resendInboundRequest,
+    invalidRequestError: 'Invalid payload',
+    response: { description: 'Email accepted, already processed or ignored', schema: api.resendInboundResponse },
+  },
+  {
+    id: 'receiveResendEvent',
+    method: 'post',
+    path: '/webhooks/resend',
+    tag: 'Webhooks',
+    summary: 'Resend delivery event for a sent email',
+    auth: 'signature',
+    request: api.resendEventRequest,
+    invalidRequestError: 'Invalid payload',
+    response: { description: 'Event recorded or ignored', schema: api.resendEventResponse },
+  },
+  {
+    id: 'verifyWhatsAppWebhook',
+    method: 'get',
+    path: '/webhooks/whatsapp',
+    tag: 'Webhooks',
+    summary: 'WhatsApp subscription check',
+    auth: null,
+    request: api.whatsappVerifyRequest,
+    response: { description: 'The hub.challenge value', mediaTypes: ['text/plain'] },
+    errors: { 403: 'The verify token does not match' },
+  },
+  {
+    id: 'receiveWhatsAppEvent',
+    method: 'post',
+    path: '/webhooks/whatsapp',
+    tag: 'Webhooks',
+    summary: 'WhatsApp Cloud API message statuses',
+    auth: 'hubSignature',
+    request: api.whatsappEventRequest,
+    invalidRequestError: 'Invalid payload',
+    response: { description: 'Statuses processed', schema: api.whatsappEventResponse },
+  },
+];
+
+/**
+ * Every status an operation may answer with besides success, and why
+ */
+export function getErrorStatuses(operation: ApiOperation): Record<number, string> {
+  const errors: Record<number, string> = {};
+  if (operation.request || operation.requiresOrganization) {
+    errors[400] = operation.requiresOrganization
+      ? 'Invalid request, or no organization because authentication is disabled'
+      : `${operation.invalidRequestError ?? 'Invalid request'}: every invalid field is listed`;
+  }
+  if (operation.auth === 'signature' || operation.auth === 'hubSignature') {
+    errors[401] = 'Missing, wrong or expired signature';
+    errors[503] = 'The webhook secret is not configured';
+  } else if (operation.auth === 'operator') {
+    errors[401] = 'Missing token';
+    errors[403] = 'The token is not the platform operator key';
+  } else if (operation.auth) {
+    errors[401] = 'Missing, invalid, revoked or expired token';
+    errors[403] = `The token lacks the "${operation.auth}" scope`;
+  }
+  Object.assign(errors, operation.errors);
+  errors[500] = 'Unexpected error';
+  return errors;
+}
+
+const REF_PREFIX = '#/components/schemas/';
+
+const toJson = (schema: s.Schema) => s.toJsonSchema(schema, { refPrefix: REF_PREFIX });
+
+/** '/clients/:id' → '/clients/{id}' */
+const toOpenApiPath = (path: string): string => path.replace(/:(\w+)/g, '{$1}');
+
+function parameters(location: 'path' | 'query', schema: s.Schema | undefined): Record<string, unknown>[] {
+  return Object.entries(schema?.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || !property.isOptional,
+    ...(property.description ? { description: property.description } : {}),
+    schema: toJson({ ...property, description: undefined }),
+  }));
+}
+
+function jsonContent(schema: s.Schema | s.Schema[]): Record<string, unknown> {
+  const schemas = Array.isArray(schema) ? schema : [schema];
+  return { 'application/json': { schema: schemas.length === 1 ? toJson(schemas[0]) : { oneOf: schemas.map(toJson) } } };
+}
+
+function operationObject(operation: ApiOperation): Record<string, unknown> {
+  const { request, response } = operation;
+  const content = {
+    ...(response.schema ? jsonContent(response.schema) : {}),
+    ...Object.fromEntries((response.mediaTypes ?? []).map((type) => [type, { schema: { type: 'string' } }])),
+  };
+
+  const responses: Record<string, unknown> = {
+    [operation.status ?? 200]: { description: response.description, content },
+  };
+  for (const [status, description] of Object.entries(getErrorStatuses(operation))) {
+    responses[status] = { description, content: jsonContent(api.errorResponse) };
+  }
+
+  let security: Record<string, string[]>[] | undefined;
+  if (operation.auth === 'signature') {
+    security = [{ svixSignature: [] }];
+  } else if (operation.auth === 'hubSignature') {
+    security = [{ hubSignature: [] }];
+  } else if (operation.auth === 'operator') {
+    security = [{ bearerAuth: [] }, { apiKeyHeader: [] }];
+  } else if (operation.auth) {
+    security = [{ bearerAuth: [operation.auth] }, { apiKeyHeader: [operation.auth] }];
+  }
+
+  return {
+    operationId: operation.id,
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    security: security ?? [],
+    parameters: [...parameters('path', request?.params), ...parameters('query', request?.query)],
+    ...(request?.body ? { requestBody: { required: true, content: jsonContent(request.body) } } : {}),
+    responses,
+  };
+}
+
+/**
+ * The OpenAPI 3.1 document of the API
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+  const roots: s.Schema[] = [api.errorResponse];
+
+  for (const operation of API_OPERATIONS) {
+    const path = toOpenApiPath(operation.path);
+    paths[path] = { ...paths[path], [operation.method]: operationObject(operation) };
+
+    const { request, response } = operation;
+    roots.push(...[request?.params, request?.query, request?.body].filter((schema): schema is s.Schema => !!schema));
+    if (response.schema) roots.push(...(Array.isArray(response.schema) ? response.schema : [response.schema]));
+  }
+
+  const schemas = Object.fromEntries(
+    s.collectNamedSchemas(roots).map((schema) => [schema.typeName, s.toJsonSchema(schema, { refPrefix: REF_PREFIX }, true)])
+  );
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Included API',
+      version,
+      description:
+        'Client email summarization, reports and notifications. Errors are { error, message }; validation errors ' +
+        'add every invalid field in "errors".',
+    },
+    tags: TAGS,
+    // Routes without a token requirement override this with an empty list
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key (inc_key_…), dashboard session token (inc_sess_…) or, where noted, the platform operator key; the scope each operation needs is listed',
+        },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'The same tokens, in a header' },
+        svixSignature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'svix-signature',
+          description: 'Svix-style signature over svix-id, svix-timestamp and the raw body, with the webhook\'s secret',
+        },
+        hubSignature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Hub-Signature-256',
+          description: '"sha256=" and the hex HMAC-SHA256 of the raw body, with the Meta app secret',
+        },
+      },
+    },
+  };
+}
+
+/**
+ * The operation an Express route is documented as
+ */
+export function findOperation(method: string, path: string): ApiOperation | undefined {
+  return API_OPERATIONS.find((operation) => operation.method === method.toLowerCase() && operation.path === path);
+}
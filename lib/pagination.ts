@@ -0,0 +1,204 @@
+/**
+ * Pagination
+ * Keyset (cursor) pagination for the list endpoints. Rows are ordered by a sort column and
+ * then by id, and a cursor holds the sort value and id of the last row of a page, so later
+ * pages stay stable while new rows are inserted. Totals are counted with the same filters.
+ */
+
+export type SortOrder = 'asc' | 'desc';
+
+export const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+
+/** Rows per page unless a limit is given, and the largest limit accepted */
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/** Columns each list can be sorted by; the first is the default */
+export const LIST_SORTS = {
+  tasks: ['created_at', 'updated_at'],
+  summaries: ['created_at'],
+  notifications: ['created_at', 'updated_at'],
+  clients: ['created_at', 'name'],
+  reports: ['created_at', 'period_start'],
+} as const;
+
+export type ListSort<L extends keyof typeof LIST_SORTS> = (typeof LIST_SORTS)[L][number];
+
+export interface PageOptions<S extends string = string> {
+  /** Rows per page (default: DEFAULT_PAGE_SIZE) */
+  limit?: number;
+  /** nextCursor of the previous page */
+  cursor?: string;
+  sort: S;
+  /** Default: 'desc' (newest first) */
+  order?: SortOrder;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Rows matching the filters, on every page */
+  total: number;
+  /** Pass as cursor for the next page; null on the last one */
+  nextCursor: string | null;
+}
+
+/** Filters every list endpoint takes besides its own */
+export interface ListFilters {
+  /** Created at or after */
+  from?: string;
+  /** Created before */
+  to?: string;
+  /** Free text, matched case-insensitively against the list's text columns */
+  q?: string;
+}
+
+interface Cursor {
+  sort: string;
+  order: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Encode the position after a row
+ */
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor made by encodeCursor; null when it is not one
+ */
+export function decodeCursor(cursor: string): Cursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 4) return null;
+
+    const [sort, order, value, id] = decoded;
+    if (typeof sort !== 'string' || !SORT_ORDERS.includes(order) || typeof id !== 'string') return null;
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    return { sort, order, value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a cursor cannot continue a list sorted this way, or null when it can. A cursor only
+ * continues the sort it was made for.
+ */
+export function getCursorError(query: { cursor?: string; sort?: string; order?: SortOrder }, defaultSort: string): string | null {
+  if (query.cursor === undefined) return null;
+
+  const cursor = decodeCursor(query.cursor);
+  if (!cursor) return '"cursor" is not a cursor returned by this list';
+  if (cursor.sort !== (query.sort ?? defaultSort) || cursor.order !== (query.order ?? 'desc')) {
+    return '"cursor" belongs to a different sort or order; start again without it';
+  }
+  return null;
+}
+
+/** A value in a PostgREST filter string, quoted so commas and parentheses are literal */
+function quote(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * PostgREST `or` filter matching any of the columns against the text, case-insensitively.
+ * LIKE wildcards in the text match literally.
+ */
+export function searchFilter(columns: string[], text: string): string {
+  const pattern = `%${text.replace(/[%_\\]/g, '\\$&')}%`;
+  return columns.map((column) => `${column}.ilike.${quote(pattern)}`).join(',');
+}
+
+/** The query methods list filters need; supabase queries have them */
+export interface FilterableQuery {
+  match(query: Record<string, string>): this;
+  filter(column: string, operator: string, value: unknown): this;
+  is(column: string, value: null): this;
+  gte(column: string, value: string): this;
+  lt(column: string, value: string): this;
+  or(filters: string): this;
+}
+
+/** How a list applies its filters */
+export interface ListFilterColumns {
+  /** Text columns the free text is matched against */
+  search: string[];
+  /** Values columns must equal; undefined ones are not filtered on */
+  equal?: Record<string, string | undefined>;
+}
+
+/**
+ * Apply the filters every list takes, and the list's own equality filters
+ */
+export function applyListFilters<Q extends FilterableQuery>(query: Q, filters: ListFilters, columns: ListFilterColumns): Q {
+  let filtered = query;
+  const equal = Object.entries(columns.equal ?? {}).filter((entry): entry is [string, string] => entry[1] !== undefined);
+
+  if (equal.length > 0) filtered = filtered.match(Object.fromEntries(equal));
+  if (filters.from) filtered = filtered.gte('created_at', filters.from);
+  if (filters.to) filtered = filtered.lt('created_at', filters.to);
+  if (filters.q) filtered = filtered.or(searchFilter(columns.search, filters.q));
+  return filtered;
+}
+
+interface QueryResult<T> {
+  data: T[] | null;
+  count?: number | null;
+  error: { message: string } | null;
+}
+
+/** The query methods fetchPage needs; supabase queries have them */
+export interface PageableQuery<T> extends PromiseLike<QueryResult<T>> {
+  order(column: string, options: { ascending: boolean }): this;
+  or(filters: string): this;
+  limit(count: number): this;
+}
+
+/**
+ * Fetch one page of rows and the number of rows matching the filters
+ * @param rows  - Filtered query for the rows
+ * @param count - The same filters on a `select('id', { count: 'exact', head: true })` query
+ * @param what  - e.g. 'tasks', for error messages
+ */
+export async function fetchPage<T extends { id: string }>(
+  rows: PageableQuery<T>,
+  count: PromiseLike<QueryResult<unknown>>,
+  options: PageOptions,
+  what: string
+): Promise<Page<T>> {
+  const { sort } = options;
+  const order = options.order ?? 'desc';
+  const ascending = order === 'asc';
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+  let query = rows.order(sort, { ascending }).order('id', { ascending });
+  const cursor = options.cursor === undefined ? null : decodeCursor(options.cursor);
+  if (cursor) {
+    // Rows after the cursor: further along the sort column, or level with it and further along id
+    const after = ascending ? 'gt' : 'lt';
+    const value = quote(cursor.value);
+    query = query.or(`${sort}.${after}.${value},and(${sort}.eq.${value},id.${after}.${quote(cursor.id)})`);
+  }
+
+  // One row more than asked tells whether there is a next page
+  const [{ data, error }, counted] = await Promise.all([query.limit(limit + 1), count]);
+  if (error || counted.error) {
+    throw new Error(`Failed to fetch ${what}: ${(error ?? counted.error)!.message}`);
+  }
+
+  const items = (data || []).slice(0, limit);
+  const last = items[items.length - 1];
+  const hasMore = (data || []).length > limit;
+
+  return {
+    items,
+    total: counted.count ?? items.length,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor({ sort, order, value: (last as Record<string, unknown>)[sort] as string | number, id: last.id })
+        : null,
+  };
+}
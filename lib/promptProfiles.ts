@@ -0,0 +1,92 @@
+import { PromptProfile, PromptProfileFormat } from '../types/task';
+
+/**
+ * Prompt Profiles
+ * Builds the summarizer system prompt from a client's prompt profile. Clients without a
+ * profile get the default "max 2 sentences, professional tone" prompt.
+ */
+
+export const PROMPT_PROFILE_FORMATS: PromptProfileFormat[] = ['paragraph', 'bullets', 'action_items'];
+
+export const MAX_LENGTH_LIMIT = 20;
+export const MAX_TONE_LENGTH = 50;
+export const MAX_LANGUAGE_LENGTH = 50;
+export const MAX_INSTRUCTIONS_LENGTH = 1000;
+
+const DEFAULT_MAX_LENGTH: Record<PromptProfileFormat, number> = {
+  paragraph: 2,
+  bullets: 5,
+  action_items: 5,
+};
+
+export const DEFAULT_SYSTEM_PROMPT = `
+You are a professional SMB operations summarization engine.
+
+Your ONLY job is to summarize business communications.
+
+STRICT RULES:
+
+- Output ONLY the summary
+- Maximum 2 sentences
+- Professional tone
+- Factual only
+- No advice
+- No templates
+- No explanations
+- No assistant-style responses
+- No questions
+- No extra text
+
+GOOD OUTPUT EXAMPLE:
+"Client received the Q1 report and was asked to provide feedback."
+
+BAD OUTPUT EXAMPLE:
+"I can summarize this..."
+"Please provide..."
+"Here is a template..."
+`;
+
+/**
+ * Build the system prompt for a client's prompt profile
+ * @param profile - The client's profile; the default prompt is used when missing or empty
+ */
+export function buildSystemPrompt(profile?: PromptProfile | null): string {
+  if (!profile || Object.keys(profile).length === 0) {
+    return DEFAULT_SYSTEM_PROMPT;
+  }
+
+  const format = profile.format || 'paragraph';
+  const maxLength = profile.maxLength || DEFAULT_MAX_LENGTH[format];
+  const tone = profile.tone?.trim() || 'Professional';
+
+  const formatRules: Record<PromptProfileFormat, string> = {
+    paragraph: `- Output ONLY the summary\n- Maximum ${maxLength} sentence${maxLength === 1 ? '' : 's'}`,
+    bullets: `- Output ONLY the summary as a bulleted list, each line starting with "- "\n- Maximum ${maxLength} bullet${maxLength === 1 ? '' : 's'}, one fact per bullet`,
+    action_items: `- Output ONLY the action items (who needs to do what, with any deadline) as a list, each line starting with "- "\n- Maximum ${maxLength} item${maxLength === 1 ? '' : 's'}\n- If there are no action items, output exactly "No action items."`,
+  };
+
+  const rules = [
+    formatRules[format],
+    `- ${tone.charAt(0).toUpperCase()}${tone.slice(1)} tone`,
+    ...(profile.language ? [`- Write the output in ${profile.language.trim()}`] : []),
+    '- Factual only',
+    '- No advice',
+    '- No templates',
+    '- No explanations',
+    '- No assistant-style responses',
+    '- No questions',
+    '- No extra text',
+  ];
+
+  const sections = [
+    'You are a professional SMB operations summarization engine.',
+    'Your ONLY job is to summarize business communications.',
+    `STRICT RULES:\n\n${rules.join('\n')}`,
+  ];
+
+  if (profile.instructions) {
+    sections.push(`CLIENT INSTRUCTIONS (follow unless they conflict with the rules above):\n${profile.instructions.trim()}`);
+  }
+
+  return `\n${sections.join('\n\n')}\n`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Rate Limiting
+ * A token bucket for pacing calls to a provider, Retry-After parsing, and a helper that
+ * runs work with bounded concurrency.
+ */
+
+/**
+ * Token bucket: up to `burst` calls at once, refilled at `ratePerSecond`. A rate of 0
+ * means unlimited. `pause` stops every caller until a time (a provider's Retry-After).
+ */
+export class TokenBucket {
+  readonly ratePerSecond: number;
+  readonly burst: number;
+  private tokens: number;
+  private updatedAt: number;
+  private pausedUntil = 0;
+  /** Callers waiting for a token, served in order */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(ratePerSecond: number, burst: number = Math.max(1, Math.ceil(ratePerSecond))) {
+    this.ratePerSecond = ratePerSecond;
+    this.burst = burst;
+    this.tokens = burst;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Wait for a token and take it
+   */
+  take(): Promise<void> {
+    if (this.ratePerSecond <= 0) return Promise.resolve();
+
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn;
+    return turn;
+  }
+
+  /**
+   * Hold every caller for a while, e.g. after a 429 with Retry-After
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.refill(now);
+
+      const waitMs = this.pausedUntil > now
+        ? this.pausedUntil - now
+        : this.tokens >= 1
+          ? 0
+          : Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+
+      if (waitMs === 0) {
+        this.tokens -= 1;
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Read a Retry-After header: delay-seconds or an HTTP date
+ * @returns Milliseconds to wait, or null when the value is missing or invalid
+ */
+export function parseRetryAfter(value: unknown, now: Date = new Date()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? null : Math.max(0, date - now.getTime());
+}
+
+/**
+ * Run `fn` over every item with at most `limit` calls in flight
+ * @returns The results, in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run));
+  return results;
+}
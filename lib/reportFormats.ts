@@ -0,0 +1,270 @@
+import { escapeHtml } from './html';
+import { DigestContent, ExtractedData, ReportDocument, ReportFormat } from '../types/task';
+
+/**
+ * Report Formats
+ * Renders a ReportDocument as plain text (the original report format), Markdown,
+ * email-ready HTML or CSV.
+ */
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'markdown', 'html', 'csv'];
+
+/** Content-Type for each format */
+export const REPORT_MEDIA_TYPES: Record<ReportFormat, string> = {
+  text: 'text/plain',
+  json: 'application/json',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  csv: 'text/csv',
+};
+
+const EMPTY_REPORT_MESSAGE = 'No completed tasks found.';
+
+/**
+ * The rendered format an Accept header prefers, going by the order types are listed
+ * Returns null when application/json or a wildcard comes first, so API clients keep the
+ * default JSON envelope; the structured document is requested with format=json.
+ */
+export function getReportFormatFromAccept(accept?: string): Exclude<ReportFormat, 'json'> | null {
+  if (!accept) return null;
+
+  for (const entry of accept.split(',')) {
+    const [type, ...params] = entry.split(';').map((part) => part.trim().toLowerCase());
+    if (params.some((param) => /^q=0(\.0*)?$/.test(param))) continue;
+    if (type === 'application/json' || type.endsWith('/*')) return null;
+
+    const format = REPORT_FORMATS.find((f) => REPORT_MEDIA_TYPES[f] === type);
+    if (format && format !== 'json') return format;
+  }
+  return null;
+}
+
+/**
+ * Render a report in a text-based format
+ */
+export function renderReport(report: ReportDocument, format: Exclude<ReportFormat, 'json'>): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(report);
+    case 'html':
+      return renderHtml(report);
+    case 'csv':
+      return renderCsv(report);
+    default:
+      return renderText(report);
+  }
+}
+
+/**
+ * Labelled detail lines for an extraction: priority (when high or urgent), action items,
+ * deadlines and amounts
+ */
+export function getExtractionDetails(extraction: ExtractedData): Array<{ label: string; value: string }> {
+  const details: Array<{ label: string; value: string }> = [];
+
+  if (extraction.priority === 'high' || extraction.priority === 'urgent') {
+    details.push({ label: 'Priority', value: extraction.priority });
+  }
+  for (const item of extraction.action_items) {
+    const extra = [item.owner, item.due_date && `due ${item.due_date}`].filter(Boolean).join(', ');
+    details.push({ label: 'Action', value: `${item.description}${extra ? ` (${extra})` : ''}` });
+  }
+  for (const deadline of extraction.deadlines) {
+    details.push({ label: 'Deadline', value: `${deadline.description} (${deadline.date})` });
+  }
+  for (const amount of extraction.amounts) {
+    const formatted = `${amount.currency} ${amount.amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+    details.push({ label: 'Amount', value: `${formatted}${amount.description ? ` — ${amount.description}` : ''}` });
+  }
+
+  return details;
+}
+
+/** The digest's lists that have entries, with their headings */
+const digestLists = (digest: DigestContent): Array<{ heading: string; entries: string[] }> =>
+  [
+    { heading: 'Themes', entries: digest.themes },
+    { heading: 'Open action items', entries: digest.open_action_items },
+    { heading: 'Urgent', entries: digest.urgent },
+  ].filter((list) => list.entries.length > 0);
+
+const DIGEST_UNAVAILABLE = 'Digest unavailable';
+
+const taskTotals = (report: ReportDocument): string =>
+  `${report.totals.completed} completed, ${report.totals.failed} failed`;
+
+const items = (report: ReportDocument) => report.sections.flatMap((section) => section.items);
+
+function renderText(report: ReportDocument): string {
+  const lines = [
+    `📝 ${report.title}: ${report.period.label} (${report.period.timezone})`,
+    `Tasks: ${taskTotals(report)}`,
+  ];
+
+  if (report.digest) {
+    lines.push('', `Overview: ${report.digest.overview}`);
+    for (const { heading, entries } of digestLists(report.digest)) {
+      lines.push(`${heading}:`, ...entries.map((entry) => `  • ${entry}`));
+    }
+    lines.push('');
+  } else if (report.digest_error) {
+    lines.push('', `${DIGEST_UNAVAILABLE}: ${report.digest_error}`, '');
+  }
+
+  for (const item of items(report)) {
+    lines.push(`- ${item.summary}`);
+    for (const { label, value } of item.extraction ? getExtractionDetails(item.extraction) : []) {
+      lines.push(`  • ${label}: ${value}`);
+    }
+  }
+
+  if (report.totals.summaries === 0) {
+    lines.push(EMPTY_REPORT_MESSAGE);
+  }
+
+  return lines.join('\n');
+}
+
+/** Keep multi-line summaries inside their list item */
+const singleLine = (text: string): string => text.replace(/\s*\n\s*/g, ' ');
+
+function renderMarkdown(report: ReportDocument): string {
+  const lines = [
+    `# 📝 ${report.title}: ${report.period.label}`,
+    '',
+    ...(report.client.name ? [`**Client:** ${report.client.name}  `] : []),
+    `**Time zone:** ${report.period.timezone}  `,
+    `**Tasks:** ${taskTotals(report)}`,
+  ];
+
+  if (report.digest) {
+    lines.push('', '## Executive digest', '', report.digest.overview);
+    for (const { heading, entries } of digestLists(report.digest)) {
+      lines.push('', `### ${heading}`, '', ...entries.map((entry) => `- ${singleLine(entry)}`));
+    }
+  } else if (report.digest_error) {
+    lines.push('', `_${DIGEST_UNAVAILABLE}: ${report.digest_error}_`);
+  }
+
+  for (const section of report.sections) {
+    lines.push('', `## ${section.date}`, '');
+    for (const item of section.items) {
+      lines.push(`- ${singleLine(item.summary)}`);
+      for (const { label, value } of item.extraction ? getExtractionDetails(item.extraction) : []) {
+        lines.push(`  - **${label}:** ${value}`);
+      }
+    }
+  }
+
+  if (report.totals.summaries === 0) {
+    lines.push('', `_${EMPTY_REPORT_MESSAGE}_`);
+  }
+
+  return lines.join('\n');
+}
+
+function renderHtml(report: ReportDocument): string {
+  const sections = report.sections
+    .map((section) => {
+      const listItems = section.items
+        .map((item) => {
+          const details = item.extraction ? getExtractionDetails(item.extraction) : [];
+          const detailList = details.length
+            ? `\n      <ul style="margin: 4px 0 0; padding-left: 20px; color: #555; font-size: 14px;">\n${details
+                .map(({ label, value }) => `        <li><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</li>`)
+                .join('\n')}\n      </ul>`
+            : '';
+          return `    <li style="margin-bottom: 10px;">${escapeHtml(item.summary)}${detailList}</li>`;
+        })
+        .join('\n');
+
+      return `  <h3 style="color: #2c3e50; margin: 24px 0 8px;">${escapeHtml(section.date)}</h3>
+  <ul style="padding-left: 20px;">
+${listItems}
+  </ul>`;
+    })
+    .join('\n');
+
+  const body = sections || `  <p style="color: #666;">${EMPTY_REPORT_MESSAGE}</p>`;
+  const digest = report.digest
+    ? `
+  <h3 style="color: #2c3e50; margin: 24px 0 8px;">Executive digest</h3>
+  <p>${escapeHtml(report.digest.overview)}</p>
+${digestLists(report.digest)
+  .map(
+    ({ heading, entries }) => `  <p style="margin-bottom: 4px;"><strong>${heading}</strong></p>
+  <ul style="margin-top: 0; padding-left: 20px;">
+${entries.map((entry) => `    <li>${escapeHtml(entry)}</li>`).join('\n')}
+  </ul>`
+  )
+  .join('\n')}
+`
+    : report.digest_error
+      ? `\n  <p style="color: #666;"><em>${DIGEST_UNAVAILABLE}: ${escapeHtml(report.digest_error)}</em></p>\n`
+      : '';
+  const clientLine = report.client.name ? ` — ${escapeHtml(report.client.name)}` : '';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Included — ${escapeHtml(report.title)}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h2 style="color: #2c3e50; margin-bottom: 4px;">📝 ${escapeHtml(report.title)}</h2>
+  <p style="margin-top: 0; color: #666;">${escapeHtml(report.period.label)} (${escapeHtml(report.period.timezone)})${clientLine}</p>
+
+  <div style="background-color: #f9f9f9; border-left: 4px solid #2c3e50; padding: 10px 15px; margin: 20px 0;">
+    <strong>Tasks:</strong> ${taskTotals(report)}
+  </div>
+${digest}
+${body}
+
+  <p style="margin-top: 30px;">Included AI Assistant</p>
+</body>
+</html>
+  `.trim();
+}
+
+const CSV_COLUMNS = ['date', 'created_at', 'task_id', 'summary', 'priority', 'action_items', 'deadlines', 'amounts', 'counterparties'];
+
+/**
+ * Quote a CSV field (RFC 4180), neutralising values a spreadsheet would run as a formula
+ */
+function csvField(value: string | null | undefined): string {
+  let text = value ?? '';
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(report: ReportDocument): string {
+  const rows = [CSV_COLUMNS.join(',')];
+
+  for (const section of report.sections) {
+    for (const item of section.items) {
+      const extraction = item.extraction;
+      rows.push(
+        [
+          section.date,
+          item.created_at,
+          item.task_id,
+          item.summary,
+          extraction?.priority,
+          extraction?.action_items.map((a) => [a.description, a.owner, a.due_date].filter(Boolean).join(' | ')).join('; '),
+          extraction?.deadlines.map((d) => `${d.date} ${d.description}`).join('; '),
+          extraction?.amounts
+            .map((a) => `${a.currency} ${a.amount}${a.description ? ` (${a.description})` : ''}`)
+            .join('; '),
+          extraction?.counterparties.map((c) => (c.role ? `${c.name} (${c.role})` : c.name)).join('; '),
+        ]
+          .map(csvField)
+          .join(',')
+      );
+    }
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,126 @@
+import { addDays, getWeekday, getZonedDateParts, isValidTimeZone, startOfZonedDay } from './timezones';
+import { WorkflowSettings } from '../types/task';
+
+/**
+ * Report Ranges
+ * Resolves the window a report covers from `period` shorthands or explicit `from`/`to`
+ * bounds, using day boundaries in the client's time zone.
+ */
+
+export type ReportPeriodShorthand = 'today' | 'yesterday' | 'week' | 'month';
+
+export const REPORT_PERIODS: ReportPeriodShorthand[] = ['today', 'yesterday', 'week', 'month'];
+
+/** Half-open window [from, to) a report covers */
+export interface ReportRange {
+  from: Date;
+  to: Date;
+  timezone: string;
+}
+
+export interface ReportRangeQuery {
+  period?: string;
+  /** 'YYYY-MM-DD' (start of that local day) or an ISO timestamp */
+  from?: string;
+  /** 'YYYY-MM-DD' (inclusive: up to the end of that local day) or an ISO timestamp (exclusive) */
+  to?: string;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+type RangeResult = { range: ReportRange; error?: undefined } | { range?: undefined; error: string };
+
+/**
+ * Time zone for a client's reports: workflow_settings.timezone, else REPORT_TIMEZONE, else UTC
+ */
+export function getReportTimeZone(settings?: WorkflowSettings | null): string {
+  return [settings?.timezone, process.env.REPORT_TIMEZONE].find(isValidTimeZone) || 'UTC';
+}
+
+/**
+ * Window for a period shorthand; 'week' and 'month' are calendar periods to date
+ * (weeks start on Monday)
+ */
+export function getPeriodRange(period: ReportPeriodShorthand, timezone: string, now: Date = new Date()): ReportRange {
+  const today = getZonedDateParts(now, timezone).date;
+  const startDay = {
+    today,
+    yesterday: addDays(today, -1),
+    week: addDays(today, -((getWeekday(today) + 6) % 7)),
+    month: `${today.slice(0, 8)}01`,
+  }[period];
+  const endDay = period === 'yesterday' ? today : addDays(today, 1);
+
+  return { from: startOfZonedDay(startDay, timezone), to: startOfZonedDay(endDay, timezone), timezone };
+}
+
+/**
+ * Resolve a report window from query parameters; defaults to today in the given time zone
+ */
+export function resolveReportRange(query: ReportRangeQuery, timezone: string, now: Date = new Date()): RangeResult {
+  const { period, from, to } = query;
+
+  if (period !== undefined && (from !== undefined || to !== undefined)) {
+    return { error: 'Use either "period" or "from"/"to", not both' };
+  }
+
+  if (from === undefined && to === undefined) {
+    const shorthand = period ?? 'today';
+    if (!REPORT_PERIODS.includes(shorthand as ReportPeriodShorthand)) {
+      return { error: `"period" must be one of: ${REPORT_PERIODS.join(', ')}` };
+    }
+    return { range: getPeriodRange(shorthand as ReportPeriodShorthand, timezone, now) };
+  }
+
+  if (from === undefined) {
+    return { error: '"from" is required when "to" is given' };
+  }
+
+  const fromDate = parseBound(from, timezone, false);
+  if (!fromDate) {
+    return { error: '"from" must be a date (YYYY-MM-DD) or an ISO timestamp' };
+  }
+
+  const toDate = to === undefined ? now : parseBound(to, timezone, true);
+  if (!toDate) {
+    return { error: '"to" must be a date (YYYY-MM-DD) or an ISO timestamp' };
+  }
+
+  if (toDate <= fromDate) {
+    return { error: '"to" must be after "from"' };
+  }
+
+  return { range: { from: fromDate, to: toDate, timezone } };
+}
+
+/**
+ * Describe a window by its local dates, e.g. '2026-10-18' or '2026-10-01 – 2026-10-18'
+ */
+export function formatReportRange(range: ReportRange): string {
+  const first = getZonedDateParts(range.from, range.timezone).date;
+  const last = getZonedDateParts(new Date(range.to.getTime() - 1), range.timezone).date;
+  return first === last ? first : `${first} – ${last}`;
+}
+
+/**
+ * Whether a window is exactly one local day
+ */
+export function isSingleDay(range: ReportRange): boolean {
+  const day = getZonedDateParts(range.from, range.timezone).date;
+  return (
+    range.from.getTime() === startOfZonedDay(day, range.timezone).getTime() &&
+    range.to.getTime() === startOfZonedDay(addDays(day, 1), range.timezone).getTime()
+  );
+}
+
+function parseBound(value: string, timezone: string, isEnd: boolean): Date | null {
+  if (DATE_ONLY.test(value)) {
+    const day = new Date(`${value}T00:00:00Z`);
+    // Reject dates that do not exist, e.g. 2026-02-30
+    if (Number.isNaN(day.getTime()) || day.toISOString().slice(0, 10) !== value) return null;
+    return startOfZonedDay(isEnd ? addDays(value, 1) : value, timezone);
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
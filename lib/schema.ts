@@ -0,0 +1,593 @@
+/**
+ * Declarative Schemas
+ * A small schema builder for request and response bodies. A schema validates a value and
+ * reports every invalid field (not just the first), gives its TypeScript type through
+ * Infer<typeof schema>, and prints that type as source, which is how the dashboard's types
+ * are generated from the API's (see lib/apiSchemas.ts).
+ */
+
+export type SchemaKind = 'string' | 'number' | 'boolean' | 'enum' | 'array' | 'object' | 'record' | 'unknown';
+
+/** Formats string schemas can require; 'date' is 'YYYY-MM-DD' */
+export type StringFormat = 'email' | 'date' | 'date-time' | 'time' | 'uri';
+
+export interface Schema<T = unknown> {
+  kind: SchemaKind;
+  /** Never set: carries the type Infer<> reads */
+  readonly __type?: T;
+  /** The value may be missing (an optional object property or query parameter) */
+  isOptional?: boolean;
+  /** The value may be null */
+  isNullable?: boolean;
+  /** Doc comment of the generated type or property */
+  description?: string;
+  /** Set by named(): the schema is generated as its own type and referred to by name */
+  typeName?: string;
+  /** Doc comment of the named type, kept when describe() gives one property another */
+  typeDescription?: string;
+  /** Replaces the built-in message when the value itself is invalid */
+  message?: string;
+  /** Further check of an otherwise valid value; returns an error message or null */
+  refine?(value: T): string | null;
+
+  /** Strings are trimmed before they are checked */
+  trim?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: StringFormat;
+
+  integer?: boolean;
+  minimum?: number;
+  maximum?: number;
+
+  /** Allowed values of an enum */
+  values?: readonly (string | number | boolean)[];
+
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+
+  properties?: Record<string, Schema>;
+  /** Keep properties the schema does not list instead of rejecting them (provider webhooks) */
+  passthrough?: boolean;
+
+  /** Schema of every value of a record */
+  valueSchema?: Schema;
+}
+
+/** What Infer<> reads to tell optional object properties apart */
+type OptionalSchema = { isOptional: true };
+
+type Properties = Record<string, Schema<unknown>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type OptionalKeys<P extends Properties> = { [K in keyof P]: P[K] extends OptionalSchema ? K : never }[keyof P];
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type InferObject<P extends Properties> = Simplify<
+  { [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]> } & { [K in OptionalKeys<P>]?: Infer<P[K]> }
+>;
+
+export type ObjectSchema<P extends Properties = Properties> = Schema<InferObject<P>> & { properties: P };
+
+type Options<T> = Pick<Schema<T>, 'description' | 'message' | 'refine'>;
+
+export interface StringOptions extends Options<string> {
+  trim?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: StringFormat;
+}
+
+export interface NumberOptions extends Options<number> {
+  integer?: boolean;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ArrayOptions<T> extends Options<T[]> {
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectOptions<T> extends Options<T> {
+  passthrough?: boolean;
+}
+
+/** A string; { trim: true, minLength: 1 } is the usual "non-empty string" */
+export function string(options: StringOptions = {}): Schema<string> {
+  return { kind: 'string', ...options };
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return { kind: 'number', ...options };
+}
+
+export function integer(options: Omit<NumberOptions, 'integer'> = {}): Schema<number> {
+  return { kind: 'number', integer: true, ...options };
+}
+
+export function boolean(options: Options<boolean> = {}): Schema<boolean> {
+  return { kind: 'boolean', ...options };
+}
+
+/** One of the given values */
+export function oneOf<const V extends readonly (string | number | boolean)[]>(
+  values: V,
+  options: Options<V[number]> = {}
+): Schema<V[number]> {
+  return { kind: 'enum', values, ...options } as Schema<V[number]>;
+}
+
+/** Exactly the given value, e.g. literal(true) for { "success": true } */
+export function literal<const V extends string | number | boolean>(value: V, options: Options<V> = {}): Schema<V> {
+  return { kind: 'enum', values: [value], ...options } as Schema<V>;
+}
+
+export function array<T>(items: Schema<T>, options: ArrayOptions<T> = {}): Schema<T[]> {
+  return { kind: 'array', items, ...options } as Schema<T[]>;
+}
+
+/** An object with the given properties; any other property is an error unless passthrough is set */
+export function object<P extends Properties>(properties: P, options: ObjectOptions<InferObject<P>> = {}): ObjectSchema<P> {
+  return { kind: 'object', properties, ...options } as ObjectSchema<P>;
+}
+
+/** An object with any keys, each value matching the schema */
+export function record<T>(valueSchema: Schema<T>, options: Options<Record<string, T>> = {}): Schema<Record<string, T>> {
+  return { kind: 'record', valueSchema, ...options } as Schema<Record<string, T>>;
+}
+
+/** Any value, left unchecked */
+export function unknown(options: Options<unknown> = {}): Schema<unknown> {
+  return { kind: 'unknown', ...options };
+}
+
+export function optional<S extends Schema<unknown>>(schema: S): S & OptionalSchema {
+  return { ...schema, isOptional: true };
+}
+
+export function nullable<S extends Schema<unknown>>(schema: S): Omit<S, '__type'> & Schema<Infer<S> | null> {
+  return { ...schema, isNullable: true } as Omit<S, '__type'> & Schema<Infer<S> | null>;
+}
+
+/** The schema with another doc comment, e.g. for one property using a named type */
+export function describe<S extends Schema<unknown>>(schema: S, description: string): S {
+  return { ...schema, description };
+}
+
+/** Generate the schema as its own type, e.g. `export interface Client`, and refer to it by name */
+export function named<S extends Schema<unknown>>(typeName: string, schema: S): S {
+  return { ...schema, typeName, typeDescription: schema.description };
+}
+
+/** An object schema with more properties, or some replaced */
+export function extend<P extends Properties, E extends Properties>(
+  base: ObjectSchema<P>,
+  properties: E,
+  options: ObjectOptions<InferObject<Omit<P, keyof E> & E>> = {}
+): ObjectSchema<Omit<P, keyof E> & E> {
+  return object<Omit<P, keyof E> & E>({ ...base.properties, ...properties }, { passthrough: base.passthrough, ...options });
+}
+
+/**
+ * An object schema with only the given properties, all optional, e.g. for partial updates
+ */
+export function partial<P extends Properties>(
+  base: ObjectSchema<P>,
+  options: ObjectOptions<Partial<InferObject<P>>> = {}
+): ObjectSchema<{ [K in keyof P]: P[K] & OptionalSchema }> {
+  const properties = Object.fromEntries(
+    Object.entries(base.properties).map(([key, schema]) => [key, optional(schema)])
+  ) as { [K in keyof P]: P[K] & OptionalSchema };
+  return object<typeof properties>(properties, { passthrough: base.passthrough, ...options } as ObjectOptions<InferObject<typeof properties>>);
+}
+
+/**
+ * An object schema with the given properties all optional and nullable, for partial updates
+ * where null removes a value
+ */
+export function clearable<P extends Properties>(
+  base: ObjectSchema<P>,
+  options: ObjectOptions<{ [K in keyof P]?: Infer<P[K]> | null }> = {}
+): ObjectSchema<{ [K in keyof P]: Omit<P[K], '__type'> & Schema<Infer<P[K]> | null> & OptionalSchema }> {
+  type Clearable = { [K in keyof P]: Omit<P[K], '__type'> & Schema<Infer<P[K]> | null> & OptionalSchema };
+  const properties = Object.fromEntries(
+    Object.entries(base.properties).map(([key, schema]) => [key, optional(nullable(schema))])
+  ) as Clearable;
+  return object<Clearable>(properties, { passthrough: base.passthrough, ...options } as ObjectOptions<InferObject<Clearable>>);
+}
+
+/** One invalid field; field is a path such as "workflow_settings.reportHour" or "ids[2]" ("" for the value itself) */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { value: T; errors?: undefined } | { value?: undefined; errors: FieldError[] };
+
+export interface ValidateOptions {
+  /**
+   * Accept numbers and booleans written as strings ("5", "true", "1"), as in query strings;
+   * a parameter given more than once is an error
+   */
+  coerce?: boolean;
+}
+
+const FORMAT_PATTERNS: Record<StringFormat, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/,
+  time: /^([01]\d|2[0-3]):[0-5]\d$/,
+  uri: /^[a-z][a-z0-9+.-]*:\/\/\S+$/i,
+};
+
+const FORMAT_MESSAGES: Record<StringFormat, string> = {
+  email: 'must be a valid email address',
+  date: 'must be a date, "YYYY-MM-DD"',
+  'date-time': 'must be an ISO 8601 timestamp',
+  time: 'must be a time, "HH:MM"',
+  uri: 'must be a URL',
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+/** "a non-empty string of at most 200 characters", "a string", … */
+function describeString(schema: Schema): string {
+  const { minLength, maxLength } = schema;
+  const base = minLength === 1 ? 'a non-empty string' : 'a string';
+  if (minLength !== undefined && minLength > 1) {
+    return maxLength !== undefined
+      ? `a string of ${minLength} to ${maxLength} characters`
+      : `a string of at least ${minLength} characters`;
+  }
+  return maxLength !== undefined ? `${base} of at most ${maxLength} characters` : base;
+}
+
+/** "an integer between 0 and 23", "a number of at least 1", … */
+function describeNumber(schema: Schema): string {
+  const base = schema.integer ? 'an integer' : 'a number';
+  const { minimum, maximum } = schema;
+  if (minimum !== undefined && maximum !== undefined) return `${base} between ${minimum} and ${maximum}`;
+  if (minimum !== undefined) return `${base} of at least ${minimum}`;
+  if (maximum !== undefined) return `${base} of at most ${maximum}`;
+  return base;
+}
+
+function describeArray(schema: Schema): string {
+  const { minItems, maxItems } = schema;
+  if (minItems !== undefined && maxItems !== undefined) return `an array of ${minItems} to ${maxItems} items`;
+  if (minItems === 1) return 'a non-empty array';
+  if (minItems !== undefined) return `an array of at least ${minItems} items`;
+  if (maxItems !== undefined) return `an array of at most ${maxItems} items`;
+  return 'an array';
+}
+
+function coerceScalar(schema: Schema, value: string): unknown {
+  if (schema.kind === 'number' && /^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (schema.kind === 'boolean' && ['true', '1'].includes(value)) return true;
+  if (schema.kind === 'boolean' && ['false', '0'].includes(value)) return false;
+  if (schema.kind === 'enum' && !schema.values?.includes(value)) {
+    return schema.values?.find((allowed) => String(allowed) === value) ?? value;
+  }
+  return value;
+}
+
+/**
+ * Check a value, collecting errors
+ * @returns The value as the schema reads it: trimmed strings, coerced numbers, no undefined properties
+ */
+function check(schema: Schema, input: unknown, path: string, errors: FieldError[], options: ValidateOptions): unknown {
+  if (input === undefined) {
+    if (!schema.isOptional) errors.push({ field: path, message: 'is required' });
+    return undefined;
+  }
+  if (input === null && schema.isNullable) {
+    return null;
+  }
+
+  const fail = (message: string): undefined => {
+    errors.push({ field: path, message: schema.message ?? message });
+    return undefined;
+  };
+
+  let value: unknown = input;
+  if (options.coerce && typeof value === 'string') {
+    value = coerceScalar(schema, value);
+  }
+  if (options.coerce && Array.isArray(value) && schema.kind !== 'array') {
+    return fail('must be given at most once');
+  }
+
+  const errorCount = errors.length;
+  let result: unknown;
+
+  switch (schema.kind) {
+    case 'string': {
+      if (typeof value !== 'string') return fail(`must be ${describeString(schema)}`);
+      const text = schema.trim ? value.trim() : value;
+      if (
+        (schema.minLength !== undefined && text.length < schema.minLength) ||
+        (schema.maxLength !== undefined && text.length > schema.maxLength)
+      ) {
+        return fail(`must be ${describeString(schema)}`);
+      }
+      if (schema.format && !FORMAT_PATTERNS[schema.format].test(text)) return fail(FORMAT_MESSAGES[schema.format]);
+      if (schema.pattern && !schema.pattern.test(text)) return fail(`must match ${schema.pattern}`);
+      result = text;
+      break;
+    }
+
+    case 'number':
+      if (
+        typeof value !== 'number' ||
+        !Number.isFinite(value) ||
+        (schema.integer && !Number.isInteger(value)) ||
+        (schema.minimum !== undefined && value < schema.minimum) ||
+        (schema.maximum !== undefined && value > schema.maximum)
+      ) {
+        return fail(`must be ${describeNumber(schema)}`);
+      }
+      result = value;
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') return fail(options.coerce ? 'must be true or false' : 'must be a boolean');
+      result = value;
+      break;
+
+    case 'enum': {
+      const values = schema.values ?? [];
+      if (!values.includes(value as string)) {
+        return fail(values.length === 1 ? `must be ${JSON.stringify(values[0])}` : `must be one of: ${values.join(', ')}`);
+      }
+      result = value;
+      break;
+    }
+
+    case 'array':
+      if (
+        !Array.isArray(value) ||
+        (schema.minItems !== undefined && value.length < schema.minItems) ||
+        (schema.maxItems !== undefined && value.length > schema.maxItems)
+      ) {
+        return fail(`must be ${describeArray(schema)}`);
+      }
+      result = value.map((item, index) => check(schema.items as Schema, item, `${path}[${index}]`, errors, {}));
+      break;
+
+    case 'object': {
+      if (!isPlainObject(value)) return fail('must be an object');
+      const properties = schema.properties ?? {};
+      const parsed: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) {
+        if (key in properties) continue;
+        if (schema.passthrough) parsed[key] = value[key];
+        else errors.push({ field: joinPath(path, key), message: 'is not a known field' });
+      }
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        const propertyValue = check(propertySchema, value[key], joinPath(path, key), errors, options);
+        if (propertyValue !== undefined) parsed[key] = propertyValue;
+      }
+      result = parsed;
+      break;
+    }
+
+    case 'record': {
+      if (!isPlainObject(value)) return fail('must be an object');
+      result = Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, check(schema.valueSchema as Schema, item, joinPath(path, key), errors, {})])
+      );
+      break;
+    }
+
+    case 'unknown':
+      result = value;
+      break;
+  }
+
+  if (errors.length === errorCount && schema.refine) {
+    const message = schema.refine(result);
+    if (message) errors.push({ field: path, message });
+  }
+
+  return result;
+}
+
+/**
+ * Validate a value against a schema
+ * @returns The parsed value, or every field error
+ */
+export function validate<T>(schema: Schema<T>, input: unknown, options: ValidateOptions = {}): ValidationResult<T> {
+  const errors: FieldError[] = [];
+  const value = check(schema, input, '', errors, options);
+  return errors.length > 0 ? { errors } : { value: value as T };
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function docComment(description: string | undefined, indent: string): string {
+  if (!description) return '';
+  return `${indent}/** ${description} */\n`;
+}
+
+/**
+ * The TypeScript type of a schema, e.g. `'daily' | 'weekly'` or `{ name: string; … }`;
+ * named schemas inside it are referred to by name
+ */
+export function toTypeScript(schema: Schema, indent = '', isDeclaration = false): string {
+  if (schema.typeName && !isDeclaration) {
+    return schema.isNullable ? `${schema.typeName} | null` : schema.typeName;
+  }
+
+  let type: string;
+  switch (schema.kind) {
+    case 'string':
+      type = 'string';
+      break;
+    case 'number':
+      type = 'number';
+      break;
+    case 'boolean':
+      type = 'boolean';
+      break;
+    case 'enum':
+      type = (schema.values ?? []).map((value) => (typeof value === 'string' ? `'${value}'` : String(value))).join(' | ');
+      break;
+    case 'array': {
+      const item = toTypeScript(schema.items as Schema, indent);
+      type = item.includes(' | ') || item.includes('\n') ? `Array<${item}>` : `${item}[]`;
+      break;
+    }
+    case 'object': {
+      const inner = `${indent}  `;
+      const lines = Object.entries(schema.properties ?? {}).map(([key, property]) => {
+        const name = IDENTIFIER.test(key) ? key : `'${key}'`;
+        return `${docComment(property.description, inner)}${inner}${name}${property.isOptional ? '?' : ''}: ${toTypeScript(property, inner)};`;
+      });
+      if (schema.passthrough) lines.push(`${inner}[key: string]: unknown;`);
+      type = lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : '{}';
+      break;
+    }
+    case 'record':
+      type = `Record<string, ${toTypeScript(schema.valueSchema as Schema, indent)}>`;
+      break;
+    default:
+      type = 'unknown';
+  }
+
+  return schema.isNullable && !isDeclaration ? `${type} | null` : type;
+}
+
+/**
+ * Declarations for named schemas: `export interface X { … }` for objects, `export type X = …`
+ * otherwise, each with its description as doc comment
+ */
+export function toTypeDeclarations(schemas: Schema[]): string {
+  return schemas
+    .map((schema) => {
+      if (!schema.typeName) {
+        throw new Error('Only named schemas can be declared');
+      }
+      const body = toTypeScript(schema, '', true);
+      const declaration =
+        schema.kind === 'object'
+          ? `export interface ${schema.typeName} ${body}`
+          : `export type ${schema.typeName} = ${body};`;
+      return `${docComment(schema.typeDescription, '')}${declaration}\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * The named schemas among the given ones and every schema they refer to, each once, in the
+ * order they are first reached
+ */
+export function collectNamedSchemas(roots: Schema[]): Schema[] {
+  const found = new Map<string, Schema>();
+
+  const visit = (schema: Schema | undefined): void => {
+    if (!schema) return;
+    if (schema.typeName) {
+      const known = found.get(schema.typeName);
+      if (known) {
+        if (known.kind !== schema.kind) throw new Error(`Two different schemas are named ${schema.typeName}`);
+        return;
+      }
+      found.set(schema.typeName, schema);
+    }
+    visit(schema.items);
+    visit(schema.valueSchema);
+    Object.values(schema.properties ?? {}).forEach(visit);
+  };
+
+  roots.forEach(visit);
+  return [...found.values()];
+}
+
+/** A JSON Schema (draft 2020-12, as used by OpenAPI 3.1) */
+export type JsonSchema = Record<string, unknown>;
+
+export interface JsonSchemaOptions {
+  /** Where named schemas are referred to, e.g. '#/components/schemas/' */
+  refPrefix: string;
+}
+
+/** JSON Schema type of each kind; enums list their values instead */
+const JSON_TYPES: Partial<Record<SchemaKind, string>> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  array: 'array',
+  object: 'object',
+  record: 'object',
+};
+
+/**
+ * The JSON Schema of a schema; named schemas inside it are $refs. Refinements are not
+ * expressed, so the API may still reject a value the JSON Schema allows.
+ */
+export function toJsonSchema(schema: Schema, options: JsonSchemaOptions, isDeclaration = false): JsonSchema {
+  const description = isDeclaration ? schema.typeDescription : schema.description;
+  const nullable = schema.isNullable && !isDeclaration;
+
+  if (schema.typeName && !isDeclaration) {
+    const ref = { $ref: `${options.refPrefix}${schema.typeName}` };
+    return {
+      ...(nullable ? { anyOf: [ref, { type: 'null' }] } : ref),
+      ...(description ? { description } : {}),
+    };
+  }
+
+  const json: JsonSchema = {};
+  switch (schema.kind) {
+    case 'string':
+      if (schema.minLength !== undefined) json.minLength = schema.minLength;
+      if (schema.maxLength !== undefined) json.maxLength = schema.maxLength;
+      if (schema.pattern) json.pattern = schema.pattern.source;
+      if (schema.format === 'time') json.pattern = FORMAT_PATTERNS.time.source;
+      else if (schema.format) json.format = schema.format;
+      break;
+    case 'number':
+      if (schema.minimum !== undefined) json.minimum = schema.minimum;
+      if (schema.maximum !== undefined) json.maximum = schema.maximum;
+      break;
+    case 'enum': {
+      const values = schema.values ?? [];
+      if (values.length === 1 && !nullable) json.const = values[0];
+      else json.enum = nullable ? [...values, null] : [...values];
+      break;
+    }
+    case 'array':
+      json.items = toJsonSchema(schema.items as Schema, options);
+      if (schema.minItems !== undefined) json.minItems = schema.minItems;
+      if (schema.maxItems !== undefined) json.maxItems = schema.maxItems;
+      break;
+    case 'object': {
+      const properties = Object.entries(schema.properties ?? {});
+      json.properties = Object.fromEntries(properties.map(([key, property]) => [key, toJsonSchema(property, options)]));
+      const required = properties.filter(([, property]) => !property.isOptional).map(([key]) => key);
+      if (required.length > 0) json.required = required;
+      // validate() rejects unlisted properties too
+      if (!schema.passthrough) json.additionalProperties = false;
+      break;
+    }
+    case 'record':
+      json.additionalProperties = toJsonSchema(schema.valueSchema as Schema, options);
+      break;
+  }
+
+  const type = schema.integer ? 'integer' : JSON_TYPES[schema.kind];
+  return {
+    ...(description ? { description } : {}),
+    ...(type ? { type: nullable ? [type, 'null'] : type } : {}),
+    ...json,
+  };
+}
@@ -0,0 +1,290 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+/**
+ * SMTP Client
+ * Minimal client for handing one message to a relay: EHLO, STARTTLS when offered (or
+ * implicit TLS), AUTH PLAIN/LOGIN, MAIL FROM, RCPT TO, DATA and QUIT. Enough for the
+ * mail servers and relays (Postfix, SES, Mailgun, Gmail) outbound email is sent through.
+ * Credentials are only sent over an encrypted connection unless requireTLS is false.
+ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /**
+   * Refuse to send unless the connection is encrypted. Defaults to true when a user is
+   * given, so credentials never go out in the clear unless this is explicitly false.
+   */
+  requireTLS?: boolean;
+  timeoutMs?: number;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Error for a failed SMTP exchange, carrying the server's reply code when there was one
+ */
+export class SmtpError extends Error {
+  code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Send a raw RFC 5322 message
+ * @returns The server's reply to the end of DATA, e.g. "250 2.0.0 Ok: queued as 12345"
+ */
+export async function sendSmtpMessage(options: SmtpOptions, envelope: SmtpEnvelope, message: string): Promise<string> {
+  for (const address of [envelope.from, ...envelope.to]) {
+    if (!address || /[\s<>]/.test(address)) {
+      // 501 (syntax error in parameters), as a server would reply: retrying cannot help
+      throw new SmtpError(`Invalid address: ${JSON.stringify(address)}`, 501);
+    }
+  }
+
+  const requireTLS = options.requireTLS ?? Boolean(options.user);
+  const connection = await SmtpConnection.open(options);
+
+  try {
+    await connection.expect(220);
+    let features = await connection.ehlo();
+
+    if (!options.secure) {
+      if (features.includes('STARTTLS')) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgrade(options);
+        features = await connection.ehlo();
+      } else if (requireTLS) {
+        throw new SmtpError('Server does not support STARTTLS');
+      }
+    }
+
+    if (options.user) {
+      await connection.authenticate(options.user, options.password || '', features);
+    }
+
+    await connection.command(`MAIL FROM:<${envelope.from}>`, 250);
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.command('DATA', 354);
+    const reply = await connection.command(`${dotStuff(message)}\r\n.`, 250);
+
+    await connection.command('QUIT', 221).catch(() => undefined);
+    return reply.lines.join(' ');
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * Escape lines starting with "." and normalise line endings to CRLF
+ */
+function dotStuff(message: string): string {
+  return message
+    .replace(/\r?\n/g, '\r\n')
+    .replace(/\r\n$/, '')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+  /** Removes the listeners listen() added to the current socket */
+  private unlisten: () => void = () => undefined;
+
+  private constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.listen();
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      const connectEvent = options.secure ? 'secureConnect' : 'connect';
+
+      const onError = (error: Error) => {
+        socket.destroy();
+        reject(new SmtpError(`Could not connect to ${options.host}:${options.port}: ${error.message}`));
+      };
+      socket.setTimeout(timeoutMs, () => onError(new Error('timed out')));
+      socket.once('error', onError);
+      socket.once(connectEvent, () => {
+        socket.removeListener('error', onError);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+    });
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   */
+  async expect(expected: number | number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    const codes = Array.isArray(expected) ? expected : [expected];
+
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`Unexpected reply: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  async command(line: string, expected: number | number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  /**
+   * Greet the server
+   * @returns The extensions it advertises, upper-cased (e.g. "STARTTLS", "AUTH PLAIN LOGIN")
+   */
+  async ehlo(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${os.hostname() || 'localhost'}`, 250);
+    return reply.lines.slice(1).map((line) => line.toUpperCase());
+  }
+
+  async authenticate(user: string, password: string, features: string[]): Promise<void> {
+    const mechanisms = features.find((feature) => feature.startsWith('AUTH'))?.split(/[ =]/).slice(1) ?? [];
+
+    if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+      await this.command(`AUTH PLAIN ${Buffer.from(`\0${user}\0${password}`).toString('base64')}`, 235);
+      return;
+    }
+
+    await this.command('AUTH LOGIN', 334);
+    await this.command(Buffer.from(user).toString('base64'), 334);
+    await this.command(Buffer.from(password).toString('base64'), 235);
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  upgrade(options: SmtpOptions): Promise<void> {
+    // The TLS socket takes over reading and errors; the plain one must not report them twice
+    this.unlisten();
+
+    // Anything already read arrived in plaintext after STARTTLS and could have been injected
+    // on the way; it must never be taken as a reply over the encrypted connection
+    if (this.buffer || this.replyLines.length > 0 || this.replies.length > 0) {
+      return Promise.reject(new SmtpError('Server sent data before the TLS handshake'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const secureSocket = tls.connect({ socket: this.socket, servername: options.host });
+      // The plain socket's timeout went with unlisten(); a stalled handshake must not hang
+      const timer = setTimeout(() => {
+        secureSocket.destroy();
+        reject(new SmtpError('TLS negotiation timed out'));
+      }, this.timeoutMs);
+      secureSocket.once('error', (error) => {
+        clearTimeout(timer);
+        reject(new SmtpError(`TLS negotiation failed: ${error.message}`));
+      });
+      secureSocket.once('secureConnect', () => {
+        clearTimeout(timer);
+        secureSocket.removeAllListeners('error');
+        this.socket = secureSocket;
+        this.listen();
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private listen(): void {
+    const socket = this.socket;
+    const onTimeout = () => this.fail(new SmtpError('Connection timed out'));
+    const onError = (error: Error) => this.fail(new SmtpError(error.message));
+    const onClose = () => this.fail(new SmtpError('Connection closed by server'));
+    const onData = (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+
+      let newline: number;
+      while ((newline = this.buffer.indexOf('\n')) !== -1) {
+        const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+        this.buffer = this.buffer.slice(newline + 1);
+        this.replyLines.push(line.slice(4));
+
+        // "250-..." continues a multi-line reply, "250 ..." ends it
+        if (line[3] !== '-') {
+          this.push({ code: parseInt(line.slice(0, 3), 10), lines: this.replyLines });
+          this.replyLines = [];
+        }
+      }
+    };
+
+    socket.setTimeout(this.timeoutMs, onTimeout);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+    socket.on('data', onData);
+
+    this.unlisten = () => {
+      socket.setTimeout(0);
+      socket.removeListener('timeout', onTimeout);
+      socket.removeListener('error', onError);
+      socket.removeListener('close', onClose);
+      socket.removeListener('data', onData);
+    };
+  }
+
+  private push(reply: SmtpReply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Time Zone Helpers
+ * Local-calendar arithmetic for IANA time zones using Intl only (no tz database dependency).
+ * Calendar dates are passed around as 'YYYY-MM-DD' strings.
+ */
+
+export interface ZonedDateParts {
+  /** Local calendar date, 'YYYY-MM-DD' */
+  date: string;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a string is a time zone Intl understands (e.g. 'Europe/Madrid', 'UTC')
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getParts(date: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Local date, time and weekday of an instant in a time zone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const { year, month, day, hour, minute } = getParts(date, timeZone);
+  const localDate = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+  return {
+    date: localDate,
+    hour,
+    minute,
+    weekday: getWeekday(localDate),
+  };
+}
+
+/**
+ * Day of the week of a 'YYYY-MM-DD' date, 0 = Sunday … 6 = Saturday
+ */
+export function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getOffsetMs(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * The instant local midnight starts on a calendar date in a time zone
+ */
+export function startOfZonedDay(date: string, timeZone: string): Date {
+  return zonedTimeToDate(date, 0, timeZone);
+}
+
+/**
+ * The instant a local time (minutes after midnight) occurs on a calendar date in a time zone
+ */
+export function zonedTimeToDate(date: string, minuteOfDay: number, timeZone: string): Date {
+  const localAsUtc = new Date(`${date}T00:00:00Z`).getTime() + minuteOfDay * 60000;
+  // Apply the offset twice so a DST change between UTC and the local time is accounted for
+  const firstGuess = localAsUtc - getOffsetMs(new Date(localAsUtc), timeZone);
+  return new Date(localAsUtc - getOffsetMs(new Date(firstGuess), timeZone));
+}
+
+/**
+ * Add (or subtract) calendar days to a 'YYYY-MM-DD' date
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook Signatures
+ * Verification of Svix-style signed webhooks, as sent by Resend: the sender signs
+ * "<id>.<timestamp>.<raw body>" with HMAC-SHA256 and a shared "whsec_…" secret, and sends
+ * the id, timestamp and signatures in the svix-id, svix-timestamp and svix-signature
+ * headers (or webhook-id, webhook-timestamp and webhook-signature).
+ *
+ * Meta (the WhatsApp Cloud API) signs the raw body alone with HMAC-SHA256 and the app
+ * secret, and sends "sha256=<hex>" in the X-Hub-Signature-256 header.
+ */
+
+/** Signatures older or newer than this are rejected, which limits replays */
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export interface SvixHeaders {
+  id?: string;
+  timestamp?: string;
+  /** Space-separated "v1,<base64 signature>" entries (several during secret rotation) */
+  signature?: string;
+}
+
+/**
+ * Read the signature headers from a request's header getter
+ */
+export function getSvixHeaders(header: (name: string) => string | undefined): SvixHeaders {
+  return {
+    id: header('svix-id') || header('webhook-id'),
+    timestamp: header('svix-timestamp') || header('webhook-timestamp'),
+    signature: header('svix-signature') || header('webhook-signature'),
+  };
+}
+
+/**
+ * Sign a payload (used by the verifier, and by tests to build signed requests)
+ * @returns The "v1,<base64>" signature
+ */
+export function signSvixPayload(secret: string, id: string, timestamp: string, payload: string | Buffer): string {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const signature = crypto
+    .createHmac('sha256', key)
+    .update(`${id}.${timestamp}.`)
+    .update(payload)
+    .digest('base64');
+  return `v1,${signature}`;
+}
+
+/**
+ * Check a signed webhook
+ * @returns An error message, or null if the signature is valid and recent
+ */
+export function verifySvixSignature(
+  secret: string,
+  headers: SvixHeaders,
+  payload: string | Buffer,
+  now: Date = new Date()
+): string | null {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) {
+    return 'Missing signature headers';
+  }
+
+  const sentAt = parseInt(timestamp, 10);
+  if (!/^\d+$/.test(timestamp) || Math.abs(now.getTime() / 1000 - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+    return 'Signature timestamp is too old or in the future';
+  }
+
+  const expected = Buffer.from(signSvixPayload(secret, id, timestamp, payload));
+  const matches = signature.split(' ').some((candidate) => {
+    const given = Buffer.from(candidate);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  });
+
+  return matches ? null : 'Invalid signature';
+}
+
+/**
+ * Sign a payload the way Meta does (used by the verifier, and by tests)
+ * @returns The "sha256=<hex>" signature
+ */
+export function signHubPayload(appSecret: string, payload: string | Buffer): string {
+  return `sha256=${crypto.createHmac('sha256', appSecret).update(payload).digest('hex')}`;
+}
+
+/**
+ * Check the X-Hub-Signature-256 header of a Meta webhook
+ * @returns An error message, or null if the signature is valid
+ */
+export function verifyHubSignature(appSecret: string, signature: string | undefined, payload: string | Buffer): string | null {
+  if (!signature) {
+    return 'Missing signature header';
+  }
+
+  const expected = Buffer.from(signHubPayload(appSecret, payload));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? null : 'Invalid signature';
+}
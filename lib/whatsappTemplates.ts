@@ -0,0 +1,77 @@
+/**
+ * WhatsApp Message Templates
+ * Builds WhatsApp Cloud API message payloads for summary and report notifications.
+ *
+ * Messages a business starts outside the 24-hour customer service window must use a
+ * template approved in WhatsApp Manager. When WHATSAPP_SUMMARY_TEMPLATE /
+ * WHATSAPP_REPORT_TEMPLATE name one, it is sent with two body parameters: {{1}} the
+ * client name and {{2}} the summary or report. Otherwise a plain text message is sent.
+ */
+
+/** Maximum length of a text message body */
+export const WHATSAPP_TEXT_LIMIT = 4096;
+/** Maximum length of a template parameter */
+export const WHATSAPP_PARAMETER_LIMIT = 1024;
+
+export type WhatsAppMessageKind = 'summary' | 'report';
+
+export type WhatsAppMessage =
+  | { type: 'text'; text: { body: string; preview_url: false } }
+  | {
+      type: 'template';
+      template: {
+        name: string;
+        language: { code: string };
+        components: Array<{ type: 'body'; parameters: Array<{ type: 'text'; text: string }> }>;
+      };
+    };
+
+export interface WhatsAppMessageContent {
+  clientName: string;
+  /** Summary text, or the rendered plain-text report */
+  content: string;
+}
+
+/**
+ * Normalise a phone number to the digits-only international format the Cloud API expects
+ * @returns The number, or null if it cannot be an E.164 number (8–15 digits)
+ */
+export function normalizeWhatsAppNumber(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/^\s*00/, '').replace(/\D/g, '');
+  return digits.length >= 8 && digits.length <= 15 ? digits : null;
+}
+
+/**
+ * Build the message for a notification, using the configured template if there is one
+ */
+export function buildWhatsAppMessage(kind: WhatsAppMessageKind, message: WhatsAppMessageContent): WhatsAppMessage {
+  const templateName = kind === 'summary' ? process.env.WHATSAPP_SUMMARY_TEMPLATE : process.env.WHATSAPP_REPORT_TEMPLATE;
+
+  if (templateName) {
+    return {
+      type: 'template',
+      template: {
+        name: templateName,
+        language: { code: process.env.WHATSAPP_TEMPLATE_LANGUAGE || 'en_US' },
+        components: [
+          {
+            type: 'body',
+            parameters: [
+              { type: 'text', text: truncate(message.clientName, WHATSAPP_PARAMETER_LIMIT) },
+              // Template parameters may not contain newlines
+              { type: 'text', text: truncate(message.content.replace(/\s*\n\s*/g, ' · '), WHATSAPP_PARAMETER_LIMIT) },
+            ],
+          },
+        ],
+      },
+    };
+  }
+
+  const body = kind === 'summary' ? `📝 New summary ready\n\n${message.content}` : message.content;
+  return { type: 'text', text: { body: truncate(body, WHATSAPP_TEXT_LIMIT), preview_url: false } };
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1).trimEnd()}…` : text;
+}
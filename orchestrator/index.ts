@@ -1,14 +1,21 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { requestLogger, errorHandler, notFoundHandler } from '../lib/middleware';
+import { requestLogger, errorHandler, notFoundHandler, captureRawBody, requireAuth, requireOperator } from '../lib/middleware';
 import clientRoutes from '../routes/clientRoutes';
 import taskRoutes from '../routes/taskRoutes';
 import reportRoutes from '../routes/reportRoutes';
 import summaryRoutes from '../routes/summaryRoutes';
 import emailWebhookRoutes from '../routes/emailWebhook';
 import inboundEmailRoutes from '../routes/inboundEmailRoutes';
+import whatsappWebhookRoutes from '../routes/whatsappWebhook';
+import resendWebhookRoutes from '../routes/resendWebhook';
 import notificationRoutes from '../routes/notificationRoutes';
+import workerRoutes from '../routes/workerRoutes';
+import settingsRoutes from '../routes/settingsRoutes';
+import authRoutes from '../routes/authRoutes';
+import organizationRoutes from '../routes/organizationRoutes';
+import docsRoutes from '../routes/docsRoutes';
 
 // Load environment variables
 dotenv.config();
@@ -18,7 +25,8 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(express.json());
+// The raw body is kept for webhook signature checks
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true }));
 // Allow the dashboard to call this API.
 // In development, defaults to the Vite dev-server origin (localhost:5173).
@@ -32,14 +40,27 @@ app.get('/health', (_req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// API documentation: GET /openapi.json and GET /docs
+app.use(docsRoutes);
+
 // API Routes
-app.use('/clients', clientRoutes);
-app.use('/task', taskRoutes);
-app.use('/report', reportRoutes);
-app.use('/summaries', summaryRoutes);
-app.use('/email-webhook', emailWebhookRoutes);
+// Management routes need an API key or dashboard session: "read" for GET requests and
+// "write" otherwise, and only see the token's organization. Worker stats and the shared
+// settings span every organization and need the platform operator key. Provider webhooks
+// under /webhooks are checked by their signatures.
+app.use('/auth', authRoutes);
+app.use('/organization', requireAuth(), organizationRoutes);
+app.use('/clients', requireAuth(), clientRoutes);
+app.use('/task', requireAuth(), taskRoutes);
+app.use('/report', requireAuth(), reportRoutes);
+app.use('/summaries', requireAuth(), summaryRoutes);
+app.use('/email-webhook', requireAuth('webhook'), emailWebhookRoutes);
 app.use('/webhooks/resend-inbound', inboundEmailRoutes);
-app.use('/notifications', notificationRoutes);
+app.use('/webhooks/whatsapp', whatsappWebhookRoutes);
+app.use('/webhooks/resend', resendWebhookRoutes);
+app.use('/notifications', requireAuth(), notificationRoutes);
+app.use('/workers', requireOperator, workerRoutes);
+app.use('/settings', settingsRoutes);
 
 // Error handling
 app.use(notFoundHandler);
@@ -60,7 +81,15 @@ if (require.main === module) {
       .then(({ startEmailWorker }) => startEmailWorker(EMAIL_BATCH_SIZE, EMAIL_INTERVAL_MS))
       .catch(error => console.error('Email worker error:', error));
 
-    // Start automation worker: recovers tasks stuck in pending state
+    // Start WhatsApp worker: sends pending WhatsApp notifications on a polling loop
+    const WHATSAPP_BATCH_SIZE = 10;
+    const WHATSAPP_INTERVAL_MS = 10000;
+
+    import('../workers/whatsappWorker')
+      .then(({ startWhatsAppWorker }) => startWhatsAppWorker(WHATSAPP_BATCH_SIZE, WHATSAPP_INTERVAL_MS))
+      .catch(error => console.error('WhatsApp worker error:', error));
+
+    // Start automation worker: reaps stale tasks and claims queued ones
     const AUTOMATION_INTERVAL_MS = 60000; // every 60 seconds
 
     import('../workers/automationWorker')
@@ -71,6 +100,30 @@ if (require.main === module) {
         setInterval(run, AUTOMATION_INTERVAL_MS);
       })
       .catch(error => console.error('Automation worker load error:', error));
+
+    // Start report scheduler: builds and enqueues daily/weekly client reports when due
+    const REPORT_SCHEDULER_INTERVAL_MS = parseInt(process.env.REPORT_SCHEDULER_INTERVAL_MS || '', 10) || 300000; // 5 minutes
+
+    import('../workers/reportScheduler')
+      .then(({ runReportScheduler }) => {
+        const run = () =>
+          runReportScheduler().catch(err => console.error('Report scheduler error:', err));
+        run();
+        setInterval(run, REPORT_SCHEDULER_INTERVAL_MS);
+      })
+      .catch(error => console.error('Report scheduler load error:', error));
+
+    // Start notification retry worker: re-queues failed notifications per the retry policy
+    const NOTIFICATION_RETRY_INTERVAL_MS = 60000; // every 60 seconds
+
+    import('../workers/notificationRetryWorker')
+      .then(({ runNotificationRetry }) => {
+        const run = () =>
+          runNotificationRetry().catch(err => console.error('Notification retry worker error:', err));
+        run();
+        setInterval(run, NOTIFICATION_RETRY_INTERVAL_MS);
+      })
+      .catch(error => console.error('Notification retry worker load error:', error));
   });
 }
 
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import authController from '../controllers/authController';
+import { requireAuth, requireOrganization, validateRequest } from '../lib/middleware';
+import { acceptInvitationRequest, createApiKeyRequest, idParams, loginRequest } from '../lib/apiSchemas';
+
+const router = Router();
+
+/**
+ * Auth routes
+ * Dashboard login, invitations and API key management. Login and accepting an invitation
+ * are the only routes that take no token.
+ */
+
+/** POST /auth/login — exchange a user's email and password for a session token */
+router.post('/login', validateRequest(loginRequest), (req, res) => authController.login(req, res));
+
+/** POST /auth/invitations/accept — join an organization with an invitation token and start a session */
+router.post('/invitations/accept', validateRequest(acceptInvitationRequest), (req, res) => authController.acceptInvitation(req, res));
+
+/** POST /auth/logout — end the current session */
+router.post('/logout', requireAuth('read'), (req, res) => authController.logout(req, res));
+
+/** GET /auth/me — type, organization, scopes and role of the current token */
+router.get('/me', requireAuth('read'), (req, res) => authController.getCurrentAuth(req, res));
+
+/** The organization's API keys — admin only */
+router.get('/api-keys', requireAuth('admin'), requireOrganization, (req, res) => authController.listApiKeys(req, res));
+router.post('/api-keys', requireAuth('admin'), requireOrganization, validateRequest(createApiKeyRequest), (req, res) => authController.createApiKey(req, res));
+router.delete('/api-keys/:id', requireAuth('admin'), requireOrganization, validateRequest({ params: idParams }), (req, res) => authController.revokeApiKey(req, res));
+
+export default router;
@@ -1,13 +1,40 @@
 import { Router } from 'express';
 import clientController from '../controllers/clientController';
+import { requireAuth, validateRequest } from '../lib/middleware';
+import {
+  createClientRequest,
+  idParams,
+  listClientsRequest,
+  previewEmailRequest,
+  previewPromptProfileRequest,
+  updateBrandingRequest,
+  updateClientRequest,
+  updatePromptProfileRequest,
+} from '../lib/apiSchemas';
 
 const router = Router();
 
 /**
  * Client routes
+ * Requests are checked against the schemas in lib/apiSchemas.ts before they reach the controller
  */
-router.post('/', (req, res) => clientController.createClient(req, res));
-router.get('/', (req, res) => clientController.getAllClients(req, res));
-router.get('/:id', (req, res) => clientController.getClientById(req, res));
+const byId = validateRequest({ params: idParams });
+
+router.post('/', validateRequest(createClientRequest), (req, res) => clientController.createClient(req, res));
+router.get('/', validateRequest(listClientsRequest), (req, res) => clientController.getAllClients(req, res));
+router.get('/:id', byId, (req, res) => clientController.getClientById(req, res));
+router.patch('/:id', validateRequest(updateClientRequest), (req, res) => clientController.updateClient(req, res));
+router.post('/:id/archive', byId, (req, res) => clientController.archiveClient(req, res));
+router.delete('/:id/archive', byId, (req, res) => clientController.restoreClient(req, res));
+
+/** Deleting a client removes its whole history, so it takes "admin" */
+router.delete('/:id', requireAuth('admin'), byId, (req, res) => clientController.deleteClient(req, res));
+router.put('/:id/prompt-profile', validateRequest(updatePromptProfileRequest), (req, res) => clientController.updatePromptProfile(req, res));
+router.post('/:id/prompt-profile/preview', validateRequest(previewPromptProfileRequest), (req, res) =>
+  clientController.previewPromptProfile(req, res)
+);
+router.put('/:id/branding', validateRequest(updateBrandingRequest), (req, res) => clientController.updateBranding(req, res));
+router.delete('/:id/email-bounce', byId, (req, res) => clientController.clearEmailBounce(req, res));
+router.post('/:id/email-preview', validateRequest(previewEmailRequest), (req, res) => clientController.previewEmail(req, res));
 
 export default router;
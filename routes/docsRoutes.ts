@@ -0,0 +1,42 @@
+import { Router, Request, Response } from 'express';
+import { buildOpenApiDocument } from '../lib/openapi';
+
+const router = Router();
+
+/**
+ * Docs Routes
+ * The OpenAPI document of the API (lib/openapi.ts) and a Swagger UI page rendering it.
+ * Both are public, like /health.
+ */
+
+let document: Record<string, unknown> | undefined;
+
+/** GET /openapi.json — built on first request, the routes do not change at runtime */
+router.get('/openapi.json', (_req: Request, res: Response) => {
+  document ??= buildOpenApiDocument();
+  res.json(document);
+});
+
+const SWAGGER_UI = 'https://unpkg.com/swagger-ui-dist@5';
+
+/** GET /docs — interactive documentation; Swagger UI is loaded from a CDN */
+router.get('/docs', (_req: Request, res: Response) => {
+  res.type('text/html').send(`<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Included API</title>
+    <link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${SWAGGER_UI}/swagger-ui-bundle.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui', persistAuthorization: true });
+    </script>
+  </body>
+</html>
+`);
+});
+
+export default router;
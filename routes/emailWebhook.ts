@@ -1,5 +1,8 @@
 import { Router, Request, Response } from 'express';
 import emailSyncService, { EmailData } from '../services/emailSyncService';
+import clientService from '../services/clientService';
+import { getOrganizationId, validateRequest } from '../lib/middleware';
+import { EmailWebhookBody, emailWebhookRequest } from '../lib/apiSchemas';
 
 const router = Router();
 
@@ -11,61 +14,36 @@ const router = Router();
 /**
  * POST /email-webhook
  * Accept incoming email payloads and create tasks
+ * Body: { clientId, sender, subject, body: non-empty strings, attachments?: string[] }
  */
-router.post('/', async (req: Request, res: Response): Promise<Response> => {
+router.post('/', validateRequest(emailWebhookRequest, 'Invalid payload'), async (req: Request, res: Response): Promise<Response> => {
   try {
     console.log('Received email webhook request');
 
-    const { clientId, sender, subject, body, attachments } = req.body;
+    const { clientId, sender, subject, body, attachments } = req.body as EmailWebhookBody;
 
-    // Validate required fields
-    if (!clientId || typeof clientId !== 'string' || clientId.trim().length === 0) {
-      console.error('Email webhook validation failed: missing or invalid clientId');
-      return res.status(400).json({
-        error: 'Invalid payload',
-        message: 'Request body must contain a non-empty "clientId" field',
+    // API keys may only create tasks for their own organization's clients
+    const organizationId = getOrganizationId(res);
+    const client = await clientService.getClientById(clientId, organizationId);
+    if (organizationId && !client) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Client not found',
       });
     }
-
-    if (!sender || typeof sender !== 'string' || sender.trim().length === 0) {
-      console.error('Email webhook validation failed: missing or invalid sender');
-      return res.status(400).json({
-        error: 'Invalid payload',
-        message: 'Request body must contain a non-empty "sender" field',
-      });
-    }
-
-    if (!subject || typeof subject !== 'string' || subject.trim().length === 0) {
-      console.error('Email webhook validation failed: missing or invalid subject');
-      return res.status(400).json({
-        error: 'Invalid payload',
-        message: 'Request body must contain a non-empty "subject" field',
-      });
-    }
-
-    if (!body || typeof body !== 'string' || body.trim().length === 0) {
-      console.error('Email webhook validation failed: missing or invalid body');
-      return res.status(400).json({
-        error: 'Invalid payload',
-        message: 'Request body must contain a non-empty "body" field',
-      });
-    }
-
-    // Validate attachments if provided
-    if (attachments !== undefined && !Array.isArray(attachments)) {
-      console.error('Email webhook validation failed: invalid attachments format');
-      return res.status(400).json({
-        error: 'Invalid payload',
-        message: '"attachments" field must be an array if provided',
+    if (client?.archived_at) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: 'Client is archived',
       });
     }
 
-    // Construct email data
+    // Construct email data (the strings are trimmed by validateRequest)
     const emailData: EmailData = {
-      clientId: clientId.trim(),
-      sender: sender.trim(),
-      subject: subject.trim(),
-      body: body.trim(),
+      clientId,
+      sender,
+      subject,
+      body,
       attachments: attachments || [],
     };
 
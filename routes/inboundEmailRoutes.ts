@@ -1,29 +1,60 @@
 import { Router, Request, Response } from 'express';
 import inboundEmailService from '../services/inboundEmailService';
+import webhookDeliveryService from '../services/webhookDeliveryService';
+import { requireSvixSignature, validateRequest } from '../lib/middleware';
+import { ResendInboundBody, resendInboundRequest } from '../lib/apiSchemas';
+import { getSvixHeaders } from '../lib/webhookSignatures';
 
 const router = Router();
 
-router.post('/', async (req: Request, res: Response): Promise<any> => {
-  try {
-    console.log('🧠 Resend inbound webhook payload:', JSON.stringify(req.body, null, 2));
+/** Source name webhook ids are recorded under */
+const WEBHOOK_SOURCE = 'resend-inbound';
 
-    const { from, to, subject, text, html } = req.body;
+/**
+ * POST /webhooks/resend-inbound
+ * Requests must be signed with RESEND_INBOUND_WEBHOOK_SECRET; each webhook id is processed
+ * once, so replays and redeliveries are acknowledged without creating another task.
+ */
+router.post(
+  '/',
+  requireSvixSignature('RESEND_INBOUND_WEBHOOK_SECRET'),
+  validateRequest(resendInboundRequest, 'Invalid payload'),
+  async (req: Request, res: Response): Promise<Response> => {
+    const webhookId = getSvixHeaders((name) => req.header(name)).id as string;
+    let recorded = false;
 
-    // Validate required fields and include the field name in the error message
-    if (!from) return res.status(400).json({ error: 'Invalid payload', message: 'Missing required field: from' });
-    if (!to) return res.status(400).json({ error: 'Invalid payload', message: 'Missing required field: to' });
-    if (!subject) return res.status(400).json({ error: 'Invalid payload', message: 'Missing required field: subject' });
-    if (!text) return res.status(400).json({ error: 'Invalid payload', message: 'Missing required field: text' });
+    try {
+      const { from, to, subject, text, html } = req.body as ResendInboundBody;
+      console.log(`Resend inbound webhook ${webhookId} for ${to}`);
 
-    // Service errors (invalid address, client not found, DB failure) propagate as 500 so
-    // callers can detect and retry. Structural validation (missing fields) is handled above with 400.
-    await inboundEmailService.processInboundEmail({ from, to, subject, text, html });
+      recorded = await webhookDeliveryService.recordDelivery(WEBHOOK_SOURCE, webhookId);
+      if (!recorded) {
+        console.log(`Resend inbound webhook ${webhookId} already processed`);
+        return res.status(200).json({ success: true, duplicate: true });
+      }
 
-    return res.status(200).json({ success: true });
-  } catch (error) {
-    console.error('Error processing inbound email webhook:', error);
-    return res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : '' });
+      // Service errors (invalid address, client not found, DB failure) propagate as 500 so
+      // callers can detect and retry. Missing fields were rejected with 400 by validateRequest.
+      const email = await inboundEmailService.processInboundEmail({ from, to, subject, text, html });
+      if (!email) {
+        // Acknowledged so the sender does not retry; archived clients get no new tasks
+        return res.status(200).json({ success: true, ignored: 'Client is archived' });
+      }
+
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      console.error('Error processing inbound email webhook:', error);
+
+      // Let the sender's retry through
+      if (recorded) {
+        await webhookDeliveryService.forgetDelivery(WEBHOOK_SOURCE, webhookId).catch((forgetError) => {
+          console.error(`Failed to forget inbound webhook ${webhookId}:`, forgetError);
+        });
+      }
+
+      return res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : '' });
+    }
   }
-});
+);
 
 export default router;
@@ -1,14 +1,25 @@
 import { Router } from 'express';
 import notificationController from '../controllers/notificationController';
+import { validateRequest } from '../lib/middleware';
+import { idParams, listNotificationsRequest, retryNotificationsRequest } from '../lib/apiSchemas';
 
 const router = Router();
 
 /**
  * Notification routes
- * Read-only endpoints consumed by the dashboard.
+ * Endpoints consumed by the dashboard: listing and retrying notifications.
  */
 
 /** GET /notifications — list all notifications with optional filters */
-router.get('/', (req, res) => notificationController.getAllNotifications(req, res));
+router.get('/', validateRequest(listNotificationsRequest), (req, res) => notificationController.getAllNotifications(req, res));
+
+/** POST /notifications/retry — retry failed notifications in bulk */
+router.post('/retry', validateRequest(retryNotificationsRequest), (req, res) => notificationController.retryNotifications(req, res));
+
+/** GET /notifications/:id/timeline — delivery events reported by the provider */
+router.get('/:id/timeline', validateRequest({ params: idParams }), (req, res) => notificationController.getTimeline(req, res));
+
+/** POST /notifications/:id/retry — retry one failed notification */
+router.post('/:id/retry', validateRequest({ params: idParams }), (req, res) => notificationController.retryNotification(req, res));
 
 export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import organizationController from '../controllers/organizationController';
+import { requireAuth, requireOrganization, validateRequest } from '../lib/middleware';
+import { inviteMemberRequest, memberParams, updateMemberRoleRequest } from '../lib/apiSchemas';
+
+const router = Router();
+
+/**
+ * Organization routes
+ * The caller's organization and its members. Any member may read; managing members needs
+ * the admin scope (owners).
+ */
+router.use(requireOrganization);
+
+/** GET /organization — the organization and its members */
+router.get('/', (req, res) => organizationController.getOrganization(req, res));
+
+/** Members — admin only; new members are invited and join by accepting (POST /auth/invitations/accept) */
+router.post('/members', requireAuth('admin'), validateRequest(inviteMemberRequest), (req, res) => organizationController.inviteMember(req, res));
+router.put('/members/:userId', requireAuth('admin'), validateRequest(updateMemberRoleRequest), (req, res) => organizationController.updateMemberRole(req, res));
+router.delete('/members/:userId', requireAuth('admin'), validateRequest({ params: memberParams }), (req, res) => organizationController.removeMember(req, res));
+
+export default router;
@@ -1,11 +1,14 @@
 import { Router } from 'express';
 import reportController from '../controllers/reportController';
+import { validateRequest } from '../lib/middleware';
+import { reportHistoryRequest, reportRequest } from '../lib/apiSchemas';
 
 const router = Router();
 
 /**
  * Report routes
  */
-router.get('/', (req, res) => reportController.generateReport(req, res));
+router.get('/', validateRequest(reportRequest), (req, res) => reportController.generateReport(req, res));
+router.get('/history', validateRequest(reportHistoryRequest), (req, res) => reportController.getReportHistory(req, res));
 
 export default router;
@@ -0,0 +1,64 @@
+import { Router, Request, Response } from 'express';
+import emailService, { EmailDeliveryUpdate } from '../services/emailService';
+import { requireSvixSignature, validateRequest } from '../lib/middleware';
+import { ResendEventBody, resendEventRequest } from '../lib/apiSchemas';
+import { getSvixHeaders } from '../lib/webhookSignatures';
+
+const router = Router();
+
+/**
+ * Resend Webhook Routes
+ * Receives email delivery events (delivered, bounced, complained, opened, clicked) from
+ * Resend and records them on the matching notification events. Requests must be signed
+ * with RESEND_WEBHOOK_SECRET (the endpoint's "whsec_…" signing secret).
+ */
+
+/** Resend event types and the delivery status they record */
+const EVENT_STATUSES: Record<string, EmailDeliveryUpdate['status']> = {
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.opened': 'opened',
+  'email.clicked': 'clicked',
+};
+
+/**
+ * POST /webhooks/resend
+ * Apply one delivery event; other event types (email.sent, email.delivery_delayed) are ignored
+ */
+router.post(
+  '/',
+  requireSvixSignature('RESEND_WEBHOOK_SECRET'),
+  validateRequest(resendEventRequest, 'Invalid payload'),
+  async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { type, created_at: createdAt, data } = req.body as ResendEventBody;
+
+      const status = EVENT_STATUSES[type];
+      if (!status) {
+        return res.status(200).json({ success: true, matched: false });
+      }
+
+      const matched = await emailService.applyDeliveryEvent({
+        webhookId: getSvixHeaders((name) => req.header(name)).id as string,
+        messageId: data.email_id,
+        status,
+        occurredAt: createdAt ?? new Date().toISOString(),
+        bounce: data.bounce,
+        details: data.bounce ?? data.click ?? undefined,
+      });
+
+      return res.status(200).json({ success: true, matched });
+    } catch (error) {
+      console.error('Error processing Resend webhook:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import settingsController from '../controllers/settingsController';
+import { requireAuth, requireOperator, validateRequest } from '../lib/middleware';
+import { updateRetryPolicyRequest } from '../lib/apiSchemas';
+
+const router = Router();
+
+/**
+ * Settings routes
+ * Settings shared by every organization: any token may read them, only the platform
+ * operator may change them.
+ */
+
+/** GET /settings/notification-retry — automatic retry policy for failed notifications */
+router.get('/notification-retry', requireAuth(), (req, res) => settingsController.getNotificationRetryPolicy(req, res));
+
+/**
+ * PUT /settings/notification-retry — change the retry policy (partial updates allowed).
+ * The policy applies to every organization, so changing it needs the operator key.
+ */
+router.put('/notification-retry', requireOperator, validateRequest(updateRetryPolicyRequest), (req, res) =>
+  settingsController.updateNotificationRetryPolicy(req, res)
+);
+
+export default router;
@@ -1,11 +1,13 @@
 import { Router } from 'express';
 import summaryController from '../controllers/summaryController';
+import { validateRequest } from '../lib/middleware';
+import { listSummariesRequest } from '../lib/apiSchemas';
 
 const router = Router();
 
 /**
  * Summary routes
  */
-router.get('/', (req, res) => summaryController.getSummaries(req, res));
+router.get('/', validateRequest(listSummariesRequest), (req, res) => summaryController.getSummaries(req, res));
 
 export default router;
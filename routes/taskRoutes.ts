@@ -1,12 +1,14 @@
 import { Router } from 'express';
 import taskController from '../controllers/taskController';
+import { validateRequest } from '../lib/middleware';
+import { createTaskRequest, listTasksRequest } from '../lib/apiSchemas';
 
 const router = Router();
 
 /**
  * Task routes
  */
-router.post('/', (req, res) => taskController.createTask(req, res));
-router.get('/', (req, res) => taskController.getRecentTasks(req, res));
+router.post('/', validateRequest(createTaskRequest), (req, res) => taskController.createTask(req, res));
+router.get('/', validateRequest(listTasksRequest), (req, res) => taskController.getRecentTasks(req, res));
 
 export default router;
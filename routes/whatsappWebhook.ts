@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express';
+import whatsappService, { WhatsAppStatusUpdate } from '../services/whatsappService';
+import { requireHubSignature, validateRequest } from '../lib/middleware';
+import { WhatsAppEventBody, whatsappEventRequest, whatsappVerifyRequest } from '../lib/apiSchemas';
+
+const router = Router();
+
+/**
+ * WhatsApp Webhook Routes
+ * Receives message delivery statuses (sent, delivered, read, failed) from the WhatsApp
+ * Cloud API and records them on the matching notification events. Events must be signed
+ * with the Meta app secret (WHATSAPP_APP_SECRET).
+ */
+
+/**
+ * GET /webhooks/whatsapp
+ * Subscription check: echo hub.challenge when hub.verify_token matches WHATSAPP_VERIFY_TOKEN
+ */
+router.get('/', validateRequest(whatsappVerifyRequest), (req: Request, res: Response): Response => {
+  const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+
+  if (req.query['hub.mode'] === 'subscribe' && verifyToken && req.query['hub.verify_token'] === verifyToken) {
+    return res.status(200).type('text/plain').send(String(req.query['hub.challenge'] ?? ''));
+  }
+
+  return res.status(403).json({
+    error: 'Forbidden',
+    message: 'Verification token mismatch',
+  });
+});
+
+/**
+ * POST /webhooks/whatsapp
+ * Apply the statuses in entry[].changes[].value.statuses[]; other change types are ignored
+ */
+router.post(
+  '/',
+  requireHubSignature('WHATSAPP_APP_SECRET'),
+  validateRequest(whatsappEventRequest, 'Invalid payload'),
+  async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { entry } = req.body as WhatsAppEventBody;
+
+      const statuses: WhatsAppStatusUpdate[] = entry
+        .flatMap((e) => e.changes ?? [])
+        .flatMap((change) => change.value?.statuses ?? []);
+
+      let matched = 0;
+      for (const status of statuses) {
+        if (await whatsappService.applyStatusUpdate(status)) {
+          matched++;
+        }
+      }
+
+      return res.status(200).json({
+        success: true,
+        processed: statuses.length,
+        matched,
+      });
+    } catch (error) {
+      console.error('Error processing WhatsApp webhook:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage,
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import workerController from '../controllers/workerController';
+
+const router = Router();
+
+/**
+ * Worker routes
+ * Read-only monitoring endpoints. The counts cover every organization, so they need the
+ * platform operator key.
+ */
+
+/** GET /workers/stats — cumulative stats of the background workers */
+router.get('/stats', (req, res) => workerController.getStats(req, res));
+
+export default router;
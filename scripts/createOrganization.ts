@@ -0,0 +1,61 @@
+/**
+ * Create an organization with its first owner, who can then add members from the API.
+ *
+ *   npm run create-organization -- "Acme Agency" owner@acme.example
+ *
+ * With --existing <organization id> instead of a name, the owner is added to an existing
+ * organization, e.g. the default organization migration 017 moved older clients into.
+ * The owner's password is taken from OWNER_PASSWORD, or generated and printed. An existing
+ * user keeps their password and is added as owner.
+ */
+
+import crypto from 'crypto';
+import organizationService from '../services/organizationService';
+import { validatePassword } from '../lib/auth';
+
+async function run(): Promise<void> {
+  const args = process.argv.slice(2);
+  const existingId = args[0] === '--existing' ? args[1] : undefined;
+  const [name, email] = existingId ? [undefined, args[2]] : args;
+  if (!(name || existingId) || !email) {
+    console.error('Usage: npm run create-organization -- "<organization name>" <owner email>');
+    console.error('       npm run create-organization -- --existing <organization id> <owner email>');
+    process.exit(1);
+  }
+
+  const generated = !process.env.OWNER_PASSWORD;
+  const password = process.env.OWNER_PASSWORD || crypto.randomBytes(12).toString('base64url');
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    console.error(`OWNER_PASSWORD: ${passwordError}`);
+    process.exit(1);
+  }
+
+  const organization = existingId
+    ? await organizationService.getOrganizationById(existingId)
+    : await organizationService.createOrganization(name as string);
+  if (!organization) {
+    throw new Error(`Organization ${existingId} not found`);
+  }
+
+  const existing = await organizationService.getUserByEmail(email);
+  const user = existing ?? (await organizationService.createUser(email, password));
+  if (!user) {
+    throw new Error(`Could not create or find user ${email}`);
+  }
+  if (!(await organizationService.addMember(organization.id, user.id, 'owner'))) {
+    throw new Error(`${user.email} is already a member of "${organization.name}"`);
+  }
+
+  console.log(`Organization "${organization.name}" ${existingId ? 'found' : 'created'}: ${organization.id}`);
+  if (existing) {
+    console.log(`Existing user ${user.email} added as owner`);
+  } else {
+    console.log(`Owner ${user.email} created${generated ? ` with password: ${password}` : ''}`);
+  }
+}
+
+run().catch((error) => {
+  console.error('Failed to create organization:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+/**
+ * Write the dashboard's API types (dashboard/src/types.ts) from the schemas in
+ * lib/apiSchemas.ts. Run after changing a schema the dashboard uses:
+ *
+ *   npm run generate:types
+ *
+ * The test suite fails while the file is out of date.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { generateDashboardTypes } from '../lib/apiSchemas';
+
+const OUTPUT = path.join(__dirname, '..', 'dashboard', 'src', 'types.ts');
+
+fs.writeFileSync(OUTPUT, generateDashboardTypes());
+console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
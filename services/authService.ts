@@ -0,0 +1,244 @@
+import supabase from '../database/supabase';
+import organizationService from './organizationService';
+import {
+  API_KEY_PREFIX,
+  ROLE_SCOPES,
+  SESSION_TOKEN_PREFIX,
+  generateToken,
+  getKeyPrefix,
+  getSessionTtlMs,
+  hashPassword,
+  hashToken,
+  verifyPassword,
+} from '../lib/auth';
+import { ApiKey, AuthContext, AuthScope, OrganizationRole } from '../types/task';
+
+/** last_used_at is refreshed at most this often, not on every request */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/** API key fields returned by the API; the hash never leaves the server */
+const API_KEY_FIELDS = 'id, organization_id, name, key_prefix, scopes, last_used_at, revoked_at, created_at';
+
+/** Checked when the email is unknown, so a login takes as long either way */
+const dummyPasswordHash = hashPassword(API_KEY_PREFIX);
+
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>;
+
+export interface LoginResult {
+  token: string;
+  expiresAt: string;
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+/** Drop the hash, should a wider select ever include it */
+function toSummary({ key_hash: _hash, ...summary }: ApiKey): ApiKeySummary {
+  return summary;
+}
+
+/**
+ * Auth Service
+ * API keys and dashboard sessions. Both are bearer tokens of which only the SHA-256 hash
+ * is stored, and both belong to one organization.
+ */
+export class AuthService {
+  /**
+   * Create an organization's API key
+   * @returns The stored key and the key itself, which is not retrievable afterwards
+   */
+  async createApiKey(
+    organizationId: string,
+    name: string,
+    scopes: AuthScope[]
+  ): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const key = generateToken(API_KEY_PREFIX);
+
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .insert([{ organization_id: organizationId, name, scopes, key_prefix: getKeyPrefix(key), key_hash: hashToken(key) }])
+      .select(API_KEY_FIELDS)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create API key: ${error.message}`);
+    }
+
+    return { apiKey: toSummary(apiKey as ApiKey), key };
+  }
+
+  /**
+   * List an organization's API keys, newest first, including revoked ones
+   */
+  async listApiKeys(organizationId: string): Promise<ApiKeySummary[]> {
+    const { data: apiKeys, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_FIELDS)
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch API keys: ${error.message}`);
+    }
+
+    return (apiKeys || []).map((apiKey) => toSummary(apiKey as ApiKey));
+  }
+
+  /**
+   * Revoke an API key; requests made with it are rejected from now on
+   * @returns false if the organization has no active key with this ID
+   */
+  async revokeApiKey(organizationId: string, id: string): Promise<boolean> {
+    const { data: revoked, error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to revoke API key: ${error.message}`);
+    }
+
+    return (revoked || []).length > 0;
+  }
+
+  /**
+   * Resolve a bearer token to the API key or session it belongs to. Session scopes come
+   * from the user's current role, so role changes and removals apply immediately.
+   * @returns null if the token is unknown, revoked or expired, or the user left the organization
+   */
+  async authenticate(token: string, now: Date = new Date()): Promise<AuthContext | null> {
+    const tokenHash = hashToken(token);
+
+    if (token.startsWith(SESSION_TOKEN_PREFIX)) {
+      const { data: sessions, error } = await supabase
+        .from('sessions')
+        .select('id, user_id, organization_id')
+        .eq('token_hash', tokenHash)
+        .gt('expires_at', now.toISOString())
+        .limit(1);
+
+      if (error) {
+        throw new Error(`Failed to fetch session: ${error.message}`);
+      }
+
+      const session = sessions?.[0];
+      if (!session) {
+        return null;
+      }
+
+      const membership = await organizationService.getMembership(session.user_id, session.organization_id);
+      if (!membership) {
+        return null;
+      }
+
+      return {
+        type: 'session',
+        id: session.id,
+        organizationId: session.organization_id,
+        scopes: ROLE_SCOPES[membership.role],
+        userId: session.user_id,
+        role: membership.role,
+      };
+    }
+
+    const { data: apiKeys, error } = await supabase
+      .from('api_keys')
+      .select('id, organization_id, scopes, last_used_at')
+      .eq('key_hash', tokenHash)
+      .is('revoked_at', null)
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to fetch API key: ${error.message}`);
+    }
+
+    const apiKey = apiKeys?.[0];
+    if (!apiKey) {
+      return null;
+    }
+
+    const lastUsed = apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() : 0;
+    if (now.getTime() - lastUsed >= LAST_USED_RESOLUTION_MS) {
+      // Bookkeeping only: a failed write must not fail the request
+      const { error: touchError } = await supabase
+        .from('api_keys')
+        .update({ last_used_at: now.toISOString() })
+        .eq('id', apiKey.id);
+      if (touchError) {
+        console.error(`Failed to update last use of API key ${apiKey.id}:`, touchError.message);
+      }
+    }
+
+    return { type: 'api_key', id: apiKey.id, organizationId: apiKey.organization_id, scopes: apiKey.scopes };
+  }
+
+  /**
+   * Check a user's email and password and start a session in one of their organizations:
+   * the given one, else the one they joined first
+   * @returns The session, or null if the credentials are wrong or the user is not a member
+   */
+  async login(
+    email: string,
+    password: string,
+    organizationId?: string,
+    now: Date = new Date()
+  ): Promise<LoginResult | null> {
+    const user = await organizationService.getUserByEmail(email);
+    const passwordMatches = await verifyPassword(password, user?.password_hash ?? (await dummyPasswordHash));
+    if (!user || !passwordMatches) {
+      return null;
+    }
+
+    const membership = await organizationService.getMembership(user.id, organizationId);
+    if (!membership) {
+      return null;
+    }
+
+    const token = generateToken(SESSION_TOKEN_PREFIX);
+    const expiresAt = new Date(now.getTime() + getSessionTtlMs()).toISOString();
+
+    const { error } = await supabase
+      .from('sessions')
+      .insert([
+        {
+          token_hash: hashToken(token),
+          user_id: user.id,
+          organization_id: membership.organization_id,
+          expires_at: expiresAt,
+        },
+      ]);
+
+    if (error) {
+      throw new Error(`Failed to create session: ${error.message}`);
+    }
+
+    const { error: pruneError } = await supabase
+      .from('sessions')
+      .delete()
+      .lt('expires_at', now.toISOString());
+
+    if (pruneError) {
+      console.error('Failed to prune expired sessions:', pruneError.message);
+    }
+
+    return { token, expiresAt, organizationId: membership.organization_id, role: membership.role };
+  }
+
+  /**
+   * End a dashboard session
+   */
+  async logout(sessionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('sessions')
+      .delete()
+      .eq('id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to end session: ${error.message}`);
+    }
+  }
+}
+
+export default new AuthService();
@@ -1,16 +1,43 @@
 import { v4 as uuidv4 } from 'uuid';
 import supabase from '../database/supabase';
-import { Client } from '../types/task';
+import { DEFAULT_ORGANIZATION_ID } from '../lib/auth';
+import { applyListFilters, fetchPage, FilterableQuery, ListFilters, ListSort, Page, PageOptions } from '../lib/pagination';
+import { Client, ClientBranding, ClientChanges, ClientDeletion, PromptProfile } from '../types/task';
+
+/** Tables holding a client's data, removed with it; children before their parents */
+const CLIENT_DATA_TABLES = [
+  'notification_events',
+  'extractions',
+  'summaries',
+  'report_digests',
+  'reports',
+  'emails',
+  'tasks',
+] as const;
+
+/** Text columns the free-text filter of the client list matches */
+const CLIENT_SEARCH_COLUMNS = ['name', 'email', 'company'];
 
 /**
  * Client Service
- * Handles all client-related business logic
+ * Handles all client-related business logic. Methods taking an organizationId only see
+ * that organization's clients; without one (authentication disabled, or background
+ * workers) they see every client.
  */
 export class ClientService {
   /**
    * Create a new client
    */
-  async createClient(name: string, email?: string, company?: string, phone?: string, workflowSettings?: object): Promise<Client> {
+  async createClient(
+    name: string,
+    email?: string,
+    company?: string,
+    phone?: string,
+    workflowSettings?: object,
+    promptProfile?: PromptProfile | null,
+    branding?: ClientBranding | null,
+    organizationId?: string
+  ): Promise<Client> {
     const clientId = uuidv4();
     const inboundEmailDomain = process.env.INBOUND_EMAIL_DOMAIN || 'included.yourdomain.com';
     const inboundEmail = `client_${clientId}@${inboundEmailDomain}`;
@@ -20,11 +47,14 @@ export class ClientService {
       .insert([
         {
           id: clientId,
+          organization_id: organizationId ?? DEFAULT_ORGANIZATION_ID,
           name: name.trim(),
           email: email?.trim() || null,
           company: company?.trim() || null,
           phone: phone?.trim() || null,
           workflow_settings: workflowSettings || null,
+          prompt_profile: promptProfile || null,
+          branding: branding || null,
           inbound_email: inboundEmail,
         },
       ])
@@ -39,14 +69,23 @@ export class ClientService {
   }
 
   /**
-   * Get all clients
+   * Get all clients; archived ones only when includeArchived is set
    */
-  async getAllClients(): Promise<Client[]> {
-    const { data: clients, error } = await supabase
+  async getAllClients(organizationId?: string, includeArchived: boolean = false): Promise<Client[]> {
+    let query = supabase
       .from('clients')
       .select('*')
       .order('created_at', { ascending: false });
 
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+    if (!includeArchived) {
+      query = query.is('archived_at', null);
+    }
+
+    const { data: clients, error } = await query;
+
     if (error) {
       throw new Error(`Failed to fetch clients: ${error.message}`);
     }
@@ -54,15 +93,71 @@ export class ClientService {
     return clients || [];
   }
 
+  /**
+   * List clients a page at a time; archived ones only when includeArchived is set
+   * @param filters - Optional filters: organizationId, includeArchived, from/to and q
+   *                  (matched against the name, email and company)
+   */
+  async listClients(
+    filters: ListFilters & { organizationId?: string; includeArchived?: boolean },
+    page: PageOptions<ListSort<'clients'>>
+  ): Promise<Page<Client>> {
+    const filter = <Q extends FilterableQuery>(query: Q): Q => {
+      const filtered = applyListFilters(query, filters, {
+        search: CLIENT_SEARCH_COLUMNS,
+        equal: { organization_id: filters.organizationId },
+      });
+      return filters.includeArchived ? filtered : filtered.is('archived_at', null);
+    };
+
+    return fetchPage<Client>(
+      filter(supabase.from('clients').select('*')),
+      filter(supabase.from('clients').select('id', { count: 'exact', head: true })),
+      page,
+      'clients'
+    );
+  }
+
+  /**
+   * Select from a table of client data (rows with a client_id), only the organization's
+   * clients' rows when an organization is given. The client is inner-joined and filtered on,
+   * so the scope stays one short query however many clients the organization has. Selects
+   * only: updates and deletes cannot filter on a joined table.
+   */
+  selectClientData<T>(
+    table: string,
+    organizationId: string | undefined,
+    columns: string = '*',
+    options?: { count: 'exact'; head: boolean }
+  ) {
+    const query = supabase
+      .from(table)
+      .select<string, T>(organizationId ? `${columns}, clients!inner()` : columns, options);
+
+    return organizationId ? query.eq('clients.organization_id', organizationId) : query;
+  }
+
+  /**
+   * Whether a client exists and belongs to the organization
+   */
+  async isClientInOrganization(id: string, organizationId: string): Promise<boolean> {
+    return (await this.getClientById(id, organizationId)) !== null;
+  }
+
   /**
    * Get a single client by ID
    */
-  async getClientById(id: string): Promise<Client | null> {
-    const { data: client, error } = await supabase
+  async getClientById(id: string, organizationId?: string): Promise<Client | null> {
+    let query = supabase
       .from('clients')
       .select('*')
-      .eq('id', id)
-      .single();
+      .eq('id', id);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data: client, error } = await query.single();
 
     if (error) {
       if (error.code === 'PGRST116') {
@@ -73,6 +168,195 @@ export class ClientService {
 
     return client;
   }
+
+  /**
+   * Update a client's contact details and settings. Changing the email address clears a
+   * bounce recorded for the old one.
+   * @returns The updated client, or null if it does not exist
+   */
+  async updateClient(id: string, changes: ClientChanges, organizationId?: string): Promise<Client | null> {
+    const current = await this.getClientById(id, organizationId);
+    if (!current) {
+      return null;
+    }
+
+    const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (changes.name !== undefined) {
+      update.name = changes.name.trim();
+    }
+    for (const field of ['email', 'company', 'phone'] as const) {
+      if (changes[field] !== undefined) {
+        update[field] = changes[field]?.trim() || null;
+      }
+    }
+    if (changes.workflow_settings !== undefined) {
+      const merged = { ...current.workflow_settings, ...changes.workflow_settings };
+      update.workflow_settings = Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== null));
+    }
+    if (update.email !== undefined && update.email !== (current.email ?? null)) {
+      update.email_bounced_at = null;
+      update.email_bounce_reason = null;
+    }
+
+    const { data: clients, error } = await supabase
+      .from('clients')
+      .update(update)
+      .eq('id', id)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to update client: ${error.message}`);
+    }
+
+    return clients?.[0] || null;
+  }
+
+  /**
+   * Archive a client, or restore it with archived = false. Archiving an archived client
+   * keeps its original archived_at.
+   * @returns The updated client, or null if it does not exist
+   */
+  async setArchived(id: string, archived: boolean, organizationId?: string): Promise<Client | null> {
+    const current = await this.getClientById(id, organizationId);
+    if (!current || Boolean(current.archived_at) === archived) {
+      return current;
+    }
+
+    const { data: clients, error } = await supabase
+      .from('clients')
+      .update({
+        archived_at: archived ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to ${archived ? 'archive' : 'restore'} client: ${error.message}`);
+    }
+
+    return clients?.[0] || null;
+  }
+
+  /**
+   * Delete a client with its tasks, emails, summaries, extractions, notifications and
+   * reports. The client row goes last, so a delete that fails half-way can be repeated.
+   * @returns The number of rows removed per kind, or null if the client does not exist
+   */
+  async deleteClient(id: string, organizationId?: string): Promise<ClientDeletion | null> {
+    if (!(await this.getClientById(id, organizationId))) {
+      return null;
+    }
+
+    const removed: Partial<Record<(typeof CLIENT_DATA_TABLES)[number], number>> = {};
+    for (const table of CLIENT_DATA_TABLES) {
+      const { data: rows, error } = await supabase
+        .from(table)
+        .delete()
+        .eq('client_id', id)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to delete client ${table}: ${error.message}`);
+      }
+      removed[table] = rows?.length ?? 0;
+    }
+
+    const { error } = await supabase
+      .from('clients')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete client: ${error.message}`);
+    }
+
+    return {
+      tasks: removed.tasks ?? 0,
+      emails: removed.emails ?? 0,
+      summaries: removed.summaries ?? 0,
+      notifications: removed.notification_events ?? 0,
+      reports: removed.reports ?? 0,
+    };
+  }
+
+  /**
+   * Set or clear a client's prompt profile
+   * @returns The updated client, or null if it does not exist
+   */
+  async updatePromptProfile(id: string, promptProfile: PromptProfile | null, organizationId?: string): Promise<Client | null> {
+    let query = supabase
+      .from('clients')
+      .update({
+        prompt_profile: promptProfile,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data: clients, error } = await query.select();
+
+    if (error) {
+      throw new Error(`Failed to update prompt profile: ${error.message}`);
+    }
+
+    return clients?.[0] || null;
+  }
+
+  /**
+   * Set or clear a client's email branding
+   * @returns The updated client, or null if it does not exist
+   */
+  async updateBranding(id: string, branding: ClientBranding | null, organizationId?: string): Promise<Client | null> {
+    let query = supabase
+      .from('clients')
+      .update({
+        branding,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data: clients, error } = await query.select();
+
+    if (error) {
+      throw new Error(`Failed to update branding: ${error.message}`);
+    }
+
+    return clients?.[0] || null;
+  }
+
+  /**
+   * Flag or clear a client's email address as bounced (null clears it)
+   */
+  async setEmailBounce(id: string, reason: string | null, organizationId?: string): Promise<Client | null> {
+    let query = supabase
+      .from('clients')
+      .update({
+        email_bounced_at: reason === null ? null : new Date().toISOString(),
+        email_bounce_reason: reason,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data: clients, error } = await query.select();
+
+    if (error) {
+      throw new Error(`Failed to update email bounce: ${error.message}`);
+    }
+
+    return clients?.[0] || null;
+  }
 }
 
 export default new ClientService();
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import supabase from '../database/supabase';
+import { digestWithLLM, LLMDigestResult, LLMError } from '../workers/llmWorker';
+import { chunkLines, getDigestChunkChars } from '../lib/digest';
+import { getExtractionDetails } from '../lib/reportFormats';
+import { ReportRange } from '../lib/reportRanges';
+import { DigestContent, LLMProviderName, ReportDigest, ReportSection } from '../types/task';
+
+export type DigestOutcome =
+  | { success: true; digest: DigestContent; cached: boolean }
+  | { success: false; error: LLMError };
+
+/**
+ * Digest Service
+ * Writes the executive digest of a report period with the LLM and caches it per client
+ * and period. A cached digest is reused as long as the period's summaries are unchanged.
+ */
+export class DigestService {
+  /**
+   * Get the digest for a client's report period, writing it if it is not cached
+   * @param sections - The period's summaries, grouped by local day (must not be empty)
+   * @param provider - LLM provider override for the client
+   */
+  async getDigest(
+    clientId: string,
+    range: ReportRange,
+    sections: ReportSection[],
+    provider?: LLMProviderName | null
+  ): Promise<DigestOutcome> {
+    const items = sections.flatMap((section) => section.items);
+    const sourceHash = createHash('sha256')
+      .update(items.map((item) => item.summary_id).sort().join('\n'))
+      .digest('hex');
+
+    const cached = await this.getCachedDigest(clientId, range);
+    if (cached && cached.source_hash === sourceHash) {
+      return { success: true, digest: toDigestContent(cached), cached: true };
+    }
+
+    const lines = sections.flatMap((section) =>
+      section.items.map((item) => {
+        const details = item.extraction ? getExtractionDetails(item.extraction) : [];
+        const suffix = details.length ? ` (${details.map(({ label, value }) => `${label}: ${value}`).join('; ')})` : '';
+        return `- [${section.date}] ${item.summary.replace(/\s*\n\s*/g, ' ')}${suffix}`;
+      })
+    );
+
+    const result = await this.writeDigest(lines, provider);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    await this.saveDigest(clientId, range, result.data, {
+      id: cached?.id,
+      sourceHash,
+      summaryCount: items.length,
+      model: result.model,
+    }).catch((error) => {
+      // The digest is still returned; it is just written again next time
+      console.error(`Failed to cache digest for client ${clientId}:`, error);
+    });
+
+    return { success: true, digest: result.data, cached: false };
+  }
+
+  /**
+   * Map-reduce over chunks of at most DIGEST_CHUNK_CHARS: digest each chunk of summaries,
+   * then merge the partial digests (in rounds, if they do not fit in one request)
+   */
+  private async writeDigest(lines: string[], provider?: LLMProviderName | null): Promise<LLMDigestResult> {
+    const maxChars = getDigestChunkChars();
+    const chunks = chunkLines(lines, maxChars);
+
+    if (chunks.length === 1) {
+      return digestWithLLM(chunks[0], 'summaries', { provider });
+    }
+
+    console.log(`Writing digest from ${lines.length} summaries in ${chunks.length} chunks`);
+    // Chunks are digested one at a time so a large period does not burst the provider's rate limit
+    const partials: string[] = [];
+    for (const chunk of chunks) {
+      const result = await digestWithLLM(chunk, 'summaries', { provider });
+      if (!result.success) return result;
+      partials.push(JSON.stringify(result.data));
+    }
+
+    return this.mergeDigests(partials, maxChars, provider);
+  }
+
+  private async mergeDigests(
+    partials: string[],
+    maxChars: number,
+    provider?: LLMProviderName | null
+  ): Promise<LLMDigestResult> {
+    // Always fit at least two partials per request so every round shrinks the list
+    const longest = Math.max(...partials.map((partial) => partial.length));
+    const chunks = chunkLines(partials, Math.max(maxChars, longest * 2 + 1));
+
+    const merged: string[] = [];
+    for (const chunk of chunks) {
+      const result = await digestWithLLM(chunk, 'merge', { provider });
+      if (!result.success || chunks.length === 1) return result;
+      merged.push(JSON.stringify(result.data));
+    }
+
+    return this.mergeDigests(merged, maxChars, provider);
+  }
+
+  private async getCachedDigest(clientId: string, range: ReportRange): Promise<ReportDigest | null> {
+    const { data: digest, error } = await supabase
+      .from('report_digests')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('period_start', range.from.toISOString())
+      .eq('period_end', range.to.toISOString())
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null; // Not cached yet
+      }
+      throw new Error(`Failed to fetch digest: ${error.message}`);
+    }
+
+    return digest;
+  }
+
+  private async saveDigest(
+    clientId: string,
+    range: ReportRange,
+    digest: DigestContent,
+    meta: { id?: string; sourceHash: string; summaryCount: number; model: string }
+  ): Promise<void> {
+    const row = {
+      ...digest,
+      source_hash: meta.sourceHash,
+      summary_count: meta.summaryCount,
+      model: meta.model,
+    };
+
+    const { error } = meta.id
+      ? await supabase.from('report_digests').update(row).eq('id', meta.id)
+      : await supabase
+          .from('report_digests')
+          .insert([
+            {
+              ...row,
+              client_id: clientId,
+              period_start: range.from.toISOString(),
+              period_end: range.to.toISOString(),
+              created_at: new Date().toISOString(),
+            },
+          ]);
+
+    // 23505: a concurrent request cached the same period first
+    if (error && error.code !== '23505') {
+      throw new Error(`Failed to save digest: ${error.message}`);
+    }
+  }
+}
+
+const toDigestContent = ({ overview, themes, open_action_items, urgent }: DigestContent): DigestContent => ({
+  overview,
+  themes,
+  open_action_items,
+  urgent,
+});
+
+export default new DigestService();
@@ -1,27 +1,69 @@
-import axios from 'axios';
 import supabase from '../database/supabase';
-import { NotificationEvent } from '../types/task';
+import {
+  ClientBranding,
+  EmailDeliveryStatus,
+  NotificationDeliveryEvent,
+  NotificationEvent,
+  ReportFrequency,
+  Task,
+} from '../types/task';
+import { renderEmailTemplate, RenderedEmail } from '../lib/emailTemplates';
+import { EmailTransportError, getEmailRateLimiter, getEmailTransport } from '../lib/emailTransports';
+import { EMAIL_BOUNCED_REASON, getDueFilter, isDigestDelivery } from '../lib/notificationRouting';
+import notificationService from './notificationService';
+import clientService from './clientService';
+
+/** Most summaries in one digest email; the rest go in the next one */
+const MAX_DIGEST_SUMMARIES = 100;
+
+/** Longest Retry-After we wait for between attempts; past it the attempt fails */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/** The provider rejected the message for good (SMTP 5xx, invalid recipient); retrying cannot help */
+const isPermanentFailure = (error: unknown): boolean => error instanceof EmailTransportError && !error.retryable;
+
+/** Later statuses never move an event back to an earlier one (webhooks can arrive out of order) */
+const EMAIL_DELIVERY_RANK: Record<EmailDeliveryStatus, number> = {
+  sent: 1,
+  delivered: 2,
+  opened: 3,
+  clicked: 4,
+  complained: 5,
+  bounced: 6,
+};
+
+/** A delivery event from the email provider's webhook */
+export interface EmailDeliveryUpdate {
+  /** Webhook delivery id, used to record redelivered webhooks once */
+  webhookId: string;
+  /** The provider's message ID, as returned when the email was sent */
+  messageId: string;
+  status: Exclude<EmailDeliveryStatus, 'sent'>;
+  occurredAt: string;
+  /** For bounces; every bounce but a 'Transient' one (e.g. mailbox full) flags the address */
+  bounce?: { type?: string; message?: string };
+  /** Stored on the timeline, e.g. the bounce or the clicked link */
+  details?: Record<string, unknown>;
+}
+
+/** What became of a notification: sent, failed, or skipped because the address bounced */
+export type EmailOutcome = 'sent' | 'failed' | 'skipped';
 
 /**
  * Email Service
- * Handles robust email sending using Resend API with retry logic via Axios
+ * Handles robust email sending through the configured transport (see lib/emailTransports.ts)
+ * with retry logic
  */
 export class EmailService {
-  private apiKey: string;
   private fromEmail: string;
 
   constructor() {
-    this.apiKey = process.env.RESEND_API_KEY || process.env.EMAIL_PROVIDER_API_KEY || '';
     this.fromEmail = process.env.FROM_EMAIL || 'noreply@yourdomain.com';
-
-    if (!this.apiKey) {
-      throw new Error('RESEND_API_KEY (or EMAIL_PROVIDER_API_KEY) environment variable is not set');
-    }
   }
 
   /**
    * Fetch pending email notifications from Supabase
-   * Filters by type='email' and status='pending'
+   * Filters by type='email' and status='pending', skipping events held by quiet hours
    * 
    * @param limit - Maximum number of notifications to fetch (default: 10)
    * @returns Array of pending email notification events
@@ -35,6 +77,7 @@ export class EmailService {
         .select('*')
         .eq('type', 'email')
         .eq('status', 'pending')
+        .or(getDueFilter())
         .order('created_at', { ascending: true })
         .limit(limit);
 
@@ -51,90 +94,98 @@ export class EmailService {
   }
 
   /**
-   * Send an email using Resend API via Axios
+   * Send an email through the EMAIL_TRANSPORT transport (Resend by default), paced by the
+   * transport's rate limiter. A Retry-After from the provider pauses every sender.
    * 
    * @param to - Recipient email address
    * @param subject - Email subject line
    * @param html - HTML content of the email
-   * @returns Resend email response with message ID
+   * @param options - Plain-text alternative and extra headers
+   * @returns The transport's message ID
    */
-  async sendEmail(to: string, subject: string, html: string): Promise<{ id: string }> {
+  async sendEmail(
+    to: string,
+    subject: string,
+    html: string,
+    options: { text?: string; headers?: Record<string, string> } = {}
+  ): Promise<{ id: string }> {
+    const transport = getEmailTransport();
+    const limiter = getEmailRateLimiter(transport.name);
+
     try {
-      console.log(`Sending email to ${to} with subject: "${subject}"`);
-
-      const response = await axios.post(
-        'https://api.resend.com/emails',
-        {
-          from: this.fromEmail,
-          to: [to],
-          subject,
-          html,
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+      await limiter.take();
+      console.log(`Sending email to ${to} via ${transport.name} with subject: "${subject}"`);
+
+      const { id } = await transport.send({ from: this.fromEmail, to, subject, html, ...options });
 
-      const id = response.data?.id || 'unknown';
       console.log(`Email sent successfully to ${to}. Message ID: ${id}`);
       return { id };
-    } catch (error: any) {
-      const apiError = error.response?.data?.message || error.message;
-      console.error(`Failed to send email to ${to} via Axios:`, apiError);
-      throw new Error(`Resend Axios Error: ${apiError}`);
+    } catch (error) {
+      console.error(`Failed to send email to ${to} via ${transport.name}:`, error instanceof Error ? error.message : error);
+      if (error instanceof EmailTransportError && error.retryAfterMs) {
+        limiter.pause(Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS));
+      }
+      throw error;
     }
   }
 
   /**
    * Update the status of a notification event in Supabase
+   * Several events (a digest) are updated in a single statement, so all or none change.
    * 
-   * @param eventId - The notification event ID
+   * @param eventId - The notification event ID, or the IDs of several events
    * @param status - New status: 'sent' or 'failed'
    * @param errorMessage - Optional error message for failed notifications
+   * @param permanent - The provider rejected the message for good; the retry worker skips it
    */
   async updateStatus(
-    eventId: string,
+    eventId: string | string[],
     status: 'sent' | 'failed',
-    errorMessage?: string
+    errorMessage?: string,
+    permanent: boolean = false
   ): Promise<void> {
+    const eventIds = Array.isArray(eventId) ? eventId : [eventId];
+
     try {
-      console.log(`Updating notification ${eventId} status to: ${status}`);
+      console.log(`Updating notification ${eventIds.join(', ')} status to: ${status}`);
 
       const updateData: {
         status: 'sent' | 'failed';
+        last_error: string | null;
+        permanent_failure: boolean;
         updated_at: string;
       } = {
         status,
+        last_error: errorMessage || null,
+        permanent_failure: status === 'failed' && permanent,
         updated_at: new Date().toISOString(),
       };
 
-      // Store error message if provided (you may want to add an error_message column)
       if (errorMessage) {
-        console.error(`Error for notification ${eventId}: ${errorMessage}`);
+        console.error(`Error for notification ${eventIds.join(', ')}: ${errorMessage}`);
       }
 
       const { error } = await supabase
         .from('notification_events')
         .update(updateData)
-        .eq('id', eventId);
+        .in('id', eventIds);
 
       if (error) {
         throw new Error(`Failed to update notification status: ${error.message}`);
       }
 
-      console.log(`Successfully updated notification ${eventId} to ${status}`);
+      console.log(`Successfully updated notification ${eventIds.join(', ')} to ${status}`);
     } catch (error) {
-      console.error(`Error updating status for notification ${eventId}:`, error);
+      console.error(`Error updating status for notification ${eventIds.join(', ')}:`, error);
       throw error;
     }
   }
 
   /**
    * Handle retry logic with exponential backoff
-   * Attempts to execute a function with retries on failure
+   * Attempts to execute a function with retries on failure. Permanent transport errors
+   * (rejected recipient, bad request, missing configuration) fail at once, and a provider's
+   * Retry-After lengthens the wait; one longer than a minute fails the attempt instead.
    * 
    * @param fn - Async function to retry
    * @param maxRetries - Maximum number of retry attempts (default: 3)
@@ -157,10 +208,22 @@ export class EmailService {
         lastError = error instanceof Error ? error : new Error(String(error));
         console.error(`Attempt ${attempt}/${maxRetries} failed:`, lastError.message);
 
+        if (error instanceof EmailTransportError) {
+          if (!error.retryable) {
+            console.error('Not retrying: the error is permanent');
+            throw error;
+          }
+          if (error.retryAfterMs && error.retryAfterMs > MAX_RETRY_AFTER_MS) {
+            console.error(`Not retrying: the provider asked to wait ${error.retryAfterMs}ms`);
+            throw error;
+          }
+        }
+
         // If this is not the last attempt, wait before retrying
         if (attempt < maxRetries) {
-          // Exponential backoff: 1s, 2s, 4s, 8s, ... (capped at MAX_DELAY_MS)
-          const delayMs = Math.min(baseDelayMs * Math.pow(2, attempt - 1), MAX_DELAY_MS);
+          // Exponential backoff: 1s, 2s, 4s, 8s, ... (capped at MAX_DELAY_MS), or Retry-After when longer
+          const retryAfterMs = error instanceof EmailTransportError ? error.retryAfterMs ?? 0 : 0;
+          const delayMs = Math.max(Math.min(baseDelayMs * Math.pow(2, attempt - 1), MAX_DELAY_MS), retryAfterMs);
           console.log(`Retrying in ${delayMs}ms...`);
           await new Promise(resolve => setTimeout(resolve, delayMs));
         }
@@ -217,7 +280,9 @@ export class EmailService {
    * @param summaryId - Summary ID from notification event
    * @returns Summary content or null if not found
    */
-  async getSummaryContent(summaryId: string): Promise<{ summary: string; clientName: string } | null> {
+  async getSummaryContent(
+    summaryId: string
+  ): Promise<{ summary: string; clientName: string; branding: ClientBranding | null } | null> {
     try {
       const { data: summary, error: summaryError } = await supabase
         .from('summaries')
@@ -230,10 +295,10 @@ export class EmailService {
         return null;
       }
 
-      // Get client name
+      // Get client name and email branding
       const { data: client, error: clientError } = await supabase
         .from('clients')
-        .select('name')
+        .select('name, branding')
         .eq('id', summary.client_id)
         .single();
 
@@ -245,6 +310,7 @@ export class EmailService {
       return {
         summary: summary.summary,
         clientName: client.name,
+        branding: client.branding || null,
       };
     } catch (error) {
       console.error(`Error getting summary content for ${summaryId}:`, error);
@@ -253,21 +319,52 @@ export class EmailService {
   }
 
   /**
-   * Escape HTML special characters to prevent XSS
-   * 
-   * @param text - Text to escape
-   * @returns HTML-safe text
+   * Get scheduled report content and recipient for email
+   *
+   * @param reportId - Report ID from notification event
+   * @returns Report content with client name and email, or null if not found
    */
-  private escapeHtml(text: string): string {
-    const htmlEscapeMap: { [key: string]: string } = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#x27;',
-      '/': '&#x2F;',
-    };
-    return text.replace(/[&<>"'/]/g, (char) => htmlEscapeMap[char] || char);
+  async getReportContent(reportId: string): Promise<{
+    content: string;
+    frequency: ReportFrequency;
+    clientName: string;
+    clientEmail: string | null;
+    branding: ClientBranding | null;
+  } | null> {
+    try {
+      const { data: report, error: reportError } = await supabase
+        .from('reports')
+        .select('client_id, frequency, content')
+        .eq('id', reportId)
+        .single();
+
+      if (reportError || !report) {
+        console.error(`Failed to fetch report ${reportId}:`, reportError?.message);
+        return null;
+      }
+
+      const { data: client, error: clientError } = await supabase
+        .from('clients')
+        .select('email, name, branding')
+        .eq('id', report.client_id)
+        .single();
+
+      if (clientError || !client) {
+        console.error(`Failed to fetch client for report ${reportId}:`, clientError?.message);
+        return null;
+      }
+
+      return {
+        content: report.content,
+        frequency: report.frequency,
+        clientName: client.name,
+        clientEmail: client.email || null,
+        branding: client.branding || null,
+      };
+    } catch (error) {
+      console.error(`Error getting report content for ${reportId}:`, error);
+      return null;
+    }
   }
 
   /**
@@ -275,67 +372,380 @@ export class EmailService {
    * Fetches client info, sends email, and updates status
    * 
    * @param event - Notification event to process
-   * @returns Success status
+   * @returns Whether it was sent, failed, or skipped
    */
-  async processEmailNotification(event: NotificationEvent): Promise<boolean> {
+  async processEmailNotification(event: NotificationEvent): Promise<EmailOutcome> {
     console.log(`\n--- Processing notification ${event.id} for client ${event.client_id} ---`);
 
     try {
-      // Get client email address
-      const clientEmail = await this.getClientEmailForSummary(event.summary_id);
-      if (!clientEmail) {
-        await this.updateStatus(event.id, 'failed', 'Client email not found');
-        return false;
-      }
+      await notificationService.recordAttempt(event);
 
-      // Get summary content
-      const summaryData = await this.getSummaryContent(event.summary_id);
-      if (!summaryData) {
-        await this.updateStatus(event.id, 'failed', 'Summary content not found');
-        return false;
+      if (await this.isEmailBounced(event.client_id)) {
+        await this.markSkipped([event.id], EMAIL_BOUNCED_REASON);
+        return 'skipped';
       }
 
-      // Construct email HTML
-      const subject = 'Included — New Summary Ready';
-      const html = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>Included — New Summary Ready</title>
-</head>
-<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-  <p>Hello,</p>
-  
-  <p>Here is your latest summary:</p>
-  
-  <div style="background-color: #f9f9f9; border-left: 4px solid #2c3e50; padding: 15px; margin: 20px 0;">
-    <p style="margin: 0; font-size: 16px; line-height: 1.6;">${this.escapeHtml(summaryData.summary)}</p>
-  </div>
-  
-  <p style="margin-top: 30px;">Included AI Assistant</p>
-</body>
-</html>
-      `.trim();
+      let clientEmail: string | null;
+      let email: RenderedEmail;
+
+      if (event.report_id) {
+        // Scheduled report notification
+        const report = await this.getReportContent(event.report_id);
+        if (!report) {
+          await this.updateStatus(event.id, 'failed', 'Report not found');
+          return 'failed';
+        }
+
+        clientEmail = report.clientEmail;
+        if (!clientEmail) {
+          await this.updateStatus(event.id, 'failed', 'Client email not found');
+          return 'failed';
+        }
+
+        email = renderEmailTemplate(
+          report.frequency === 'weekly' ? 'weekly_report' : 'daily_report',
+          { clientName: report.clientName, report: report.content },
+          report.branding
+        );
+      } else {
+        // Get client email address
+        clientEmail = await this.getClientEmailForSummary(event.summary_id as string);
+        if (!clientEmail) {
+          await this.updateStatus(event.id, 'failed', 'Client email not found');
+          return 'failed';
+        }
+
+        // Get summary content
+        const summaryData = await this.getSummaryContent(event.summary_id as string);
+        if (!summaryData) {
+          await this.updateStatus(event.id, 'failed', 'Summary content not found');
+          return 'failed';
+        }
+
+        email = renderEmailTemplate(
+          'summary_ready',
+          { clientName: summaryData.clientName, summary: summaryData.summary },
+          summaryData.branding
+        );
+      }
 
       // Send email with retry logic
-      await this.handleRetry(async () => {
-        await this.sendEmail(clientEmail, subject, html);
-      }, 3, 1000);
+      const { id: messageId } = await this.handleRetry(
+        () =>
+          this.sendEmail(clientEmail, email.subject, email.html, {
+            text: email.text,
+            headers: { 'X-Included-Template': `${email.template}@${email.version}` },
+          }),
+        3,
+        1000
+      );
 
       // Mark as sent
-      await this.updateStatus(event.id, 'sent');
+      await this.markSent([event.id], messageId);
       console.log(`✓ Successfully processed notification ${event.id}`);
-      return true;
+      return 'sent';
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`✗ Failed to process notification ${event.id}:`, errorMessage);
 
       // Mark as failed
-      await this.updateStatus(event.id, 'failed', errorMessage);
+      await this.updateStatus(event.id, 'failed', errorMessage, isPermanentFailure(error));
+      return 'failed';
+    }
+  }
+
+  /**
+   * Whether a client's summary emails go out as digests (workflow_settings.emailDelivery)
+   */
+  async isDigestClient(clientId: string): Promise<boolean> {
+    const { data: client, error } = await supabase
+      .from('clients')
+      .select('workflow_settings')
+      .eq('id', clientId)
+      .single();
+
+    if (error || !client) {
+      return false; // Sent individually, which reports the missing client
+    }
+
+    return isDigestDelivery(client.workflow_settings);
+  }
+
+  /**
+   * Whether the client's address is flagged as bounced; pending emails to it are skipped
+   */
+  async isEmailBounced(clientId: string): Promise<boolean> {
+    const { data: client, error } = await supabase
+      .from('clients')
+      .select('email_bounced_at')
+      .eq('id', clientId)
+      .single();
+
+    return !error && Boolean(client?.email_bounced_at);
+  }
+
+  /**
+   * Send a client's due summary emails as one digest email
+   * All included events are marked sent (or failed) together; events whose summary is
+   * missing are failed on their own.
+   *
+   * @returns How many of the client's notifications were sent, failed and skipped (the
+   *          address bounced); all 0 when none were due
+   */
+  async processDigest(clientId: string): Promise<{ sent: number; failed: number; skipped: number }> {
+    const { data: pending, error: fetchError } = await supabase
+      .from('notification_events')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('type', 'email')
+      .eq('status', 'pending')
+      .is('report_id', null)
+      .or(getDueFilter())
+      .order('created_at', { ascending: true })
+      .limit(MAX_DIGEST_SUMMARIES);
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch digest notifications: ${fetchError.message}`);
+    }
+    if (!pending || pending.length === 0) {
+      return { sent: 0, failed: 0, skipped: 0 };
+    }
+
+    // Another run may be sending some of them already; the digest takes the rest, oldest first
+    const claimed = new Set(
+      (await notificationService.claimNotifications(pending.map((event) => event.id))).map((event) => event.id)
+    );
+    const events = pending.filter((event) => claimed.has(event.id));
+    if (events.length === 0) {
+      return { sent: 0, failed: 0, skipped: 0 };
+    }
+
+    console.log(`\n--- Processing digest of ${events.length} notification(s) for client ${clientId} ---`);
+    let eventIds = events.map((event) => event.id);
+
+    try {
+      for (const event of events) {
+        await notificationService.recordAttempt(event);
+      }
+
+      const { data: client } = await supabase
+        .from('clients')
+        .select('name, email, branding, email_bounced_at')
+        .eq('id', clientId)
+        .single();
+
+      if (client?.email_bounced_at) {
+        await this.markSkipped(eventIds, EMAIL_BOUNCED_REASON);
+        return { sent: 0, failed: 0, skipped: events.length };
+      }
+      if (!client?.email) {
+        await this.updateStatus(eventIds, 'failed', 'Client email not found');
+        return { sent: 0, failed: events.length, skipped: 0 };
+      }
+
+      const { data: summaries, error: summariesError } = await supabase
+        .from('summaries')
+        .select('id, summary')
+        .in('id', events.map((event) => event.summary_id));
+
+      if (summariesError) {
+        throw new Error(`Failed to fetch summaries: ${summariesError.message}`);
+      }
+
+      const summaryById = new Map((summaries || []).map((summary) => [summary.id, summary.summary as string]));
+      const missing = events.filter((event) => !summaryById.get(event.summary_id));
+      if (missing.length > 0) {
+        await this.updateStatus(missing.map((event) => event.id), 'failed', 'Summary content not found');
+      }
+
+      const included = events.filter((event) => summaryById.get(event.summary_id));
+      eventIds = included.map((event) => event.id);
+      if (included.length === 0) {
+        return { sent: 0, failed: events.length, skipped: 0 };
+      }
+
+      const email = renderEmailTemplate(
+        'summary_digest',
+        { clientName: client.name, summaries: included.map((event) => summaryById.get(event.summary_id) as string) },
+        client.branding
+      );
+
+      const { id: messageId } = await this.handleRetry(
+        () =>
+          this.sendEmail(client.email, email.subject, email.html, {
+            text: email.text,
+            headers: { 'X-Included-Template': `${email.template}@${email.version}` },
+          }),
+        3,
+        1000
+      );
+
+      await this.markSent(eventIds, messageId);
+      console.log(`✓ Sent digest of ${included.length} summaries to client ${clientId}`);
+      return { sent: included.length, failed: missing.length, skipped: 0 };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`✗ Failed to send digest for client ${clientId}:`, errorMessage);
+
+      await this.updateStatus(eventIds, 'failed', errorMessage, isPermanentFailure(error));
+      return { sent: 0, failed: events.length, skipped: 0 };
+    }
+  }
+
+  /**
+   * Apply a delivery event reported by the email provider. It is added to the timeline of
+   * every notification sent in that message (a digest covers several), moves their
+   * delivery_status forward, fails them on a bounce and flags the client's address.
+   * @returns false if no notification has that message ID
+   */
+  async applyDeliveryEvent(update: EmailDeliveryUpdate): Promise<boolean> {
+    const { data: events, error } = await supabase
+      .from('notification_events')
+      .select('*')
+      .eq('type', 'email')
+      .eq('provider_message_id', update.messageId);
+
+    if (error) {
+      throw new Error(`Failed to fetch notifications for delivery event: ${error.message}`);
+    }
+    if (!events || events.length === 0) {
       return false;
     }
+
+    const { data: recorded, error: recordedError } = await supabase
+      .from('notification_delivery_events')
+      .select('id')
+      .eq('provider_event_id', update.webhookId)
+      .limit(1);
+
+    if (recordedError) {
+      throw new Error(`Failed to fetch delivery timeline: ${recordedError.message}`);
+    }
+    if (recorded && recorded.length > 0) {
+      return true; // Redelivered webhook
+    }
+
+    const timeline: Omit<NotificationDeliveryEvent, 'id'>[] = events.map((event) => ({
+      notification_event_id: event.id,
+      status: update.status,
+      provider_event_id: update.webhookId,
+      occurred_at: update.occurredAt,
+      details: update.details ?? null,
+    }));
+    const { error: insertError } = await supabase.from('notification_delivery_events').insert(timeline);
+
+    if (insertError) {
+      // A concurrent delivery of the same webhook recorded it first
+      if (insertError.code === '23505') {
+        return true;
+      }
+      throw new Error(`Failed to record delivery event: ${insertError.message}`);
+    }
+
+    const rank = EMAIL_DELIVERY_RANK[update.status];
+    const advanced = events.filter(
+      (event) => (EMAIL_DELIVERY_RANK[event.delivery_status as EmailDeliveryStatus] ?? 0) < rank
+    );
+
+    if (advanced.length > 0) {
+      const changes: Partial<NotificationEvent> = { delivery_status: update.status };
+      if (update.status === 'bounced') {
+        changes.status = 'failed';
+        changes.last_error = `Bounced: ${update.bounce?.message || 'no reason given'}`;
+        changes.permanent_failure = update.bounce?.type !== 'Transient';
+      }
+
+      const { error: updateError } = await supabase
+        .from('notification_events')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .in('id', advanced.map((event) => event.id));
+
+      if (updateError) {
+        throw new Error(`Failed to update delivery status: ${updateError.message}`);
+      }
+    }
+
+    if (update.status === 'bounced' && update.bounce?.type !== 'Transient') {
+      await clientService.setEmailBounce(events[0].client_id, update.bounce?.message || 'Email bounced');
+      console.log(`Client ${events[0].client_id} email flagged as bounced`);
+    }
+
+    console.log(`Email notification(s) ${events.map((event) => event.id).join(', ')}: ${update.status}`);
+    return true;
+  }
+
+  /**
+   * Mark events sent, keeping the provider's message ID to match delivery webhooks
+   */
+  private async markSent(eventIds: string[], providerMessageId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notification_events')
+      .update({
+        status: 'sent',
+        delivery_status: 'sent',
+        provider_message_id: providerMessageId,
+        last_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .in('id', eventIds);
+
+    if (error) {
+      throw new Error(`Failed to update notification status: ${error.message}`);
+    }
+
+    console.log(`Successfully updated notification ${eventIds.join(', ')} to sent`);
+  }
+
+  /**
+   * Skip events that can no longer be sent, e.g. after the client's address bounced
+   */
+  private async markSkipped(eventIds: string[], reason: string): Promise<void> {
+    const { error } = await supabase
+      .from('notification_events')
+      .update({ status: 'skipped', skip_reason: reason, updated_at: new Date().toISOString() })
+      .in('id', eventIds);
+
+    if (error) {
+      throw new Error(`Failed to skip notifications: ${error.message}`);
+    }
+
+    console.log(`Skipped notification ${eventIds.join(', ')}: ${reason}`);
+  }
+
+  /**
+   * Email the failure alert for a task to ALERT_EMAIL (no-op when it is not set)
+   *
+   * @param task - The failed task
+   * @param errorMessage - Why it failed
+   */
+  async sendTaskFailureAlert(task: Pick<Task, 'id' | 'client_id' | 'input'>, errorMessage: string): Promise<void> {
+    const alertEmail = process.env.ALERT_EMAIL;
+    if (!alertEmail) return;
+
+    const { data: client } = await supabase
+      .from('clients')
+      .select('name, branding')
+      .eq('id', task.client_id)
+      .single();
+
+    const email = renderEmailTemplate(
+      'failure_alert',
+      {
+        clientName: client?.name || task.client_id,
+        taskId: task.id,
+        error: errorMessage,
+        failedAt: new Date().toISOString(),
+        input: task.input,
+      },
+      client?.branding
+    );
+
+    await this.sendEmail(alertEmail, email.subject, email.html, {
+      text: email.text,
+      headers: { 'X-Included-Template': `${email.template}@${email.version}` },
+    });
   }
 }
 
@@ -0,0 +1,147 @@
+import supabase from '../database/supabase';
+import reportService from './reportService';
+import { EmailTemplateName, renderEmailTemplate, RenderedEmail } from '../lib/emailTemplates';
+import { getPeriodRange, getReportTimeZone } from '../lib/reportRanges';
+import { Client, ClientBranding, ReportFrequency, Task } from '../types/task';
+
+/** Latest summaries a digest preview shows when none are waiting */
+const DIGEST_PREVIEW_SUMMARIES = 5;
+
+/** Records to render a preview from; the client's latest one is used for anything not given */
+export interface EmailPreviewSource {
+  summaryId?: string;
+  reportId?: string;
+  taskId?: string;
+}
+
+/**
+ * Email Template Service
+ * Renders email templates against a client's real data, for previews (nothing is sent)
+ */
+export class EmailTemplateService {
+  /**
+   * Render a template for a client
+   * @param branding - Branding to render with instead of the client's saved branding
+   * @returns The rendered email, or null if there is no record to render it from
+   */
+  async renderPreview(
+    client: Client,
+    template: EmailTemplateName,
+    source: EmailPreviewSource = {},
+    branding?: ClientBranding | null
+  ): Promise<RenderedEmail | null> {
+    const brand = branding !== undefined ? branding : client.branding;
+
+    switch (template) {
+      case 'summary_ready': {
+        const summary = await this.findRecord<{ summary: string }>('summaries', 'summary', client.id, source.summaryId);
+        return summary ? renderEmailTemplate(template, { clientName: client.name, summary: summary.summary }, brand) : null;
+      }
+      case 'summary_digest': {
+        const summaries = await this.getDigestSummaries(client.id);
+        return summaries.length > 0 ? renderEmailTemplate(template, { clientName: client.name, summaries }, brand) : null;
+      }
+      case 'daily_report':
+      case 'weekly_report': {
+        const report = await this.getReportContent(client, template === 'weekly_report' ? 'weekly' : 'daily', source.reportId);
+        return report !== null ? renderEmailTemplate(template, { clientName: client.name, report }, brand) : null;
+      }
+      case 'failure_alert': {
+        const task = await this.findRecord<Task>('tasks', '*', client.id, source.taskId, { status: 'failed' });
+        if (!task) return null;
+
+        const error = (task.last_error || task.output || 'Unknown error').replace(/^Error: /, '');
+        return renderEmailTemplate(
+          template,
+          {
+            clientName: client.name,
+            taskId: task.id,
+            error,
+            failedAt: task.updated_at || task.created_at || new Date().toISOString(),
+            input: task.input,
+          },
+          brand
+        );
+      }
+    }
+  }
+
+  /**
+   * Summaries waiting for the client's next digest, else their latest few
+   */
+  private async getDigestSummaries(clientId: string): Promise<string[]> {
+    const { data: events, error: eventsError } = await supabase
+      .from('notification_events')
+      .select('summary_id')
+      .eq('client_id', clientId)
+      .eq('type', 'email')
+      .eq('status', 'pending')
+      .is('report_id', null);
+
+    if (eventsError) {
+      throw new Error(`Failed to fetch notification_events: ${eventsError.message}`);
+    }
+
+    const summaryIds = (events || []).map((event) => event.summary_id).filter(Boolean);
+    let query = supabase.from('summaries').select('summary').eq('client_id', clientId);
+    query = summaryIds.length > 0 ? query.in('id', summaryIds) : query.limit(DIGEST_PREVIEW_SUMMARIES);
+
+    const { data: summaries, error } = await query.order('created_at', { ascending: summaryIds.length > 0 });
+
+    if (error) {
+      throw new Error(`Failed to fetch summaries: ${error.message}`);
+    }
+
+    return (summaries || []).map((row) => row.summary);
+  }
+
+  /**
+   * Content of the given report, else the client's latest stored report of that frequency,
+   * else a report generated now for the current period
+   */
+  private async getReportContent(client: Client, frequency: ReportFrequency, reportId?: string): Promise<string | null> {
+    const report = await this.findRecord<{ content: string }>(
+      'reports',
+      'content',
+      client.id,
+      reportId,
+      reportId ? {} : { frequency }
+    );
+    if (report) return report.content;
+    if (reportId) return null;
+
+    const timezone = getReportTimeZone(client.workflow_settings);
+    return reportService.generateReport(client.id, {
+      frequency,
+      range: getPeriodRange(frequency === 'weekly' ? 'week' : 'today', timezone),
+    });
+  }
+
+  /**
+   * The client's record with the given ID, or their latest one when no ID is given
+   * @param match - Further column values the record must have
+   */
+  private async findRecord<T>(
+    table: 'summaries' | 'reports' | 'tasks',
+    columns: string,
+    clientId: string,
+    id?: string,
+    match: Record<string, string> = {}
+  ): Promise<T | null> {
+    let query = supabase.from(table).select(columns).eq('client_id', clientId);
+    for (const [column, value] of Object.entries(match)) {
+      query = query.eq(column, value);
+    }
+    query = id ? query.eq('id', id) : query.order('created_at', { ascending: false }).limit(1);
+
+    const { data: rows, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch ${table}: ${error.message}`);
+    }
+
+    return (rows?.[0] as T) || null;
+  }
+}
+
+export default new EmailTemplateService();
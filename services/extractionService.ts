@@ -0,0 +1,60 @@
+import supabase from '../database/supabase';
+import { ExtractedData, Extraction, Summary } from '../types/task';
+
+/**
+ * Extraction Service
+ * Stores and fetches the structured data extracted from each task, one record per summary
+ */
+export class ExtractionService {
+  /**
+   * Save the extraction for a summary
+   */
+  async createExtraction(summary: Summary, data: ExtractedData, model: string | null): Promise<Extraction> {
+    const { data: extraction, error } = await supabase
+      .from('extractions')
+      .insert([
+        {
+          summary_id: summary.id,
+          task_id: summary.task_id,
+          client_id: summary.client_id,
+          priority: data.priority,
+          action_items: data.action_items,
+          deadlines: data.deadlines,
+          amounts: data.amounts,
+          counterparties: data.counterparties,
+          model,
+          created_at: new Date().toISOString(),
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save extraction: ${error.message}`);
+    }
+
+    return extraction;
+  }
+
+  /**
+   * Get the extractions for a set of summaries
+   */
+  async getExtractionsBySummaryIds(summaryIds: string[]): Promise<Extraction[]> {
+    if (summaryIds.length === 0) {
+      return [];
+    }
+
+    const { data: extractions, error } = await supabase
+      .from('extractions')
+      .select('*')
+      .in('summary_id', summaryIds);
+
+    if (error) {
+      throw new Error(`Failed to fetch extractions: ${error.message}`);
+    }
+
+    return extractions || [];
+  }
+}
+
+export default new ExtractionService();
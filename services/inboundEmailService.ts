@@ -33,10 +33,12 @@ export class InboundEmailService {
    * Throws on validation errors (unknown address, missing client, DB failure).
    *
    * @param payload - Inbound email fields extracted from the Resend webhook
-   * @returns The persisted Email record
+   * @returns The persisted Email record, or null when the client is archived and the
+   *          email was ignored
    */
-  async processInboundEmail(payload: InboundEmailPayload): Promise<Email> {
-    console.log('Processing inbound email payload:', payload);
+  async processInboundEmail(payload: InboundEmailPayload): Promise<Email | null> {
+    // Only the recipient is logged: email bodies stay out of the logs
+    console.log(`Processing inbound email to ${payload.to}`);
 
     // 1. Extract client ID
     const clientId = this.extractClientId(payload.to);
@@ -49,6 +51,10 @@ export class InboundEmailService {
     if (!client) {
       throw new Error(`Client not found: ${clientId}`);
     }
+    if (client.archived_at) {
+      console.log(`Ignoring inbound email for archived client ${clientId}`);
+      return null;
+    }
 
     // 3. Insert email into Supabase
     const { data: email, error } = await supabase
@@ -83,7 +89,7 @@ export class InboundEmailService {
 }
 
 // helper export
-export const processInboundEmail = async (payload: InboundEmailPayload): Promise<Email> => {
+export const processInboundEmail = async (payload: InboundEmailPayload): Promise<Email | null> => {
   return new InboundEmailService().processInboundEmail(payload);
 };
 
@@ -1,31 +1,68 @@
 import supabase from '../database/supabase';
-import { NotificationEvent } from '../types/task';
+import clientService from './clientService';
+import {
+  getDueFilter,
+  NOTIFICATION_CHANNELS,
+  RoutableClient,
+  routeNotification,
+  routeSummaryNotification,
+} from '../lib/notificationRouting';
+import {
+  NotificationChannel,
+  NotificationDeliveryEvent,
+  NotificationEvent,
+  NotificationRetryPolicy,
+  NotificationStatus,
+} from '../types/task';
+import { applyListFilters, fetchPage, FilterableQuery, ListFilters, ListSort, Page, PageOptions } from '../lib/pagination';
+
+/** Text columns the free-text filter of the notification list matches */
+const NOTIFICATION_SEARCH_COLUMNS = ['last_error', 'skip_reason', 'provider_message_id'];
+
+/** Fields reset when a failed notification goes back to the workers */
+const REQUEUE_CHANGES = {
+  status: 'pending' as const,
+  scheduled_for: null,
+  delivery_status: null,
+  permanent_failure: false,
+};
+
+/**
+ * How long an event may stay 'sending' before it is considered abandoned (the process
+ * stopped mid-send); far longer than a send with its retries and Retry-After waits
+ */
+const SENDING_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Events re-queued per update when retrying an organization's notifications */
+const REQUEUE_BATCH_SIZE = 100;
+
+/** Which failed notifications to retry */
+interface RetryFilters {
+  ids?: string[];
+  clientId?: string;
+  type?: NotificationChannel;
+  /** Only that organization's clients' events */
+  organizationId?: string;
+}
 
 /**
  * Notification Service
  * Handles notification event creation and management
- * Prepares notifications but does not send them yet
+ * Prepares notifications; the email and WhatsApp workers send them
  */
 export class NotificationService {
   /**
    * Create notification events for a summary
-   * Creates both email and whatsapp notification events in pending status
+   * One event per channel: pending if the client can receive it, otherwise skipped with the reason.
+   * Emails for clients on a digest are held until the digest goes out.
    */
   async createNotificationEvents(clientId: string, summaryId: string): Promise<NotificationEvent[]> {
-    const events = [
-      {
-        client_id: clientId,
-        summary_id: summaryId,
-        type: 'email' as const,
-        status: 'pending' as const,
-      },
-      {
-        client_id: clientId,
-        summary_id: summaryId,
-        type: 'whatsapp' as const,
-        status: 'pending' as const,
-      },
-    ];
+    const client = await this.getRoutableClient(clientId);
+    const events = routeSummaryNotification(client).map((route) => ({
+      client_id: clientId,
+      summary_id: summaryId,
+      ...route,
+    }));
 
     const { data: notificationEvents, error } = await supabase
       .from('notification_events')
@@ -42,45 +79,245 @@ export class NotificationService {
   }
 
   /**
-   * Get all notification events, optionally filtered by status and/or clientId.
+   * Create notification events for a scheduled report
+   * Idempotent: channels that already have an event for the report are skipped.
+   */
+  async createReportNotificationEvents(clientId: string, reportId: string): Promise<NotificationEvent[]> {
+    const { data: existing, error: fetchError } = await supabase
+      .from('notification_events')
+      .select('type')
+      .eq('report_id', reportId);
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch report notification events: ${fetchError.message}`);
+    }
+
+    const existingTypes = new Set((existing || []).map((event) => event.type));
+    const channels = NOTIFICATION_CHANNELS.filter((type) => !existingTypes.has(type));
+
+    if (channels.length === 0) {
+      return [];
+    }
+
+    const client = await this.getRoutableClient(clientId);
+    const events = routeNotification(client, new Date(), channels).map((route) => ({
+      client_id: clientId,
+      summary_id: null,
+      report_id: reportId,
+      ...route,
+    }));
+
+    const { data: notificationEvents, error } = await supabase
+      .from('notification_events')
+      .insert(events)
+      .select();
+
+    if (error) {
+      // Another instance enqueued the same report in between
+      if (error.code === '23505') {
+        return [];
+      }
+      throw new Error(`Failed to create notification events: ${error.message}`);
+    }
+
+    console.log(`Created ${notificationEvents?.length || 0} notification events for report ${reportId}`);
+
+    return notificationEvents || [];
+  }
+
+  /**
+   * List notification events a page at a time, optionally filtered by status, client,
+   * channel, creation time and/or free text.
+   *
+   * @param filters - Optional filters: status ('pending'|'sent'|'failed'|'skipped'), clientId,
+   *                  type (channel), organizationId (only that organization's clients' events),
+   *                  from/to and q (matched against the error, skip reason and provider message id)
+   */
+  async listNotifications(
+    filters: ListFilters & { status?: string; clientId?: string; type?: string; organizationId?: string },
+    page: PageOptions<ListSort<'notifications'>>
+  ): Promise<Page<NotificationEvent>> {
+    const filter = <Q extends FilterableQuery>(query: Q): Q =>
+      applyListFilters(query, filters, {
+        search: NOTIFICATION_SEARCH_COLUMNS,
+        equal: { status: filters.status, client_id: filters.clientId, type: filters.type },
+      });
+
+    return fetchPage<NotificationEvent>(
+      filter(clientService.selectClientData<NotificationEvent>('notification_events', filters.organizationId)),
+      filter(
+        clientService.selectClientData('notification_events', filters.organizationId, 'id', { count: 'exact', head: true })
+      ),
+      page,
+      'notifications'
+    );
+  }
+
+  /**
+   * Get a notification event by ID
+   * @param organizationId - Only if it belongs to one of that organization's clients
+   */
+  async getNotificationById(eventId: string, organizationId?: string): Promise<NotificationEvent | null> {
+    const { data: event, error } = await clientService
+      .selectClientData<NotificationEvent>('notification_events', organizationId)
+      .eq('id', eventId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null; // Not found
+      }
+      throw new Error(`Failed to fetch notification: ${error.message}`);
+    }
+
+    return event;
+  }
+
+  /**
+   * Get the delivery events recorded for a notification, oldest first
+   */
+  async getDeliveryTimeline(eventId: string): Promise<NotificationDeliveryEvent[]> {
+    const { data: timeline, error } = await supabase
+      .from('notification_delivery_events')
+      .select('*')
+      .eq('notification_event_id', eventId)
+      .order('occurred_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch delivery timeline: ${error.message}`);
+    }
+
+    return timeline || [];
+  }
+
+  /**
+   * Send failed notifications again: they go back to pending for the workers, keeping
+   * their attempt count and last error. Only events still failed are changed.
    *
-   * @param filters - Optional filters: status ('pending'|'sent'|'failed') and/or clientId
-   * @param limit   - Maximum rows to return (default: 100)
+   * @param filters - ids, and/or clientId and type, limited to organizationId's clients when
+   *                  given; no filters retries every failed event
+   * @returns The re-queued events
+   */
+  async retryFailedNotifications(filters: RetryFilters = {}): Promise<NotificationEvent[]> {
+    if (!filters.organizationId) {
+      return this.requeue(filters);
+    }
+
+    // An update cannot filter on a joined table: find the organization's failed events first,
+    // then re-queue them by id a batch at a time so each request stays short
+    let query = clientService
+      .selectClientData<Pick<NotificationEvent, 'id'>>('notification_events', filters.organizationId, 'id')
+      .eq('status', 'failed');
+    if (filters.ids) {
+      query = query.in('id', filters.ids);
+    }
+    if (filters.clientId) {
+      query = query.eq('client_id', filters.clientId);
+    }
+    if (filters.type) {
+      query = query.eq('type', filters.type);
+    }
+
+    const { data: failed, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to retry notifications: ${error.message}`);
+    }
+
+    const ids = (failed || []).map((event) => event.id);
+    const requeued: NotificationEvent[] = [];
+    for (let i = 0; i < ids.length; i += REQUEUE_BATCH_SIZE) {
+      requeued.push(...(await this.requeue({ ids: ids.slice(i, i + REQUEUE_BATCH_SIZE) })));
+    }
+    return requeued;
+  }
+
+  /**
+   * Re-queue the failed events matching the filters, in one update
    */
-  async getAllNotifications(
-    filters?: { status?: string; clientId?: string },
-    limit: number = 100
-  ): Promise<NotificationEvent[]> {
+  private async requeue(filters: Omit<RetryFilters, 'organizationId'>): Promise<NotificationEvent[]> {
     let query = supabase
       .from('notification_events')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(limit);
+      .update({ ...REQUEUE_CHANGES, updated_at: new Date().toISOString() })
+      .eq('status', 'failed');
 
-    if (filters?.status) {
-      query = query.eq('status', filters.status);
+    if (filters.ids) {
+      query = query.in('id', filters.ids);
     }
-    if (filters?.clientId) {
+    if (filters.clientId) {
       query = query.eq('client_id', filters.clientId);
     }
+    if (filters.type) {
+      query = query.eq('type', filters.type);
+    }
+
+    const { data: events, error } = await query.select();
+
+    if (error) {
+      throw new Error(`Failed to retry notifications: ${error.message}`);
+    }
+
+    return events || [];
+  }
 
-    const { data: events, error } = await query;
+  /**
+   * Skip a client's pending and failed notifications, so neither the workers nor retries
+   * send them (used when the client is archived)
+   *
+   * @returns The skipped events
+   */
+  async skipClientNotifications(clientId: string, reason: string): Promise<NotificationEvent[]> {
+    const { data: events, error } = await supabase
+      .from('notification_events')
+      .update({ status: 'skipped', skip_reason: reason, updated_at: new Date().toISOString() })
+      .eq('client_id', clientId)
+      .in('status', ['pending', 'failed'])
+      .select();
 
     if (error) {
-      throw new Error(`Failed to fetch notifications: ${error.message}`);
+      throw new Error(`Failed to skip client notifications: ${error.message}`);
     }
 
     return events || [];
   }
 
   /**
-   * Get pending notification events
+   * Automatic retry: re-queue failed notifications that have waited the policy's interval
+   * and have retries left. Events never attempted by a worker (attempts 0, e.g. failed
+   * before attempts were counted) and permanent failures (rejected recipient, invalid
+   * request) are left for a manual retry.
+   *
+   * @returns The re-queued events
+   */
+  async requeueFailedNotifications(policy: NotificationRetryPolicy, now: Date = new Date()): Promise<NotificationEvent[]> {
+    const failedBefore = new Date(now.getTime() - policy.intervalMinutes * 60000);
+
+    const { data: events, error } = await supabase
+      .from('notification_events')
+      .update({ ...REQUEUE_CHANGES, updated_at: now.toISOString() })
+      .eq('status', 'failed')
+      .neq('permanent_failure', true)
+      .gte('attempts', 1)
+      .lte('attempts', policy.maxRetries)
+      .lte('updated_at', failedBefore.toISOString())
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to re-queue failed notifications: ${error.message}`);
+    }
+
+    return events || [];
+  }
+
+  /**
+   * Get pending notification events that are due (not held by quiet hours)
    */
   async getPendingNotifications(limit: number = 50): Promise<NotificationEvent[]> {
     const { data: events, error } = await supabase
       .from('notification_events')
       .select('*')
       .eq('status', 'pending')
+      .or(getDueFilter())
       .order('created_at', { ascending: true })
       .limit(limit);
 
@@ -91,10 +328,64 @@ export class NotificationService {
     return events || [];
   }
 
+  /**
+   * Claim pending events for sending with a single conditional update
+   * (status 'pending' -> 'sending'), so only one worker run sends a given event
+   *
+   * @returns The events this call claimed; events another run claimed first are left out
+   */
+  async claimNotifications(eventIds: string[]): Promise<NotificationEvent[]> {
+    const { data: events, error } = await supabase
+      .from('notification_events')
+      .update({ status: 'sending', updated_at: new Date().toISOString() })
+      .in('id', eventIds)
+      .eq('status', 'pending')
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to claim notifications: ${error.message}`);
+    }
+
+    return events || [];
+  }
+
+  /**
+   * Put events left in 'sending' (the worker stopped mid-send) back to pending
+   * @returns How many were released
+   */
+  async releaseStaleClaims(now: Date = new Date()): Promise<number> {
+    const { data: events, error } = await supabase
+      .from('notification_events')
+      .update({ status: 'pending', updated_at: now.toISOString() })
+      .eq('status', 'sending')
+      .lt('updated_at', new Date(now.getTime() - SENDING_TIMEOUT_MS).toISOString())
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to release stale notification claims: ${error.message}`);
+    }
+
+    return events?.length ?? 0;
+  }
+
+  /**
+   * Count a send attempt before a worker processes the event
+   */
+  async recordAttempt(event: NotificationEvent): Promise<void> {
+    const { error } = await supabase
+      .from('notification_events')
+      .update({ attempts: (event.attempts ?? 0) + 1 })
+      .eq('id', event.id);
+
+    if (error) {
+      throw new Error(`Failed to record notification attempt: ${error.message}`);
+    }
+  }
+
   /**
    * Update notification event status
    */
-  async updateNotificationStatus(eventId: string, status: 'sent' | 'failed'): Promise<void> {
+  async updateNotificationStatus(eventId: string, status: Exclude<NotificationStatus, 'pending'>): Promise<void> {
     const { error } = await supabase
       .from('notification_events')
       .update({
@@ -107,6 +398,23 @@ export class NotificationService {
       throw new Error(`Failed to update notification status: ${error.message}`);
     }
   }
+
+  /**
+   * Contact details and settings used to route a client's notifications
+   */
+  private async getRoutableClient(clientId: string): Promise<RoutableClient> {
+    const { data: client, error } = await supabase
+      .from('clients')
+      .select('email, phone, workflow_settings, email_bounced_at, archived_at')
+      .eq('id', clientId)
+      .single();
+
+    if (error || !client) {
+      throw new Error(`Failed to fetch client for notification routing: ${error?.message || 'not found'}`);
+    }
+
+    return client;
+  }
 }
 
 export default new NotificationService();
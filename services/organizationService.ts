@@ -0,0 +1,333 @@
+import supabase from '../database/supabase';
+import { generateToken, hashPassword, hashToken, INVITATION_TOKEN_PREFIX } from '../lib/auth';
+import { Organization, OrganizationInvitation, OrganizationMember, OrganizationRole, User } from '../types/task';
+
+/** User fields returned by the API; the password hash never leaves the server */
+const USER_FIELDS = 'id, email, name, created_at';
+
+export type UserSummary = Omit<User, 'password_hash'>;
+
+/** Drop the password hash, should a wider select ever include it */
+function toUserSummary({ password_hash: _hash, ...summary }: User): UserSummary {
+  return summary;
+}
+
+/** How long an invitation can be accepted */
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type InvitationSummary = Omit<OrganizationInvitation, 'token_hash'>;
+
+/** Drop the token hash from an invitation returned by the API */
+function toInvitationSummary({ token_hash: _hash, ...summary }: OrganizationInvitation): InvitationSummary {
+  return summary;
+}
+
+/** A member with the user's details */
+export interface OrganizationMemberDetails extends OrganizationMember {
+  user: UserSummary | null;
+}
+
+/**
+ * Organization Service
+ * Organizations (agencies), their users and the users' roles
+ */
+export class OrganizationService {
+  /**
+   * Create an organization
+   */
+  async createOrganization(name: string): Promise<Organization> {
+    const { data: organization, error } = await supabase
+      .from('organizations')
+      .insert([{ name: name.trim() }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create organization: ${error.message}`);
+    }
+
+    return organization;
+  }
+
+  /**
+   * Get an organization by ID
+   */
+  async getOrganizationById(id: string): Promise<Organization | null> {
+    const { data: organization, error } = await supabase
+      .from('organizations')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null; // Not found
+      }
+      throw new Error(`Failed to fetch organization: ${error.message}`);
+    }
+
+    return organization;
+  }
+
+  /**
+   * Find a user by email, including the password hash (for login)
+   */
+  async getUserByEmail(email: string): Promise<User | null> {
+    const { data: users, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('email', email.trim().toLowerCase())
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to fetch user: ${error.message}`);
+    }
+
+    return users?.[0] || null;
+  }
+
+  /**
+   * Create a user
+   * @returns null if a user with this email exists
+   */
+  async createUser(email: string, password: string, name?: string): Promise<UserSummary | null> {
+    const { data: user, error } = await supabase
+      .from('users')
+      .insert([
+        {
+          email: email.trim().toLowerCase(),
+          name: name?.trim() || null,
+          password_hash: await hashPassword(password),
+        },
+      ])
+      .select(USER_FIELDS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return null;
+      }
+      throw new Error(`Failed to create user: ${error.message}`);
+    }
+
+    return toUserSummary(user as User);
+  }
+
+  /**
+   * A user's membership in an organization, or their oldest membership when no organization
+   * is given
+   */
+  async getMembership(userId: string, organizationId?: string): Promise<OrganizationMember | null> {
+    let query = supabase
+      .from('organization_members')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data: memberships, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch membership: ${error.message}`);
+    }
+
+    return memberships?.[0] || null;
+  }
+
+  /**
+   * List an organization's members with their user details, oldest first
+   */
+  async getMembers(organizationId: string): Promise<OrganizationMemberDetails[]> {
+    const { data: members, error } = await supabase
+      .from('organization_members')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch members: ${error.message}`);
+    }
+    if (!members || members.length === 0) {
+      return [];
+    }
+
+    const { data: users, error: usersError } = await supabase
+      .from('users')
+      .select(USER_FIELDS)
+      .in('id', members.map((m: OrganizationMember) => m.user_id));
+
+    if (usersError) {
+      throw new Error(`Failed to fetch members: ${usersError.message}`);
+    }
+
+    const byId = new Map<string, UserSummary>(
+      (users || []).map((user) => [user.id, toUserSummary(user as User)])
+    );
+    return members.map((member: OrganizationMember) => ({ ...member, user: byId.get(member.user_id) ?? null }));
+  }
+
+  /**
+   * Add a user to an organization
+   * @returns null if the user is already a member
+   */
+  async addMember(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember | null> {
+    const { data: member, error } = await supabase
+      .from('organization_members')
+      .insert([{ organization_id: organizationId, user_id: userId, role }])
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return null;
+      }
+      throw new Error(`Failed to add member: ${error.message}`);
+    }
+
+    return member;
+  }
+
+  /**
+   * Invite an email to join an organization with a role. Nothing reveals whether the email
+   * has an account: the invitee accepts with the token either way.
+   * @returns The invitation and its token, which is not stored and cannot be shown again
+   */
+  async createInvitation(
+    organizationId: string,
+    email: string,
+    role: OrganizationRole,
+    now: Date = new Date()
+  ): Promise<{ invitation: InvitationSummary; token: string }> {
+    const token = generateToken(INVITATION_TOKEN_PREFIX);
+
+    const { data: invitation, error } = await supabase
+      .from('organization_invitations')
+      .insert([
+        {
+          organization_id: organizationId,
+          email: email.trim().toLowerCase(),
+          role,
+          token_hash: hashToken(token),
+          expires_at: new Date(now.getTime() + INVITATION_TTL_MS).toISOString(),
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create invitation: ${error.message}`);
+    }
+
+    return { invitation: toInvitationSummary(invitation), token };
+  }
+
+  /**
+   * Find the invitation a token belongs to
+   * @returns null if the token is unknown, already used or expired
+   */
+  async getPendingInvitation(token: string, now: Date = new Date()): Promise<OrganizationInvitation | null> {
+    const { data: invitations, error } = await supabase
+      .from('organization_invitations')
+      .select('*')
+      .eq('token_hash', hashToken(token))
+      .is('accepted_at', null)
+      .gt('expires_at', now.toISOString())
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to fetch invitation: ${error.message}`);
+    }
+
+    return invitations?.[0] || null;
+  }
+
+  /**
+   * Mark an invitation used, so its token works only once
+   * @returns false if it had already been accepted
+   */
+  async markInvitationAccepted(invitationId: string): Promise<boolean> {
+    const { data: accepted, error } = await supabase
+      .from('organization_invitations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to accept invitation: ${error.message}`);
+    }
+
+    return (accepted || []).length > 0;
+  }
+
+  /**
+   * Undo markInvitationAccepted when joining failed, so the token can be used again
+   */
+  async reopenInvitation(invitationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('organization_invitations')
+      .update({ accepted_at: null })
+      .eq('id', invitationId);
+
+    if (error) {
+      throw new Error(`Failed to reopen invitation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Change a member's role
+   * @returns The updated member, or null if the user is not a member
+   */
+  async updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember | null> {
+    const { data: members, error } = await supabase
+      .from('organization_members')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to update member: ${error.message}`);
+    }
+
+    return members?.[0] || null;
+  }
+
+  /**
+   * Remove a user from an organization (the user account itself is kept)
+   */
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to remove member: ${error.message}`);
+    }
+  }
+
+  /**
+   * Count an organization's owners, so the last one cannot be demoted or removed
+   */
+  async countOwners(organizationId: string): Promise<number> {
+    const { data: owners, error } = await supabase
+      .from('organization_members')
+      .select('user_id')
+      .eq('organization_id', organizationId)
+      .eq('role', 'owner');
+
+    if (error) {
+      throw new Error(`Failed to count owners: ${error.message}`);
+    }
+
+    return (owners || []).length;
+  }
+}
+
+export default new OrganizationService();
@@ -1,6 +1,35 @@
+import supabase from '../database/supabase';
 import summaryService from './summaryService';
+import taskService from './taskService';
+import clientService from './clientService';
+import digestService from './digestService';
+import { formatReportRange, getPeriodRange, getReportTimeZone, isSingleDay, ReportRange } from '../lib/reportRanges';
+import { renderReport } from '../lib/reportFormats';
+import { getZonedDateParts } from '../lib/timezones';
+import { applyListFilters, fetchPage, FilterableQuery, ListFilters, ListSort, Page, PageOptions } from '../lib/pagination';
+import { DigestContent, ExtractedData, Report, ReportDocument, ReportFrequency, ReportSection } from '../types/task';
 
-const REPORT_PREFIX = '📝 Daily Report:';
+const REPORT_TITLE = 'Daily Report';
+const WEEKLY_REPORT_TITLE = 'Weekly Report';
+const RANGE_REPORT_TITLE = 'Report';
+
+/** The period a scheduled report covers, in the client's time zone */
+export interface ReportPeriod {
+  frequency: ReportFrequency;
+  /** Local date the period starts on ('YYYY-MM-DD') */
+  periodKey: string;
+  periodStart: Date;
+  periodEnd: Date;
+  timezone: string;
+}
+
+export interface GenerateReportOptions {
+  frequency?: ReportFrequency;
+  /** Window to report on (default: today in the client's time zone) */
+  range?: ReportRange;
+  /** Add an LLM-written executive digest (cached per client and period) */
+  digest?: boolean;
+}
 
 /**
  * Report Service
@@ -8,32 +37,208 @@ const REPORT_PREFIX = '📝 Daily Report:';
  */
 export class ReportService {
   /**
-   * Generate a daily report for a specific client
-   * Fetches summaries from the summaries table and formats them
+   * Build the structured report for a client over a date range: the summaries created in
+   * it, grouped by local day (newest first), and the number of tasks completed and failed.
+   * With `digest`, an executive digest is added; if the LLM fails the report is still
+   * returned, with digest_error set.
    */
-  async generateReport(clientId: string): Promise<string> {
-    try {
-      const summaries = await summaryService.getSummariesByClient(clientId);
+  async buildReport(clientId: string, options: GenerateReportOptions = {}): Promise<ReportDocument> {
+    const client = await clientService.getClientById(clientId);
+    const range = options.range ?? getPeriodRange('today', getReportTimeZone(client?.workflow_settings));
+
+    const [summaries, counts] = await Promise.all([
+      summaryService.getSummariesByClient(clientId, range),
+      taskService.countFinishedTasks(clientId, range.from, range.to),
+    ]);
 
-      if (summaries.length === 0) {
-        return `${REPORT_PREFIX}\n- No completed tasks found.`;
+    const sections: ReportSection[] = [];
+    for (const summary of summaries) {
+      if (!summary.summary) continue;
+
+      const date = summary.created_at ? getZonedDateParts(new Date(summary.created_at), range.timezone).date : '';
+      let section = sections[sections.length - 1];
+      if (!section || section.date !== date) {
+        section = { date, items: [] };
+        sections.push(section);
       }
 
-      let report = REPORT_PREFIX;
+      section.items.push({
+        summary_id: summary.id,
+        task_id: summary.task_id,
+        summary: summary.summary,
+        created_at: summary.created_at ?? null,
+        extraction: summary.extraction ? toExtractedData(summary.extraction) : null,
+      });
+    }
 
-      for (const item of summaries) {
-        if (item.summary) {
-          report += `\n- ${item.summary}`;
-        }
+    let digest: DigestContent | null = null;
+    let digestError: string | null = null;
+    if (options.digest && sections.length > 0) {
+      const outcome = await digestService.getDigest(clientId, range, sections, client?.workflow_settings?.llmProvider);
+      if (outcome.success) {
+        digest = outcome.digest;
+      } else {
+        digestError = outcome.error.message;
+        console.error(`Digest failed for client ${clientId} [${outcome.error.category}]: ${outcome.error.message}`);
       }
+    }
+
+    return {
+      title: this.getTitle(options.frequency, range),
+      client: { id: clientId, name: client?.name ?? null },
+      period: {
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        timezone: range.timezone,
+        label: formatReportRange(range),
+      },
+      generated_at: new Date().toISOString(),
+      totals: {
+        completed: counts.completed,
+        failed: counts.failed,
+        summaries: sections.reduce((total, section) => total + section.items.length, 0),
+      },
+      ...(options.digest ? { digest, digest_error: digestError } : {}),
+      sections,
+    };
+  }
 
-      return report;
+  /**
+   * Generate a plain-text report for a specific client over a date range
+   * Never throws: failures are reported in the text itself
+   */
+  async generateReport(clientId: string, options: GenerateReportOptions = {}): Promise<string> {
+    try {
+      return renderReport(await this.buildReport(clientId, options), 'text');
     } catch (error) {
       console.error('Error generating report:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return `${REPORT_PREFIX}\n- Error generating report: ${errorMessage}`;
+      const title = options.frequency === 'weekly' ? WEEKLY_REPORT_TITLE : REPORT_TITLE;
+      return `📝 ${title}:\n- Error generating report: ${errorMessage}`;
+    }
+  }
+
+  /**
+   * Time zone a client's reports use: workflow_settings.timezone, else REPORT_TIMEZONE, else UTC
+   */
+  async getReportTimeZone(clientId: string): Promise<string> {
+    const client = await clientService.getClientById(clientId);
+    return getReportTimeZone(client?.workflow_settings);
+  }
+
+  /**
+   * Get the stored report for a client and period, if it has been generated
+   */
+  async getReportForPeriod(clientId: string, frequency: ReportFrequency, periodKey: string): Promise<Report | null> {
+    const { data: report, error } = await supabase
+      .from('reports')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('frequency', frequency)
+      .eq('period_key', periodKey)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null; // Not generated yet
+      }
+      throw new Error(`Failed to fetch report: ${error.message}`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Generate and store the report for a period
+   * Idempotent: if the report already exists (e.g. generated by another instance or
+   * before a restart) the stored one is returned with created = false.
+   * Throws without storing anything when the report (or its requested digest) cannot be
+   * built, so the next scheduler run retries the period instead of sending an error.
+   */
+  async createScheduledReport(
+    clientId: string,
+    period: ReportPeriod,
+    options: { digest?: boolean } = {}
+  ): Promise<{ report: Report; created: boolean }> {
+    const existing = await this.getReportForPeriod(clientId, period.frequency, period.periodKey);
+    if (existing) {
+      return { report: existing, created: false };
+    }
+
+    const document = await this.buildReport(clientId, {
+      frequency: period.frequency,
+      range: { from: period.periodStart, to: period.periodEnd, timezone: period.timezone },
+      digest: options.digest,
+    });
+    if (document.digest_error) {
+      throw new Error(`Failed to generate digest: ${document.digest_error}`);
+    }
+    const content = renderReport(document, 'text');
+
+    const { data: report, error } = await supabase
+      .from('reports')
+      .insert([
+        {
+          client_id: clientId,
+          frequency: period.frequency,
+          period_key: period.periodKey,
+          period_start: period.periodStart.toISOString(),
+          period_end: period.periodEnd.toISOString(),
+          timezone: period.timezone,
+          content,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      // Unique (client_id, frequency, period_key): someone else stored it first
+      if (error.code === '23505') {
+        const stored = await this.getReportForPeriod(clientId, period.frequency, period.periodKey);
+        if (stored) {
+          return { report: stored, created: false };
+        }
+      }
+      throw new Error(`Failed to save report: ${error.message}`);
     }
+
+    return { report, created: true };
+  }
+
+  /**
+   * List stored reports a page at a time, optionally for a single client and/or an
+   * organization's clients, by frequency, creation time and/or free text in the content
+   */
+  async listReports(
+    filters: ListFilters & { clientId?: string; frequency?: ReportFrequency; organizationId?: string },
+    page: PageOptions<ListSort<'reports'>>
+  ): Promise<Page<Report>> {
+    const filter = <Q extends FilterableQuery>(query: Q): Q =>
+      applyListFilters(query, filters, {
+        search: ['content'],
+        equal: { client_id: filters.clientId, frequency: filters.frequency },
+      });
+
+    return fetchPage<Report>(
+      filter(clientService.selectClientData<Report>('reports', filters.organizationId)),
+      filter(clientService.selectClientData('reports', filters.organizationId, 'id', { count: 'exact', head: true })),
+      page,
+      'reports'
+    );
+  }
+
+  private getTitle(frequency: ReportFrequency | undefined, range: ReportRange): string {
+    if (frequency === 'weekly') return WEEKLY_REPORT_TITLE;
+    return frequency === 'daily' || isSingleDay(range) ? REPORT_TITLE : RANGE_REPORT_TITLE;
   }
 }
 
+const toExtractedData = ({ priority, action_items, deadlines, amounts, counterparties }: ExtractedData): ExtractedData => ({
+  priority,
+  action_items,
+  deadlines,
+  amounts,
+  counterparties,
+});
+
 export default new ReportService();
@@ -0,0 +1,74 @@
+import supabase from '../database/supabase';
+import { getDefaultRetryPolicy, NOTIFICATION_RETRY_SETTING } from '../lib/notificationRetry';
+import { NotificationRetryPolicy } from '../types/task';
+
+/**
+ * Settings Service
+ * Application settings edited from the dashboard, stored as JSON documents in app_settings
+ */
+export class SettingsService {
+  /**
+   * The notification retry policy: saved fields over the environment defaults
+   */
+  async getNotificationRetryPolicy(): Promise<NotificationRetryPolicy> {
+    const saved = await this.getSetting<Partial<NotificationRetryPolicy>>(NOTIFICATION_RETRY_SETTING);
+    return { ...getDefaultRetryPolicy(), ...saved };
+  }
+
+  /**
+   * Save changes to the notification retry policy
+   * @returns The updated policy
+   */
+  async updateNotificationRetryPolicy(changes: Partial<NotificationRetryPolicy>): Promise<NotificationRetryPolicy> {
+    const policy = { ...(await this.getNotificationRetryPolicy()), ...changes };
+    await this.saveSetting(NOTIFICATION_RETRY_SETTING, policy);
+    return policy;
+  }
+
+  private async getSetting<T>(key: string): Promise<T | null> {
+    const { data: setting, error } = await supabase
+      .from('app_settings')
+      .select('value')
+      .eq('key', key)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null; // Never saved
+      }
+      throw new Error(`Failed to fetch setting ${key}: ${error.message}`);
+    }
+
+    return setting.value as T;
+  }
+
+  private async saveSetting(key: string, value: unknown): Promise<void> {
+    const row = { value, updated_at: new Date().toISOString() };
+
+    const { data: updated, error: updateError } = await supabase
+      .from('app_settings')
+      .update(row)
+      .eq('key', key)
+      .select();
+
+    if (updateError) {
+      throw new Error(`Failed to save setting ${key}: ${updateError.message}`);
+    }
+    if (updated && updated.length > 0) {
+      return;
+    }
+
+    const { error } = await supabase.from('app_settings').insert([{ key, ...row }]);
+
+    if (error) {
+      // 23505: another request saved it first; write over it
+      const { error: retryError } =
+        error.code === '23505' ? await supabase.from('app_settings').update(row).eq('key', key) : { error };
+      if (retryError) {
+        throw new Error(`Failed to save setting ${key}: ${retryError.message}`);
+      }
+    }
+  }
+}
+
+export default new SettingsService();
@@ -1,6 +1,9 @@
 import supabase from '../database/supabase';
 import { Summary } from '../types/task';
 import notificationService from './notificationService';
+import extractionService from './extractionService';
+import clientService from './clientService';
+import { applyListFilters, fetchPage, FilterableQuery, ListFilters, ListSort, Page, PageOptions } from '../lib/pagination';
 
 /**
  * Summary Service
@@ -40,37 +43,59 @@ export class SummaryService {
   }
 
   /**
-   * Get recent summaries (for dashboard)
+   * List summaries a page at a time (for dashboard), with their extractions
+   * @param filters - Optional filters: clientId, organizationId (only that organization's
+   *                  clients' summaries), from/to and q (matched against the summary text)
    */
-  async getRecentSummaries(limit: number = 50): Promise<Summary[]> {
-    const { data: summaries, error } = await supabase
-      .from('summaries')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(limit);
+  async listSummaries(
+    filters: ListFilters & { clientId?: string; organizationId?: string },
+    page: PageOptions<ListSort<'summaries'>>
+  ): Promise<Page<Summary>> {
+    const filter = <Q extends FilterableQuery>(query: Q): Q =>
+      applyListFilters(query, filters, { search: ['summary'], equal: { client_id: filters.clientId } });
 
-    if (error) {
-      throw new Error(`Failed to fetch summaries: ${error.message}`);
-    }
+    const summaries = await fetchPage<Summary>(
+      filter(clientService.selectClientData<Summary>('summaries', filters.organizationId)),
+      filter(clientService.selectClientData('summaries', filters.organizationId, 'id', { count: 'exact', head: true })),
+      page,
+      'summaries'
+    );
 
-    return summaries || [];
+    return { ...summaries, items: await this.withExtractions(summaries.items) };
   }
 
   /**
-   * Get summaries for a specific client
+   * Get summaries for a specific client, with their extractions
+   * @param range - Optional window [from, to) on created_at
    */
-  async getSummariesByClient(clientId: string): Promise<Summary[]> {
-    const { data: summaries, error } = await supabase
+  async getSummariesByClient(clientId: string, range?: { from: Date; to: Date }): Promise<Summary[]> {
+    let query = supabase
       .from('summaries')
       .select('*')
       .eq('client_id', clientId)
       .order('created_at', { ascending: false });
 
+    if (range) {
+      query = query.gte('created_at', range.from.toISOString()).lt('created_at', range.to.toISOString());
+    }
+
+    const { data: summaries, error } = await query;
+
     if (error) {
       throw new Error(`Failed to fetch summaries: ${error.message}`);
     }
 
-    return summaries || [];
+    return this.withExtractions(summaries || []);
+  }
+
+  /**
+   * Attach each summary's extraction (null when none was stored)
+   */
+  private async withExtractions(summaries: Summary[]): Promise<Summary[]> {
+    const extractions = await extractionService.getExtractionsBySummaryIds(summaries.map((s) => s.id));
+    const bySummaryId = new Map(extractions.map((e) => [e.summary_id, e]));
+
+    return summaries.map((summary) => ({ ...summary, extraction: bySummaryId.get(summary.id) || null }));
   }
 }
 
@@ -0,0 +1,320 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import supabase from '../database/supabase';
+import { Task, TaskErrorCategory } from '../types/task';
+
+const DEFAULT_LEASE_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_PROCESSING_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Pending tasks looked at per claim, in case other workers take the oldest ones first
+const CLAIM_CANDIDATES = 5;
+
+export interface TaskQueueOptions {
+  /** Identifies this worker as lease owner (default: hostname:pid:random) */
+  workerId?: string;
+  /** Lease duration without a heartbeat (default: TASK_LEASE_MS or 5 minutes) */
+  leaseMs?: number;
+  /** Maximum time a single attempt may stay in 'processing' (default: TASK_PROCESSING_TIMEOUT_MS or 15 minutes) */
+  processingTimeoutMs?: number;
+  /** Attempts after which a stale task is failed instead of re-queued (default: TASK_MAX_ATTEMPTS or 3) */
+  maxAttempts?: number;
+}
+
+export interface ReapResult {
+  /** Stale tasks put back to 'pending' for another attempt */
+  requeued: number;
+  /** Stale tasks marked 'failed' because they ran out of attempts */
+  failed: number;
+}
+
+type StaleTask = Pick<Task, 'id' | 'attempts' | 'lease_expires_at' | 'processing_started_at' | 'created_at'>;
+
+/**
+ * Task Queue Service
+ * Uses the tasks table as a durable work queue shared by every orchestrator instance.
+ *
+ * A worker claims a task with a single conditional update (status 'pending' -> 'processing'),
+ * so only one worker can ever win a given task. The claim carries a lease that the owner
+ * renews with heartbeats while processing. Stale tasks (lease expired because the process
+ * crashed, or stuck in 'processing' past the timeout) are reaped by reapStaleTasks().
+ */
+export class TaskQueueService {
+  readonly workerId: string;
+  private leaseMs: number;
+  private processingTimeoutMs: number;
+  private maxAttempts: number;
+
+  constructor(options: TaskQueueOptions = {}) {
+    this.workerId = options.workerId || `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+    this.leaseMs = options.leaseMs || parseInt(process.env.TASK_LEASE_MS || '', 10) || DEFAULT_LEASE_MS;
+    this.processingTimeoutMs =
+      options.processingTimeoutMs ||
+      parseInt(process.env.TASK_PROCESSING_TIMEOUT_MS || '', 10) ||
+      DEFAULT_PROCESSING_TIMEOUT_MS;
+    this.maxAttempts =
+      options.maxAttempts || parseInt(process.env.TASK_MAX_ATTEMPTS || '', 10) || DEFAULT_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Atomically claim a single pending task for this worker
+   * @returns The claimed task, or null if another worker got there first
+   */
+  async claimTask(taskId: string): Promise<Task | null> {
+    const { data: task, error } = await supabase
+      .from('tasks')
+      .select('id, attempts')
+      .eq('id', taskId)
+      .eq('status', 'pending')
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null; // Not pending (or gone)
+      }
+      throw new Error(`Failed to claim task ${taskId}: ${error.message}`);
+    }
+
+    return this.claimCandidate(task);
+  }
+
+  /**
+   * Claim the oldest pending task
+   * Only one task is claimed at a time, right before it is processed, so no lease can
+   * expire while a claimed task waits behind others. Candidates claimed concurrently by
+   * other workers are skipped.
+   * @returns The claimed task, or null if nothing is pending
+   */
+  async claimNextTask(): Promise<Task | null> {
+    const { data: candidates, error } = await supabase
+      .from('tasks')
+      .select('id, attempts')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(CLAIM_CANDIDATES);
+
+    if (error) {
+      throw new Error(`Failed to fetch pending tasks: ${error.message}`);
+    }
+
+    for (const candidate of candidates || []) {
+      const task = await this.claimCandidate(candidate);
+      if (task) {
+        return task;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Extend the lease on a task owned by this worker
+   * @returns false if the lease has been lost (expired and re-queued or claimed elsewhere)
+   */
+  async heartbeat(taskId: string): Promise<boolean> {
+    const now = new Date();
+
+    const { data: tasks, error } = await supabase
+      .from('tasks')
+      .update({
+        lease_expires_at: new Date(now.getTime() + this.leaseMs).toISOString(),
+        heartbeat_at: now.toISOString(),
+      })
+      .eq('id', taskId)
+      .eq('status', 'processing')
+      .eq('lease_owner', this.workerId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to renew lease on task ${taskId}: ${error.message}`);
+    }
+
+    return (tasks?.length || 0) > 0;
+  }
+
+  /**
+   * Renew the lease in the background until the returned stop function is called
+   */
+  startHeartbeat(taskId: string): () => void {
+    const timer = setInterval(() => {
+      this.heartbeat(taskId)
+        .then((owned) => {
+          if (!owned) {
+            console.warn(`Lost lease on task ${taskId}`);
+          }
+        })
+        .catch((err) => console.error(`Heartbeat failed for task ${taskId}:`, err));
+    }, Math.max(Math.floor(this.leaseMs / 3), 1000));
+
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Mark a task owned by this worker as completed and release its lease
+   * @returns false if the lease had already been lost
+   */
+  async completeTask(taskId: string, output: string): Promise<boolean> {
+    return this.finishTask(taskId, { status: 'completed', output, error_category: null });
+  }
+
+  /**
+   * Mark a task owned by this worker as failed and release its lease
+   * @param errorCategory - Cause of the failure, persisted for filtering
+   * @returns false if the lease had already been lost
+   */
+  async failTask(taskId: string, output: string, errorCategory: TaskErrorCategory): Promise<boolean> {
+    return this.finishTask(taskId, { status: 'failed', output, error_category: errorCategory, last_error: output });
+  }
+
+  /**
+   * Reap stale tasks: tasks whose lease expired (the owner stopped heartbeating) or that
+   * have been in 'processing' longer than the processing timeout. Each one is re-queued
+   * for another attempt, or marked failed once it has used up maxAttempts. The reason is
+   * recorded in last_error.
+   */
+  async reapStaleTasks(): Promise<ReapResult> {
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - this.processingTimeoutMs).toISOString();
+    const columns = 'id, attempts, lease_expires_at, processing_started_at, created_at';
+
+    const [expired, overdue, legacy] = await Promise.all([
+      supabase.from('tasks').select(columns).eq('status', 'processing').lt('lease_expires_at', now.toISOString()),
+      supabase.from('tasks').select(columns).eq('status', 'processing').lt('processing_started_at', cutoff),
+      // Tasks flipped to 'processing' before leases existed carry neither timestamp
+      supabase
+        .from('tasks')
+        .select(columns)
+        .eq('status', 'processing')
+        .is('lease_expires_at', null)
+        .is('processing_started_at', null)
+        .lt('created_at', cutoff),
+    ]);
+
+    const queryError = expired.error || overdue.error || legacy.error;
+    if (queryError) {
+      throw new Error(`Failed to fetch stale tasks: ${queryError.message}`);
+    }
+
+    const staleTasks = new Map<string, StaleTask>();
+    for (const task of [...(expired.data || []), ...(overdue.data || []), ...(legacy.data || [])]) {
+      staleTasks.set(task.id, task);
+    }
+
+    const result: ReapResult = { requeued: 0, failed: 0 };
+    for (const task of staleTasks.values()) {
+      const outcome = await this.reapTask(task, now);
+      if (outcome) {
+        result[outcome]++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Conditionally update a claimable task to 'processing' under this worker's lease.
+   * The attempts guard makes the claim fail if anyone else claimed it in between.
+   */
+  private async claimCandidate(candidate: Pick<Task, 'id' | 'attempts'>): Promise<Task | null> {
+    const now = new Date();
+    const attempts = candidate.attempts || 0;
+
+    const { data: tasks, error } = await supabase
+      .from('tasks')
+      .update({
+        status: 'processing',
+        attempts: attempts + 1,
+        lease_owner: this.workerId,
+        lease_expires_at: new Date(now.getTime() + this.leaseMs).toISOString(),
+        heartbeat_at: now.toISOString(),
+        processing_started_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', candidate.id)
+      .eq('status', 'pending')
+      .eq('attempts', attempts)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to claim task ${candidate.id}: ${error.message}`);
+    }
+
+    return tasks?.[0] || null;
+  }
+
+  /**
+   * Re-queue or fail a single stale task
+   * @returns Which way it went, or null if it changed hands before we got to it
+   */
+  private async reapTask(task: StaleTask, now: Date): Promise<keyof ReapResult | null> {
+    const attempts = task.attempts || 0;
+    const leaseExpired = !!task.lease_expires_at && new Date(task.lease_expires_at) < now;
+    const startedAt = task.processing_started_at || task.created_at;
+    const runningSeconds = startedAt ? Math.round((now.getTime() - new Date(startedAt).getTime()) / 1000) : 0;
+    const reason = leaseExpired
+      ? `lease expired after ${runningSeconds}s in processing (worker stopped heartbeating)`
+      : `processing exceeded timeout of ${Math.round(this.processingTimeoutMs / 1000)}s`;
+    const outOfAttempts = attempts >= this.maxAttempts;
+
+    const update = outOfAttempts
+      ? { status: 'failed', output: `Error: Task reaped — ${reason}`, error_category: 'reaped' }
+      : { status: 'pending' };
+
+    let query = supabase
+      .from('tasks')
+      .update({
+        ...update,
+        last_error: `Reaped on attempt ${attempts}/${this.maxAttempts}: ${reason}`,
+        lease_owner: null,
+        lease_expires_at: null,
+        processing_started_at: null,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', task.id)
+      .eq('status', 'processing')
+      .eq('attempts', attempts);
+    if (leaseExpired) {
+      // The owner may have heartbeated since the task was fetched; a renewed lease keeps it
+      query = query.lt('lease_expires_at', now.toISOString());
+    }
+    const { data: tasks, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Failed to reap task ${task.id}: ${error.message}`);
+    }
+
+    if (!tasks?.length) {
+      return null;
+    }
+
+    console.warn(`Reaped task ${task.id} (${outOfAttempts ? 'failed' : 're-queued'}): ${reason}`);
+    return outOfAttempts ? 'failed' : 'requeued';
+  }
+
+  private async finishTask(
+    taskId: string,
+    result: Pick<Task, 'status' | 'output' | 'error_category' | 'last_error'>
+  ): Promise<boolean> {
+    const { data: tasks, error } = await supabase
+      .from('tasks')
+      .update({
+        ...result,
+        lease_owner: null,
+        lease_expires_at: null,
+        processing_started_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', taskId)
+      .eq('status', 'processing')
+      .eq('lease_owner', this.workerId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update task status: ${error.message}`);
+    }
+
+    return (tasks?.length || 0) > 0;
+  }
+}
+
+export default new TaskQueueService();
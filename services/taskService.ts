@@ -1,8 +1,17 @@
 import { v4 as uuidv4 } from 'uuid';
 import supabase from '../database/supabase';
 import { Task } from '../types/task';
-import { processWithLLM } from '../workers/llmWorker';
+import { extractWithLLM, processWithLLM } from '../workers/llmWorker';
+import { isExtractionEnabled } from '../lib/extraction';
 import summaryService from './summaryService';
+import extractionService from './extractionService';
+import clientService from './clientService';
+import emailService from './emailService';
+import taskQueueService from './taskQueueService';
+import { applyListFilters, fetchPage, FilterableQuery, ListFilters, ListSort, Page, PageOptions } from '../lib/pagination';
+
+/** Text columns the free-text filter of the task list matches */
+const TASK_SEARCH_COLUMNS = ['input', 'output', 'last_error'];
 
 /**
  * Task Service
@@ -23,6 +32,7 @@ export class TaskService {
           input: text,
           output: null,
           status: 'pending',
+          attempts: 0,
           client_id: clientId,
           created_at: new Date().toISOString(),
         },
@@ -36,8 +46,9 @@ export class TaskService {
 
     console.log(`Task created: ${taskId}`);
 
-    // Process task asynchronously (non-blocking)
-    this.processTaskAsync(taskId, text, clientId).catch((err) => {
+    // Claim and process the task inline (non-blocking). If another worker claims it
+    // first, that worker processes it instead.
+    this.processTaskAsync(taskId).catch((err) => {
       console.error(`Error in async task processing for ${taskId}:`, err);
     });
 
@@ -45,117 +56,151 @@ export class TaskService {
   }
 
   /**
-   * Process task asynchronously
-   * Updates status through the lifecycle: pending -> processing -> completed/failed
+   * Claim a pending task and process it
    */
-  private async processTaskAsync(taskId: string, inputText: string, clientId: string): Promise<void> {
+  private async processTaskAsync(taskId: string): Promise<void> {
+    const task = await taskQueueService.claimTask(taskId);
+    if (!task) {
+      console.log(`Task ${taskId} already claimed by another worker`);
+      return;
+    }
+
+    await this.processClaimedTask(task);
+  }
+
+  /**
+   * Process a task this worker holds the lease on
+   * Updates status through the lifecycle: processing -> completed/failed,
+   * renewing the lease while the LLM call is in flight.
+   * @returns The outcome; 'abandoned' means the lease was lost mid-way and the task was left to its new owner
+   */
+  async processClaimedTask(task: Task): Promise<'completed' | 'failed' | 'abandoned'> {
+    const stopHeartbeat = taskQueueService.startHeartbeat(task.id);
+
     try {
-      // Update task status to processing
-      await supabase
-        .from('tasks')
-        .update({ status: 'processing' })
-        .eq('id', taskId);
-
-      console.log(`Processing task: ${taskId}`);
-
-      // Process with LLM
-      const summary = await processWithLLM(inputText);
-
-      // Check if there was an error
-      if (summary === 'Error processing input.') {
-        await supabase
-          .from('tasks')
-          .update({
-            output: summary,
-            status: 'failed',
-          })
-          .eq('id', taskId);
-        console.error(`Task failed: ${taskId}`);
-      } else {
-        // Save summary and create notification events
-        await summaryService.createSummary(taskId, clientId, summary);
-
-        // Update task status to completed
-        await supabase
-          .from('tasks')
-          .update({
-            output: summary,
-            status: 'completed',
-          })
-          .eq('id', taskId);
-
-        console.log(`Task completed: ${taskId}`);
+      console.log(`Processing task: ${task.id}`);
+
+      // Process with LLM, using the client's provider and prompt profile if configured.
+      // Structured extraction runs alongside the summary; it is best-effort and never fails the task.
+      const client = await clientService.getClientById(task.client_id);
+      const provider = client?.workflow_settings?.llmProvider;
+      const [result, extraction] = await Promise.all([
+        processWithLLM(task.input, { provider, promptProfile: client?.prompt_profile }),
+        isExtractionEnabled() ? extractWithLLM(task.input, { provider }) : Promise.resolve(null),
+      ]);
+
+      if (!result.success) {
+        if (!(await taskQueueService.failTask(task.id, `Error: ${result.error.message}`, result.error.category))) {
+          console.warn(`Lease lost on task ${task.id}; leaving the failure to its new owner`);
+          return 'abandoned';
+        }
+        console.error(`Task failed: ${task.id} [${result.error.category}]`);
+        await this.sendFailureAlert(task, result.error.message);
+        return 'failed';
       }
+
+      // Make sure the lease was not lost while waiting on the LLM, otherwise another
+      // worker may already be producing a summary for the same task.
+      if (!(await taskQueueService.heartbeat(task.id))) {
+        console.warn(`Lease lost on task ${task.id}; discarding result`);
+        return 'abandoned';
+      }
+
+      // Save summary and create notification events
+      const summary = await summaryService.createSummary(task.id, task.client_id, result.content);
+
+      if (extraction?.success) {
+        await extractionService.createExtraction(summary, extraction.data, extraction.model).catch((err) => {
+          console.error(`Failed to save extraction for task ${task.id}:`, err);
+        });
+      } else if (extraction) {
+        console.warn(`Extraction failed for task ${task.id} [${extraction.error.category}]: ${extraction.error.message}`);
+      }
+
+      // Update task status to completed; losing the lease here means the reaper already
+      // handed the task to another worker, which will finish it
+      if (!(await taskQueueService.completeTask(task.id, result.content))) {
+        console.warn(`Lease lost on task ${task.id} before it was completed`);
+        return 'abandoned';
+      }
+
+      console.log(`Task completed: ${task.id}`);
+      return 'completed';
     } catch (error) {
-      console.error(`Error processing task ${taskId}:`, error);
+      console.error(`Error processing task ${task.id}:`, error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
 
       try {
-        await supabase
-          .from('tasks')
-          .update({
-            output: `Error: ${errorMessage}`,
-            status: 'failed',
-          })
-          .eq('id', taskId);
+        await taskQueueService.failTask(task.id, `Error: ${errorMessage}`, 'internal');
       } catch (updateError) {
         console.error(`Failed to update task status: ${updateError}`);
       }
+      await this.sendFailureAlert(task, errorMessage);
+      return 'failed';
+    } finally {
+      stopHeartbeat();
     }
   }
 
   /**
-   * Get pending tasks for background processing
+   * Email the failure alert (when ALERT_EMAIL is set); a failed alert is only logged
    */
-  async getPendingTasks(limit: number = 10): Promise<Array<{ id: string; input: string; client_id: string }>> {
-    const { data: tasks, error } = await supabase
-      .from('tasks')
-      .select('id, input, client_id')
-      .eq('status', 'pending')
-      .order('created_at', { ascending: true })
-      .limit(limit);
-
-    if (error) {
-      throw new Error(`Failed to fetch pending tasks: ${error.message}`);
+  private async sendFailureAlert(task: Task, errorMessage: string): Promise<void> {
+    try {
+      await emailService.sendTaskFailureAlert(task, errorMessage);
+    } catch (error) {
+      console.error(`Failed to send failure alert for task ${task.id}:`, error);
     }
-
-    return tasks || [];
   }
 
   /**
-   * Get recent tasks (for dashboard logs view)
+   * List tasks a page at a time (for dashboard logs view), optionally filtered by status,
+   * error category, client, creation time and/or free text.
+   *
+   * @param filters - Optional filters: status, errorCategory (e.g. 'rate_limit'), clientId,
+   *                  organizationId (only that organization's clients' tasks), from/to and q
+   *                  (matched against input, output and last error)
    */
-  async getRecentTasks(limit: number = 50): Promise<Task[]> {
-    const { data: tasks, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(limit);
-
-    if (error) {
-      throw new Error(`Failed to fetch tasks: ${error.message}`);
-    }
-
-    return tasks || [];
+  async listTasks(
+    filters: ListFilters & { status?: string; errorCategory?: string; clientId?: string; organizationId?: string },
+    page: PageOptions<ListSort<'tasks'>>
+  ): Promise<Page<Task>> {
+    const filter = <Q extends FilterableQuery>(query: Q): Q =>
+      applyListFilters(query, filters, {
+        search: TASK_SEARCH_COLUMNS,
+        equal: { status: filters.status, error_category: filters.errorCategory, client_id: filters.clientId },
+      });
+
+    return fetchPage<Task>(
+      filter(clientService.selectClientData<Task>('tasks', filters.organizationId)),
+      filter(clientService.selectClientData('tasks', filters.organizationId, 'id', { count: 'exact', head: true })),
+      page,
+      'tasks'
+    );
   }
 
   /**
-   * Update task status
+   * Count a client's tasks that finished (completed or failed) within [from, to),
+   * by the time they were last updated
    */
-  async updateTaskStatus(taskId: string, status: string, output?: string): Promise<void> {
-    const updateData: Record<string, string> = { status };
-    if (output !== undefined) {
-      updateData.output = output;
-    }
-
-    const { error } = await supabase
+  async countFinishedTasks(clientId: string, from: Date, to: Date): Promise<{ completed: number; failed: number }> {
+    const { data: tasks, error } = await supabase
       .from('tasks')
-      .update(updateData)
-      .eq('id', taskId);
+      .select('status')
+      .eq('client_id', clientId)
+      .in('status', ['completed', 'failed'])
+      .gte('updated_at', from.toISOString())
+      .lt('updated_at', to.toISOString());
 
     if (error) {
-      throw new Error(`Failed to update task status: ${error.message}`);
+      throw new Error(`Failed to count tasks: ${error.message}`);
     }
+
+    const rows: Pick<Task, 'status'>[] = tasks || [];
+    return {
+      completed: rows.filter((t) => t.status === 'completed').length,
+      failed: rows.filter((t) => t.status === 'failed').length,
+    };
   }
 }
 
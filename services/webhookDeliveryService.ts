@@ -0,0 +1,59 @@
+import supabase from '../database/supabase';
+
+/**
+ * How long accepted webhook ids are kept. Svix re-signs every retry, so a redelivery passes
+ * the 5-minute signature check. Its automatic retries span more than a day and a failed
+ * message can still be replayed by hand days later, so ids are kept well past that.
+ */
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Webhook Delivery Service
+ * Remembers accepted webhook ids so replayed or redelivered webhooks are processed once
+ */
+export class WebhookDeliveryService {
+  /**
+   * Record a webhook delivery before processing it
+   * @returns false if it was recorded before (a replay or redelivery)
+   */
+  async recordDelivery(source: string, id: string, now: Date = new Date()): Promise<boolean> {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .insert([{ source, id, received_at: now.toISOString() }]);
+
+    if (error) {
+      if (error.code === '23505') {
+        return false;
+      }
+      throw new Error(`Failed to record webhook delivery: ${error.message}`);
+    }
+
+    const { error: pruneError } = await supabase
+      .from('webhook_deliveries')
+      .delete()
+      .lt('received_at', new Date(now.getTime() - RETENTION_MS).toISOString());
+
+    if (pruneError) {
+      console.error('Failed to prune webhook deliveries:', pruneError.message);
+    }
+
+    return true;
+  }
+
+  /**
+   * Forget a delivery whose processing failed, so the sender's retry is accepted
+   */
+  async forgetDelivery(source: string, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .delete()
+      .eq('source', source)
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to forget webhook delivery: ${error.message}`);
+    }
+  }
+}
+
+export default new WebhookDeliveryService();
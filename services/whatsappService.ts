@@ -0,0 +1,318 @@
+import axios from 'axios';
+import supabase from '../database/supabase';
+import { getDueFilter } from '../lib/notificationRouting';
+import notificationService from './notificationService';
+import {
+  buildWhatsAppMessage,
+  normalizeWhatsAppNumber,
+  WhatsAppMessage,
+  WhatsAppMessageContent,
+  WhatsAppMessageKind,
+} from '../lib/whatsappTemplates';
+import { NotificationEvent, WhatsAppDeliveryStatus } from '../types/task';
+
+const DEFAULT_API_URL = 'https://graph.facebook.com/v21.0';
+
+/** Later statuses never move an event back to an earlier one (callbacks can arrive out of order) */
+const DELIVERY_STATUS_RANK: Record<WhatsAppDeliveryStatus, number> = { sent: 1, delivered: 2, read: 3, failed: 4 };
+
+/** Body of a Cloud API error response */
+interface WhatsAppErrorBody {
+  error?: { message?: string; code?: number };
+}
+
+/**
+ * Error from the WhatsApp Cloud API (or the network)
+ */
+export class WhatsAppApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly code?: number | string
+  ) {
+    super(message);
+    this.name = 'WhatsAppApiError';
+  }
+
+  /** Rate limits, server errors and network failures may succeed on a later attempt */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+/** A message status from a WhatsApp webhook (entry[].changes[].value.statuses[]) */
+export interface WhatsAppStatusUpdate {
+  id: string;
+  status: string;
+  errors?: Array<{ code?: number; title?: string; message?: string }>;
+}
+
+/**
+ * WhatsApp Service
+ * Sends notification events of type 'whatsapp' through the WhatsApp Cloud API to the
+ * client's phone, and applies the delivery statuses WhatsApp reports back.
+ * WHATSAPP_API_URL can point at any Cloud API compatible server (e.g. a local stand-in).
+ */
+export class WhatsAppService {
+  private retryBaseDelayMs: number;
+
+  constructor(options: { retryBaseDelayMs?: number } = {}) {
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+  }
+
+  /**
+   * Whether the access token and sender phone number id are set
+   */
+  isConfigured(): boolean {
+    return Boolean(process.env.WHATSAPP_ACCESS_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID);
+  }
+
+  /**
+   * Fetch pending WhatsApp notifications that are due, oldest first
+   */
+  async fetchPendingMessages(limit: number = 10): Promise<NotificationEvent[]> {
+    const { data: events, error } = await supabase
+      .from('notification_events')
+      .select('*')
+      .eq('type', 'whatsapp')
+      .eq('status', 'pending')
+      .or(getDueFilter())
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch pending WhatsApp messages: ${error.message}`);
+    }
+
+    return events || [];
+  }
+
+  /**
+   * Send a message through the Cloud API
+   *
+   * @param to - Recipient number, digits only with country code
+   * @returns The WhatsApp message id (wamid)
+   */
+  async sendMessage(to: string, message: WhatsAppMessage): Promise<{ id: string }> {
+    const baseUrl = (process.env.WHATSAPP_API_URL || DEFAULT_API_URL).replace(/\/+$/, '');
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to,
+          ...message,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: 15000,
+        }
+      );
+
+      const id = response.data?.messages?.[0]?.id;
+      if (!id) {
+        throw new WhatsAppApiError('WhatsApp API response did not include a message id', response.status);
+      }
+      return { id };
+    } catch (error) {
+      if (error instanceof WhatsAppApiError) throw error;
+      if (!axios.isAxiosError<WhatsAppErrorBody>(error)) {
+        throw new WhatsAppApiError(`WhatsApp API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      const apiError = error.response?.data?.error;
+      throw new WhatsAppApiError(
+        `WhatsApp API error: ${apiError?.message || error.message}`,
+        error.response?.status,
+        apiError?.code
+      );
+    }
+  }
+
+  /**
+   * Recipient and content for a notification: the client's phone, and the summary or
+   * stored report the event points at
+   */
+  async getMessageContent(
+    event: NotificationEvent
+  ): Promise<{ phone: string | null; kind: WhatsAppMessageKind; content: WhatsAppMessageContent } | null> {
+    const kind: WhatsAppMessageKind = event.report_id ? 'report' : 'summary';
+    const { data: source, error: sourceError } = await supabase
+      .from(kind === 'report' ? 'reports' : 'summaries')
+      .select(kind === 'report' ? 'content' : 'summary')
+      .eq('id', event.report_id || event.summary_id)
+      .single();
+
+    if (sourceError || !source) {
+      console.error(`Failed to fetch ${kind} for notification ${event.id}:`, sourceError?.message);
+      return null;
+    }
+    const text: string = kind === 'report' ? (source as { content: string }).content : (source as { summary: string }).summary;
+
+    const { data: client, error: clientError } = await supabase
+      .from('clients')
+      .select('name, phone')
+      .eq('id', event.client_id)
+      .single();
+
+    if (clientError || !client) {
+      console.error(`Failed to fetch client for notification ${event.id}:`, clientError?.message);
+      return null;
+    }
+
+    return {
+      phone: client.phone || null,
+      kind,
+      content: { clientName: client.name, content: text },
+    };
+  }
+
+  /**
+   * Send a single WhatsApp notification and record the outcome
+   * @returns Whether the message was accepted by WhatsApp
+   */
+  async processWhatsAppNotification(event: NotificationEvent): Promise<boolean> {
+    console.log(`\n--- Processing WhatsApp notification ${event.id} for client ${event.client_id} ---`);
+
+    try {
+      await notificationService.recordAttempt(event);
+
+      if (!this.isConfigured()) {
+        await this.markFailed(event.id, 'WhatsApp is not configured (WHATSAPP_ACCESS_TOKEN, WHATSAPP_PHONE_NUMBER_ID)', true);
+        return false;
+      }
+
+      const message = await this.getMessageContent(event);
+      if (!message) {
+        await this.markFailed(event.id, event.report_id ? 'Report not found' : 'Summary content not found');
+        return false;
+      }
+
+      const to = normalizeWhatsAppNumber(message.phone);
+      if (!to) {
+        const reason = message.phone ? `Invalid client phone: ${message.phone}` : 'Client phone not found';
+        await this.markFailed(event.id, reason, true);
+        return false;
+      }
+
+      const { id } = await this.sendWithRetry(to, buildWhatsAppMessage(message.kind, message.content));
+
+      await this.markSent(event.id, id);
+      console.log(`✓ WhatsApp notification ${event.id} accepted (${id})`);
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`✗ Failed to process WhatsApp notification ${event.id}:`, errorMessage);
+
+      await this.markFailed(event.id, errorMessage, error instanceof WhatsAppApiError && !error.retryable);
+      return false;
+    }
+  }
+
+  /**
+   * Apply a delivery status reported by WhatsApp to the matching notification event
+   * @returns false if no event has that message id
+   */
+  async applyStatusUpdate(update: WhatsAppStatusUpdate): Promise<boolean> {
+    const status = update.status as WhatsAppDeliveryStatus;
+    if (!Object.prototype.hasOwnProperty.call(DELIVERY_STATUS_RANK, status)) {
+      return false; // e.g. 'deleted', 'warning'
+    }
+
+    const { data: event, error } = await supabase
+      .from('notification_events')
+      .select('*')
+      .eq('provider_message_id', update.id)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return false; // Not one of ours
+      }
+      // The webhook answers 500, so WhatsApp delivers the status again later
+      throw new Error(`Failed to fetch notification: ${error.message}`);
+    }
+
+    const current = event.delivery_status as WhatsAppDeliveryStatus | null;
+    if (current && DELIVERY_STATUS_RANK[current] >= DELIVERY_STATUS_RANK[status]) {
+      return true;
+    }
+
+    const changes: Partial<NotificationEvent> =
+      status === 'failed'
+        ? {
+            delivery_status: status,
+            status: 'failed',
+            last_error: update.errors?.[0]?.message || update.errors?.[0]?.title || 'Delivery failed',
+            // WhatsApp already tried to deliver it; sending it again would not change that
+            permanent_failure: true,
+          }
+        : { delivery_status: status };
+
+    const { error: updateError } = await supabase
+      .from('notification_events')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', event.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update delivery status: ${updateError.message}`);
+    }
+
+    console.log(`WhatsApp notification ${event.id} is now ${status}`);
+    return true;
+  }
+
+  private async markSent(eventId: string, providerMessageId: string): Promise<void> {
+    await this.updateEvent(eventId, {
+      status: 'sent',
+      delivery_status: 'sent',
+      provider_message_id: providerMessageId,
+      last_error: null,
+    });
+  }
+
+  /**
+   * Mark an event failed
+   * @param permanent - Retrying cannot help; the retry worker skips it
+   */
+  private async markFailed(eventId: string, errorMessage: string, permanent: boolean = false): Promise<void> {
+    console.error(`Error for notification ${eventId}: ${errorMessage}`);
+    await this.updateEvent(eventId, { status: 'failed', last_error: errorMessage, permanent_failure: permanent });
+  }
+
+  private async updateEvent(eventId: string, changes: Partial<NotificationEvent>): Promise<void> {
+    const { error } = await supabase
+      .from('notification_events')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', eventId);
+
+    if (error) {
+      throw new Error(`Failed to update notification status: ${error.message}`);
+    }
+  }
+
+  /**
+   * Send with exponential backoff; errors WhatsApp will not accept on retry (invalid
+   * number, unapproved template, bad token) fail immediately
+   */
+  private async sendWithRetry(to: string, message: WhatsAppMessage, maxRetries: number = 3): Promise<{ id: string }> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendMessage(to, message);
+      } catch (error) {
+        const retryable = error instanceof WhatsAppApiError && error.retryable;
+        if (!retryable || attempt >= maxRetries) throw error;
+
+        const delayMs = Math.min(this.retryBaseDelayMs * Math.pow(2, attempt - 1), 10000);
+        console.log(`WhatsApp attempt ${attempt}/${maxRetries} failed, retrying in ${delayMs}ms...`);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+}
+
+export default new WhatsAppService();
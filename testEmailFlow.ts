@@ -104,7 +104,7 @@ async function runEmailFlowTest() {
         const originalConsoleLog = console.log;
         console.log = () => { };
 
-        const isSuccess = await emailService.processEmailNotification(event);
+        const isSuccess = (await emailService.processEmailNotification(event)) === 'sent';
 
         console.error = originalConsoleError;
         console.log = originalConsoleLog;
@@ -2,6 +2,11 @@ import dotenv from "dotenv";
 dotenv.config(); // <-- this loads .env variables
 import { processWithLLM } from "./workers/llmWorker";
 (async () => {
-    const summary = await processWithLLM("This is a test email. Please summarize it for a professional report.");
-    console.log("LLM Output:", summary);
+    const result = await processWithLLM("This is a test email. Please summarize it for a professional report.");
+    if (result.success) {
+        console.log("LLM Output:", result.content);
+        console.log("Model:", result.model, "Usage:", result.usage);
+    } else {
+        console.log("LLM Error:", result.error);
+    }
 })();
@@ -3,12 +3,34 @@
  * Provides in-memory mock for Supabase operations during testing
  */
 
+/** A stored row: its columns by name */
+type MockRow = Record<string, unknown>;
+
+/** What a query resolves to, shaped like supabase-js's response */
+interface MockResult {
+  data: MockRow | MockRow[] | null;
+  error: { code?: string; message: string } | null;
+  count?: number | null;
+}
+
 type MockData = {
-  clients: any[];
-  tasks: any[];
-  summaries: any[];
-  notification_events: any[];
-  emails: any[];
+  clients: Record<string, unknown>[];
+  tasks: Record<string, unknown>[];
+  summaries: Record<string, unknown>[];
+  notification_events: Record<string, unknown>[];
+  emails: Record<string, unknown>[];
+  extractions: Record<string, unknown>[];
+  reports: Record<string, unknown>[];
+  report_digests: Record<string, unknown>[];
+  app_settings: Record<string, unknown>[];
+  notification_delivery_events: Record<string, unknown>[];
+  webhook_deliveries: Record<string, unknown>[];
+  api_keys: Record<string, unknown>[];
+  sessions: Record<string, unknown>[];
+  organizations: Record<string, unknown>[];
+  users: Record<string, unknown>[];
+  organization_members: Record<string, unknown>[];
+  organization_invitations: Record<string, unknown>[];
 };
 
 const mockData: MockData = {
@@ -17,41 +39,207 @@ const mockData: MockData = {
   summaries: [],
   notification_events: [],
   emails: [],
+  extractions: [],
+  reports: [],
+  report_digests: [],
+  app_settings: [],
+  notification_delivery_events: [],
+  webhook_deliveries: [],
+  api_keys: [],
+  sessions: [],
+  organizations: [],
+  users: [],
+  organization_members: [],
+  organization_invitations: [],
+};
+
+/** Tables keyed by other columns, which get no generated id */
+const TABLES_WITHOUT_ID: (keyof MockData)[] = ['app_settings', 'organization_members'];
+
+/** Insert-only tables, which have no updated_at column */
+const TABLES_WITHOUT_UPDATED_AT: (keyof MockData)[] = [
+  'summaries',
+  'extractions',
+  'reports',
+  'notification_delivery_events',
+  'webhook_deliveries',
+  'sessions',
+  'organization_invitations',
+];
+
+/**
+ * Split a PostgREST logic tree on its top-level commas, keeping quoted values and nested
+ * and()/or() groups whole
+ */
+const splitConditions = (conditions: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (let i = 0; i < conditions.length; i++) {
+    const char = conditions[i];
+    if (quoted && char === '\\') {
+      current += char + conditions[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current];
+};
+
+/** SQL ILIKE: % and _ are wildcards unless escaped with a backslash */
+const ilikeMatches = (actual: unknown, pattern: string): boolean => {
+  const regex = pattern.replace(/\\(.)|([%_])|([^%_\\]+)/g, (_match, escaped, wildcard, text) => {
+    if (escaped !== undefined) return escaped.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (wildcard !== undefined) return wildcard === '%' ? '.*' : '.';
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  });
+  return new RegExp(`^${regex}$`, 'is').test(String(actual));
+};
+
+/**
+ * A column of the row, or of an embedded row for 'table.column' (e.g. 'clients.organization_id',
+ * through the row's client_id), like filters on an inner-joined resource
+ */
+const columnValue = (item: MockRow, column: string): unknown => {
+  const [relation, field] = column.split('.');
+  if (field === undefined) return item[relation];
+  const foreignKey = `${relation.replace(/s$/, '')}_id`;
+  const related = mockData[relation as keyof MockData].find((row) => row.id === item[foreignKey]);
+  return related?.[field];
+};
+
+/**
+ * Order two column values like the comparison operators do: numerically when either is a
+ * number, otherwise as text (ISO timestamps sort correctly as text). Missing values tie.
+ */
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a == null || b == null) return 0;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+  const [left, right] = [String(a), String(b)];
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+/** A test for one PostgREST condition: 'column.operator.value', 'and(...)' or 'or(...)' */
+const parseCondition = (condition: string): ((item: MockRow) => boolean) => {
+  const group = /^(and|or)\((.*)\)$/.exec(condition);
+  if (group) {
+    const tests = splitConditions(group[2]).map(parseCondition);
+    return group[1] === 'and' ? (item) => tests.every((test) => test(item)) : (item) => tests.some((test) => test(item));
+  }
+
+  const [, column, operator, raw] = /^([^.]+)\.([^.]+)\.(.*)$/.exec(condition)!;
+  const unquote = (text: string) => text.replace(/^"(.*)"$/, '$1').replace(/\\(["\\])/g, '$1');
+  const value = unquote(raw);
+  if (operator === 'in') {
+    const values = splitConditions(raw.slice(1, -1)).map(unquote);
+    return (item) => values.includes(String(item[column] ?? null));
+  }
+  return (item) => {
+    const actual = item[column] ?? null;
+    if (operator === 'is') return actual === (value === 'null' ? null : value === 'true');
+    if (actual === null) return false;
+    if (operator === 'eq') return String(actual) === value;
+    if (operator === 'neq') return String(actual) !== value;
+    if (operator === 'lt') return compareValues(actual, value) < 0;
+    if (operator === 'lte') return compareValues(actual, value) <= 0;
+    if (operator === 'gt') return compareValues(actual, value) > 0;
+    if (operator === 'gte') return compareValues(actual, value) >= 0;
+    if (operator === 'ilike') return ilikeMatches(actual, value);
+    throw new Error(`Unsupported filter operator in mock: ${operator}`);
+  };
 };
 
 const createMockQueryBuilder = (table: keyof MockData) => {
-  const filters: Record<string, any> = {};
-  let orderConfig: { column: string; ascending: boolean } | null = null;
+  const filters: Array<(item: MockRow) => boolean> = [];
+  const orderConfig: { column: string; ascending: boolean }[] = [];
   let limitValue: number | null = null;
+  let countOnly = false;
+  let countRows = false;
 
   let operation: 'select' | 'insert' | 'update' | 'delete' | null = null;
-  let operationData: any = null;
+  let operationData: MockRow[] = [];
 
   const queryBuilder = {
-    select: (_fields = '*') => {
+    select: (_fields = '*', options: { count?: 'exact'; head?: boolean } = {}) => {
       if (!operation) operation = 'select';
+      countRows = options.count !== undefined;
+      countOnly = options.head === true;
       return queryBuilder;
     },
-    insert: (data: any[]) => {
+    insert: (data: MockRow[]) => {
       operation = 'insert';
       operationData = data;
       return queryBuilder;
     },
-    update: (data: any) => {
+    update: (data: MockRow) => {
       operation = 'update';
-      operationData = data;
+      operationData = [data];
       return queryBuilder;
     },
     delete: () => {
       operation = 'delete';
       return queryBuilder;
     },
-    eq: (column: string, value: any) => {
-      filters[column] = value;
+    eq: (column: string, value: unknown) => {
+      filters.push((item) => columnValue(item, column) === value);
+      return queryBuilder;
+    },
+    neq: (column: string, value: unknown) => {
+      filters.push((item) => item[column] !== value);
+      return queryBuilder;
+    },
+    lt: (column: string, value: unknown) => {
+      filters.push((item) => item[column] != null && compareValues(item[column], value) < 0);
+      return queryBuilder;
+    },
+    lte: (column: string, value: unknown) => {
+      filters.push((item) => item[column] != null && compareValues(item[column], value) <= 0);
+      return queryBuilder;
+    },
+    gt: (column: string, value: unknown) => {
+      filters.push((item) => item[column] != null && compareValues(item[column], value) > 0);
+      return queryBuilder;
+    },
+    gte: (column: string, value: unknown) => {
+      filters.push((item) => item[column] != null && compareValues(item[column], value) >= 0);
+      return queryBuilder;
+    },
+    in: (column: string, values: unknown[]) => {
+      filters.push((item) => values.includes(item[column]));
+      return queryBuilder;
+    },
+    is: (column: string, value: null | boolean) => {
+      filters.push((item) => (item[column] ?? null) === value);
+      return queryBuilder;
+    },
+    ilike: (column: string, pattern: string) => {
+      filters.push((item) => item[column] != null && ilikeMatches(item[column], pattern));
+      return queryBuilder;
+    },
+    match: (query: Record<string, unknown>) => {
+      filters.push((item) => Object.entries(query).every(([column, value]) => columnValue(item, column) === value));
+      return queryBuilder;
+    },
+    filter: (column: string, operator: string, value: string) => {
+      filters.push(parseCondition(`${column}.${operator}.${value}`));
+      return queryBuilder;
+    },
+    // PostgREST `or` filter: 'column.operator.value' conditions and and(...) groups separated by commas
+    or: (conditions: string) => {
+      filters.push(parseCondition(`or(${conditions})`));
       return queryBuilder;
     },
     order: (column: string, { ascending = true } = {}) => {
-      orderConfig = { column, ascending };
+      orderConfig.push({ column, ascending });
       return queryBuilder;
     },
     limit: (value: number) => {
@@ -59,7 +247,7 @@ const createMockQueryBuilder = (table: keyof MockData) => {
       return queryBuilder;
     },
     single: () => {
-      return queryBuilder.then((res: any) => {
+      return queryBuilder.then((res): MockResult => {
         if (res.error) return res;
         if (!res.data || (Array.isArray(res.data) && res.data.length === 0)) {
           return { data: null, error: { code: 'PGRST116', message: 'No rows found' } };
@@ -67,16 +255,20 @@ const createMockQueryBuilder = (table: keyof MockData) => {
         return { data: Array.isArray(res.data) ? res.data[0] : res.data, error: null };
       });
     },
-    then: (resolve: (res: { data: any; error: any }) => void, reject?: (reason: any) => void) => {
+    then: <Resolved = MockResult, Rejected = never>(
+      resolve?: (res: MockResult) => Resolved | PromiseLike<Resolved>,
+      reject?: (reason: unknown) => Rejected | PromiseLike<Rejected>
+    ): Promise<Resolved | Rejected> => {
       // Execute logic based on operation
-      let resultData: any = null;
-      let error: any = null;
+      let resultData: MockRow[] | null = null;
+      let error: MockResult['error'] = null;
+      let count: number | null = null;
 
       try {
         if (operation === 'insert') {
           // Enforce FK for summaries
           if (table === 'summaries') {
-            const hasInvalidFK = operationData.some((item: any) => {
+            const hasInvalidFK = operationData.some((item) => {
               const taskExists = mockData.tasks.find((t) => t.id === item.task_id);
               return !taskExists;
             });
@@ -86,69 +278,157 @@ const createMockQueryBuilder = (table: keyof MockData) => {
             }
           }
 
-          const items = operationData.map((item: any) => ({
+          // Enforce unique (client_id, frequency, period_key) for reports
+          if (table === 'reports') {
+            const isDuplicate = operationData.some((item) =>
+              mockData.reports.some(
+                (r) =>
+                  r.client_id === item.client_id &&
+                  r.frequency === item.frequency &&
+                  r.period_key === item.period_key
+              )
+            );
+            if (isDuplicate) {
+              error = { code: '23505', message: 'duplicate key value violates unique constraint' };
+              throw error;
+            }
+          }
+
+          // Enforce unique (client_id, period_start, period_end) for report digests
+          if (table === 'report_digests') {
+            const isDuplicate = operationData.some((item) =>
+              mockData.report_digests.some(
+                (d) =>
+                  d.client_id === item.client_id &&
+                  d.period_start === item.period_start &&
+                  d.period_end === item.period_end
+              )
+            );
+            if (isDuplicate) {
+              error = { code: '23505', message: 'duplicate key value violates unique constraint' };
+              throw error;
+            }
+          }
+
+          // Enforce primary key for app settings
+          if (table === 'app_settings') {
+            const isDuplicate = operationData.some((item) =>
+              mockData.app_settings.some((setting) => setting.key === item.key)
+            );
+            if (isDuplicate) {
+              error = { code: '23505', message: 'duplicate key value violates unique constraint' };
+              throw error;
+            }
+          }
+
+          // Enforce primary key (source, id) for webhook deliveries
+          if (table === 'webhook_deliveries') {
+            const isDuplicate = operationData.some((item) =>
+              mockData.webhook_deliveries.some((d) => d.source === item.source && d.id === item.id)
+            );
+            if (isDuplicate) {
+              error = { code: '23505', message: 'duplicate key value violates unique constraint' };
+              throw error;
+            }
+          }
+
+          // Enforce unique email for users
+          if (table === 'users') {
+            const isDuplicate = operationData.some((item) =>
+              mockData.users.some((u) => u.email === item.email)
+            );
+            if (isDuplicate) {
+              error = { code: '23505', message: 'duplicate key value violates unique constraint' };
+              throw error;
+            }
+          }
+
+          // Enforce primary key (organization_id, user_id) for organization members
+          if (table === 'organization_members') {
+            const isDuplicate = operationData.some((item) =>
+              mockData.organization_members.some(
+                (m) => m.organization_id === item.organization_id && m.user_id === item.user_id
+              )
+            );
+            if (isDuplicate) {
+              error = { code: '23505', message: 'duplicate key value violates unique constraint' };
+              throw error;
+            }
+          }
+
+          // Enforce unique (report_id, type) for report notifications
+          if (table === 'notification_events') {
+            const isDuplicate = operationData.some(
+              (item) =>
+                item.report_id &&
+                mockData.notification_events.some((e) => e.report_id === item.report_id && e.type === item.type)
+            );
+            if (isDuplicate) {
+              error = { code: '23505', message: 'duplicate key value violates unique constraint' };
+              throw error;
+            }
+          }
+
+          const items = operationData.map((item) => ({
             ...item,
-            id: item.id || `mock-${Date.now()}-${Math.random()}`,
+            ...(TABLES_WITHOUT_ID.includes(table) ? {} : { id: item.id || `mock-${Date.now()}-${Math.random()}` }),
             created_at: item.created_at || new Date().toISOString(),
-            updated_at: item.updated_at || new Date().toISOString(),
+            ...(TABLES_WITHOUT_UPDATED_AT.includes(table) ? {} : { updated_at: item.updated_at || new Date().toISOString() }),
           }));
           mockData[table].push(...items);
           resultData = items;
         } else if (operation === 'update') {
-          const updatedItems: any[] = [];
+          const updatedItems: MockRow[] = [];
           mockData[table].forEach((item, _index) => {
-            const matches = Object.entries(filters).every(
-              ([key, value]) => item[key] === value
-            );
+            const matches = filters.every((filter) => filter(item));
             if (matches) {
-              Object.assign(item, operationData, { updated_at: new Date().toISOString() });
+              Object.assign(item, operationData[0], TABLES_WITHOUT_UPDATED_AT.includes(table) ? {} : { updated_at: new Date().toISOString() });
               updatedItems.push(item);
             }
           });
-          resultData = updatedItems.length === 1 ? updatedItems[0] : updatedItems;
-          // Supabase update returns null data by default unless .select() is called, 
-          // but for this mock we'll return null to mimic default behavior or the updated items if needed.
-          // For simplicity in tests, let's return null to mimic default 'do not return data'.
-          // However, checking usage in tasks.ts: it awaits update but doesn't use return value usually.
+          // Like PostgREST with `.select()`, return the updated rows as an array
+          // (an empty array when the filters matched nothing).
+          resultData = updatedItems.map((item) => ({ ...item }));
         } else if (operation === 'delete') {
           const indicesToDelete: number[] = [];
           mockData[table].forEach((item, index) => {
-            const matches = Object.entries(filters).every(
-              ([key, value]) => item[key] === value
-            );
+            const matches = filters.every((filter) => filter(item));
             if (matches) indicesToDelete.push(index);
           });
           // Delete in reverse order to correct indices
+          const deletedItems: MockRow[] = [];
           for (let i = indicesToDelete.length - 1; i >= 0; i--) {
-            mockData[table].splice(indicesToDelete[i], 1);
+            deletedItems.unshift(...mockData[table].splice(indicesToDelete[i], 1));
           }
-          resultData = null;
+          // Like PostgREST with `.select()`, return the deleted rows
+          resultData = deletedItems;
         } else {
           // SELECT
           let results = mockData[table].filter((item) =>
-            Object.entries(filters).every(([key, value]) => item[key] === value)
+            filters.every((filter) => filter(item))
           );
 
-          if (orderConfig) {
-            results.sort((a, b) => {
-              const aVal = a[orderConfig!.column];
-              const bVal = b[orderConfig!.column];
-              const comparison = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-              return orderConfig!.ascending ? comparison : -comparison;
-            });
-          }
+          results.sort((a, b) => {
+            for (const { column, ascending } of orderConfig) {
+              const comparison = compareValues(a[column], b[column]);
+              if (comparison !== 0) return ascending ? comparison : -comparison;
+            }
+            return 0;
+          });
 
+          count = results.length;
           if (limitValue !== null) {
             results = results.slice(0, limitValue);
           }
 
-          resultData = results;
+          resultData = countOnly ? null : results;
         }
       } catch (err) {
-        error = err;
+        // The checks above set error before throwing; anything else is a bug in the mock
+        error = error ?? { message: err instanceof Error ? err.message : String(err) };
       }
 
-      return Promise.resolve({ data: resultData, error }).then(resolve, reject);
+      return Promise.resolve({ data: resultData, error, ...(countRows ? { count } : {}) }).then(resolve, reject);
     }
   };
 
@@ -168,11 +448,33 @@ export const clearMockData = () => {
   mockData.summaries = [];
   mockData.notification_events = [];
   mockData.emails = [];
+  mockData.extractions = [];
+  mockData.reports = [];
+  mockData.report_digests = [];
+  mockData.app_settings = [];
+  mockData.notification_delivery_events = [];
+  mockData.webhook_deliveries = [];
+  mockData.api_keys = [];
+  mockData.sessions = [];
+  mockData.organizations = [];
+  mockData.users = [];
+  mockData.organization_members = [];
+  mockData.organization_invitations = [];
 };
 
 // Export function to get mock data for assertions
 export const getMockData = () => mockData;
 
+/**
+ * A stored row typed as the service code reads it, for handing fixtures straight to a
+ * service. Fixtures leave out columns the code under test never reads.
+ */
+export const getMockRow = <T>(table: keyof MockData, id: string): T => {
+  const row = mockData[table].find((item) => item.id === id);
+  if (!row) throw new Error(`No ${table} row with id ${id} in the mock data`);
+  return row as T;
+};
+
 // Mock the supabase module - export an instance (not the factory) so services
 // can call `.from(...)` directly on the default export.
 jest.mock('../../database/supabase', () => ({
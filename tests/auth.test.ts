@@ -0,0 +1,254 @@
+/**
+ * Auth Test Suite
+ * Tests for API keys, scopes, dashboard login sessions and the auth middleware
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { hashPassword, hasScope, hashToken, isAuthDisabled, verifyPassword } from '../lib/auth';
+import { validate } from '../lib/schema';
+import { createApiKeyRequest } from '../lib/apiSchemas';
+import organizationService from '../services/organizationService';
+
+const PASSWORD = 'correct horse battery staple';
+const OWNER = 'owner@agency.test';
+const WEBHOOK_EMAIL = { clientId: 'client-1', sender: 'ops@acme.test', subject: 'Report', body: 'Please update the report' };
+
+/**
+ * Log in as the organization's owner
+ * @returns The session token
+ */
+async function login(): Promise<string> {
+  const response = await request(app).post('/auth/login').send({ email: OWNER, password: PASSWORD }).expect(200);
+  return response.body.token;
+}
+
+/**
+ * Create an API key with an admin session
+ * @returns The key
+ */
+async function createKey(scopes: string[]): Promise<string> {
+  const session = await login();
+  const response = await request(app)
+    .post('/auth/api-keys')
+    .set('Authorization', `Bearer ${session}`)
+    .send({ name: 'Test key', scopes })
+    .expect(201);
+  return response.body.key;
+}
+
+describe('Authentication', () => {
+  beforeEach(async () => {
+    clearMockData();
+    delete process.env.AUTH_DISABLED;
+    getMockData().organizations.push({ id: 'org-1', name: 'Agency' });
+    const owner = await organizationService.createUser(OWNER, PASSWORD, 'Owner');
+    await organizationService.addMember('org-1', owner!.id, 'owner');
+  });
+
+  afterEach(() => {
+    clearMockData();
+    process.env.AUTH_DISABLED = 'true';
+  });
+
+  describe('scopes', () => {
+    it('should let admin do everything and write imply read', () => {
+      expect(hasScope(['admin'], 'webhook')).toBe(true);
+      expect(hasScope(['write'], 'read')).toBe(true);
+      expect(hasScope(['read'], 'write')).toBe(false);
+      expect(hasScope(['write'], 'webhook')).toBe(false);
+      expect(hasScope(['webhook'], 'read')).toBe(false);
+    });
+
+    it('should validate requested scopes', () => {
+      const errorsFor = (scopes: unknown) => validate(createApiKeyRequest.body, { name: 'Key', scopes }).errors;
+
+      expect(errorsFor(['read', 'webhook'])).toBeUndefined();
+      expect(errorsFor([])).toEqual([{ field: 'scopes', message: 'must be a non-empty array' }]);
+      expect(errorsFor(['read', 'root'])).toEqual([
+        { field: 'scopes[1]', message: 'must be one of: read, write, webhook, admin' },
+      ]);
+    });
+
+    it('should hash passwords with a salt', async () => {
+      const [first, second] = await Promise.all([hashPassword(PASSWORD), hashPassword(PASSWORD)]);
+
+      expect(first).toMatch(/^scrypt\$/);
+      expect(first).not.toBe(second);
+      expect(await verifyPassword(PASSWORD, first)).toBe(true);
+      expect(await verifyPassword('wrong password', first)).toBe(false);
+      expect(await verifyPassword(PASSWORD, 'not-a-hash')).toBe(false);
+    });
+
+    it('should never disable auth in production', () => {
+      process.env.AUTH_DISABLED = 'true';
+      expect(isAuthDisabled()).toBe(true);
+
+      process.env.NODE_ENV = 'production';
+      expect(isAuthDisabled()).toBe(false);
+      process.env.NODE_ENV = 'test';
+    });
+  });
+
+  describe('POST /auth/login', () => {
+    it('should issue a session token that authenticates requests', async () => {
+      const response = await request(app).post('/auth/login').send({ email: 'Owner@Agency.test', password: PASSWORD }).expect(200);
+
+      expect(response.body).toMatchObject({ organizationId: 'org-1', role: 'owner' });
+      expect(response.body.token).toMatch(/^inc_sess_/);
+      expect(new Date(response.body.expiresAt).getTime()).toBeGreaterThan(Date.now());
+      expect(getMockData().sessions[0].token_hash).toBe(hashToken(response.body.token));
+
+      await request(app).get('/clients').set('Authorization', `Bearer ${response.body.token}`).expect(200);
+      const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${response.body.token}`).expect(200);
+      expect(me.body.auth).toMatchObject({ type: 'session', organizationId: 'org-1', scopes: ['admin'], role: 'owner' });
+    });
+
+    it('should reject a wrong password, an unknown email and a user without an organization', async () => {
+      await request(app).post('/auth/login').send({ email: OWNER, password: 'guess' }).expect(401);
+      await request(app).post('/auth/login').send({ email: 'nobody@agency.test', password: PASSWORD }).expect(401);
+      await request(app).post('/auth/login').send({ email: OWNER, password: PASSWORD, organizationId: 'org-2' }).expect(401);
+      await request(app).post('/auth/login').send({ password: PASSWORD }).expect(400);
+
+      await organizationService.createUser('loner@agency.test', PASSWORD);
+      await request(app).post('/auth/login').send({ email: 'loner@agency.test', password: PASSWORD }).expect(401);
+
+      expect(getMockData().sessions).toHaveLength(0);
+    });
+
+    it('should reject the session after logout or expiry', async () => {
+      const token = await login();
+      await request(app).post('/auth/logout').set('Authorization', `Bearer ${token}`).expect(200);
+      await request(app).get('/clients').set('Authorization', `Bearer ${token}`).expect(401);
+
+      const expired = await login();
+      getMockData().sessions[0].expires_at = new Date(Date.now() - 1000).toISOString();
+      await request(app).get('/clients').set('Authorization', `Bearer ${expired}`).expect(401);
+    });
+  });
+
+  describe('requireAuth', () => {
+    it('should reject requests without a valid token', async () => {
+      const missing = await request(app).get('/clients').expect(401);
+      expect(missing.body).toEqual({ error: 'Unauthorized', message: 'Missing API key or session token' });
+
+      await request(app).get('/clients').set('Authorization', 'Bearer inc_key_unknown').expect(401);
+      await request(app).post('/email-webhook').send(WEBHOOK_EMAIL).expect(401);
+      expect(getMockData().tasks).toHaveLength(0);
+    });
+
+    it('should leave the health check and signed webhooks to their own checks', async () => {
+      await request(app).get('/health').expect(200);
+      await request(app).post('/webhooks/resend').send({}).expect(503);
+      await request(app).post('/auth/login').send({ email: OWNER, password: PASSWORD }).expect(200);
+    });
+
+    it('should allow GET requests with a read key and refuse changes', async () => {
+      const key = await createKey(['read']);
+
+      await request(app).get('/clients').set('Authorization', `Bearer ${key}`).expect(200);
+      await request(app).get('/summaries').set('X-API-Key', key).expect(200);
+
+      const denied = await request(app).post('/clients').set('Authorization', `Bearer ${key}`).send({ name: 'Acme' }).expect(403);
+      expect(denied.body.message).toBe('This token lacks the "write" scope');
+      expect(getMockData().clients).toHaveLength(0);
+    });
+
+    it('should only let webhook keys call the email webhook', async () => {
+      getMockData().clients.push({ id: 'client-1', organization_id: 'org-1', name: 'Acme' });
+      const webhookKey = await createKey(['webhook']);
+      const writeKey = await createKey(['write']);
+
+      await request(app).get('/clients').set('X-API-Key', webhookKey).expect(403);
+      await request(app)
+        .post('/email-webhook')
+        .set('X-API-Key', writeKey)
+        .send(WEBHOOK_EMAIL)
+        .expect(403);
+      await request(app)
+        .post('/email-webhook')
+        .set('X-API-Key', webhookKey)
+        .send(WEBHOOK_EMAIL)
+        .expect(200);
+    });
+  });
+
+  describe('requireOperator', () => {
+    const OPERATOR_KEY = 'operator-secret-key';
+
+    beforeEach(() => {
+      process.env.OPERATOR_API_KEY = OPERATOR_KEY;
+    });
+
+    afterEach(() => {
+      delete process.env.OPERATOR_API_KEY;
+    });
+
+    it('should keep worker stats and the shared retry policy from organization owners', async () => {
+      const session = await login();
+
+      await request(app).get('/workers/stats').set('Authorization', `Bearer ${session}`).expect(403);
+      const denied = await request(app)
+        .put('/settings/notification-retry')
+        .set('Authorization', `Bearer ${session}`)
+        .send({ enabled: false })
+        .expect(403);
+      expect(denied.body.message).toBe('Only the platform operator key can use this endpoint');
+      expect(getMockData().app_settings).toHaveLength(0);
+
+      // Reading the policy stays open to every organization
+      await request(app).get('/settings/notification-retry').set('Authorization', `Bearer ${session}`).expect(200);
+    });
+
+    it('should let the operator key through, and no one while it is unset', async () => {
+      await request(app).get('/workers/stats').set('X-API-Key', OPERATOR_KEY).expect(200);
+      await request(app).put('/settings/notification-retry').set('Authorization', `Bearer ${OPERATOR_KEY}`).send({ maxRetries: 1 }).expect(200);
+      await request(app).get('/workers/stats').expect(401);
+
+      delete process.env.OPERATOR_API_KEY;
+      await request(app).get('/workers/stats').set('X-API-Key', OPERATOR_KEY).expect(403);
+    });
+  });
+
+  describe('API keys', () => {
+    it('should store only the hash and never return it', async () => {
+      const key = await createKey(['read', 'write']);
+      const session = await login();
+
+      expect(key).toMatch(/^inc_key_/);
+      expect(getMockData().api_keys[0]).toMatchObject({ key_hash: hashToken(key), key_prefix: key.slice(0, 14) });
+
+      const list = await request(app).get('/auth/api-keys').set('Authorization', `Bearer ${session}`).expect(200);
+      expect(list.body.count).toBe(1);
+      expect(list.body.apiKeys[0]).toMatchObject({ name: 'Test key', scopes: ['read', 'write'] });
+      expect(list.body.apiKeys[0].key_hash).toBeUndefined();
+      expect(JSON.stringify(list.body)).not.toContain(key);
+    });
+
+    it('should require admin and valid scopes to create keys', async () => {
+      const key = await createKey(['write']);
+      const session = await login();
+
+      await request(app).post('/auth/api-keys').set('X-API-Key', key).send({ name: 'Mine', scopes: ['admin'] }).expect(403);
+      await request(app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${session}`)
+        .send({ name: 'Bad', scopes: ['everything'] })
+        .expect(400);
+    });
+
+    it('should reject a key once revoked and record its last use', async () => {
+      const key = await createKey(['read']);
+      const session = await login();
+      const [apiKey] = getMockData().api_keys;
+
+      await request(app).get('/clients').set('X-API-Key', key).expect(200);
+      expect(apiKey.last_used_at).toBeTruthy();
+
+      await request(app).delete(`/auth/api-keys/${apiKey.id}`).set('Authorization', `Bearer ${session}`).expect(200);
+      await request(app).delete(`/auth/api-keys/${apiKey.id}`).set('Authorization', `Bearer ${session}`).expect(404);
+      await request(app).get('/clients').set('X-API-Key', key).expect(401);
+    });
+  });
+});
@@ -1,11 +1,16 @@
 /**
  * Client Endpoints Test Suite
- * Tests for POST /clients, GET /clients, GET /clients/:id
+ * Tests for POST /clients, GET /clients, GET /clients/:id, PATCH /clients/:id, archiving,
+ * deleting and prompt profiles
  */
 
 import request from 'supertest';
 import app from '../orchestrator';
 import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { resetOpenAIMock, setOpenAIMockResponse, mockOpenAI } from './__mocks__/openai.mock';
+import { buildSystemPrompt, DEFAULT_SYSTEM_PROMPT } from '../lib/promptProfiles';
+import { CLIENT_ARCHIVED_REASON, routeNotification } from '../lib/notificationRouting';
+import inboundEmailService from '../services/inboundEmailService';
 
 describe('Client Endpoints', () => {
   // Setup and teardown
@@ -90,7 +95,7 @@ describe('Client Endpoints', () => {
         .expect(400);
 
       expect(response.body).toHaveProperty('error', 'Invalid request');
-      expect(response.body.message).toContain('non-empty "name" field');
+      expect(response.body.errors).toEqual([{ field: 'name', location: 'body', message: 'is required' }]);
     });
 
     it('should return 400 if name is empty string', async () => {
@@ -326,4 +331,308 @@ describe('Client Endpoints', () => {
       expect(get2.body.client.name).toBe('Client B');
     });
   });
+
+  describe('PATCH /clients/:id', () => {
+    let clientId: string;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/clients')
+        .send({
+          name: 'Acme',
+          email: 'old@acme.test',
+          phone: '+34 600 000 000',
+          workflow_settings: { reportFrequency: 'daily', emailNotifications: true, whatsappNotifications: false, quietHours: { start: '22:00', end: '07:00' } },
+        })
+        .expect(201);
+      clientId = response.body.client.id;
+    });
+
+    it('should update the given fields and merge workflow settings', async () => {
+      const response = await request(app)
+        .patch(`/clients/${clientId}`)
+        .send({ name: '  Acme Ltd ', phone: null, workflow_settings: { reportFrequency: 'weekly', quietHours: null } })
+        .expect(200);
+
+      expect(response.body.client).toMatchObject({ name: 'Acme Ltd', email: 'old@acme.test', phone: null });
+      expect(response.body.client.workflow_settings).toEqual({
+        reportFrequency: 'weekly',
+        emailNotifications: true,
+        whatsappNotifications: false,
+      });
+    });
+
+    it('should clear a bounce when the email address changes', async () => {
+      Object.assign(getMockData().clients[0], { email_bounced_at: '2026-10-01T10:00:00Z', email_bounce_reason: 'Mailbox full' });
+
+      await request(app).patch(`/clients/${clientId}`).send({ email: 'old@acme.test', company: 'Acme' }).expect(200);
+      expect(getMockData().clients[0].email_bounced_at).toBe('2026-10-01T10:00:00Z');
+
+      const response = await request(app).patch(`/clients/${clientId}`).send({ email: 'new@acme.test' }).expect(200);
+      expect(response.body.client).toMatchObject({ email: 'new@acme.test', email_bounced_at: null, email_bounce_reason: null });
+    });
+
+    it('should reject invalid changes', async () => {
+      const invalid = [
+        {},
+        { name: '   ' },
+        { email: 'not-an-email' },
+        { company: 42 },
+        { inbound_email: 'x@y.test' },
+        { workflow_settings: 'daily' },
+        { workflow_settings: { reportFrequency: 'monthly' } },
+        { workflow_settings: { reportHour: 24 } },
+        { workflow_settings: { llmProvider: 'unknown' } },
+      ];
+
+      for (const body of invalid) {
+        const response = await request(app).patch(`/clients/${clientId}`).send(body).expect(400);
+        expect(response.body.error).toBe('Invalid request');
+      }
+      expect(getMockData().clients[0].name).toBe('Acme');
+    });
+
+    it('should return 404 for an unknown client', async () => {
+      await request(app).patch('/clients/missing').send({ name: 'Ghost' }).expect(404);
+    });
+  });
+
+  describe('Archiving and deleting', () => {
+    const CLIENT_ID = '5d2c7a1e-3b4f-4c8d-9e0a-1b2c3d4e5f60';
+
+    beforeEach(() => {
+      const data = getMockData();
+      data.clients.push(
+        { id: CLIENT_ID, name: 'Leaving', email: 'leaving@test.com', inbound_email: `client_${CLIENT_ID}@included.yourdomain.com` },
+        { id: 'client-stays', name: 'Staying' }
+      );
+      for (const clientId of [CLIENT_ID, 'client-stays']) {
+        data.tasks.push({ id: `task-${clientId}`, client_id: clientId, text: 'Work', status: 'completed' });
+        data.emails.push({ id: `email-${clientId}`, client_id: clientId, sender: 'a@b.test', subject: 'Hi', body: 'Hi', status: 'completed' });
+        data.summaries.push({ id: `summary-${clientId}`, task_id: `task-${clientId}`, client_id: clientId, summary: 'Done' });
+        data.reports.push({ id: `report-${clientId}`, client_id: clientId, content: 'Report' });
+        data.notification_events.push(
+          { id: `sent-${clientId}`, client_id: clientId, summary_id: `summary-${clientId}`, type: 'email', status: 'sent' },
+          { id: `pending-${clientId}`, client_id: clientId, summary_id: `summary-${clientId}`, type: 'email', status: 'pending' },
+          { id: `failed-${clientId}`, client_id: clientId, summary_id: `summary-${clientId}`, type: 'whatsapp', status: 'failed' }
+        );
+      }
+    });
+
+    it('should hide archived clients from the list unless asked for', async () => {
+      const response = await request(app).post(`/clients/${CLIENT_ID}/archive`).expect(200);
+      expect(response.body.client.archived_at).toEqual(expect.any(String));
+
+      const active = await request(app).get('/clients').expect(200);
+      expect(active.body.clients.map((c: { id: string }) => c.id)).toEqual(['client-stays']);
+
+      const all = await request(app).get('/clients?includeArchived=true').expect(200);
+      expect(all.body.clients).toHaveLength(2);
+      await request(app).get(`/clients/${CLIENT_ID}`).expect(200);
+    });
+
+    it('should skip pending and failed notifications and keep the history', async () => {
+      const response = await request(app).post(`/clients/${CLIENT_ID}/archive`).expect(200);
+      expect(response.body.skippedNotifications).toBe(2);
+
+      const statuses = Object.fromEntries(getMockData().notification_events.map((e) => [e.id, e.status]));
+      expect(statuses).toMatchObject({
+        [`sent-${CLIENT_ID}`]: 'sent',
+        [`pending-${CLIENT_ID}`]: 'skipped',
+        [`failed-${CLIENT_ID}`]: 'skipped',
+        'pending-client-stays': 'pending',
+        'failed-client-stays': 'failed',
+      });
+      expect(getMockData().notification_events.find((e) => e.id === `pending-${CLIENT_ID}`)?.skip_reason).toBe(CLIENT_ARCHIVED_REASON);
+      expect(getMockData().tasks).toHaveLength(2);
+      expect(getMockData().summaries).toHaveLength(2);
+    });
+
+    it('should route new notifications of archived clients as skipped', () => {
+      const routes = routeNotification({ email: 'a@b.test', phone: '+34600000000', archived_at: '2026-10-01T10:00:00Z' });
+      expect(routes).toEqual([
+        { type: 'email', status: 'skipped', skip_reason: CLIENT_ARCHIVED_REASON },
+        { type: 'whatsapp', status: 'skipped', skip_reason: CLIENT_ARCHIVED_REASON },
+      ]);
+    });
+
+    it('should refuse new work for an archived client until it is restored', async () => {
+      await request(app).post(`/clients/${CLIENT_ID}/archive`).expect(200);
+      const archivedAt = getMockData().clients[0].archived_at;
+      await request(app).post(`/clients/${CLIENT_ID}/archive`).expect(200);
+      expect(getMockData().clients[0].archived_at).toBe(archivedAt);
+
+      await request(app).post('/task').send({ clientId: CLIENT_ID, text: 'More work' }).expect(409);
+      await request(app)
+        .post('/email-webhook')
+        .send({ clientId: CLIENT_ID, sender: 'a@b.test', subject: 'More', body: 'More work' })
+        .expect(409);
+      const email = await inboundEmailService.processInboundEmail({
+        from: 'a@b.test',
+        to: `client_${CLIENT_ID}@included.yourdomain.com`,
+        subject: 'More',
+        text: 'More work',
+      });
+      expect(email).toBeNull();
+      expect(getMockData().tasks).toHaveLength(2);
+      expect(getMockData().emails).toHaveLength(2);
+
+      const restored = await request(app).delete(`/clients/${CLIENT_ID}/archive`).expect(200);
+      expect(restored.body.client.archived_at).toBeNull();
+      await request(app).post('/task').send({ clientId: CLIENT_ID, text: 'Back to work' }).expect(201);
+    });
+
+    it('should delete a client with its tasks, emails, summaries, notifications and reports', async () => {
+      const response = await request(app).delete(`/clients/${CLIENT_ID}`).expect(200);
+
+      expect(response.body.deleted).toEqual({ tasks: 1, emails: 1, summaries: 1, notifications: 3, reports: 1 });
+      const data = getMockData();
+      for (const table of ['clients', 'tasks', 'emails', 'summaries', 'reports'] as const) {
+        expect(data[table].map((row) => row.id)).toEqual([expect.stringContaining('client-stays')]);
+      }
+      expect(data.notification_events).toHaveLength(3);
+
+      await request(app).get(`/clients/${CLIENT_ID}`).expect(404);
+      await request(app).delete(`/clients/${CLIENT_ID}`).expect(404);
+      await request(app).post(`/clients/${CLIENT_ID}/archive`).expect(404);
+    });
+  });
+
+  describe('Prompt Profiles', () => {
+    let clientId: string;
+
+    beforeEach(async () => {
+      resetOpenAIMock();
+      const response = await request(app).post('/clients').send({ name: 'Legal Firm' });
+      clientId = response.body.client.id;
+    });
+
+    afterEach(() => {
+      resetOpenAIMock();
+    });
+
+    it('should use the default prompt when no profile is set', () => {
+      expect(buildSystemPrompt(null)).toBe(DEFAULT_SYSTEM_PROMPT);
+      expect(buildSystemPrompt({})).toBe(DEFAULT_SYSTEM_PROMPT);
+    });
+
+    it('should build format, length, tone, language and instructions into the prompt', () => {
+      const prompt = buildSystemPrompt({
+        format: 'bullets',
+        maxLength: 4,
+        tone: 'formal',
+        language: 'Spanish',
+        instructions: 'Always mention case numbers.',
+      });
+
+      expect(prompt).toContain('bulleted list');
+      expect(prompt).toContain('Maximum 4 bullets');
+      expect(prompt).toContain('Formal tone');
+      expect(prompt).toContain('Write the output in Spanish');
+      expect(prompt).toContain('Always mention case numbers.');
+    });
+
+    it('should accept a prompt profile when creating a client', async () => {
+      const response = await request(app)
+        .post('/clients')
+        .send({ name: 'Bullet Client', prompt_profile: { format: 'bullets' } })
+        .expect(201);
+
+      expect(response.body.client.prompt_profile).toEqual({ format: 'bullets' });
+    });
+
+    it('should reject invalid prompt profiles', async () => {
+      const response = await request(app)
+        .post('/clients')
+        .send({ name: 'Bad Profile', prompt_profile: { format: 'haiku' } })
+        .expect(400);
+
+      expect(response.body.message).toContain('format');
+
+      await request(app)
+        .put(`/clients/${clientId}/prompt-profile`)
+        .send({ prompt_profile: { maxLength: 100 } })
+        .expect(400);
+
+      await request(app)
+        .put(`/clients/${clientId}/prompt-profile`)
+        .send({ prompt_profile: { verbosity: 'high' } })
+        .expect(400);
+    });
+
+    it('should update and reset the prompt profile', async () => {
+      const updated = await request(app)
+        .put(`/clients/${clientId}/prompt-profile`)
+        .send({ prompt_profile: { format: 'action_items', language: 'German' } })
+        .expect(200);
+
+      expect(updated.body.client.prompt_profile).toEqual({ format: 'action_items', language: 'German' });
+      expect(getMockData().clients[0].prompt_profile).toEqual({ format: 'action_items', language: 'German' });
+
+      const reset = await request(app)
+        .put(`/clients/${clientId}/prompt-profile`)
+        .send({ prompt_profile: null })
+        .expect(200);
+
+      expect(reset.body.client.prompt_profile).toBeNull();
+    });
+
+    it('should return 404 when updating the profile of an unknown client', async () => {
+      await request(app)
+        .put('/clients/non-existent-id/prompt-profile')
+        .send({ prompt_profile: { format: 'bullets' } })
+        .expect(404);
+    });
+
+    it('should preview a draft profile without creating a task', async () => {
+      setOpenAIMockResponse('- Hearing moved to May 3\n- Client to send documents');
+
+      const response = await request(app)
+        .post(`/clients/${clientId}/prompt-profile/preview`)
+        .send({ text: 'The hearing was moved to May 3. Please send the documents.', prompt_profile: { format: 'bullets' } })
+        .expect(200);
+
+      expect(response.body.systemPrompt).toContain('bulleted list');
+      expect(response.body.summary).toBe('- Hearing moved to May 3\n- Client to send documents');
+      expect(getMockData().tasks).toHaveLength(0);
+      expect(getMockData().summaries).toHaveLength(0);
+    });
+
+    it('should preview the stored profile prompt when no text is given', async () => {
+      await request(app)
+        .put(`/clients/${clientId}/prompt-profile`)
+        .send({ prompt_profile: { maxLength: 5 } })
+        .expect(200);
+
+      const response = await request(app)
+        .post(`/clients/${clientId}/prompt-profile/preview`)
+        .send({})
+        .expect(200);
+
+      expect(response.body.systemPrompt).toContain('Maximum 5 sentences');
+      expect(mockOpenAI.chat.completions.create).not.toHaveBeenCalled();
+    });
+
+    it('should summarize tasks with the client\'s prompt profile', async () => {
+      await request(app)
+        .put(`/clients/${clientId}/prompt-profile`)
+        .send({ prompt_profile: { format: 'bullets', language: 'French' } })
+        .expect(200);
+
+      await request(app)
+        .post('/task')
+        .send({ clientId, text: 'Contract signed today.' })
+        .expect(201);
+
+      const start = Date.now();
+      while (getMockData().tasks[0]?.status !== 'completed' && Date.now() - start < 4000) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+
+      const [{ messages }] = mockOpenAI.chat.completions.create.mock.calls[0];
+      expect(messages[0].role).toBe('system');
+      expect(messages[0].content).toContain('bulleted list');
+      expect(messages[0].content).toContain('Write the output in French');
+    });
+  });
 });
@@ -0,0 +1,161 @@
+/**
+ * Report Digest Test Suite
+ * Tests for digest validation, chunking, map-reduce, caching and digests in reports
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { resetOpenAIMock, mockOpenAI, mockOpenAIResponse } from './__mocks__/openai.mock';
+import { chunkLines, validateDigest } from '../lib/digest';
+
+const sampleDigest = {
+  overview: 'A busy week of supplier invoices and contract renewals.',
+  themes: ['Supplier invoices', 'Contract renewals'],
+  open_action_items: ['Pay the Acme invoice (Finance, due 2026-10-10)'],
+  urgent: [],
+};
+
+/** Answer digest requests, keeping the prompts so tests can tell map and merge calls apart */
+const mockDigest = (digest: unknown = sampleDigest) => {
+  const calls: Array<{ system: string; user: string }> = [];
+  mockOpenAI.chat.completions.create.mockImplementation(async (params: { messages: Array<{ content: string }> }) => {
+    calls.push({ system: params.messages[0].content, user: params.messages[1].content });
+    if (digest instanceof Error) throw digest;
+    return mockOpenAIResponse(JSON.stringify(digest));
+  });
+  return calls;
+};
+
+const isMerge = (call: { system: string }) => call.system.includes('partial digests');
+
+describe('Report Digest', () => {
+  describe('validateDigest', () => {
+    it('should trim entries and drop blank ones', () => {
+      const result = validateDigest({ ...sampleDigest, overview: ' Quiet day. ', themes: [' Billing ', ''] });
+
+      expect(result.data).toEqual({ ...sampleDigest, overview: 'Quiet day.', themes: ['Billing'] });
+    });
+
+    it('should reject a missing overview or non-string lists', () => {
+      expect(validateDigest({ ...sampleDigest, overview: '' }).error).toContain('overview');
+      expect(validateDigest({ ...sampleDigest, urgent: [1] }).error).toContain('urgent');
+      expect(validateDigest('not an object').error).toBeDefined();
+    });
+  });
+
+  describe('chunkLines', () => {
+    it('should pack lines into chunks no longer than the limit', () => {
+      expect(chunkLines(['aaaa', 'bbbb', 'cccc', 'dd'], 9)).toEqual(['aaaa\nbbbb', 'cccc\ndd']);
+      expect(chunkLines(['a very long line'], 5)).toEqual(['a very long line']);
+    });
+  });
+
+  describe('GET /report?digest=true', () => {
+    let clientId: string;
+    const range = 'from=2026-10-05&to=2026-10-06&timezone=UTC';
+
+    const seedSummaries = (count: number, day = '2026-10-05') => {
+      const mockData = getMockData();
+      for (let i = 0; i < count; i++) {
+        const n = mockData.summaries.length + 1;
+        const createdAt = `${day}T${String(8 + (i % 10)).padStart(2, '0')}:00:00Z`;
+        mockData.tasks.push({ id: `task-${n}`, input: 'x', status: 'completed', client_id: clientId, created_at: createdAt, updated_at: createdAt });
+        mockData.summaries.push({ id: `summary-${n}`, task_id: `task-${n}`, client_id: clientId, summary: `Invoice ${n} received from a supplier.`, created_at: createdAt });
+      }
+    };
+
+    beforeEach(async () => {
+      clearMockData();
+      resetOpenAIMock();
+      const response = await request(app).post('/clients').send({ name: 'Digest Client' }).expect(201);
+      clientId = response.body.client.id;
+    });
+
+    afterEach(() => {
+      clearMockData();
+      resetOpenAIMock();
+      delete process.env.DIGEST_CHUNK_CHARS;
+    });
+
+    it('should add the digest above the summaries', async () => {
+      seedSummaries(2);
+      const calls = mockDigest();
+
+      const response = await request(app).get(`/report?clientId=${clientId}&${range}&digest=true`).expect(200);
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].user).toContain('- [2026-10-05] Invoice 1 received from a supplier.');
+
+      const lines: string[] = response.body.report.split('\n');
+      expect(lines.slice(2, 7)).toEqual([
+        '',
+        `Overview: ${sampleDigest.overview}`,
+        'Themes:',
+        '  • Supplier invoices',
+        '  • Contract renewals',
+      ]);
+      expect(lines.filter((line) => line.startsWith('- '))).toHaveLength(2);
+    });
+
+    it('should serve repeated requests from the cache until the summaries change', async () => {
+      seedSummaries(2);
+      const calls = mockDigest();
+
+      await request(app).get(`/report?clientId=${clientId}&${range}&digest=true`).expect(200);
+      const cached = await request(app).get(`/report?clientId=${clientId}&${range}&digest=true&format=json`).expect(200);
+
+      expect(calls).toHaveLength(1);
+      expect(cached.body.report.digest).toEqual(sampleDigest);
+      expect(getMockData().report_digests).toHaveLength(1);
+
+      seedSummaries(1, '2026-10-06');
+      await request(app).get(`/report?clientId=${clientId}&${range}&digest=true`).expect(200);
+
+      expect(calls).toHaveLength(2);
+      expect(getMockData().report_digests).toHaveLength(1);
+      expect(getMockData().report_digests[0].summary_count).toBe(3);
+    });
+
+    it('should map-reduce periods that do not fit in one request', async () => {
+      process.env.DIGEST_CHUNK_CHARS = '200';
+      seedSummaries(12);
+      const calls = mockDigest();
+
+      const response = await request(app).get(`/report?clientId=${clientId}&${range}&digest=true&format=json`).expect(200);
+
+      const mapCalls = calls.filter((call) => !isMerge(call));
+      expect(mapCalls.length).toBeGreaterThan(1);
+      expect(mapCalls.every((call) => call.user.length <= 200)).toBe(true);
+      expect(calls.filter(isMerge).length).toBeGreaterThanOrEqual(1);
+      expect(isMerge(calls[calls.length - 1])).toBe(true);
+      expect(response.body.report.digest).toEqual(sampleDigest);
+    });
+
+    it('should still return the report when the digest fails', async () => {
+      seedSummaries(1);
+      mockDigest(Object.assign(new Error('Invalid request'), { status: 400 }));
+
+      const response = await request(app).get(`/report?clientId=${clientId}&${range}&digest=true&format=json`).expect(200);
+
+      expect(response.body.report.digest).toBeNull();
+      expect(response.body.report.digest_error).toContain('Invalid request');
+      expect(response.body.report.totals.summaries).toBe(1);
+      expect(getMockData().report_digests).toHaveLength(0);
+    });
+
+    it('should not call the LLM for an empty period or without digest=true', async () => {
+      const calls = mockDigest();
+
+      await request(app).get(`/report?clientId=${clientId}&${range}&digest=true`).expect(200);
+      seedSummaries(1);
+      await request(app).get(`/report?clientId=${clientId}&${range}`).expect(200);
+
+      expect(calls).toHaveLength(0);
+    });
+
+    it('should reject an invalid digest flag', async () => {
+      await request(app).get(`/report?clientId=${clientId}&digest=maybe`).expect(400);
+    });
+  });
+});
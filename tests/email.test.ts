@@ -4,10 +4,9 @@
  */
 
 // Set environment variables before any imports
-process.env.RESEND_API_KEY = 'test-api-key';
 process.env.FROM_EMAIL = 'test@example.com';
 
-import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { clearMockData, getMockData, getMockRow } from './__mocks__/supabase.mock';
 
 // Mock Resend before importing emailService
 jest.mock('resend', () => {
@@ -27,6 +26,7 @@ jest.mock('resend', () => {
 
 // Import after mocking
 import { EmailService } from '../services/emailService';
+import { NotificationEvent } from '../types/task';
 
 describe('Email Service', () => {
   let emailService: EmailService;
@@ -267,6 +267,64 @@ describe('Email Service', () => {
     });
   });
 
+  describe('Report notifications', () => {
+    it('should email the stored report content to the client', async () => {
+      const mockData = getMockData();
+      mockData.clients.push({
+        id: 'client-1',
+        name: 'Report Client',
+        email: 'client@example.com',
+        created_at: new Date().toISOString(),
+      });
+      mockData.reports.push({
+        id: 'report-1',
+        client_id: 'client-1',
+        frequency: 'weekly',
+        period_key: '2026-10-12',
+        content: '📝 Weekly Report:\n- Invoice <42> sent',
+      });
+      mockData.notification_events.push({
+        id: 'notif-1',
+        client_id: 'client-1',
+        summary_id: null,
+        report_id: 'report-1',
+        type: 'email',
+        status: 'pending',
+        created_at: new Date().toISOString(),
+      });
+
+      const sendEmail = jest.fn().mockResolvedValue({ id: 'test-id' });
+      emailService.sendEmail = sendEmail;
+
+      const outcome = await emailService.processEmailNotification(getMockRow<NotificationEvent>('notification_events', 'notif-1'));
+
+      expect(outcome).toBe('sent');
+      const [to, subject, html] = sendEmail.mock.calls[0];
+      expect(to).toBe('client@example.com');
+      expect(subject).toBe('Included — Your Weekly Report');
+      expect(html).toContain('Invoice &lt;42&gt; sent');
+      expect(mockData.notification_events[0].status).toBe('sent');
+    });
+
+    it('should fail the notification when the report is missing', async () => {
+      const mockData = getMockData();
+      mockData.notification_events.push({
+        id: 'notif-1',
+        client_id: 'client-1',
+        summary_id: null,
+        report_id: 'missing-report',
+        type: 'email',
+        status: 'pending',
+        created_at: new Date().toISOString(),
+      });
+
+      const outcome = await emailService.processEmailNotification(getMockRow<NotificationEvent>('notification_events', 'notif-1'));
+
+      expect(outcome).toBe('failed');
+      expect(mockData.notification_events[0].status).toBe('failed');
+    });
+  });
+
   describe('HTML escaping', () => {
     it('should escape HTML special characters in email content', async () => {
       const mockData = getMockData();
@@ -305,7 +363,7 @@ describe('Email Service', () => {
         return Promise.resolve({ id: 'test-id' });
       });
 
-      await emailService.processEmailNotification(mockData.notification_events[0]);
+      await emailService.processEmailNotification(getMockRow<NotificationEvent>('notification_events', 'notif-1'));
 
       // Verify HTML in summary content is escaped
       expect(capturedHtml).toContain('&lt;b&gt;HTML&lt;&#x2F;b&gt;');
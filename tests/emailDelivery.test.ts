@@ -0,0 +1,179 @@
+/**
+ * Email Delivery Test Suite
+ * Tests for webhook signatures, the Resend delivery webhook, the delivery timeline and
+ * bounced client addresses
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { signSvixPayload, verifySvixSignature } from '../lib/webhookSignatures';
+import notificationService from '../services/notificationService';
+import emailService from '../services/emailService';
+import { processPendingEmails } from '../workers/emailWorker';
+
+const SECRET = `whsec_${Buffer.from('delivery-webhook-secret').toString('base64')}`;
+
+let webhookCount = 0;
+
+/**
+ * POST a signed Resend event
+ */
+function postEvent(type: string, data: Record<string, unknown>, options: { id?: string; secret?: string } = {}) {
+  const id = options.id ?? `msg_${++webhookCount}`;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const body = JSON.stringify({ type, created_at: new Date().toISOString(), data });
+
+  return request(app)
+    .post('/webhooks/resend')
+    .set('Content-Type', 'application/json')
+    .set('svix-id', id)
+    .set('svix-timestamp', timestamp)
+    .set('svix-signature', signSvixPayload(options.secret ?? SECRET, id, timestamp, body))
+    .send(body);
+}
+
+describe('Email Delivery Tracking', () => {
+  beforeEach(() => {
+    clearMockData();
+    process.env.RESEND_WEBHOOK_SECRET = SECRET;
+    const mockData = getMockData();
+    mockData.clients.push({ id: 'client-1', name: 'Acme', email: 'ops@acme.test' });
+    mockData.notification_events.push(
+      { id: 'event-1', client_id: 'client-1', summary_id: 'summary-1', type: 'email', status: 'sent', delivery_status: 'sent', provider_message_id: 're_1' },
+      { id: 'event-2', client_id: 'client-1', summary_id: 'summary-2', type: 'email', status: 'sent', delivery_status: 'sent', provider_message_id: 're_1' }
+    );
+  });
+
+  afterEach(() => {
+    clearMockData();
+    jest.restoreAllMocks();
+    delete process.env.RESEND_WEBHOOK_SECRET;
+  });
+
+  const getEvent = (id: string) => getMockData().notification_events.find((e) => e.id === id);
+
+  describe('verifySvixSignature', () => {
+    const now = new Date('2026-03-02T10:00:00Z');
+    const timestamp = String(now.getTime() / 1000);
+    const signature = signSvixPayload(SECRET, 'msg_1', timestamp, '{"a":1}');
+
+    it('should accept a valid signature, also among rotated ones', () => {
+      expect(verifySvixSignature(SECRET, { id: 'msg_1', timestamp, signature }, '{"a":1}', now)).toBeNull();
+      expect(
+        verifySvixSignature(SECRET, { id: 'msg_1', timestamp, signature: `v1,b2xk ${signature}` }, '{"a":1}', now)
+      ).toBeNull();
+    });
+
+    it('should reject tampered, stale and unsigned requests', () => {
+      expect(verifySvixSignature(SECRET, { id: 'msg_1', timestamp, signature }, '{"a":2}', now)).toBe('Invalid signature');
+      expect(verifySvixSignature(SECRET, { id: 'msg_2', timestamp, signature }, '{"a":1}', now)).toBe('Invalid signature');
+      expect(
+        verifySvixSignature(SECRET, { id: 'msg_1', timestamp, signature }, '{"a":1}', new Date(now.getTime() + 301000))
+      ).toContain('too old');
+      expect(verifySvixSignature(SECRET, { id: 'msg_1', timestamp }, '{"a":1}', now)).toBe('Missing signature headers');
+    });
+  });
+
+  describe('sending', () => {
+    it('should keep the provider message ID on sent notifications', async () => {
+      const mockData = getMockData();
+      mockData.summaries.push({ id: 'summary-3', task_id: 'task-3', client_id: 'client-1', summary: 'Done.' });
+      mockData.notification_events.push({ id: 'event-3', client_id: 'client-1', summary_id: 'summary-3', type: 'email', status: 'pending', attempts: 0 });
+      jest.spyOn(emailService, 'sendEmail').mockResolvedValue({ id: 're_3' });
+
+      await processPendingEmails(10);
+
+      expect(getEvent('event-3')).toMatchObject({ status: 'sent', delivery_status: 'sent', provider_message_id: 're_3' });
+    });
+
+    it('should skip pending emails once the client address has bounced', async () => {
+      const mockData = getMockData();
+      mockData.clients[0].email_bounced_at = '2026-03-02T09:00:00.000Z';
+      mockData.summaries.push({ id: 'summary-3', task_id: 'task-3', client_id: 'client-1', summary: 'Done.' });
+      mockData.notification_events.push({ id: 'event-3', client_id: 'client-1', summary_id: 'summary-3', type: 'email', status: 'pending', attempts: 0 });
+      const sendEmail = jest.spyOn(emailService, 'sendEmail').mockResolvedValue({ id: 're_3' });
+
+      const stats = await processPendingEmails(10);
+
+      expect(stats).toEqual({ processed: 1, successful: 0, failed: 0, skipped: 1 });
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(getEvent('event-3')).toMatchObject({ status: 'skipped', skip_reason: 'Client email address bounced' });
+
+      const [email] = await notificationService.createNotificationEvents('client-1', 'summary-4');
+      expect(email).toMatchObject({ status: 'skipped', skip_reason: 'Client email address bounced' });
+    });
+  });
+
+  describe('POST /webhooks/resend', () => {
+    it('should reject unsigned and wrongly signed requests', async () => {
+      await request(app).post('/webhooks/resend').send({ type: 'email.delivered', data: { email_id: 're_1' } }).expect(401);
+      await postEvent('email.delivered', { email_id: 're_1' }, { secret: `whsec_${Buffer.from('other').toString('base64')}` }).expect(401);
+
+      delete process.env.RESEND_WEBHOOK_SECRET;
+      await postEvent('email.delivered', { email_id: 're_1' }).expect(503);
+
+      expect(getEvent('event-1')?.delivery_status).toBe('sent');
+    });
+
+    it('should record the event on every notification sent in the message', async () => {
+      const response = await postEvent('email.delivered', { email_id: 're_1' }).expect(200);
+
+      expect(response.body).toEqual({ success: true, matched: true });
+      expect(getEvent('event-1')).toMatchObject({ status: 'sent', delivery_status: 'delivered' });
+      expect(getEvent('event-2')).toMatchObject({ status: 'sent', delivery_status: 'delivered' });
+      expect(getMockData().notification_delivery_events).toHaveLength(2);
+    });
+
+    it('should not move the status back or record a redelivered webhook twice', async () => {
+      await postEvent('email.clicked', { email_id: 're_1', click: { link: 'https://acme.test' } }, { id: 'msg_click' }).expect(200);
+      await postEvent('email.clicked', { email_id: 're_1', click: { link: 'https://acme.test' } }, { id: 'msg_click' }).expect(200);
+      await postEvent('email.opened', { email_id: 're_1' }).expect(200);
+
+      expect(getEvent('event-1')?.delivery_status).toBe('clicked');
+
+      const timeline = await request(app).get('/notifications/event-1/timeline').expect(200);
+      expect(timeline.body.timeline.map((entry: { status: string }) => entry.status)).toEqual(['clicked', 'opened']);
+      expect(timeline.body.timeline[0].details).toEqual({ link: 'https://acme.test' });
+    });
+
+    it('should fail the notifications and flag the client on a hard bounce', async () => {
+      await postEvent('email.bounced', {
+        email_id: 're_1',
+        bounce: { type: 'Permanent', subType: 'General', message: 'Mailbox does not exist' },
+      }).expect(200);
+
+      expect(getEvent('event-1')).toMatchObject({
+        status: 'failed',
+        delivery_status: 'bounced',
+        last_error: 'Bounced: Mailbox does not exist',
+      });
+      expect(getMockData().clients[0]).toMatchObject({ email_bounce_reason: 'Mailbox does not exist' });
+      expect(getMockData().clients[0].email_bounced_at).toBeTruthy();
+
+      const cleared = await request(app).delete('/clients/client-1/email-bounce').expect(200);
+      expect(cleared.body.client).toMatchObject({ email_bounced_at: null, email_bounce_reason: null });
+    });
+
+    it('should not flag the client on a transient bounce', async () => {
+      await postEvent('email.bounced', { email_id: 're_1', bounce: { type: 'Transient', message: 'Mailbox full' } }).expect(200);
+
+      expect(getEvent('event-1')?.status).toBe('failed');
+      expect(getMockData().clients[0].email_bounced_at).toBeUndefined();
+    });
+
+    it('should ignore other event types and unknown messages', async () => {
+      expect((await postEvent('email.delivery_delayed', { email_id: 're_1' }).expect(200)).body.matched).toBe(false);
+      expect((await postEvent('email.delivered', { email_id: 're_unknown' }).expect(200)).body.matched).toBe(false);
+      await postEvent('email.delivered', {}).expect(400);
+
+      expect(getMockData().notification_delivery_events).toHaveLength(0);
+    });
+  });
+
+  describe('GET /notifications/:id/timeline', () => {
+    it('should return 404 for unknown notifications', async () => {
+      await request(app).get('/notifications/missing/timeline').expect(404);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Email Digest Test Suite
+ * Tests for digest scheduling, held summary emails and digest sending by the email worker
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { getNextDigestTime, routeSummaryNotification } from '../lib/notificationRouting';
+import notificationService from '../services/notificationService';
+import emailService from '../services/emailService';
+import { processPendingEmails } from '../workers/emailWorker';
+import { WorkflowSettings } from '../types/task';
+
+const settings = (overrides: Partial<WorkflowSettings>): WorkflowSettings => ({
+  reportFrequency: 'none',
+  emailNotifications: true,
+  whatsappNotifications: false,
+  ...overrides,
+});
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000).toISOString();
+
+describe('Email Digests', () => {
+  beforeEach(() => {
+    clearMockData();
+  });
+
+  afterEach(() => {
+    clearMockData();
+    jest.restoreAllMocks();
+  });
+
+  describe('getNextDigestTime', () => {
+    it('should return null for immediate delivery', () => {
+      expect(getNextDigestTime(undefined)).toBeNull();
+      expect(getNextDigestTime(settings({ emailDelivery: 'immediate' }))).toBeNull();
+    });
+
+    it('should schedule hourly digests for the next full local hour', () => {
+      const hourly = settings({ emailDelivery: 'hourly_digest' });
+
+      expect(getNextDigestTime(hourly, new Date('2026-03-02T10:05:00Z'))?.toISOString()).toBe('2026-03-02T11:00:00.000Z');
+      expect(getNextDigestTime(hourly, new Date('2026-03-02T23:30:00Z'))?.toISOString()).toBe('2026-03-03T00:00:00.000Z');
+      // Kolkata is UTC+5:30, so its hours start at :30 UTC
+      expect(
+        getNextDigestTime({ ...hourly, timezone: 'Asia/Kolkata' }, new Date('2026-03-02T10:05:00Z'))?.toISOString()
+      ).toBe('2026-03-02T10:30:00.000Z');
+    });
+
+    it('should schedule daily digests for the next digest hour', () => {
+      const daily = settings({ emailDelivery: 'daily_digest' });
+
+      expect(getNextDigestTime(daily, new Date('2026-03-02T10:00:00Z'))?.toISOString()).toBe('2026-03-02T17:00:00.000Z');
+      expect(getNextDigestTime(daily, new Date('2026-03-02T17:00:00Z'))?.toISOString()).toBe('2026-03-03T17:00:00.000Z');
+      expect(
+        getNextDigestTime({ ...daily, digestHour: 9, timezone: 'Europe/Madrid' }, new Date('2026-03-02T10:00:00Z'))?.toISOString()
+      ).toBe('2026-03-03T08:00:00.000Z');
+    });
+  });
+
+  describe('routeSummaryNotification', () => {
+    const client = { email: 'ops@acme.test', phone: '+1 555 010 2030' };
+
+    it('should hold the email until the digest and leave WhatsApp alone', () => {
+      const routes = routeSummaryNotification(
+        { ...client, workflow_settings: settings({ emailDelivery: 'hourly_digest', whatsappNotifications: true }) },
+        new Date('2026-03-02T10:05:00Z')
+      );
+
+      expect(routes).toEqual([
+        { type: 'email', status: 'pending', scheduled_for: '2026-03-02T11:00:00.000Z' },
+        { type: 'whatsapp', status: 'pending', scheduled_for: null },
+      ]);
+    });
+
+    it('should hold a digest that falls in quiet hours until they end', () => {
+      const [email] = routeSummaryNotification(
+        {
+          ...client,
+          workflow_settings: settings({ emailDelivery: 'hourly_digest', quietHours: { start: '22:00', end: '07:00' } }),
+        },
+        new Date('2026-03-02T21:30:00Z')
+      );
+
+      expect(email).toMatchObject({ scheduled_for: '2026-03-03T07:00:00.000Z' });
+    });
+
+    it('should not hold skipped emails', () => {
+      const [email] = routeSummaryNotification({ workflow_settings: settings({ emailDelivery: 'daily_digest' }) });
+
+      expect(email).toEqual({ type: 'email', status: 'skipped', skip_reason: 'Client has no email address' });
+    });
+  });
+
+  describe('createNotificationEvents', () => {
+    it('should schedule summary emails for the next digest', async () => {
+      getMockData().clients.push({
+        id: 'client-1',
+        name: 'Acme',
+        email: 'ops@acme.test',
+        workflow_settings: settings({ emailDelivery: 'daily_digest' }),
+      });
+
+      const [email] = await notificationService.createNotificationEvents('client-1', 'summary-1');
+
+      expect(email.status).toBe('pending');
+      expect(new Date(email.scheduled_for as string).getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('processPendingEmails', () => {
+    beforeEach(() => {
+      const mockData = getMockData();
+      mockData.clients.push(
+        { id: 'digest', name: 'Acme', email: 'ops@acme.test', workflow_settings: settings({ emailDelivery: 'hourly_digest' }) },
+        { id: 'instant', name: 'Globex', email: 'hi@globex.test', workflow_settings: settings({}) }
+      );
+      for (const [index, clientId] of ['digest', 'digest', 'digest', 'instant'].entries()) {
+        mockData.summaries.push({ id: `summary-${index}`, task_id: `task-${index}`, client_id: clientId, summary: `Summary ${index}.` });
+        mockData.notification_events.push({
+          id: `event-${index}`,
+          client_id: clientId,
+          summary_id: `summary-${index}`,
+          type: 'email',
+          status: 'pending',
+          attempts: 0,
+          scheduled_for: clientId === 'digest' ? minutesAgo(1) : null,
+          created_at: minutesAgo(30 - index),
+        });
+      }
+      mockData.reports.push({ id: 'report-1', client_id: 'digest', frequency: 'daily', content: 'Daily report.' });
+      mockData.notification_events.push(
+        {
+          id: 'report-event',
+          client_id: 'digest',
+          summary_id: null,
+          report_id: 'report-1',
+          type: 'email',
+          status: 'pending',
+          attempts: 0,
+          created_at: minutesAgo(29),
+        },
+        // Held for the next digest
+        {
+          id: 'later',
+          client_id: 'digest',
+          summary_id: 'summary-0',
+          type: 'email',
+          status: 'pending',
+          attempts: 0,
+          scheduled_for: new Date(Date.now() + 3600000).toISOString(),
+          created_at: minutesAgo(1),
+        }
+      );
+    });
+
+    const getEvent = (id: string) => getMockData().notification_events.find((e) => e.id === id);
+
+    it('should send one digest per client and mark every included event sent', async () => {
+      const sendEmail = jest.spyOn(emailService, 'sendEmail').mockResolvedValue({ id: 'email-1' });
+
+      const stats = await processPendingEmails(10);
+
+      expect(stats).toEqual({ processed: 5, successful: 5, failed: 0, skipped: 0 });
+      expect(sendEmail).toHaveBeenCalledTimes(3);
+
+      const digest = sendEmail.mock.calls.find(([, subject]) => subject === 'Included — 3 New Summaries');
+      expect(digest?.[0]).toBe('ops@acme.test');
+      expect(digest?.[3]?.text).toContain('1. Summary 0.\n\n2. Summary 1.\n\n3. Summary 2.');
+      expect(digest?.[3]?.headers).toEqual({ 'X-Included-Template': 'summary_digest@1' });
+      expect(sendEmail.mock.calls.map(([, subject]) => subject)).toEqual(
+        expect.arrayContaining(['Included — New Summary Ready', 'Included — Your Daily Report'])
+      );
+
+      for (const id of ['event-0', 'event-1', 'event-2', 'event-3', 'report-event']) {
+        expect(getEvent(id)).toMatchObject({ status: 'sent', attempts: 1 });
+      }
+      expect(getEvent('later')?.status).toBe('pending');
+    });
+
+    it('should fail every included event together when the digest cannot be sent', async () => {
+      jest.spyOn(emailService, 'handleRetry').mockRejectedValue(new Error('SMTP error: 451 Try again later'));
+      jest.spyOn(emailService, 'sendEmail').mockResolvedValue({ id: 'email-1' });
+
+      await processPendingEmails(10);
+
+      for (const id of ['event-0', 'event-1', 'event-2']) {
+        expect(getEvent(id)).toMatchObject({ status: 'failed', attempts: 1, last_error: 'SMTP error: 451 Try again later' });
+      }
+    });
+
+    it('should count the digest of a bounced address as skipped, not failed', async () => {
+      getMockData().clients[0].email_bounced_at = minutesAgo(60);
+      const sendEmail = jest.spyOn(emailService, 'sendEmail').mockResolvedValue({ id: 'email-1' });
+
+      const digest = await emailService.processDigest('digest');
+
+      expect(digest).toEqual({ sent: 0, failed: 0, skipped: 3 });
+      expect(sendEmail).not.toHaveBeenCalled();
+      for (const id of ['event-0', 'event-1', 'event-2']) {
+        expect(getEvent(id)).toMatchObject({ status: 'skipped', skip_reason: 'Client email address bounced' });
+      }
+    });
+  });
+
+  describe('workflow_settings validation', () => {
+    it('should reject unknown delivery modes and digest hours', async () => {
+      const invalid = [{ emailDelivery: 'weekly_digest' }, { digestHour: 24 }];
+
+      for (const workflow_settings of invalid) {
+        const response = await request(app).post('/clients').send({ name: 'Acme', workflow_settings }).expect(400);
+        expect(response.body.error).toBe('Invalid request');
+      }
+
+      await request(app)
+        .post('/clients')
+        .send({ name: 'Acme', workflow_settings: { emailDelivery: 'daily_digest', digestHour: 8 } })
+        .expect(201);
+    });
+  });
+
+  describe('summary_digest preview', () => {
+    it('should render the summaries waiting for the next digest', async () => {
+      const mockData = getMockData();
+      mockData.clients.push({ id: 'client-1', name: 'Acme', email: 'ops@acme.test' });
+      mockData.summaries.push(
+        { id: 'summary-1', task_id: 'task-1', client_id: 'client-1', summary: 'Waiting.', created_at: minutesAgo(10) },
+        { id: 'summary-2', task_id: 'task-2', client_id: 'client-1', summary: 'Already sent.', created_at: minutesAgo(20) }
+      );
+      mockData.notification_events.push(
+        { id: 'event-1', client_id: 'client-1', summary_id: 'summary-1', type: 'email', status: 'pending' },
+        { id: 'event-2', client_id: 'client-1', summary_id: 'summary-2', type: 'email', status: 'sent' }
+      );
+
+      const response = await request(app).post('/clients/client-1/email-preview').send({ template: 'summary_digest' }).expect(200);
+
+      expect(response.body.preview.subject).toBe('Included — 1 New Summary');
+      expect(response.body.preview.text).toContain('1. Waiting.');
+      expect(response.body.preview.text).not.toContain('Already sent.');
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Email Templates Test Suite
+ * Tests for template rendering, the plain-text part, client branding, the failure alert
+ * and the email preview endpoint
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { renderEmailTemplate } from '../lib/emailTemplates';
+import { validate } from '../lib/schema';
+import { clientBrandingSchema } from '../lib/apiSchemas';
+import { EmailService } from '../services/emailService';
+
+const addClient = (overrides: Record<string, unknown> = {}) => {
+  getMockData().clients.push({ id: 'client-1', name: 'Acme', email: 'ops@acme.test', ...overrides });
+};
+
+describe('Email Templates', () => {
+  beforeEach(() => {
+    clearMockData();
+  });
+
+  afterEach(() => {
+    clearMockData();
+    jest.restoreAllMocks();
+    delete process.env.ALERT_EMAIL;
+  });
+
+  describe('renderEmailTemplate', () => {
+    it('should render the subject, HTML and plain-text parts', () => {
+      const email = renderEmailTemplate('summary_ready', { clientName: 'Acme', summary: 'Invoice <42> is due.' });
+
+      expect(email).toMatchObject({ template: 'summary_ready', version: 2, subject: 'Included — New Summary Ready' });
+      expect(email.html).toContain('Hello Acme,');
+      expect(email.html).toContain('Invoice &lt;42&gt; is due.');
+      expect(email.html).toContain('Included AI Assistant');
+      expect(email.text).toBe(
+        'Hello Acme,\n\nHere is your latest summary:\n\nInvoice <42> is due.\n\n-- \nIncluded AI Assistant\n'
+      );
+    });
+
+    it('should apply the client branding', () => {
+      const email = renderEmailTemplate(
+        'weekly_report',
+        { clientName: 'Acme', report: 'All quiet.' },
+        { logoUrl: 'https://acme.test/logo.png', primaryColor: '#ff6600', signOff: 'The Acme Ops Team' }
+      );
+
+      expect(email.subject).toBe('Included — Your Weekly Report');
+      expect(email.html).toContain('<img src="https:&#x2F;&#x2F;acme.test&#x2F;logo.png"');
+      expect(email.html).toContain('border-left: 4px solid #ff6600');
+      expect(email.html).toContain('The Acme Ops Team');
+      expect(email.html).not.toContain('Included AI Assistant');
+      expect(email.text).toContain('-- \nThe Acme Ops Team\n');
+    });
+
+    it('should list the failure details', () => {
+      const email = renderEmailTemplate('failure_alert', {
+        clientName: 'Acme',
+        taskId: 'task-1',
+        error: 'LLM timed out',
+        failedAt: '2026-03-02T10:00:00.000Z',
+        input: 'x'.repeat(500),
+      });
+
+      expect(email.subject).toBe('Included — Task failed for Acme');
+      expect(email.text).toContain('LLM timed out\n\nTask: task-1\nFailed at: 2026-03-02T10:00:00.000Z\nInput: ');
+      expect(email.text).toContain(`${'x'.repeat(299)}…`);
+      expect(email.text).not.toContain('x'.repeat(300));
+    });
+  });
+
+  describe('clientBrandingSchema', () => {
+    const errorsFor = (value: unknown) => validate(clientBrandingSchema, value).errors;
+
+    it('should accept valid branding', () => {
+      expect(errorsFor({})).toBeUndefined();
+      expect(errorsFor({ logoUrl: 'https://acme.test/logo.png', primaryColor: '#F60', signOff: 'Acme' })).toBeUndefined();
+    });
+
+    it('should reject invalid branding', () => {
+      expect(errorsFor('blue')).toEqual([{ field: '', message: 'must be an object' }]);
+      expect(errorsFor({ logoUrl: 'http://acme.test/logo.png' })).toEqual([{ field: 'logoUrl', message: 'must be an https URL' }]);
+      expect(errorsFor({ primaryColor: 'orange' })![0].message).toContain('hex colour');
+      expect(errorsFor({ signOff: '  ' })![0].field).toBe('signOff');
+      expect(errorsFor({ footer: 'x' })).toEqual([{ field: 'footer', message: 'is not a known field' }]);
+    });
+  });
+
+  describe('sendTaskFailureAlert', () => {
+    const task = { id: 'task-1', client_id: 'client-1', input: 'Reconcile March invoices' };
+
+    it('should email ALERT_EMAIL with the text part and template header', async () => {
+      process.env.ALERT_EMAIL = 'alerts@included.test';
+      addClient({ branding: { signOff: 'Acme Ops' } });
+      const emailService = new EmailService();
+      const sendEmail = jest.spyOn(emailService, 'sendEmail').mockResolvedValue({ id: 'email-1' });
+
+      await emailService.sendTaskFailureAlert(task, 'LLM timed out');
+
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      const [to, subject, html, options] = sendEmail.mock.calls[0];
+      expect(to).toBe('alerts@included.test');
+      expect(subject).toBe('Included — Task failed for Acme');
+      expect(html).toContain('Acme Ops');
+      expect(options?.text).toContain('Input: Reconcile March invoices');
+      expect(options?.headers).toEqual({ 'X-Included-Template': 'failure_alert@1' });
+    });
+
+    it('should do nothing without ALERT_EMAIL', async () => {
+      const emailService = new EmailService();
+      const sendEmail = jest.spyOn(emailService, 'sendEmail').mockResolvedValue({ id: 'email-1' });
+
+      await emailService.sendTaskFailureAlert(task, 'LLM timed out');
+
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /clients/:id/branding', () => {
+    it('should save and reset the branding', async () => {
+      addClient();
+
+      const saved = await request(app)
+        .put('/clients/client-1/branding')
+        .send({ branding: { primaryColor: '#ff6600' } })
+        .expect(200);
+      expect(saved.body.client.branding).toEqual({ primaryColor: '#ff6600' });
+
+      const reset = await request(app).put('/clients/client-1/branding').send({ branding: null }).expect(200);
+      expect(reset.body.client.branding).toBeNull();
+    });
+
+    it('should validate the branding', async () => {
+      addClient();
+
+      await request(app).put('/clients/client-1/branding').send({}).expect(400);
+      const response = await request(app)
+        .put('/clients/client-1/branding')
+        .send({ branding: { primaryColor: 'orange' } })
+        .expect(400);
+      expect(response.body.error).toBe('Invalid request');
+      await request(app).put('/clients/missing/branding').send({ branding: {} }).expect(404);
+    });
+  });
+
+  describe('POST /clients/:id/email-preview', () => {
+    beforeEach(() => {
+      addClient({ branding: { signOff: 'Acme Ops' } });
+      const mockData = getMockData();
+      mockData.summaries.push(
+        { id: 'summary-1', task_id: 'task-1', client_id: 'client-1', summary: 'Older summary.', created_at: '2026-03-01T09:00:00.000Z' },
+        { id: 'summary-2', task_id: 'task-2', client_id: 'client-1', summary: 'Latest summary.', created_at: '2026-03-02T09:00:00.000Z' }
+      );
+    });
+
+    it('should render the latest summary with the client branding without sending', async () => {
+      const response = await request(app).post('/clients/client-1/email-preview').send({ template: 'summary_ready' }).expect(200);
+
+      expect(response.body.preview).toMatchObject({ template: 'summary_ready', version: 2 });
+      expect(response.body.preview.text).toContain('Latest summary.');
+      expect(response.body.preview.html).toContain('Acme Ops');
+      expect(getMockData().notification_events).toHaveLength(0);
+    });
+
+    it('should render a chosen summary with draft branding', async () => {
+      const response = await request(app)
+        .post('/clients/client-1/email-preview')
+        .send({ template: 'summary_ready', summaryId: 'summary-1', branding: { signOff: 'Draft Sign-off' } })
+        .expect(200);
+
+      expect(response.body.preview.text).toContain('Older summary.');
+      expect(response.body.preview.text).toContain('Draft Sign-off');
+    });
+
+    it('should render the latest stored report of the frequency', async () => {
+      getMockData().reports.push(
+        { id: 'report-1', client_id: 'client-1', frequency: 'daily', period_key: '2026-03-02', content: 'Daily content', created_at: '2026-03-02T08:00:00.000Z' },
+        { id: 'report-2', client_id: 'client-1', frequency: 'weekly', period_key: '2026-02-23', content: 'Weekly content', created_at: '2026-03-01T08:00:00.000Z' }
+      );
+
+      const response = await request(app).post('/clients/client-1/email-preview').send({ template: 'weekly_report' }).expect(200);
+
+      expect(response.body.preview.subject).toBe('Included — Your Weekly Report');
+      expect(response.body.preview.text).toContain('Weekly content');
+    });
+
+    it('should render the latest failed task', async () => {
+      getMockData().tasks.push(
+        { id: 'task-9', client_id: 'client-1', input: 'Book travel', status: 'failed', last_error: 'Error: LLM timed out' },
+        { id: 'task-10', client_id: 'client-1', input: 'Other', status: 'completed' }
+      );
+
+      const response = await request(app).post('/clients/client-1/email-preview').send({ template: 'failure_alert' }).expect(200);
+
+      expect(response.body.preview.text).toContain('LLM timed out\n\nTask: task-9');
+    });
+
+    it('should return 404 when there is nothing to render', async () => {
+      await request(app).post('/clients/client-1/email-preview').send({ template: 'failure_alert' }).expect(404);
+      await request(app)
+        .post('/clients/client-1/email-preview')
+        .send({ template: 'summary_ready', summaryId: 'missing' })
+        .expect(404);
+      await request(app).post('/clients/missing/email-preview').send({ template: 'summary_ready' }).expect(404);
+    });
+
+    it('should reject unknown templates and invalid branding', async () => {
+      const response = await request(app).post('/clients/client-1/email-preview').send({ template: 'welcome' }).expect(400);
+      expect(response.body.message).toContain('summary_ready, summary_digest, daily_report, weekly_report, failure_alert');
+
+      await request(app)
+        .post('/clients/client-1/email-preview')
+        .send({ template: 'summary_ready', branding: { logoUrl: 'javascript:alert(1)' } })
+        .expect(400);
+    });
+  });
+});
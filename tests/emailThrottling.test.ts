@@ -0,0 +1,295 @@
+/**
+ * Email Throttling Test Suite
+ * Tests for the token bucket, Retry-After handling, retryable vs permanent send failures
+ * and parallel sending by the email worker
+ */
+
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { mapWithConcurrency, parseRetryAfter, TokenBucket } from '../lib/rateLimit';
+import {
+  EmailTransportError,
+  getEmailRateLimiter,
+  getEmailTransport,
+  OutgoingEmail,
+  ResendTransport,
+} from '../lib/emailTransports';
+import emailService, { EmailService } from '../services/emailService';
+import { processPendingEmails } from '../workers/emailWorker';
+
+const email: OutgoingEmail = {
+  from: 'noreply@included.test',
+  to: 'ops@acme.test',
+  subject: 'Hello',
+  html: '<p>Hi</p>',
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Email Throttling', () => {
+  beforeEach(() => {
+    clearMockData();
+  });
+
+  afterEach(() => {
+    clearMockData();
+    jest.restoreAllMocks();
+    delete process.env.RESEND_API_KEY;
+  });
+
+  describe('TokenBucket', () => {
+    it('should allow a burst, then pace calls to the rate', async () => {
+      const bucket = new TokenBucket(20, 2);
+      const started = Date.now();
+
+      await Promise.all([bucket.take(), bucket.take(), bucket.take(), bucket.take()]);
+      // Two more tokens at 20/s take about 100ms
+      expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should hold every caller while paused', async () => {
+      const bucket = new TokenBucket(100);
+      bucket.pause(80);
+      const started = Date.now();
+
+      await bucket.take();
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(75);
+    });
+
+    it('should not wait when the rate is 0', async () => {
+      const bucket = new TokenBucket(0);
+
+      await expect(Promise.all(Array.from({ length: 50 }, () => bucket.take()))).resolves.toHaveLength(50);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+      const now = new Date('2026-03-02T10:00:00Z');
+
+      expect(parseRetryAfter('2', now)).toBe(2000);
+      expect(parseRetryAfter(1.5, now)).toBe(1500);
+      expect(parseRetryAfter('Mon, 02 Mar 2026 10:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Mon, 02 Mar 2026 09:00:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeNull();
+      expect(parseRetryAfter(undefined, now)).toBeNull();
+    });
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('should keep at most the limit in flight and return results in order', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await sleep(ms);
+        inFlight--;
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3, 4]);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+
+  describe('ResendTransport errors', () => {
+    beforeEach(() => {
+      process.env.RESEND_API_KEY = 're_test';
+    });
+
+    const rejectWith = (status: number, headers: Record<string, string> = {}) => {
+      const config = { headers: new AxiosHeaders() };
+      const response = { status, statusText: '', headers, config, data: { message: `Status ${status}` } };
+      return jest
+        .spyOn(axios, 'post')
+        .mockRejectedValue(new AxiosError(`Request failed with status code ${status}`, undefined, config, undefined, response));
+    };
+
+    it('should mark rate limits as retryable with the Retry-After delay', async () => {
+      rejectWith(429, { 'retry-after': '2' });
+
+      const error = await new ResendTransport().send(email).catch((e) => e);
+
+      expect(error).toBeInstanceOf(EmailTransportError);
+      expect(error).toMatchObject({ message: 'Resend API error: Status 429', retryable: true, retryAfterMs: 2000 });
+    });
+
+    it('should mark server errors retryable and client errors permanent', async () => {
+      rejectWith(503);
+      await expect(new ResendTransport().send(email)).rejects.toMatchObject({ retryable: true });
+
+      rejectWith(422);
+      await expect(new ResendTransport().send(email)).rejects.toMatchObject({ retryable: false });
+    });
+
+    it('should treat a missing API key as permanent', async () => {
+      delete process.env.RESEND_API_KEY;
+
+      await expect(new ResendTransport().send(email)).rejects.toMatchObject({ retryable: false });
+    });
+  });
+
+  describe('handleRetry', () => {
+    it('should not retry permanent errors', async () => {
+      const fn = jest.fn().mockRejectedValue(new EmailTransportError('Resend API error: Invalid `to` field', false));
+
+      await expect(new EmailService().handleRetry(fn, 3, 10)).rejects.toThrow('Invalid `to` field');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for Retry-After before trying again', async () => {
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(new EmailTransportError('Resend API error: Too many requests', true, 100))
+        .mockResolvedValueOnce('ok');
+      const started = Date.now();
+
+      await expect(new EmailService().handleRetry(fn, 3, 10)).resolves.toBe('ok');
+      expect(Date.now() - started).toBeGreaterThanOrEqual(95);
+    });
+
+    it('should give up when the provider asks to wait too long', async () => {
+      const fn = jest.fn().mockRejectedValue(new EmailTransportError('Resend API error: Daily quota', true, 3600000));
+
+      await expect(new EmailService().handleRetry(fn, 3, 10)).rejects.toThrow('Daily quota');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sendEmail', () => {
+    it('should pause the transport after a Retry-After', async () => {
+      const pause = jest.spyOn(getEmailRateLimiter('outbox'), 'pause');
+      jest
+        .spyOn(getEmailTransport('outbox'), 'send')
+        .mockRejectedValueOnce(new EmailTransportError('Too many requests', true, 500));
+
+      await expect(new EmailService().sendEmail('ops@acme.test', 'Hello', '<p>Hi</p>')).rejects.toThrow('Too many requests');
+      expect(pause).toHaveBeenCalledWith(500);
+    });
+  });
+
+  describe('processPendingEmails', () => {
+    it('should send up to the concurrency limit at once', async () => {
+      const mockData = getMockData();
+      mockData.clients.push({ id: 'client-1', name: 'Acme', email: 'ops@acme.test' });
+      for (let index = 0; index < 6; index++) {
+        mockData.summaries.push({ id: `summary-${index}`, task_id: `task-${index}`, client_id: 'client-1', summary: 'Done.' });
+        mockData.notification_events.push({
+          id: `event-${index}`,
+          client_id: 'client-1',
+          summary_id: `summary-${index}`,
+          type: 'email',
+          status: 'pending',
+          attempts: 0,
+          created_at: new Date(Date.now() - (10 - index) * 1000).toISOString(),
+        });
+      }
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      jest.spyOn(emailService, 'sendEmail').mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await sleep(20);
+        inFlight--;
+        return { id: 'email-1' };
+      });
+
+      const stats = await processPendingEmails(10, 3);
+
+      expect(stats).toEqual({ processed: 6, successful: 6, failed: 0, skipped: 0 });
+      expect(maxInFlight).toBe(3);
+      expect(mockData.notification_events.every((event) => event.status === 'sent')).toBe(true);
+    });
+
+    it('should fail a rejected recipient without retrying', async () => {
+      const mockData = getMockData();
+      mockData.clients.push({ id: 'client-1', name: 'Acme', email: 'ops@acme.test' });
+      mockData.summaries.push({ id: 'summary-1', task_id: 'task-1', client_id: 'client-1', summary: 'Done.' });
+      mockData.notification_events.push({
+        id: 'event-1',
+        client_id: 'client-1',
+        summary_id: 'summary-1',
+        type: 'email',
+        status: 'pending',
+        attempts: 0,
+      });
+      const sendEmail = jest
+        .spyOn(emailService, 'sendEmail')
+        .mockRejectedValue(new EmailTransportError('SMTP error: Unexpected reply: 550 Mailbox unavailable', false));
+
+      const stats = await processPendingEmails(10);
+
+      expect(stats).toEqual({ processed: 1, successful: 0, failed: 1, skipped: 0 });
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(mockData.notification_events[0]).toMatchObject({
+        status: 'failed',
+        last_error: expect.stringContaining('550'),
+        permanent_failure: true,
+      });
+    });
+
+    it('should send each event once when runs overlap', async () => {
+      const mockData = getMockData();
+      mockData.clients.push({ id: 'client-1', name: 'Acme', email: 'ops@acme.test' });
+      for (let index = 0; index < 3; index++) {
+        mockData.summaries.push({ id: `summary-${index}`, task_id: `task-${index}`, client_id: 'client-1', summary: 'Done.' });
+        mockData.notification_events.push({
+          id: `event-${index}`,
+          client_id: 'client-1',
+          summary_id: `summary-${index}`,
+          type: 'email',
+          status: 'pending',
+          attempts: 0,
+        });
+      }
+      const sendEmail = jest.spyOn(emailService, 'sendEmail').mockImplementation(async () => {
+        await sleep(20);
+        return { id: 'email-1' };
+      });
+
+      const [first, second] = await Promise.all([processPendingEmails(10, 3), processPendingEmails(10, 3)]);
+
+      expect(sendEmail).toHaveBeenCalledTimes(3);
+      expect(first.successful + second.successful).toBe(3);
+      expect(mockData.notification_events.every((event) => event.status === 'sent')).toBe(true);
+    });
+
+    it('should put an event abandoned mid-send back to pending and send it', async () => {
+      const mockData = getMockData();
+      mockData.clients.push({ id: 'client-1', name: 'Acme', email: 'ops@acme.test' });
+      mockData.summaries.push({ id: 'summary-1', task_id: 'task-1', client_id: 'client-1', summary: 'Done.' });
+      mockData.summaries.push({ id: 'summary-2', task_id: 'task-2', client_id: 'client-1', summary: 'Done.' });
+      mockData.notification_events.push(
+        {
+          id: 'event-1',
+          client_id: 'client-1',
+          summary_id: 'summary-1',
+          type: 'email',
+          status: 'sending',
+          attempts: 0,
+          updated_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        },
+        {
+          id: 'event-2',
+          client_id: 'client-1',
+          summary_id: 'summary-2',
+          type: 'email',
+          status: 'sending',
+          attempts: 0,
+          updated_at: new Date().toISOString(),
+        }
+      );
+      const sendEmail = jest.spyOn(emailService, 'sendEmail').mockResolvedValue({ id: 'email-1' });
+
+      const stats = await processPendingEmails(10);
+
+      expect(stats).toEqual({ processed: 1, successful: 1, failed: 0, skipped: 0 });
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(mockData.notification_events.map((event) => event.status)).toEqual(['sent', 'sending']);
+    });
+  });
+});
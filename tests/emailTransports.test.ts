@@ -0,0 +1,313 @@
+/**
+ * Email Transports Test Suite
+ * Tests for MIME message building, transport selection and the Resend, SMTP and outbox
+ * transports
+ */
+
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  buildMimeMessage,
+  getEmailTransport,
+  OutboxTransport,
+  OutgoingEmail,
+  ResendTransport,
+  SmtpTransport,
+} from '../lib/emailTransports';
+import { sendSmtpMessage } from '../lib/smtp';
+import { EmailService } from '../services/emailService';
+
+const email: OutgoingEmail = {
+  from: 'Included <noreply@included.test>',
+  to: 'ops@acme.test',
+  subject: 'Included — New Summary Ready',
+  html: '<p>Invoice due.</p>',
+  text: 'Hello Acme,\n\n.Invoice due — €120.\n',
+  headers: { 'X-Included-Template': 'summary_ready@2' },
+};
+
+/**
+ * Local SMTP server that accepts every command and records the session. With startTls it
+ * offers STARTTLS, agrees to it and then never starts the handshake ('stall'), or sends a
+ * plaintext reply right behind its agreement ('inject').
+ */
+function startSmtpServer(
+  options: { rejectRecipient?: boolean; startTls?: 'stall' | 'inject' } = {}
+): Promise<{
+  port: number;
+  commands: string[];
+  data: string[];
+  close: () => Promise<void>;
+}> {
+  const commands: string[] = [];
+  const data: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let message = '';
+
+    socket.write('220 smtp.test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            data.push(message);
+            socket.write('250 2.0.0 Ok: queued as ABC123\r\n');
+          } else {
+            message += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO' && options.startTls) socket.write('250-smtp.test\r\n250 STARTTLS\r\n');
+        else if (verb === 'EHLO') socket.write('250-smtp.test\r\n250-AUTH LOGIN PLAIN\r\n250 8BITMIME\r\n');
+        else if (verb === 'STARTTLS' && options.startTls === 'inject') {
+          socket.write('220 2.0.0 Ready to start TLS\r\n250-smtp.test\r\n250 AUTH PLAIN\r\n');
+        } else if (verb === 'STARTTLS') socket.write('220 2.0.0 Ready to start TLS\r\n');
+        else if (verb === 'AUTH') socket.write('235 2.7.0 Authentication successful\r\n');
+        else if (verb === 'RCPT' && options.rejectRecipient) socket.write('550 5.1.1 Mailbox unavailable\r\n');
+        else if (verb === 'DATA') {
+          inData = true;
+          message = '';
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 Ok\r\n');
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        data,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe('Email Transports', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('buildMimeMessage', () => {
+    it('should build a multipart/alternative message with quoted-printable parts', () => {
+      const { id, message } = buildMimeMessage(email, new Date('2026-03-02T10:00:00Z'));
+
+      expect(id).toMatch(/^[0-9a-f-]{36}@included\.test$/);
+      expect(message).toContain('From: Included <noreply@included.test>\r\nTo: ops@acme.test\r\n');
+      expect(message).toContain('Subject: =?UTF-8?B?');
+      expect(message).toContain('Date: Mon, 02 Mar 2026 10:00:00 GMT');
+      expect(message).toContain(`Message-ID: <${id}>`);
+      expect(message).toContain('X-Included-Template: summary_ready@2');
+      expect(message).toMatch(/Content-Type: multipart\/alternative;\r\n boundary="included-[^"]+"/);
+      expect(message).toContain('Content-Type: text/plain; charset=UTF-8');
+      expect(message).toContain('.Invoice due =E2=80=94 =E2=82=AC120.');
+      expect(message).toContain('<p>Invoice due.</p>');
+    });
+
+    it('should decode the subject and keep lines short', () => {
+      const { message } = buildMimeMessage({ ...email, text: 'x'.repeat(200) });
+
+      const encoded = message.match(/Subject: ((?:=\?UTF-8\?B\?[^?]+\?=(?:\r\n )?)+)/)![1];
+      const subject = encoded
+        .split('\r\n ')
+        .map((word) => Buffer.from(word.slice(10, -2), 'base64').toString('utf8'))
+        .join('');
+      expect(subject).toBe(email.subject);
+      expect(message.split('\r\n').every((line) => line.length <= 76)).toBe(true);
+    });
+
+    it('should split multi-byte subjects between characters into short encoded words', () => {
+      const subject = '月次レポート：請求書の支払期限が近づいています 🎉📈 Acme 株式会社 — 2026年10月 👩‍💻';
+      const { message } = buildMimeMessage({ ...email, subject });
+
+      const words = message.match(/Subject: ((?:=\?UTF-8\?B\?[^?]+\?=(?:\r\n )?)+)/)![1].split('\r\n ');
+      const decoded = words.map((word) => Buffer.from(word.slice(10, -2), 'base64').toString('utf8'));
+      expect(words.length).toBeGreaterThan(1);
+      expect(words.every((word) => word.length <= 75)).toBe(true);
+      // Each word holds whole characters, so none decodes to a replacement character
+      expect(decoded.some((text) => text.includes('\uFFFD'))).toBe(false);
+      expect(decoded.join('')).toBe(subject);
+      expect(message.split('\r\n').every((line) => line.length <= 76)).toBe(true);
+    });
+
+    it('should send HTML only when there is no text part', () => {
+      const { message } = buildMimeMessage({ ...email, text: undefined });
+
+      expect(message).not.toContain('multipart/alternative');
+      expect(message).toContain('Content-Type: text/html; charset=UTF-8');
+    });
+
+    it('should not let header values add headers', () => {
+      const { message } = buildMimeMessage({
+        ...email,
+        subject: 'Hi\r\nBcc: everyone@evil.test',
+        headers: { 'X-Note': 'a\r\nBcc: x@evil.test', 'Bad Header:': 'x' },
+      });
+
+      expect(message).not.toMatch(/^Bcc:/m);
+      expect(message).toContain('Subject: Hi Bcc: everyone@evil.test');
+      expect(message).not.toContain('Bad Header');
+    });
+  });
+
+  describe('getEmailTransport', () => {
+    it('should use EMAIL_TRANSPORT, defaulting to Resend', () => {
+      process.env.EMAIL_TRANSPORT = 'smtp';
+      expect(getEmailTransport().name).toBe('smtp');
+
+      process.env.EMAIL_TRANSPORT = 'carrier-pigeon';
+      expect(getEmailTransport().name).toBe('resend');
+      expect(getEmailTransport('outbox').name).toBe('outbox');
+    });
+  });
+
+  describe('ResendTransport', () => {
+    it('should only fail on send when the API key is missing', async () => {
+      delete process.env.RESEND_API_KEY;
+      delete process.env.EMAIL_PROVIDER_API_KEY;
+
+      expect(() => new EmailService()).not.toThrow();
+      await expect(new ResendTransport().send(email)).rejects.toThrow('RESEND_API_KEY');
+    });
+  });
+
+  describe('OutboxTransport', () => {
+    it('should write each message as an .eml file', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+
+      try {
+        const { id } = await new OutboxTransport(dir).send(email);
+
+        const files = await fs.readdir(dir);
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatch(/\.eml$/);
+        const message = await fs.readFile(path.join(dir, files[0]), 'utf8');
+        expect(message).toContain(`Message-ID: <${id}>`);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should be what EmailService sends through in tests', async () => {
+      const { id } = await new EmailService().sendEmail('ops@acme.test', 'Hello', '<p>Hi</p>');
+
+      const files = await fs.readdir(process.env.EMAIL_OUTBOX_DIR as string);
+      expect(files.some((file) => file.endsWith(`${id.split('@')[0]}.eml`))).toBe(true);
+    });
+  });
+
+  describe('SmtpTransport', () => {
+    it('should require SMTP_HOST', async () => {
+      delete process.env.SMTP_HOST;
+
+      await expect(new SmtpTransport().send(email)).rejects.toThrow('SMTP_HOST');
+    });
+
+    it('should authenticate and deliver the message', async () => {
+      const server = await startSmtpServer();
+      Object.assign(process.env, {
+        SMTP_HOST: '127.0.0.1',
+        SMTP_PORT: String(server.port),
+        SMTP_USER: 'mailer',
+        SMTP_PASSWORD: 'secret',
+        // The test server offers no STARTTLS
+        SMTP_REQUIRE_TLS: 'false',
+      });
+
+      try {
+        const { id } = await new SmtpTransport().send(email);
+
+        expect(server.commands).toEqual([
+          expect.stringMatching(/^EHLO /),
+          `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+          'MAIL FROM:<noreply@included.test>',
+          'RCPT TO:<ops@acme.test>',
+          'DATA',
+          'QUIT',
+        ]);
+        expect(server.data[0]).toContain(`Message-ID: <${id}>`);
+        // Lines starting with "." are dot-stuffed on the wire
+        expect(server.data[0]).toContain('\r\n..Invoice due');
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should not send credentials unless the connection is encrypted', async () => {
+      const server = await startSmtpServer();
+      Object.assign(process.env, {
+        SMTP_HOST: '127.0.0.1',
+        SMTP_PORT: String(server.port),
+        SMTP_USER: 'mailer',
+        SMTP_PASSWORD: 'secret',
+      });
+
+      try {
+        await expect(new SmtpTransport().send(email)).rejects.toThrow('Server does not support STARTTLS');
+        expect(server.commands).toEqual([expect.stringMatching(/^EHLO /)]);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should report rejected recipients', async () => {
+      const server = await startSmtpServer({ rejectRecipient: true });
+      Object.assign(process.env, { SMTP_HOST: '127.0.0.1', SMTP_PORT: String(server.port) });
+
+      try {
+        await expect(new SmtpTransport().send(email)).rejects.toMatchObject({
+          message: expect.stringContaining('SMTP error: Unexpected reply: 550'),
+          retryable: false,
+        });
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should give up on a TLS handshake that never completes', async () => {
+      const server = await startSmtpServer({ startTls: 'stall' });
+      const envelope = { from: 'noreply@included.test', to: ['ops@acme.test'] };
+
+      try {
+        await expect(
+          sendSmtpMessage({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 200 }, envelope, 'Hi')
+        ).rejects.toThrow('TLS negotiation timed out');
+        expect(server.commands).toEqual([expect.stringMatching(/^EHLO /), 'STARTTLS']);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should refuse plaintext sent behind the STARTTLS reply', async () => {
+      const server = await startSmtpServer({ startTls: 'inject' });
+      const envelope = { from: 'noreply@included.test', to: ['ops@acme.test'] };
+
+      try {
+        await expect(
+          sendSmtpMessage({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 200 }, envelope, 'Hi')
+        ).rejects.toThrow('Server sent data before the TLS handshake');
+        expect(server.commands).toEqual([expect.stringMatching(/^EHLO /), 'STARTTLS']);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+});
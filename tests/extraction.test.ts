@@ -0,0 +1,188 @@
+/**
+ * Structured Extraction Test Suite
+ * Tests for extraction validation, extractWithLLM and extractions in summaries and reports
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { resetOpenAIMock, mockOpenAI, mockOpenAIResponse } from './__mocks__/openai.mock';
+import { validateExtraction } from '../lib/extraction';
+import { extractWithLLM } from '../workers/llmWorker';
+
+const waitForTaskProcessing = async (maxMs: number = 4000) => {
+  const start = Date.now();
+  while (Date.now() - start < maxMs) {
+    const mockData = getMockData();
+    const hasPending = mockData.tasks.some(
+      (t) => t.status === 'pending' || t.status === 'processing'
+    );
+    if (!hasPending && mockData.tasks.length > 0) return;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
+
+const sampleExtraction = {
+  priority: 'high',
+  action_items: [{ description: 'Send signed contract', owner: 'Maria', due_date: '2026-10-23' }],
+  deadlines: [{ description: 'Lease renewal', date: '2026-11-01' }],
+  amounts: [{ amount: 12500, currency: 'usd', description: 'Q4 retainer' }],
+  counterparties: [{ name: 'Acme Legal', type: 'organization', role: 'law firm' }],
+};
+
+/**
+ * Answer summary calls with `summary` and extraction calls (those with a response_format)
+ * with `extraction`
+ */
+const mockLLM = (summary: string, extraction: unknown) => {
+  mockOpenAI.chat.completions.create.mockImplementation(async (params: { response_format?: unknown }) => {
+    if (params.response_format) {
+      if (extraction instanceof Error) throw extraction;
+      return mockOpenAIResponse(typeof extraction === 'string' ? extraction : JSON.stringify(extraction));
+    }
+    return mockOpenAIResponse(summary);
+  });
+};
+
+describe('Structured Extraction', () => {
+  describe('validateExtraction', () => {
+    it('should normalise valid output', () => {
+      const result = validateExtraction({
+        ...sampleExtraction,
+        counterparties: [{ name: ' Maria Lopez ', type: 'person', role: '' }],
+      });
+
+      expect(result.error).toBeUndefined();
+      expect(result.data?.amounts[0].currency).toBe('USD');
+      expect(result.data?.counterparties[0]).toEqual({ name: 'Maria Lopez', type: 'person', role: null });
+    });
+
+    it('should reject invalid priorities, dates and currencies', () => {
+      expect(validateExtraction({ ...sampleExtraction, priority: 'critical' }).error).toContain('priority');
+      expect(
+        validateExtraction({ ...sampleExtraction, deadlines: [{ description: 'Renewal', date: 'next week' }] }).error
+      ).toContain('deadline date');
+      expect(
+        validateExtraction({ ...sampleExtraction, amounts: [{ amount: 5, currency: 'dollars', description: null }] }).error
+      ).toContain('currency');
+      expect(validateExtraction({ ...sampleExtraction, action_items: 'none' }).error).toContain('action_items');
+    });
+  });
+
+  describe('extractWithLLM', () => {
+    beforeEach(() => {
+      resetOpenAIMock();
+    });
+
+    afterEach(() => {
+      resetOpenAIMock();
+    });
+
+    it('should request strict JSON schema output and return validated data', async () => {
+      mockLLM('unused', sampleExtraction);
+
+      const result = await extractWithLLM('Please send the signed contract by Friday.');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.priority).toBe('high');
+        expect(result.data.action_items).toHaveLength(1);
+      }
+      const [params] = mockOpenAI.chat.completions.create.mock.calls[0];
+      expect(params.response_format).toMatchObject({ type: 'json_schema', json_schema: { strict: true } });
+    });
+
+    it('should report output that fails validation as invalid_response', async () => {
+      mockLLM('unused', 'not json');
+
+      const result = await extractWithLLM('Some input', { maxRetries: 1 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.category).toBe('invalid_response');
+      }
+    });
+
+    it('should produce an empty extraction with the stub provider', async () => {
+      const result = await extractWithLLM('Some input', { provider: 'stub' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ priority: 'low', action_items: [], deadlines: [], amounts: [], counterparties: [] });
+      }
+    });
+  });
+
+  describe('Task processing', () => {
+    let clientId: string;
+
+    beforeEach(async () => {
+      process.env.EXTRACTION_ENABLED = 'true';
+      clearMockData();
+      resetOpenAIMock();
+
+      const clientResponse = await request(app).post('/clients').send({ name: 'Extraction Client' });
+      clientId = clientResponse.body.client.id;
+    });
+
+    afterEach(() => {
+      process.env.EXTRACTION_ENABLED = 'false';
+      clearMockData();
+      resetOpenAIMock();
+    });
+
+    it('should store the extraction linked to the summary', async () => {
+      mockLLM('Maria must send the signed contract.', sampleExtraction);
+
+      await request(app)
+        .post('/task')
+        .send({ clientId, text: 'Maria, please send the signed contract by Friday. Retainer is $12,500.' })
+        .expect(201);
+      await waitForTaskProcessing();
+
+      const mockData = getMockData();
+      expect(mockData.tasks[0].status).toBe('completed');
+      expect(mockData.extractions).toHaveLength(1);
+      expect(mockData.extractions[0]).toMatchObject({
+        summary_id: mockData.summaries[0].id,
+        task_id: mockData.tasks[0].id,
+        client_id: clientId,
+        priority: 'high',
+      });
+    });
+
+    it('should include extractions in GET /summaries and the report', async () => {
+      mockLLM('Maria must send the signed contract.', sampleExtraction);
+
+      await request(app).post('/task').send({ clientId, text: 'Contract email' }).expect(201);
+      await waitForTaskProcessing();
+
+      const summaries = await request(app).get('/summaries').expect(200);
+      expect(summaries.body.summaries[0].extraction).toMatchObject({
+        priority: 'high',
+        action_items: [{ description: 'Send signed contract', owner: 'Maria', due_date: '2026-10-23' }],
+      });
+
+      const report = await request(app).get(`/report?clientId=${clientId}`).expect(200);
+      expect(report.body.report).toContain('- Maria must send the signed contract.');
+      expect(report.body.report).toContain('Priority: high');
+      expect(report.body.report).toContain('Action: Send signed contract (Maria, due 2026-10-23)');
+      expect(report.body.report).toContain('Deadline: Lease renewal (2026-11-01)');
+      expect(report.body.report).toContain('Amount: USD 12,500 — Q4 retainer');
+    });
+
+    it('should complete the task without an extraction when extraction fails', async () => {
+      mockLLM('Plain summary.', Object.assign(new Error('Invalid schema'), { status: 400 }));
+
+      await request(app).post('/task').send({ clientId, text: 'Some input' }).expect(201);
+      await waitForTaskProcessing();
+
+      const mockData = getMockData();
+      expect(mockData.tasks[0]).toMatchObject({ status: 'completed', output: 'Plain summary.' });
+      expect(mockData.extractions).toHaveLength(0);
+
+      const summaries = await request(app).get('/summaries').expect(200);
+      expect(summaries.body.summaries[0].extraction).toBeNull();
+    });
+  });
+});
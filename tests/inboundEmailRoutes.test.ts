@@ -1,11 +1,12 @@
 /**
  * Inbound Email Routes Test Suite
- * Tests for POST /webhooks/resend-inbound
+ * Tests for POST /webhooks/resend-inbound: validation, signatures and replay protection
  */
 
 import request from 'supertest';
 import app from '../orchestrator/index';
-import { clearMockData } from './__mocks__/supabase.mock';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { signSvixPayload } from '../lib/webhookSignatures';
 import inboundEmailService from '../services/inboundEmailService';
 
 // Mock the service so route tests stay fast and isolated
@@ -28,6 +29,27 @@ const validPayload = {
   html: '<p>Test body</p>',
 };
 
+const SECRET = `whsec_${Buffer.from('inbound-webhook-secret').toString('base64')}`;
+
+let webhookCount = 0;
+
+/**
+ * POST a payload signed like Resend does
+ */
+function postInbound(payload: object, options: { id?: string; sentAt?: Date } = {}) {
+  const id = options.id ?? `msg_inbound_${++webhookCount}`;
+  const timestamp = String(Math.floor((options.sentAt ?? new Date()).getTime() / 1000));
+  const body = JSON.stringify(payload);
+
+  return request(app)
+    .post('/webhooks/resend-inbound')
+    .set('Content-Type', 'application/json')
+    .set('svix-id', id)
+    .set('svix-timestamp', timestamp)
+    .set('svix-signature', signSvixPayload(SECRET, id, timestamp, body))
+    .send(body);
+}
+
 const mockEmail = {
   id: 'email-id-1',
   client_id: '77fa1cc0-f5b0-459e-9164-a997cef8a3f9',
@@ -43,10 +65,13 @@ describe('POST /webhooks/resend-inbound', () => {
   beforeEach(() => {
     clearMockData();
     jest.clearAllMocks();
+    process.env.RESEND_INBOUND_WEBHOOK_SECRET = SECRET;
   });
 
   afterEach(() => {
     clearMockData();
+    jest.restoreAllMocks();
+    delete process.env.RESEND_INBOUND_WEBHOOK_SECRET;
   });
 
   // -------------------------------------------------------------------------
@@ -55,10 +80,7 @@ describe('POST /webhooks/resend-inbound', () => {
   it('should return { success: true } for a valid payload', async () => {
     mockProcessInboundEmail.mockResolvedValue(mockEmail);
 
-    const response = await request(app)
-      .post('/webhooks/resend-inbound')
-      .send(validPayload)
-      .expect(200);
+    const response = await postInbound(validPayload).expect(200);
 
     expect(response.body).toEqual({ success: true });
     expect(mockProcessInboundEmail).toHaveBeenCalledTimes(1);
@@ -76,10 +98,7 @@ describe('POST /webhooks/resend-inbound', () => {
 
     const { html: _html, ...payloadNoHtml } = validPayload;
 
-    const response = await request(app)
-      .post('/webhooks/resend-inbound')
-      .send(payloadNoHtml)
-      .expect(200);
+    const response = await postInbound(payloadNoHtml).expect(200);
 
     expect(response.body).toEqual({ success: true });
     expect(mockProcessInboundEmail).toHaveBeenCalledWith(
@@ -100,10 +119,7 @@ describe('POST /webhooks/resend-inbound', () => {
     ['text', { ...validPayload, text: undefined }],
     ['text', { ...validPayload, text: '' }],
   ])('should return 400 when "%s" is missing or empty', async (field, payload) => {
-    const response = await request(app)
-      .post('/webhooks/resend-inbound')
-      .send(payload)
-      .expect(400);
+    const response = await postInbound(payload).expect(400);
 
     expect(response.body).toHaveProperty('error', 'Invalid payload');
     expect(response.body.message).toContain(field);
@@ -116,10 +132,7 @@ describe('POST /webhooks/resend-inbound', () => {
   it('should return 500 when the service throws (client not found)', async () => {
     mockProcessInboundEmail.mockRejectedValue(new Error('Client not found: abc-123'));
 
-    const response = await request(app)
-      .post('/webhooks/resend-inbound')
-      .send(validPayload)
-      .expect(500);
+    const response = await postInbound(validPayload).expect(500);
 
     expect(response.body).toHaveProperty('error', 'Internal server error');
     expect(response.body.message).toContain('Client not found');
@@ -128,12 +141,84 @@ describe('POST /webhooks/resend-inbound', () => {
   it('should return 500 when the service throws a generic error', async () => {
     mockProcessInboundEmail.mockRejectedValue(new Error('Database connection failed'));
 
-    const response = await request(app)
-      .post('/webhooks/resend-inbound')
-      .send(validPayload)
-      .expect(500);
+    const response = await postInbound(validPayload).expect(500);
 
     expect(response.body).toHaveProperty('error', 'Internal server error');
     expect(response.body.message).toContain('Database connection failed');
   });
+
+  // -------------------------------------------------------------------------
+  // Signatures and replays
+  // -------------------------------------------------------------------------
+  it('should reject unsigned, tampered and stale requests', async () => {
+    await request(app).post('/webhooks/resend-inbound').send(validPayload).expect(401);
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    await request(app)
+      .post('/webhooks/resend-inbound')
+      .set('Content-Type', 'application/json')
+      .set('svix-id', 'msg_1')
+      .set('svix-timestamp', timestamp)
+      .set('svix-signature', signSvixPayload(SECRET, 'msg_1', timestamp, JSON.stringify(validPayload)))
+      .send(JSON.stringify({ ...validPayload, subject: 'Changed' }))
+      .expect(401);
+
+    const response = await postInbound(validPayload, { sentAt: new Date(Date.now() - 10 * 60000) }).expect(401);
+    expect(response.body.message).toContain('too old');
+
+    expect(mockProcessInboundEmail).not.toHaveBeenCalled();
+  });
+
+  it('should return 503 while the secret is not configured', async () => {
+    delete process.env.RESEND_INBOUND_WEBHOOK_SECRET;
+
+    await postInbound(validPayload).expect(503);
+    expect(mockProcessInboundEmail).not.toHaveBeenCalled();
+  });
+
+  it('should process a replayed webhook once', async () => {
+    mockProcessInboundEmail.mockResolvedValue(mockEmail);
+
+    await postInbound(validPayload, { id: 'msg_replayed' }).expect(200);
+    const replay = await postInbound(validPayload, { id: 'msg_replayed' }).expect(200);
+
+    expect(replay.body).toEqual({ success: true, duplicate: true });
+    expect(mockProcessInboundEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should still recognise a redelivery days later', async () => {
+    getMockData().webhook_deliveries.push({
+      source: 'resend-inbound',
+      id: 'msg_late',
+      received_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+
+    mockProcessInboundEmail.mockResolvedValue(mockEmail);
+
+    // Accepting another delivery prunes expired ids
+    await postInbound(validPayload, { id: 'msg_other' }).expect(200);
+    const replay = await postInbound(validPayload, { id: 'msg_late' }).expect(200);
+
+    expect(replay.body).toEqual({ success: true, duplicate: true });
+    expect(mockProcessInboundEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept the retry of a delivery that failed', async () => {
+    mockProcessInboundEmail.mockRejectedValueOnce(new Error('Database connection failed')).mockResolvedValueOnce(mockEmail);
+
+    await postInbound(validPayload, { id: 'msg_retried' }).expect(500);
+    await postInbound(validPayload, { id: 'msg_retried' }).expect(200);
+
+    expect(mockProcessInboundEmail).toHaveBeenCalledTimes(2);
+    expect(getMockData().webhook_deliveries).toHaveLength(1);
+  });
+
+  it('should not log the email body', async () => {
+    mockProcessInboundEmail.mockResolvedValue(mockEmail);
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await postInbound({ ...validPayload, text: 'Confidential contract terms' }).expect(200);
+
+    expect(log.mock.calls.flat().join(' ')).not.toContain('Confidential');
+  });
 });
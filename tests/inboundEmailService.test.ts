@@ -65,7 +65,7 @@ describe('InboundEmailService', () => {
         status: 'pending',
         source: 'inbound',
       });
-      expect(email.id).toBeDefined();
+      expect(email!.id).toBeDefined();
 
       // Email persisted in mock DB
       expect(mockData.emails).toHaveLength(1);
@@ -97,7 +97,7 @@ describe('InboundEmailService', () => {
         text: 'Just text',
       });
 
-      expect(email.body).toBe('Just text');
+      expect(email!.body).toBe('Just text');
       expect(mockCreateTask).toHaveBeenCalledTimes(1);
     });
   });
@@ -169,7 +169,7 @@ describe('InboundEmailService', () => {
       });
 
       // Email record still created
-      expect(email.status).toBe('pending');
+      expect(email!.status).toBe('pending');
       expect(mockData.emails).toHaveLength(1);
     });
   });
@@ -0,0 +1,213 @@
+/**
+ * LLM Provider Test Suite
+ * Tests for provider selection, the OpenAI-compatible backend and the stub backend
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { resetOpenAIMock, mockOpenAI } from './__mocks__/openai.mock';
+import {
+  getLLMProvider,
+  resetLLMProviders,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+  StubProvider,
+} from '../lib/llmProviders';
+import { processWithLLM } from '../workers/llmWorker';
+
+const waitForTaskProcessing = async (maxMs: number = 4000) => {
+  const start = Date.now();
+  while (Date.now() - start < maxMs) {
+    const mockData = getMockData();
+    const hasPending = mockData.tasks.some(
+      (t) => t.status === 'pending' || t.status === 'processing'
+    );
+    if (!hasPending && mockData.tasks.length > 0) return;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
+
+describe('StubProvider', () => {
+  it('should return the first two sentences of the input deterministically', async () => {
+    const provider = new StubProvider();
+    const request = {
+      messages: [
+        { role: 'system' as const, content: 'Summarize.' },
+        { role: 'user' as const, content: 'Invoice sent.   Client confirmed receipt. Payment due Friday.' },
+      ],
+    };
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first.content).toBe('Invoice sent. Client confirmed receipt.');
+    expect(second).toEqual(first);
+    expect(first.model).toBe('stub');
+    expect(first.usage?.totalTokens).toBeGreaterThan(0);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let lastBody: unknown;
+  let lastAuth: string | undefined;
+  let reply: { status: number; body: unknown };
+
+  beforeAll(async () => {
+    const endpoint = express();
+    endpoint.use(express.json());
+    endpoint.post('/v1/chat/completions', (req, res) => {
+      lastBody = req.body;
+      lastAuth = req.headers.authorization;
+      res.status(reply.status).json(reply.body);
+    });
+
+    server = endpoint.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    lastBody = undefined;
+    lastAuth = undefined;
+    reply = {
+      status: 200,
+      body: {
+        model: 'llama3.1:8b',
+        choices: [{ message: { role: 'assistant', content: 'Local summary.' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      },
+    };
+  });
+
+  it('should post chat completions to the configured endpoint', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl, model: 'llama3.1', apiKey: 'local-key' });
+
+    const completion = await provider.complete({ messages: [{ role: 'user', content: 'Hello' }] });
+
+    expect(lastBody).toEqual({ model: 'llama3.1', messages: [{ role: 'user', content: 'Hello' }], stream: false });
+    expect(lastAuth).toBe('Bearer local-key');
+    expect(completion).toEqual({
+      content: 'Local summary.',
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+      model: 'llama3.1:8b',
+    });
+  });
+
+  it('should get retries and error classification from the shared layer', async () => {
+    process.env.LLM_BASE_URL = baseUrl;
+    resetLLMProviders();
+    reply = { status: 401, body: { error: { message: 'bad key' } } };
+
+    try {
+      const result = await processWithLLM('Some input', { provider: 'openai-compatible', maxRetries: 3 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.category).toBe('auth');
+        expect(result.error.message).toContain('bad key');
+        expect(result.attempts).toBe(1);
+      }
+    } finally {
+      delete process.env.LLM_BASE_URL;
+      resetLLMProviders();
+    }
+  });
+
+  it('should report the error message of servers that return it as a string', async () => {
+    reply = { status: 404, body: { error: 'model "llama3.1" not found, try pulling it first' } };
+    const provider = new OpenAICompatibleProvider({ baseUrl });
+
+    await expect(provider.complete({ messages: [{ role: 'user', content: 'Hello' }] })).rejects.toMatchObject({
+      message: 'LLM endpoint error: model "llama3.1" not found, try pulling it first',
+      status: 404,
+    });
+  });
+
+  it('should classify an unreachable endpoint as a network error', async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://127.0.0.1:1/v1' });
+
+    await expect(provider.complete({ messages: [{ role: 'user', content: 'Hello' }] })).rejects.toMatchObject({
+      code: 'ECONNREFUSED',
+    });
+  });
+});
+
+describe('Provider selection', () => {
+  beforeEach(() => {
+    clearMockData();
+    resetOpenAIMock();
+    resetLLMProviders();
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+    clearMockData();
+    resetOpenAIMock();
+    resetLLMProviders();
+  });
+
+  it('should default to OpenAI and honour LLM_PROVIDER', () => {
+    expect(getLLMProvider().name).toBe('openai');
+
+    process.env.LLM_PROVIDER = 'stub';
+    expect(getLLMProvider().name).toBe('stub');
+    expect(getLLMProvider('openai').name).toBe('openai');
+  });
+
+  it('should read the OpenAI model from OPENAI_MODEL, not the compatible server’s LLM_MODEL', async () => {
+    process.env.LLM_MODEL = 'llama3.1';
+    process.env.OPENAI_MODEL = 'gpt-4.1-mini';
+
+    try {
+      await new OpenAIProvider().complete({ messages: [{ role: 'user', content: 'Hello' }] });
+
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4.1-mini' }));
+    } finally {
+      delete process.env.LLM_MODEL;
+      delete process.env.OPENAI_MODEL;
+    }
+  });
+
+  it('should ignore unknown LLM_PROVIDER values', () => {
+    process.env.LLM_PROVIDER = 'nonsense';
+    expect(getLLMProvider().name).toBe('openai');
+  });
+
+  it('should process tasks with the provider configured on the client', async () => {
+    const clientResponse = await request(app)
+      .post('/clients')
+      .send({ name: 'On-prem Client', workflow_settings: { llmProvider: 'stub' } })
+      .expect(201);
+
+    await request(app)
+      .post('/task')
+      .send({ clientId: clientResponse.body.client.id, text: 'Contract signed. Kickoff next week. Budget approved.' })
+      .expect(201);
+
+    await waitForTaskProcessing();
+
+    const task = getMockData().tasks[0];
+    expect(task.status).toBe('completed');
+    expect(task.output).toBe('Contract signed. Kickoff next week.');
+    expect(mockOpenAI.chat.completions.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown providers in client workflow settings', async () => {
+    const response = await request(app)
+      .post('/clients')
+      .send({ name: 'Bad Client', workflow_settings: { llmProvider: 'skynet' } })
+      .expect(400);
+
+    expect(response.body.message).toContain('llmProvider');
+  });
+});
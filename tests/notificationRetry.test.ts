@@ -0,0 +1,195 @@
+/**
+ * Notification Retry Test Suite
+ * Tests for attempt counting, single and bulk retry endpoints, the retry policy settings
+ * and the automatic retry worker
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData, getMockRow } from './__mocks__/supabase.mock';
+import whatsappService from '../services/whatsappService';
+import { runNotificationRetry } from '../workers/notificationRetryWorker';
+import { NotificationEvent } from '../types/task';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000).toISOString();
+
+const pushEvent = (overrides: Record<string, unknown>) => {
+  getMockData().notification_events.push({
+    client_id: 'client-1',
+    summary_id: 'summary-1',
+    type: 'email',
+    status: 'failed',
+    attempts: 1,
+    last_error: 'Resend API error: 503',
+    created_at: minutesAgo(60),
+    updated_at: minutesAgo(30),
+    ...overrides,
+  });
+};
+
+const getEvent = (id: string) => getMockData().notification_events.find((e) => e.id === id);
+
+describe('Notification Retry', () => {
+  beforeEach(() => {
+    clearMockData();
+  });
+
+  afterEach(() => {
+    clearMockData();
+    delete process.env.NOTIFICATION_MAX_RETRIES;
+  });
+
+  describe('attempts and last_error', () => {
+    it('should count each attempt and keep the latest error', async () => {
+      const mockData = getMockData();
+      mockData.clients.push({ id: 'client-1', name: 'Acme', phone: null });
+      mockData.tasks.push({ id: 'task-1', input: 'x', status: 'completed', client_id: 'client-1' });
+      mockData.summaries.push({ id: 'summary-1', task_id: 'task-1', client_id: 'client-1', summary: 'Invoice due.' });
+      pushEvent({ id: 'event-1', type: 'whatsapp', status: 'pending', attempts: 0, last_error: null });
+
+      // WhatsApp is not configured in tests, so every attempt fails
+      await whatsappService.processWhatsAppNotification(getMockRow<NotificationEvent>('notification_events', 'event-1'));
+      expect(getEvent('event-1')).toMatchObject({ status: 'failed', attempts: 1 });
+      expect(getEvent('event-1')?.last_error).toContain('not configured');
+
+      await whatsappService.processWhatsAppNotification(getMockRow<NotificationEvent>('notification_events', 'event-1'));
+      expect(getEvent('event-1')?.attempts).toBe(2);
+    });
+  });
+
+  describe('POST /notifications/:id/retry', () => {
+    it('should put a failed notification back in the queue', async () => {
+      pushEvent({ id: 'event-1', type: 'whatsapp', delivery_status: 'failed', scheduled_for: minutesAgo(90) });
+
+      const response = await request(app).post('/notifications/event-1/retry').expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.notification).toMatchObject({
+        id: 'event-1',
+        status: 'pending',
+        attempts: 1,
+        last_error: 'Resend API error: 503',
+        delivery_status: null,
+        scheduled_for: null,
+      });
+    });
+
+    it('should only retry failed notifications', async () => {
+      pushEvent({ id: 'event-1', status: 'sent' });
+
+      const response = await request(app).post('/notifications/event-1/retry').expect(400);
+
+      expect(response.body.message).toContain('this one is sent');
+      expect(getEvent('event-1')?.status).toBe('sent');
+    });
+
+    it('should return 404 for unknown notifications', async () => {
+      await request(app).post('/notifications/missing/retry').expect(404);
+    });
+  });
+
+  describe('POST /notifications/retry', () => {
+    beforeEach(() => {
+      pushEvent({ id: 'event-1' });
+      pushEvent({ id: 'event-2', type: 'whatsapp' });
+      pushEvent({ id: 'event-3', client_id: 'client-2' });
+      pushEvent({ id: 'event-4', status: 'sent' });
+    });
+
+    it('should retry every failed notification', async () => {
+      const response = await request(app).post('/notifications/retry').send({}).expect(200);
+
+      expect(response.body.retried).toBe(3);
+      expect(getEvent('event-4')?.status).toBe('sent');
+      expect(['event-1', 'event-2', 'event-3'].every((id) => getEvent(id)?.status === 'pending')).toBe(true);
+    });
+
+    it('should limit the retry by ids, client and type', async () => {
+      const byIds = await request(app).post('/notifications/retry').send({ ids: ['event-2', 'event-4'] }).expect(200);
+      expect(byIds.body.notifications.map((n: { id: string }) => n.id)).toEqual(['event-2']);
+
+      const byClient = await request(app)
+        .post('/notifications/retry')
+        .send({ clientId: 'client-1', type: 'email' })
+        .expect(200);
+      expect(byClient.body.notifications.map((n: { id: string }) => n.id)).toEqual(['event-1']);
+      expect(getEvent('event-3')?.status).toBe('failed');
+    });
+
+    it('should reject invalid filters', async () => {
+      await request(app).post('/notifications/retry').send({ ids: [] }).expect(400);
+      await request(app).post('/notifications/retry').send({ ids: 'event-1' }).expect(400);
+      await request(app).post('/notifications/retry').send({ type: 'sms' }).expect(400);
+    });
+  });
+
+  describe('/settings/notification-retry', () => {
+    it('should return the environment defaults until saved', async () => {
+      process.env.NOTIFICATION_MAX_RETRIES = '5';
+
+      const response = await request(app).get('/settings/notification-retry').expect(200);
+
+      expect(response.body.policy).toEqual({ enabled: true, intervalMinutes: 15, maxRetries: 5 });
+    });
+
+    it('should save partial updates', async () => {
+      await request(app).put('/settings/notification-retry').send({ intervalMinutes: 30 }).expect(200);
+      const response = await request(app).put('/settings/notification-retry').send({ enabled: false }).expect(200);
+
+      expect(response.body.policy).toEqual({ enabled: false, intervalMinutes: 30, maxRetries: 3 });
+      expect(getMockData().app_settings).toHaveLength(1);
+
+      const saved = await request(app).get('/settings/notification-retry').expect(200);
+      expect(saved.body.policy).toEqual(response.body.policy);
+    });
+
+    it('should reject invalid policies', async () => {
+      for (const body of [{ intervalMinutes: 0 }, { maxRetries: 2.5 }, { enabled: 'yes' }, { retries: 3 }]) {
+        const response = await request(app).put('/settings/notification-retry').send(body).expect(400);
+        expect(response.body.error).toBe('Invalid request');
+      }
+    });
+  });
+
+  describe('runNotificationRetry', () => {
+    it('should re-queue failed notifications after the interval while retries are left', async () => {
+      pushEvent({ id: 'due', attempts: 1, updated_at: minutesAgo(20) });
+      pushEvent({ id: 'last-retry', attempts: 3, updated_at: minutesAgo(20) });
+      pushEvent({ id: 'too-recent', attempts: 1, updated_at: minutesAgo(5) });
+      pushEvent({ id: 'exhausted', attempts: 4, updated_at: minutesAgo(20) });
+      pushEvent({ id: 'never-attempted', attempts: 0, updated_at: minutesAgo(20) });
+
+      const retried = await runNotificationRetry();
+
+      expect(retried).toBe(2);
+      expect(getEvent('due')?.status).toBe('pending');
+      expect(getEvent('last-retry')?.status).toBe('pending');
+      expect(getEvent('too-recent')?.status).toBe('failed');
+      expect(getEvent('exhausted')?.status).toBe('failed');
+      expect(getEvent('never-attempted')?.status).toBe('failed');
+    });
+
+    it('should leave permanent failures for a manual retry', async () => {
+      pushEvent({ id: 'rejected', attempts: 1, updated_at: minutesAgo(20), permanent_failure: true });
+
+      expect(await runNotificationRetry()).toBe(0);
+      expect(getEvent('rejected')?.status).toBe('failed');
+
+      const response = await request(app).post('/notifications/rejected/retry').expect(200);
+      expect(response.body.notification).toMatchObject({ status: 'pending', permanent_failure: false });
+    });
+
+    it('should follow the saved policy', async () => {
+      pushEvent({ id: 'due', attempts: 1, updated_at: minutesAgo(20) });
+
+      await request(app).put('/settings/notification-retry').send({ enabled: false }).expect(200);
+      expect(await runNotificationRetry()).toBe(0);
+
+      await request(app).put('/settings/notification-retry').send({ enabled: true, intervalMinutes: 60 }).expect(200);
+      expect(await runNotificationRetry()).toBe(0);
+
+      await request(app).put('/settings/notification-retry').send({ intervalMinutes: 10 }).expect(200);
+      expect(await runNotificationRetry()).toBe(1);
+    });
+  });
+});
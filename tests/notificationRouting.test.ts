@@ -0,0 +1,184 @@
+/**
+ * Notification Routing Test Suite
+ * Tests for channel routing from client settings and contact details, skipped events,
+ * quiet hours and the settings validation on client creation
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { getQuietHoursEnd, routeNotification } from '../lib/notificationRouting';
+import notificationService from '../services/notificationService';
+import whatsappService from '../services/whatsappService';
+import { WorkflowSettings } from '../types/task';
+
+const settings = (overrides: Partial<WorkflowSettings> = {}): WorkflowSettings => ({
+  reportFrequency: 'none',
+  emailNotifications: true,
+  whatsappNotifications: true,
+  ...overrides,
+});
+
+describe('Notification Routing', () => {
+  describe('routeNotification', () => {
+    it('should use both channels when enabled and the client is reachable', () => {
+      const routes = routeNotification({ email: 'owner@acme.com', phone: '+34 612 34 56 78', workflow_settings: settings() });
+
+      expect(routes).toEqual([
+        { type: 'email', status: 'pending', scheduled_for: null },
+        { type: 'whatsapp', status: 'pending', scheduled_for: null },
+      ]);
+    });
+
+    it('should treat missing flags as enabled', () => {
+      const routes = routeNotification({ email: 'owner@acme.com', phone: '+34 612 34 56 78' });
+
+      expect(routes.map((route) => route.status)).toEqual(['pending', 'pending']);
+    });
+
+    it('should skip disabled channels with the reason', () => {
+      const routes = routeNotification({
+        email: 'owner@acme.com',
+        phone: '+34 612 34 56 78',
+        workflow_settings: settings({ emailNotifications: false, whatsappNotifications: false }),
+      });
+
+      expect(routes).toEqual([
+        { type: 'email', status: 'skipped', skip_reason: 'Email notifications are disabled' },
+        { type: 'whatsapp', status: 'skipped', skip_reason: 'WhatsApp notifications are disabled' },
+      ]);
+    });
+
+    it('should skip channels the client cannot be reached on', () => {
+      expect(routeNotification({ email: '  ', phone: undefined, workflow_settings: settings() })).toEqual([
+        { type: 'email', status: 'skipped', skip_reason: 'Client has no email address' },
+        { type: 'whatsapp', status: 'skipped', skip_reason: 'Client has no phone number' },
+      ]);
+
+      const [, whatsapp] = routeNotification({ email: 'owner@acme.com', phone: '555-0100', workflow_settings: settings() });
+      expect(whatsapp).toMatchObject({ status: 'skipped', skip_reason: 'Client phone is not a valid WhatsApp number: 555-0100' });
+    });
+
+    it('should hold notifications created during quiet hours until they end', () => {
+      const routes = routeNotification(
+        {
+          email: 'owner@acme.com',
+          phone: '+34 612 34 56 78',
+          workflow_settings: settings({ timezone: 'Europe/Madrid', quietHours: { start: '22:00', end: '07:30' } }),
+        },
+        new Date('2026-10-18T21:15:00Z') // 23:15 in Madrid
+      );
+
+      expect(routes).toEqual([
+        { type: 'email', status: 'pending', scheduled_for: '2026-10-19T05:30:00.000Z' },
+        { type: 'whatsapp', status: 'pending', scheduled_for: '2026-10-19T05:30:00.000Z' },
+      ]);
+    });
+  });
+
+  describe('getQuietHoursEnd', () => {
+    const overnight = { start: '22:00', end: '07:00' };
+
+    it('should end quiet hours spanning midnight on the right local day', () => {
+      expect(getQuietHoursEnd(overnight, 'UTC', new Date('2026-10-18T23:00:00Z'))).toEqual(new Date('2026-10-19T07:00:00Z'));
+      expect(getQuietHoursEnd(overnight, 'UTC', new Date('2026-10-19T03:00:00Z'))).toEqual(new Date('2026-10-19T07:00:00Z'));
+      expect(getQuietHoursEnd(overnight, 'UTC', new Date('2026-10-19T07:00:00Z'))).toBeNull();
+      expect(getQuietHoursEnd(overnight, 'UTC', new Date('2026-10-19T12:00:00Z'))).toBeNull();
+    });
+
+    it('should handle quiet hours within a day in the client time zone', () => {
+      const lunch = { start: '12:00', end: '14:00' };
+
+      // 12:30 in New York (EDT, UTC-4)
+      expect(getQuietHoursEnd(lunch, 'America/New_York', new Date('2026-10-18T16:30:00Z'))).toEqual(
+        new Date('2026-10-18T18:00:00Z')
+      );
+      expect(getQuietHoursEnd(lunch, 'America/New_York', new Date('2026-10-18T12:30:00Z'))).toBeNull();
+    });
+  });
+
+  describe('notification events', () => {
+    beforeEach(() => {
+      clearMockData();
+    });
+
+    afterEach(() => {
+      clearMockData();
+    });
+
+    const seedClient = (workflowSettings: WorkflowSettings, phone: string | null = '+15550102030') => {
+      const mockData = getMockData();
+      mockData.clients.push({ id: 'client-1', name: 'Acme', email: 'owner@acme.com', phone, workflow_settings: workflowSettings });
+      mockData.tasks.push({ id: 'task-1', input: 'x', status: 'completed', client_id: 'client-1' });
+      mockData.summaries.push({ id: 'summary-1', task_id: 'task-1', client_id: 'client-1', summary: 'Invoice due.' });
+    };
+
+    it('should store skipped events so every channel decision is visible', async () => {
+      seedClient(settings({ whatsappNotifications: false }));
+
+      const events = await notificationService.createNotificationEvents('client-1', 'summary-1');
+
+      expect(events).toHaveLength(2);
+      expect(events.find((e) => e.type === 'email')?.status).toBe('pending');
+      expect(events.find((e) => e.type === 'whatsapp')).toMatchObject({
+        status: 'skipped',
+        skip_reason: 'WhatsApp notifications are disabled',
+      });
+      expect((await notificationService.getPendingNotifications()).map((e) => e.type)).toEqual(['email']);
+    });
+
+    it('should keep events held by quiet hours away from the workers until due', async () => {
+      // Quiet around the clock except one minute, so the test does not depend on the time of day
+      const now = new Date();
+      const minuteOfDay = now.getUTCHours() * 60 + now.getUTCMinutes();
+      const time = (minutes: number) => {
+        const m = (minutes + 1440) % 1440;
+        return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+      };
+      seedClient(settings({ timezone: 'UTC', quietHours: { start: time(minuteOfDay - 1), end: time(minuteOfDay - 2) } }));
+
+      const events = await notificationService.createNotificationEvents('client-1', 'summary-1');
+
+      expect(events.every((e) => e.status === 'pending' && e.scheduled_for)).toBe(true);
+      expect(await notificationService.getPendingNotifications()).toHaveLength(0);
+      expect(await whatsappService.fetchPendingMessages()).toHaveLength(0);
+
+      // Quiet hours are over
+      getMockData().notification_events.forEach((e) => (e.scheduled_for = new Date(Date.now() - 1000).toISOString()));
+
+      expect(await notificationService.getPendingNotifications()).toHaveLength(2);
+      expect(await whatsappService.fetchPendingMessages()).toHaveLength(1);
+    });
+  });
+
+  describe('POST /clients workflow_settings validation', () => {
+    afterEach(() => {
+      clearMockData();
+    });
+
+    it('should accept valid quiet hours', async () => {
+      const response = await request(app)
+        .post('/clients')
+        .send({ name: 'Quiet Client', workflow_settings: settings({ quietHours: { start: '21:30', end: '08:00' } }) })
+        .expect(201);
+
+      expect(response.body.client.workflow_settings.quietHours).toEqual({ start: '21:30', end: '08:00' });
+    });
+
+    it('should reject malformed quiet hours and notification flags', async () => {
+      for (const workflowSettings of [
+        settings({ quietHours: { start: '9pm', end: '08:00' } }),
+        settings({ quietHours: { start: '08:00', end: '08:00' } }),
+        { ...settings(), whatsappNotifications: 'yes' },
+      ]) {
+        const response = await request(app)
+          .post('/clients')
+          .send({ name: 'Bad Client', workflow_settings: workflowSettings })
+          .expect(400);
+
+        expect(response.body.error).toBe('Invalid request');
+        expect(response.body.message).toContain('workflow_settings.');
+      }
+    });
+  });
+});
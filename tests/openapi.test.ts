@@ -0,0 +1,336 @@
+/**
+ * OpenAPI Test Suite
+ * Contract tests for the OpenAPI document (lib/openapi.ts): every mounted route is
+ * documented, and real responses match the documented statuses and schemas
+ */
+
+import request, { Response } from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import * as s from '../lib/schema';
+import { errorResponse } from '../lib/apiSchemas';
+import { API_OPERATIONS, ApiOperation, buildOpenApiDocument, findOperation, getErrorStatuses } from '../lib/openapi';
+import { signHubPayload, signSvixPayload } from '../lib/webhookSignatures';
+import organizationService from '../services/organizationService';
+
+const PASSWORD = 'correct horse battery staple';
+const SECRET = `whsec_${Buffer.from('contract-webhook-secret').toString('base64')}`;
+const OPERATOR_KEY = 'contract-operator-key';
+
+interface ExpressLayer {
+  name: string;
+  regexp: RegExp & { fast_slash?: boolean };
+  route?: { path: string; methods: Record<string, boolean> };
+  handle: { stack?: ExpressLayer[] };
+}
+
+/** '^\/webhooks\/resend-inbound\/?(?=\/|$)' → '/webhooks/resend-inbound' */
+function mountPath(layer: ExpressLayer): string {
+  if (layer.regexp.fast_slash) return '';
+  return layer.regexp.source
+    .replace(/^\^/, '')
+    .replace('\\/?(?=\\/|$)', '')
+    .replace(/\\(.)/g, '$1');
+}
+
+/**
+ * 'METHOD /path' of every route the app serves, including those of mounted routers
+ */
+function mountedRoutes(stack: ExpressLayer[], prefix = ''): string[] {
+  return stack.flatMap((layer) => {
+    if (layer.route) {
+      const path = `${prefix}${layer.route.path === '/' ? '' : layer.route.path}` || '/';
+      return Object.keys(layer.route.methods).map((method) => `${method.toUpperCase()} ${path}`);
+    }
+    if (layer.name === 'router' && layer.handle.stack) {
+      return mountedRoutes(layer.handle.stack, `${prefix}${mountPath(layer)}`);
+    }
+    return [];
+  });
+}
+
+/**
+ * Expect a response to have a documented status and, for JSON, a body matching the
+ * documented schema exactly
+ */
+function expectDocumented(operation: ApiOperation, response: Response): void {
+  const success = operation.status ?? 200;
+  const label = `${operation.id} answered ${response.status}: ${JSON.stringify(response.body)}`;
+  expect([success, ...Object.keys(getErrorStatuses(operation)).map(Number)]).toContain(response.status);
+
+  if (!response.type.includes('json')) {
+    expect(operation.response.mediaTypes ?? []).toContain(response.type);
+    return;
+  }
+
+  let schemas: s.Schema[] = [errorResponse];
+  if (response.status === success) {
+    const schema = operation.response.schema ?? [];
+    schemas = Array.isArray(schema) ? schema : [schema];
+  }
+  const errors = schemas.map((schema) => s.validate(schema, response.body).errors ?? []);
+  expect({ label, errors: errors.find((fieldErrors) => fieldErrors.length === 0) ?? errors[0] }).toEqual({ label, errors: [] });
+}
+
+interface Example {
+  operation: string;
+  path: string;
+  body?: object;
+  status: number;
+}
+
+describe('OpenAPI', () => {
+  beforeEach(() => {
+    clearMockData();
+  });
+
+  afterEach(() => {
+    clearMockData();
+  });
+
+  describe('Document', () => {
+    const document = buildOpenApiDocument() as {
+      openapi: string;
+      paths: Record<string, Record<string, { operationId: string; parameters: { name: string; in: string }[] }>>;
+      components: { schemas: Record<string, unknown> };
+    };
+
+    it('should document every mounted route, and only those', () => {
+      const mounted = mountedRoutes((app as unknown as { _router: { stack: ExpressLayer[] } })._router.stack);
+      const documented = API_OPERATIONS.map((operation) => `${operation.method.toUpperCase()} ${operation.path}`);
+
+      expect(mounted.filter((route) => !findOperation(route.split(' ')[0], route.split(' ')[1]))).toEqual([]);
+      expect([...documented].sort()).toEqual([...new Set(mounted)].sort());
+    });
+
+    it('should be OpenAPI 3.1 with unique operation IDs, declared path parameters and resolvable references', () => {
+      expect(document.openapi).toBe('3.1.0');
+      expect(new Set(API_OPERATIONS.map((operation) => operation.id)).size).toBe(API_OPERATIONS.length);
+
+      for (const [path, operations] of Object.entries(document.paths)) {
+        const pathParameters = [...path.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+        for (const operation of Object.values(operations)) {
+          const declared = operation.parameters.filter((parameter) => parameter.in === 'path').map((parameter) => parameter.name);
+          expect({ operation: operation.operationId, parameters: declared }).toEqual({
+            operation: operation.operationId,
+            parameters: pathParameters,
+          });
+        }
+      }
+
+      const references = [...JSON.stringify(document).matchAll(/"\$ref":"#\/components\/schemas\/(\w+)"/g)].map((match) => match[1]);
+      expect(references.length).toBeGreaterThan(0);
+      expect(references.filter((name) => !(name in document.components.schemas))).toEqual([]);
+    });
+
+    it('should describe models as JSON Schema', () => {
+      expect(document.components.schemas.QuietHours).toEqual({
+        description: '\'HH:MM\' local times; a start after the end spans midnight (e.g. 22:00–07:00)',
+        type: 'object',
+        properties: {
+          start: { type: 'string', pattern: expect.any(String) },
+          end: { type: 'string', pattern: expect.any(String) },
+        },
+        required: ['start', 'end'],
+        additionalProperties: false,
+      });
+      expect(document.paths['/clients/{id}'].get).toMatchObject({
+        operationId: 'getClient',
+        security: [{ bearerAuth: ['read'] }, { apiKeyHeader: ['read'] }],
+        responses: {
+          200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/ClientResponse' } } } },
+          404: { content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } } },
+        },
+      });
+    });
+
+    it('should be served at /openapi.json, with an HTML page at /docs', async () => {
+      const response = await request(app).get('/openapi.json').expect(200);
+      expect(response.body).toEqual(JSON.parse(JSON.stringify(document)));
+
+      const page = await request(app).get('/docs').expect(200);
+      expect(page.type).toBe('text/html');
+      expect(page.text).toContain('openapi.json');
+    });
+  });
+
+  describe('Responses', () => {
+    let token: string;
+    let clientId: string;
+    let inboundEmail: string;
+
+    beforeEach(async () => {
+      delete process.env.AUTH_DISABLED;
+      process.env.RESEND_INBOUND_WEBHOOK_SECRET = SECRET;
+      process.env.RESEND_WEBHOOK_SECRET = SECRET;
+      process.env.WHATSAPP_VERIFY_TOKEN = 'verify-me';
+      process.env.WHATSAPP_APP_SECRET = SECRET;
+      process.env.OPERATOR_API_KEY = OPERATOR_KEY;
+
+      const data = getMockData();
+      data.organizations.push({ id: 'org-1', name: 'Agency' });
+      const owner = await organizationService.createUser('owner@agency.test', PASSWORD, 'Owner');
+      await organizationService.addMember('org-1', owner!.id, 'owner');
+      const login = await request(app).post('/auth/login').send({ email: 'owner@agency.test', password: PASSWORD });
+      token = login.body.token;
+
+      const client = await request(app)
+        .post('/clients')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'Acme', email: 'ops@acme.test', workflow_settings: { reportFrequency: 'daily' } })
+        .expect(201);
+      clientId = client.body.client.id;
+      inboundEmail = client.body.client.inbound_email;
+
+      data.tasks.push({
+        id: 'task-1',
+        client_id: clientId,
+        input: 'Quarterly numbers',
+        output: 'Numbers are up',
+        status: 'completed',
+        created_at: '2026-10-01T10:00:00Z',
+      });
+      data.summaries.push({ id: 'summary-1', task_id: 'task-1', client_id: clientId, summary: 'Numbers are up', created_at: '2026-10-01T10:01:00Z' });
+      data.notification_events.push({
+        id: 'event-1',
+        client_id: clientId,
+        summary_id: 'summary-1',
+        type: 'email',
+        status: 'failed',
+        attempts: 1,
+        created_at: '2026-10-01T10:02:00Z',
+      });
+      data.reports.push({
+        id: 'report-1',
+        client_id: clientId,
+        frequency: 'daily',
+        period_key: '2026-10-01',
+        period_start: '2026-10-01T00:00:00Z',
+        period_end: '2026-10-02T00:00:00Z',
+        timezone: 'UTC',
+        content: 'Daily report',
+        created_at: '2026-10-02T08:00:00Z',
+      });
+    });
+
+    afterEach(() => {
+      process.env.AUTH_DISABLED = 'true';
+      delete process.env.RESEND_INBOUND_WEBHOOK_SECRET;
+      delete process.env.RESEND_WEBHOOK_SECRET;
+      delete process.env.WHATSAPP_VERIFY_TOKEN;
+      delete process.env.WHATSAPP_APP_SECRET;
+      delete process.env.OPERATOR_API_KEY;
+    });
+
+    /**
+     * Call an operation like a client of the API would: with the owner's session token, the
+     * operator key, or signed for provider webhooks
+     */
+    function call(operation: ApiOperation, path: string, body?: object) {
+      let test = request(app)[operation.method](path);
+      if (operation.auth === 'signature') {
+        const id = `msg_${Math.random()}`;
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        test = test
+          .set('svix-id', id)
+          .set('svix-timestamp', timestamp)
+          .set('svix-signature', signSvixPayload(SECRET, id, timestamp, JSON.stringify(body ?? {})));
+      } else if (operation.auth === 'hubSignature') {
+        test = test.set('X-Hub-Signature-256', signHubPayload(SECRET, JSON.stringify(body ?? {})));
+      } else if (operation.auth === 'operator') {
+        test = test.set('Authorization', `Bearer ${OPERATOR_KEY}`);
+      } else if (operation.auth) {
+        test = test.set('Authorization', `Bearer ${token}`);
+      }
+      return body ? test.set('Content-Type', 'application/json').send(JSON.stringify(body)) : test;
+    }
+
+    it('should answer every operation with a documented status and schema', async () => {
+      const invitation = await organizationService.createInvitation('org-1', 'invited@agency.test', 'viewer');
+      const examples: Example[] = [
+        { operation: 'getHealth', path: '/health', status: 200 },
+        { operation: 'getOpenApiDocument', path: '/openapi.json', status: 200 },
+        { operation: 'getApiDocs', path: '/docs', status: 200 },
+        { operation: 'login', path: '/auth/login', body: { email: 'owner@agency.test', password: 'wrong' }, status: 401 },
+        { operation: 'getCurrentAuth', path: '/auth/me', status: 200 },
+        { operation: 'createApiKey', path: '/auth/api-keys', body: { name: 'CI', scopes: ['read'] }, status: 201 },
+        { operation: 'createApiKey', path: '/auth/api-keys', body: { name: '', scopes: [] }, status: 400 },
+        { operation: 'listApiKeys', path: '/auth/api-keys', status: 200 },
+        { operation: 'revokeApiKey', path: '/auth/api-keys/missing', status: 404 },
+        { operation: 'getOrganization', path: '/organization', status: 200 },
+        { operation: 'inviteMember', path: '/organization/members', body: { email: 'ops@agency.test', role: 'viewer' }, status: 201 },
+        { operation: 'inviteMember', path: '/organization/members', body: { email: 'owner@agency.test', role: 'viewer' }, status: 409 },
+        { operation: 'acceptInvitation', path: '/auth/invitations/accept', body: { token: invitation.token, password: PASSWORD }, status: 200 },
+        { operation: 'acceptInvitation', path: '/auth/invitations/accept', body: { token: invitation.token, password: PASSWORD }, status: 404 },
+        { operation: 'updateMemberRole', path: '/organization/members/missing', body: { role: 'operator' }, status: 404 },
+        { operation: 'removeMember', path: '/organization/members/missing', status: 404 },
+        { operation: 'createClient', path: '/clients', body: { name: 'Globex' }, status: 201 },
+        { operation: 'listClients', path: '/clients', status: 200 },
+        { operation: 'getClient', path: `/clients/${clientId}`, status: 200 },
+        { operation: 'getClient', path: '/clients/missing', status: 404 },
+        { operation: 'updateClient', path: `/clients/${clientId}`, body: { company: 'Acme Inc', phone: null }, status: 200 },
+        { operation: 'updatePromptProfile', path: `/clients/${clientId}/prompt-profile`, body: { prompt_profile: { format: 'bullets' } }, status: 200 },
+        { operation: 'previewPromptProfile', path: `/clients/${clientId}/prompt-profile/preview`, body: {}, status: 200 },
+        { operation: 'updateBranding', path: `/clients/${clientId}/branding`, body: { branding: { signOff: 'The Acme team' } }, status: 200 },
+        { operation: 'clearEmailBounce', path: `/clients/${clientId}/email-bounce`, status: 200 },
+        { operation: 'previewEmail', path: `/clients/${clientId}/email-preview`, body: { template: 'summary_ready', summaryId: 'summary-1' }, status: 200 },
+        { operation: 'createTask', path: '/task', body: { clientId, text: 'Please summarize this' }, status: 201 },
+        { operation: 'createTask', path: '/task', body: { clientId: 'missing', text: 'Please summarize this' }, status: 404 },
+        { operation: 'listTasks', path: '/task', status: 200 },
+        { operation: 'listSummaries', path: `/summaries?clientId=${clientId}`, status: 200 },
+        { operation: 'getReport', path: `/report?clientId=${clientId}`, status: 200 },
+        { operation: 'getReport', path: `/report?clientId=${clientId}&format=json`, status: 200 },
+        { operation: 'getReport', path: `/report?clientId=${clientId}&format=csv`, status: 200 },
+        { operation: 'listReportHistory', path: '/report/history', status: 200 },
+        { operation: 'listNotifications', path: '/notifications', status: 200 },
+        { operation: 'getNotificationTimeline', path: '/notifications/event-1/timeline', status: 200 },
+        { operation: 'retryNotification', path: '/notifications/event-1/retry', status: 200 },
+        { operation: 'retryNotification', path: '/notifications/event-1/retry', status: 400 },
+        { operation: 'retryNotifications', path: '/notifications/retry', body: { clientId }, status: 200 },
+        { operation: 'getWorkerStats', path: '/workers/stats', status: 200 },
+        { operation: 'getNotificationRetryPolicy', path: '/settings/notification-retry', status: 200 },
+        { operation: 'updateNotificationRetryPolicy', path: '/settings/notification-retry', body: { maxRetries: 2 }, status: 200 },
+        {
+          operation: 'receiveEmail',
+          path: '/email-webhook',
+          body: { clientId, sender: 'ceo@acme.test', subject: 'Numbers', body: 'Quarterly numbers attached' },
+          status: 200,
+        },
+        {
+          operation: 'receiveResendInboundEmail',
+          path: '/webhooks/resend-inbound',
+          body: { from: 'ceo@acme.test', to: inboundEmail, subject: 'Numbers', text: 'Quarterly numbers' },
+          status: 200,
+        },
+        { operation: 'receiveResendEvent', path: '/webhooks/resend', body: { type: 'email.delivered', data: { email_id: 're_unknown' } }, status: 200 },
+        { operation: 'receiveResendEvent', path: '/webhooks/resend', body: { type: 'email.delivered', data: {} }, status: 400 },
+        {
+          operation: 'verifyWhatsAppWebhook',
+          path: '/webhooks/whatsapp?hub.mode=subscribe&hub.verify_token=verify-me&hub.challenge=42',
+          status: 200,
+        },
+        { operation: 'verifyWhatsAppWebhook', path: '/webhooks/whatsapp?hub.mode=subscribe&hub.verify_token=wrong', status: 403 },
+        { operation: 'receiveWhatsAppEvent', path: '/webhooks/whatsapp', body: { object: 'whatsapp_business_account', entry: [] }, status: 200 },
+        { operation: 'archiveClient', path: `/clients/${clientId}/archive`, status: 200 },
+        { operation: 'createTask', path: '/task', body: { clientId, text: 'Please summarize this' }, status: 409 },
+        { operation: 'restoreClient', path: `/clients/${clientId}/archive`, status: 200 },
+        { operation: 'deleteClient', path: `/clients/${clientId}`, status: 200 },
+        { operation: 'logout', path: '/auth/logout', status: 200 },
+        { operation: 'getCurrentAuth', path: '/auth/me', status: 401 },
+      ];
+
+      expect(API_OPERATIONS.filter((operation) => !examples.some((example) => example.operation === operation.id))).toEqual([]);
+
+      for (const example of examples) {
+        const operation = API_OPERATIONS.find((candidate) => candidate.id === example.operation)!;
+        const response = await call(operation, example.path, example.body);
+
+        expect({ example: `${example.operation} ${example.path}`, status: response.status }).toEqual({
+          example: `${example.operation} ${example.path}`,
+          status: example.status,
+        });
+        expectDocumented(operation, response);
+      }
+    });
+  });
+});
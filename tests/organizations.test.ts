@@ -0,0 +1,325 @@
+/**
+ * Organization Test Suite
+ * Tests for per-organization data scoping, members and roles, and organization API keys
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import organizationService from '../services/organizationService';
+import { OrganizationRole } from '../types/task';
+
+const PASSWORD = 'correct horse battery staple';
+
+/**
+ * Create a user with the given role in an organization
+ * @returns The user's ID
+ */
+async function addUser(email: string, organizationId: string, role: OrganizationRole): Promise<string> {
+  const user = (await organizationService.createUser(email, PASSWORD)) ?? (await organizationService.getUserByEmail(email));
+  await organizationService.addMember(organizationId, user!.id, role);
+  return user!.id;
+}
+
+/**
+ * Log in and return the session token
+ */
+async function login(email: string, organizationId?: string): Promise<string> {
+  const response = await request(app).post('/auth/login').send({ email, password: PASSWORD, organizationId }).expect(200);
+  return response.body.token;
+}
+
+/**
+ * Seed a client with a task, summary, notification and report in an organization
+ */
+function seedClient(id: string, organizationId: string): void {
+  const data = getMockData();
+  data.clients.push({ id, organization_id: organizationId, name: `Client ${id}` });
+  data.tasks.push({ id: `task-${id}`, client_id: id, text: `Task for ${id}`, status: 'completed', created_at: '2026-10-01T10:00:00Z' });
+  data.summaries.push({ id: `summary-${id}`, task_id: `task-${id}`, client_id: id, summary: `Summary for ${id}`, created_at: '2026-10-01T10:01:00Z' });
+  data.notification_events.push({
+    id: `event-${id}`,
+    client_id: id,
+    summary_id: `summary-${id}`,
+    type: 'email',
+    status: 'failed',
+    attempts: 1,
+    created_at: '2026-10-01T10:02:00Z',
+  });
+  data.reports.push({ id: `report-${id}`, client_id: id, content: `Report for ${id}`, created_at: '2026-10-01T10:03:00Z' });
+}
+
+describe('Organizations', () => {
+  let agencyToken: string;
+  let rivalToken: string;
+
+  beforeEach(async () => {
+    clearMockData();
+    delete process.env.AUTH_DISABLED;
+    getMockData().organizations.push({ id: 'org-1', name: 'Agency' }, { id: 'org-2', name: 'Rival' });
+    await addUser('owner@agency.test', 'org-1', 'owner');
+    await addUser('owner@rival.test', 'org-2', 'owner');
+    seedClient('client-1', 'org-1');
+    seedClient('client-2', 'org-2');
+    agencyToken = await login('owner@agency.test');
+    rivalToken = await login('owner@rival.test');
+  });
+
+  afterEach(() => {
+    clearMockData();
+    jest.restoreAllMocks();
+    process.env.AUTH_DISABLED = 'true';
+  });
+
+  describe('Data scoping', () => {
+    it('should only list the organization’s own clients, tasks, summaries, notifications and reports', async () => {
+      const auth = { Authorization: `Bearer ${agencyToken}` };
+
+      const clients = await request(app).get('/clients').set(auth).expect(200);
+      expect(clients.body.clients.map((c: { id: string }) => c.id)).toEqual(['client-1']);
+
+      const tasks = await request(app).get('/task').set(auth).expect(200);
+      expect(tasks.body.tasks.map((t: { id: string }) => t.id)).toEqual(['task-client-1']);
+
+      const summaries = await request(app).get('/summaries').set(auth).expect(200);
+      expect(summaries.body.summaries.map((s: { id: string }) => s.id)).toEqual(['summary-client-1']);
+
+      const notifications = await request(app).get('/notifications').set(auth).expect(200);
+      expect(notifications.body.notifications.map((n: { id: string }) => n.id)).toEqual(['event-client-1']);
+
+      const reports = await request(app).get('/report/history').set(auth).expect(200);
+      expect(reports.body.reports.map((r: { id: string }) => r.id)).toEqual(['report-client-1']);
+    });
+
+    it('should answer 404 for another organization’s client and its data', async () => {
+      const auth = { Authorization: `Bearer ${agencyToken}` };
+
+      await request(app).get('/clients/client-2').set(auth).expect(404);
+      await request(app).patch('/clients/client-2').set(auth).send({ name: 'Renamed' }).expect(404);
+      await request(app).post('/clients/client-2/archive').set(auth).expect(404);
+      await request(app).delete('/clients/client-2').set(auth).expect(404);
+      await request(app).put('/clients/client-2/branding').set(auth).send({ branding: { primaryColor: '#000000' } }).expect(404);
+      await request(app).get('/summaries?clientId=client-2').set(auth).expect(404);
+      await request(app).get('/report?clientId=client-2').set(auth).expect(404);
+      await request(app).get('/notifications/event-client-2/timeline').set(auth).expect(404);
+      await request(app).post('/notifications/event-client-2/retry').set(auth).expect(404);
+      await request(app).post('/task').set(auth).send({ text: 'Sneaky', clientId: 'client-2' }).expect(404);
+
+      const history = await request(app).get('/report/history?clientId=client-2').set(auth).expect(200);
+      expect(history.body.reports).toHaveLength(0);
+      expect(getMockData().tasks).toHaveLength(2);
+    });
+
+    it('should only retry the organization’s own notifications in bulk', async () => {
+      const response = await request(app)
+        .post('/notifications/retry')
+        .set('Authorization', `Bearer ${agencyToken}`)
+        .send({ ids: ['event-client-1', 'event-client-2'] })
+        .expect(200);
+
+      expect(response.body.notifications.map((n: { id: string }) => n.id)).toEqual(['event-client-1']);
+      expect(getMockData().notification_events.find((e) => e.id === 'event-client-2')?.status).toBe('failed');
+    });
+
+    it('should create clients in the caller’s organization', async () => {
+      const response = await request(app)
+        .post('/clients')
+        .set('Authorization', `Bearer ${rivalToken}`)
+        .send({ name: 'New Client' })
+        .expect(201);
+
+      expect(getMockData().clients.find((c) => c.id === response.body.client.id)?.organization_id).toBe('org-2');
+    });
+
+    it('should keep webhook keys to their organization’s clients', async () => {
+      const created = await request(app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${agencyToken}`)
+        .send({ name: 'Inbox', scopes: ['webhook'] })
+        .expect(201);
+      const email = { sender: 'ops@client.test', subject: 'Update', body: 'Please update the site' };
+
+      await request(app).post('/email-webhook').set('X-API-Key', created.body.key).send({ ...email, clientId: 'client-2' }).expect(404);
+      await request(app).post('/email-webhook').set('X-API-Key', created.body.key).send({ ...email, clientId: 'client-1' }).expect(200);
+    });
+  });
+
+  describe('Members and roles', () => {
+    it('should return the organization with its members', async () => {
+      const response = await request(app).get('/organization').set('Authorization', `Bearer ${agencyToken}`).expect(200);
+
+      expect(response.body.organization).toMatchObject({ id: 'org-1', name: 'Agency' });
+      expect(response.body.members).toHaveLength(1);
+      expect(response.body.members[0]).toMatchObject({ role: 'owner', user: { email: 'owner@agency.test' } });
+      expect(response.body.members[0].user.password_hash).toBeUndefined();
+    });
+
+    it('should let owners invite new accounts, which join once the invitation is accepted', async () => {
+      const auth = { Authorization: `Bearer ${agencyToken}` };
+
+      await request(app).post('/organization/members').set(auth).send({ email: 'new@agency.test', role: 'boss' }).expect(400);
+
+      const response = await request(app)
+        .post('/organization/members')
+        .set(auth)
+        .send({ email: 'New@Agency.test', role: 'operator' })
+        .expect(201);
+      expect(response.body.invitation).toMatchObject({ organization_id: 'org-1', email: 'new@agency.test', role: 'operator' });
+      expect(response.body.invitation.token_hash).toBeUndefined();
+      expect(response.body.token).toMatch(/^inc_inv_/);
+      expect(getMockData().users).toHaveLength(2);
+
+      const { token } = response.body;
+      await request(app).post('/auth/invitations/accept').send({ token, password: 'short' }).expect(400);
+      const accepted = await request(app)
+        .post('/auth/invitations/accept')
+        .send({ token, password: PASSWORD, name: 'New Operator' })
+        .expect(200);
+      expect(accepted.body).toMatchObject({ organizationId: 'org-1', role: 'operator' });
+
+      const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${accepted.body.token}`).expect(200);
+      expect(me.body.auth).toMatchObject({ organizationId: 'org-1', role: 'operator', scopes: ['read', 'write'] });
+
+      // Single use, and no second invitation for a member
+      await request(app).post('/auth/invitations/accept').send({ token, password: PASSWORD }).expect(404);
+      await request(app).post('/organization/members').set(auth).send({ email: 'new@agency.test', role: 'viewer' }).expect(409);
+    });
+
+    it('should answer the same for existing accounts and only add them with their password', async () => {
+      const invite = (email: string) =>
+        request(app).post('/organization/members').set('Authorization', `Bearer ${rivalToken}`).send({ email, role: 'viewer' }).expect(201);
+
+      const existing = await invite('owner@agency.test');
+      const unknown = await invite('nobody@agency.test');
+      expect(Object.keys(existing.body).sort()).toEqual(Object.keys(unknown.body).sort());
+      expect(Object.keys(existing.body.invitation).sort()).toEqual(Object.keys(unknown.body.invitation).sort());
+
+      // Nothing changes until the account's owner accepts
+      const memberships = () => getMockData().organization_members.filter((m) => m.organization_id === 'org-2');
+      expect(memberships()).toHaveLength(1);
+
+      await request(app).post('/auth/invitations/accept').send({ token: existing.body.token, password: 'not the password' }).expect(401);
+      expect(memberships()).toHaveLength(1);
+
+      await request(app).post('/auth/invitations/accept').send({ token: existing.body.token, password: PASSWORD }).expect(200);
+      expect(memberships()).toHaveLength(2);
+    });
+
+    it('should keep the invitation usable when joining fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      const { token } = await organizationService.createInvitation('org-1', 'retry@agency.test', 'viewer');
+      jest.spyOn(organizationService, 'addMember').mockRejectedValueOnce(new Error('Failed to add member: connection reset'));
+
+      await request(app).post('/auth/invitations/accept').send({ token, password: PASSWORD }).expect(500);
+      expect(getMockData().organization_invitations[0].accepted_at).toBeNull();
+
+      await request(app).post('/auth/invitations/accept').send({ token, password: PASSWORD }).expect(200);
+      expect(getMockData().organization_members.some((m) => m.organization_id === 'org-1' && m.role === 'viewer')).toBe(true);
+    });
+
+    it('should refuse expired invitations', async () => {
+      const { token } = await organizationService.createInvitation('org-1', 'late@agency.test', 'viewer', new Date('2020-01-01T00:00:00Z'));
+
+      await request(app).post('/auth/invitations/accept').send({ token, password: PASSWORD }).expect(404);
+      expect(getMockData().users.some((u) => u.email === 'late@agency.test')).toBe(false);
+    });
+
+    it('should let a user belong to several organizations and pick one at login', async () => {
+      await addUser('owner@agency.test', 'org-2', 'viewer');
+
+      const token = await login('owner@agency.test', 'org-2');
+      const clients = await request(app).get('/clients').set('Authorization', `Bearer ${token}`).expect(200);
+      expect(clients.body.clients.map((c: { id: string }) => c.id)).toEqual(['client-2']);
+
+      await request(app).post('/clients').set('Authorization', `Bearer ${token}`).send({ name: 'Not allowed' }).expect(403);
+    });
+
+    it('should give each role its scopes', async () => {
+      await addUser('operator@agency.test', 'org-1', 'operator');
+      await addUser('viewer@agency.test', 'org-1', 'viewer');
+      const operator = { Authorization: `Bearer ${await login('operator@agency.test')}` };
+      const viewer = { Authorization: `Bearer ${await login('viewer@agency.test')}` };
+
+      await request(app).get('/clients').set(viewer).expect(200);
+      await request(app).post('/clients').set(viewer).send({ name: 'Viewer Client' }).expect(403);
+
+      await request(app).post('/clients').set(operator).send({ name: 'Operator Client' }).expect(201);
+      await request(app).post('/clients/client-1/archive').set(operator).expect(200);
+      await request(app).delete('/clients/client-1').set(operator).expect(403);
+      await request(app).get('/auth/api-keys').set(operator).expect(403);
+      await request(app)
+        .post('/organization/members')
+        .set(operator)
+        .send({ email: 'someone@agency.test', role: 'viewer' })
+        .expect(403);
+    });
+
+    it('should apply a role change to existing sessions', async () => {
+      const userId = await addUser('viewer@agency.test', 'org-1', 'viewer');
+      const viewer = { Authorization: `Bearer ${await login('viewer@agency.test')}` };
+
+      await request(app).post('/clients').set(viewer).send({ name: 'Too early' }).expect(403);
+      await request(app)
+        .put(`/organization/members/${userId}`)
+        .set('Authorization', `Bearer ${agencyToken}`)
+        .send({ role: 'operator' })
+        .expect(200);
+      await request(app).post('/clients').set(viewer).send({ name: 'Now allowed' }).expect(201);
+    });
+
+    it('should end a removed member’s access', async () => {
+      const userId = await addUser('leaver@agency.test', 'org-1', 'operator');
+      const leaver = { Authorization: `Bearer ${await login('leaver@agency.test')}` };
+
+      await request(app).delete(`/organization/members/${userId}`).set('Authorization', `Bearer ${agencyToken}`).expect(200);
+
+      await request(app).get('/clients').set(leaver).expect(401);
+      await request(app).post('/auth/login').send({ email: 'leaver@agency.test', password: PASSWORD }).expect(401);
+      await request(app).delete(`/organization/members/${userId}`).set('Authorization', `Bearer ${agencyToken}`).expect(404);
+    });
+
+    it('should never leave an organization without an owner', async () => {
+      const auth = { Authorization: `Bearer ${agencyToken}` };
+      const ownerId = getMockData().users.find((u) => u.email === 'owner@agency.test')?.id;
+
+      await request(app).put(`/organization/members/${ownerId}`).set(auth).send({ role: 'viewer' }).expect(409);
+      await request(app).delete(`/organization/members/${ownerId}`).set(auth).expect(409);
+
+      await addUser('second@agency.test', 'org-1', 'owner');
+      await request(app).put(`/organization/members/${ownerId}`).set(auth).send({ role: 'operator' }).expect(200);
+    });
+
+    it('should not touch members of another organization', async () => {
+      const rivalOwnerId = getMockData().users.find((u) => u.email === 'owner@rival.test')?.id;
+
+      await request(app).delete(`/organization/members/${rivalOwnerId}`).set('Authorization', `Bearer ${agencyToken}`).expect(404);
+      expect(getMockData().organization_members).toHaveLength(2);
+    });
+  });
+
+  describe('API keys', () => {
+    it('should keep each organization’s API keys to itself', async () => {
+      const created = await request(app)
+        .post('/auth/api-keys')
+        .set('Authorization', `Bearer ${agencyToken}`)
+        .send({ name: 'Reporting', scopes: ['read'] })
+        .expect(201);
+
+      const rivalKeys = await request(app).get('/auth/api-keys').set('Authorization', `Bearer ${rivalToken}`).expect(200);
+      expect(rivalKeys.body.apiKeys).toHaveLength(0);
+      await request(app).delete(`/auth/api-keys/${created.body.apiKey.id}`).set('Authorization', `Bearer ${rivalToken}`).expect(404);
+
+      const clients = await request(app).get('/clients').set('X-API-Key', created.body.key).expect(200);
+      expect(clients.body.clients.map((c: { id: string }) => c.id)).toEqual(['client-1']);
+    });
+
+    it('should need a token for organization endpoints even with auth disabled', async () => {
+      process.env.AUTH_DISABLED = 'true';
+
+      await request(app).get('/organization').expect(400);
+      await request(app).get('/auth/api-keys').expect(400);
+      const response = await request(app).get('/organization').set('Authorization', `Bearer ${agencyToken}`).expect(200);
+      expect(response.body.organization.id).toBe('org-1');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Pagination Test Suite
+ * Tests for cursor pagination, filters and sorting of the list endpoints and lib/pagination.ts
+ */
+
+import request from 'supertest';
+import app from '../orchestrator';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { decodeCursor, encodeCursor, getCursorError, searchFilter } from '../lib/pagination';
+
+/** ISO time on 2026-03-01 plus the given minutes */
+const minutes = (count: number) => new Date(Date.UTC(2026, 2, 1, 0, count)).toISOString();
+
+const ids = (rows: { id: string }[]) => rows.map((row) => row.id);
+
+describe('Pagination', () => {
+  beforeEach(() => {
+    clearMockData();
+  });
+
+  afterEach(() => {
+    clearMockData();
+  });
+
+  describe('cursors', () => {
+    it('should round-trip and reject anything else', () => {
+      const cursor = { sort: 'created_at', order: 'desc' as const, value: minutes(1), id: 'task-1' };
+
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(Buffer.from('["created_at","sideways","x","y"]').toString('base64url'))).toBeNull();
+    });
+
+    it('should only continue the sort and order it was made for', () => {
+      const cursor = encodeCursor({ sort: 'created_at', order: 'desc', value: minutes(1), id: 'task-1' });
+
+      expect(getCursorError({ cursor }, 'created_at')).toBeNull();
+      expect(getCursorError({ cursor, order: 'asc' }, 'created_at')).toMatch(/different sort/);
+      expect(getCursorError({ cursor, sort: 'updated_at' }, 'created_at')).toMatch(/different sort/);
+    });
+
+    it('should quote search text and match LIKE wildcards literally', () => {
+      expect(searchFilter(['input', 'output'], '50%_off, "now"')).toBe(
+        'input.ilike."%50\\\\%\\\\_off, \\"now\\"%",output.ilike."%50\\\\%\\\\_off, \\"now\\"%"'
+      );
+    });
+  });
+
+  describe('GET /task', () => {
+    beforeEach(() => {
+      const mockData = getMockData();
+      mockData.clients.push({ id: 'client-1', name: 'Acme' }, { id: 'client-2', name: 'Globex' });
+      for (let i = 1; i <= 5; i++) {
+        mockData.tasks.push({
+          id: `task-${i}`,
+          input: i === 3 ? 'Invoice 50% overdue' : `Message ${i}`,
+          output: null,
+          status: i % 2 === 0 ? 'failed' : 'completed',
+          client_id: i <= 3 ? 'client-1' : 'client-2',
+          // Tasks 4 and 5 were created at the same instant; id breaks the tie
+          created_at: minutes(Math.min(i, 4)),
+          updated_at: minutes(10 - i),
+        });
+      }
+    });
+
+    it('should page newest first with a total and a cursor until the last page', async () => {
+      const first = await request(app).get('/task?limit=2').expect(200);
+      expect(ids(first.body.tasks)).toEqual(['task-5', 'task-4']);
+      expect(first.body.total).toBe(5);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      const second = await request(app).get(`/task?limit=2&cursor=${first.body.nextCursor}`).expect(200);
+      expect(ids(second.body.tasks)).toEqual(['task-3', 'task-2']);
+      expect(second.body.total).toBe(5);
+
+      const last = await request(app).get(`/task?limit=2&cursor=${second.body.nextCursor}`).expect(200);
+      expect(ids(last.body.tasks)).toEqual(['task-1']);
+      expect(last.body.nextCursor).toBeNull();
+    });
+
+    it('should not skip or repeat rows when new ones arrive between pages', async () => {
+      const first = await request(app).get('/task?limit=2').expect(200);
+
+      getMockData().tasks.push({ id: 'task-6', input: 'New', status: 'pending', client_id: 'client-1', created_at: minutes(30) });
+
+      const second = await request(app).get(`/task?limit=10&cursor=${first.body.nextCursor}`).expect(200);
+      expect(ids(second.body.tasks)).toEqual(['task-3', 'task-2', 'task-1']);
+      expect(second.body.total).toBe(6);
+    });
+
+    it('should sort by another column in either order', async () => {
+      const first = await request(app).get('/task?sort=updated_at&order=asc&limit=3').expect(200);
+      expect(ids(first.body.tasks)).toEqual(['task-5', 'task-4', 'task-3']);
+
+      const second = await request(app)
+        .get(`/task?sort=updated_at&order=asc&limit=3&cursor=${first.body.nextCursor}`)
+        .expect(200);
+      expect(ids(second.body.tasks)).toEqual(['task-2', 'task-1']);
+    });
+
+    it('should filter by status, client, creation time and free text, and count the matches', async () => {
+      const byStatus = await request(app).get('/task?status=failed&clientId=client-1').expect(200);
+      expect(ids(byStatus.body.tasks)).toEqual(['task-2']);
+      expect(byStatus.body.total).toBe(1);
+
+      const byTime = await request(app).get(`/task?from=${minutes(2)}&to=${minutes(4)}`).expect(200);
+      expect(ids(byTime.body.tasks)).toEqual(['task-3', 'task-2']);
+      expect(byTime.body.total).toBe(2);
+
+      const bySearch = await request(app).get(`/task?q=${encodeURIComponent('50%')}`).expect(200);
+      expect(ids(bySearch.body.tasks)).toEqual(['task-3']);
+
+      const noMatch = await request(app).get(`/task?q=${encodeURIComponent('5_%')}`).expect(200);
+      expect(noMatch.body).toMatchObject({ tasks: [], total: 0, nextCursor: null });
+    });
+
+    it('should reject bad paging parameters', async () => {
+      const first = await request(app).get('/task?limit=2').expect(200);
+
+      const tooMany = await request(app).get('/task?limit=201').expect(400);
+      expect(tooMany.body.errors[0]).toMatchObject({ field: 'limit', location: 'query' });
+
+      await request(app).get('/task?sort=input').expect(400);
+      await request(app).get('/task?cursor=nonsense').expect(400);
+
+      const otherOrder = await request(app).get(`/task?order=asc&cursor=${first.body.nextCursor}`).expect(400);
+      expect(otherOrder.body.message).toMatch(/different sort or order/);
+    });
+  });
+
+  describe('other lists', () => {
+    beforeEach(() => {
+      const mockData = getMockData();
+      mockData.clients.push(
+        { id: 'client-1', name: 'Acme', email: 'ops@acme.test', created_at: minutes(1), archived_at: null },
+        { id: 'client-2', name: 'Globex', email: 'hello@globex.test', created_at: minutes(2), archived_at: null },
+        { id: 'client-3', name: 'Initech', email: null, created_at: minutes(3), archived_at: minutes(5) }
+      );
+      mockData.tasks.push({ id: 'task-1', input: 'x', status: 'completed', client_id: 'client-1' });
+      mockData.summaries.push(
+        { id: 'summary-1', task_id: 'task-1', client_id: 'client-1', summary: 'Invoice due Friday.', created_at: minutes(1) },
+        { id: 'summary-2', task_id: 'task-1', client_id: 'client-2', summary: 'Meeting moved.', created_at: minutes(2) }
+      );
+      mockData.notification_events.push(
+        { id: 'event-1', client_id: 'client-1', summary_id: 'summary-1', type: 'email', status: 'sent', created_at: minutes(1) },
+        { id: 'event-2', client_id: 'client-1', summary_id: 'summary-1', type: 'whatsapp', status: 'skipped', skip_reason: 'No phone number', created_at: minutes(2) },
+        { id: 'event-3', client_id: 'client-2', summary_id: 'summary-2', type: 'email', status: 'failed', last_error: 'Mailbox full', created_at: minutes(3) }
+      );
+      mockData.reports.push(
+        { id: 'report-1', client_id: 'client-1', frequency: 'daily', period_key: '2026-03-01', period_start: minutes(0), content: 'Daily', created_at: minutes(10) },
+        { id: 'report-2', client_id: 'client-1', frequency: 'weekly', period_key: '2026-02-23', period_start: minutes(-7 * 24 * 60), content: 'Weekly', created_at: minutes(11) }
+      );
+    });
+
+    it('should page and search clients, sorted by name', async () => {
+      const first = await request(app).get('/clients?sort=name&order=asc&limit=1').expect(200);
+      expect(ids(first.body.clients)).toEqual(['client-1']);
+      expect(first.body.total).toBe(2);
+
+      const second = await request(app).get(`/clients?sort=name&order=asc&limit=1&cursor=${first.body.nextCursor}`).expect(200);
+      expect(ids(second.body.clients)).toEqual(['client-2']);
+      expect(second.body.nextCursor).toBeNull();
+
+      const archived = await request(app).get('/clients?includeArchived=true&q=INITECH').expect(200);
+      expect(ids(archived.body.clients)).toEqual(['client-3']);
+    });
+
+    it('should filter notifications by channel and search their errors', async () => {
+      const email = await request(app).get('/notifications?type=email').expect(200);
+      expect(ids(email.body.notifications)).toEqual(['event-3', 'event-1']);
+      expect(email.body.total).toBe(2);
+
+      const search = await request(app).get('/notifications?q=phone').expect(200);
+      expect(ids(search.body.notifications)).toEqual(['event-2']);
+    });
+
+    it('should page summaries of a client with their extraction', async () => {
+      const response = await request(app).get('/summaries?clientId=client-1').expect(200);
+
+      expect(ids(response.body.summaries)).toEqual(['summary-1']);
+      expect(response.body.summaries[0]).toHaveProperty('extraction', null);
+      expect(response.body).toMatchObject({ total: 1, nextCursor: null });
+    });
+
+    it('should filter report history by frequency and sort it by period', async () => {
+      const weekly = await request(app).get('/report/history?frequency=weekly').expect(200);
+      expect(ids(weekly.body.reports)).toEqual(['report-2']);
+
+      const byPeriod = await request(app).get('/report/history?sort=period_start&order=asc').expect(200);
+      expect(ids(byPeriod.body.reports)).toEqual(['report-2', 'report-1']);
+      expect(byPeriod.body.total).toBe(2);
+    });
+  });
+});
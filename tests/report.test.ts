@@ -12,6 +12,7 @@ import {
   mockOpenAI,
   mockOpenAIResponse,
 } from './__mocks__/openai.mock';
+import { resolveReportRange } from '../lib/reportRanges';
 
 const waitForTaskProcessing = async (maxMs: number = 4000) => {
   const start = Date.now();
@@ -411,4 +412,225 @@ describe('Report Endpoint', () => {
       expect(summaryLines.length).toBe(0);
     });
   });
+
+  describe('Date ranges', () => {
+    const seed = (summary: string, createdAt: string, status: 'completed' | 'failed' = 'completed') => {
+      const mockData = getMockData();
+      const taskId = `task-${mockData.tasks.length + 1}`;
+      mockData.tasks.push({ id: taskId, input: summary, status, client_id: client1Id, created_at: createdAt, updated_at: createdAt });
+      if (status === 'completed') {
+        mockData.summaries.push({ id: `summary-${taskId}`, task_id: taskId, client_id: client1Id, summary, created_at: createdAt });
+      }
+    };
+
+    it('should only include summaries from the requested days', async () => {
+      seed('Before range', '2026-09-30T23:59:00Z');
+      seed('First day', '2026-10-01T00:00:00Z');
+      seed('Last day', '2026-10-02T23:59:00Z');
+      seed('After range', '2026-10-03T00:00:00Z');
+
+      const response = await request(app)
+        .get(`/report?clientId=${client1Id}&from=2026-10-01&to=2026-10-02&timezone=UTC`)
+        .expect(200);
+
+      const lines: string[] = response.body.report.split('\n');
+      expect(lines[0]).toBe('📝 Report: 2026-10-01 – 2026-10-02 (UTC)');
+      expect(lines.filter((line) => line.startsWith('- '))).toEqual(['- Last day', '- First day']);
+      expect(response.body).toMatchObject({ from: '2026-10-01T00:00:00.000Z', to: '2026-10-03T00:00:00.000Z', timezone: 'UTC' });
+    });
+
+    it('should use local day boundaries in the client time zone', async () => {
+      const client = await request(app)
+        .post('/clients')
+        .send({
+          name: 'Tokyo Client',
+          workflow_settings: { reportFrequency: 'daily', emailNotifications: false, whatsappNotifications: false, timezone: 'Asia/Tokyo' },
+        })
+        .expect(201);
+      const tokyoId = client.body.client.id;
+      getMockData().summaries.push(
+        // 2026-10-17 14:30 UTC is already 23:30 on the 17th in Tokyo; 15:30 UTC is the 18th
+        { id: 's-1', task_id: 't-1', client_id: tokyoId, summary: 'Late on the 17th', created_at: '2026-10-17T14:30:00Z' },
+        { id: 's-2', task_id: 't-2', client_id: tokyoId, summary: 'Early on the 18th', created_at: '2026-10-17T15:30:00Z' }
+      );
+
+      const response = await request(app)
+        .get(`/report?clientId=${tokyoId}&from=2026-10-18&to=2026-10-18`)
+        .expect(200);
+
+      expect(response.body.report.split('\n')[0]).toBe('📝 Daily Report: 2026-10-18 (Asia/Tokyo)');
+      expect(response.body.report).toContain('Early on the 18th');
+      expect(response.body.report).not.toContain('Late on the 17th');
+    });
+
+    it('should count tasks completed and failed in the window', async () => {
+      seed('Done', '2026-10-05T10:00:00Z');
+      seed('Also done', '2026-10-05T11:00:00Z');
+      seed('Broken', '2026-10-05T12:00:00Z', 'failed');
+      seed('Outside', '2026-10-06T10:00:00Z', 'failed');
+
+      const response = await request(app)
+        .get(`/report?clientId=${client1Id}&from=2026-10-05&to=2026-10-05&timezone=UTC`)
+        .expect(200);
+
+      expect(response.body.report.split('\n')[1]).toBe('Tasks: 2 completed, 1 failed');
+    });
+
+    it('should accept period shorthands', async () => {
+      seed('Just now', new Date().toISOString());
+
+      const today = await request(app).get(`/report?clientId=${client1Id}&period=today`).expect(200);
+      expect(today.body.report).toContain('Just now');
+
+      const yesterday = await request(app).get(`/report?clientId=${client1Id}&period=yesterday`).expect(200);
+      expect(yesterday.body.report).toContain('No completed tasks found');
+    });
+
+    it('should reject invalid bounds', async () => {
+      const cases = [
+        'period=fortnight',
+        'from=2026-02-30',
+        'from=yesterday',
+        'to=2026-10-01',
+        'from=2026-10-05&to=2026-10-01',
+        'period=week&from=2026-10-01',
+        'timezone=Mars/Olympus',
+      ];
+
+      for (const query of cases) {
+        const response = await request(app).get(`/report?clientId=${client1Id}&${query}`).expect(400);
+        expect(response.body).toHaveProperty('error', 'Invalid request');
+      }
+    });
+  });
+
+  describe('resolveReportRange', () => {
+    const now = new Date('2026-10-21T10:00:00Z'); // Wednesday
+
+    it('should resolve calendar weeks from Monday and months from the 1st', () => {
+      expect(resolveReportRange({ period: 'week' }, 'UTC', now).range).toEqual({
+        from: new Date('2026-10-19T00:00:00Z'),
+        to: new Date('2026-10-22T00:00:00Z'),
+        timezone: 'UTC',
+      });
+      expect(resolveReportRange({ period: 'month' }, 'UTC', now).range?.from).toEqual(new Date('2026-10-01T00:00:00Z'));
+    });
+
+    it('should treat timestamps as exact bounds and default "to" to now', () => {
+      expect(resolveReportRange({ from: '2026-10-21T08:30:00Z' }, 'Europe/Madrid', now).range).toEqual({
+        from: new Date('2026-10-21T08:30:00Z'),
+        to: now,
+        timezone: 'Europe/Madrid',
+      });
+    });
+
+    it('should follow DST changes at local day boundaries', () => {
+      // Clocks go back in Madrid on 2026-10-25, so that day is 25 hours long
+      const { range } = resolveReportRange({ from: '2026-10-25', to: '2026-10-25' }, 'Europe/Madrid', now);
+      expect(range?.from).toEqual(new Date('2026-10-24T22:00:00Z'));
+      expect(range?.to).toEqual(new Date('2026-10-25T23:00:00Z'));
+    });
+  });
+
+  describe('Report formats', () => {
+    beforeEach(() => {
+      const mockData = getMockData();
+      mockData.tasks.push(
+        { id: 'task-a', input: 'a', status: 'completed', client_id: client1Id, created_at: '2026-10-05T09:00:00Z', updated_at: '2026-10-05T09:00:00Z' },
+        { id: 'task-b', input: 'b', status: 'completed', client_id: client1Id, created_at: '2026-10-06T09:00:00Z', updated_at: '2026-10-06T09:00:00Z' }
+      );
+      mockData.summaries.push(
+        { id: 'summary-a', task_id: 'task-a', client_id: client1Id, summary: 'Invoice <b>#12</b> from "Acme", paid', created_at: '2026-10-05T09:00:00Z' },
+        { id: 'summary-b', task_id: 'task-b', client_id: client1Id, summary: '=SUM(A1:A2) looks like a formula', created_at: '2026-10-06T09:00:00Z' }
+      );
+      mockData.extractions.push({
+        id: 'extraction-a',
+        summary_id: 'summary-a',
+        task_id: 'task-a',
+        client_id: client1Id,
+        model: 'gpt-4o-mini',
+        priority: 'high',
+        action_items: [{ description: 'Pay the invoice', owner: 'Finance', due_date: '2026-10-10' }],
+        deadlines: [],
+        amounts: [{ amount: 12500, currency: 'USD', description: 'invoice #12' }],
+        counterparties: [{ name: 'Acme', type: 'organization', role: 'supplier' }],
+      });
+    });
+
+    const range = 'from=2026-10-05&to=2026-10-06&timezone=UTC';
+
+    it('should return the structured report with format=json', async () => {
+      const response = await request(app).get(`/report?clientId=${client1Id}&${range}&format=json`).expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.report).toMatchObject({
+        title: 'Report',
+        client: { id: client1Id, name: 'Client 1' },
+        period: { label: '2026-10-05 – 2026-10-06', timezone: 'UTC' },
+        totals: { completed: 2, failed: 0, summaries: 2 },
+      });
+      expect(response.body.report.sections.map((s: { date: string }) => s.date)).toEqual(['2026-10-06', '2026-10-05']);
+      expect(response.body.report.sections[1].items[0]).toMatchObject({
+        summary_id: 'summary-a',
+        extraction: { priority: 'high', amounts: [{ amount: 12500, currency: 'USD' }] },
+      });
+    });
+
+    it('should render Markdown with a heading per day', async () => {
+      const response = await request(app).get(`/report?clientId=${client1Id}&${range}&format=markdown`).expect(200);
+
+      expect(response.headers['content-type']).toContain('text/markdown');
+      expect(response.text).toContain('# 📝 Report: 2026-10-05 – 2026-10-06');
+      expect(response.text).toContain('**Tasks:** 2 completed, 0 failed');
+      expect(response.text.indexOf('## 2026-10-06')).toBeLessThan(response.text.indexOf('## 2026-10-05'));
+      expect(response.text).toContain('  - **Action:** Pay the invoice (Finance, due 2026-10-10)');
+    });
+
+    it('should render escaped, email-ready HTML', async () => {
+      const response = await request(app).get(`/report?clientId=${client1Id}&${range}&format=html`).expect(200);
+
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.text.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(response.text).toContain('Invoice &lt;b&gt;#12&lt;&#x2F;b&gt; from &quot;Acme&quot;, paid');
+      expect(response.text).not.toContain('<b>#12');
+      expect(response.text).toContain('<strong>Amount:</strong> USD 12,500 — invoice #12');
+    });
+
+    it('should render CSV with one quoted row per summary', async () => {
+      const response = await request(app).get(`/report?clientId=${client1Id}&${range}&format=csv`).expect(200);
+
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('attachment');
+
+      const rows = response.text.trimEnd().split('\r\n');
+      expect(rows[0]).toBe('date,created_at,task_id,summary,priority,action_items,deadlines,amounts,counterparties');
+      expect(rows).toHaveLength(3);
+      // Formula-like values are neutralised
+      expect(rows[1]).toContain(",'=SUM(A1:A2) looks like a formula,");
+      expect(rows[2]).toBe(
+        '2026-10-05,2026-10-05T09:00:00Z,task-a,"Invoice <b>#12</b> from ""Acme"", paid",high,' +
+          'Pay the invoice | Finance | 2026-10-10,,USD 12500 (invoice #12),Acme (supplier)'
+      );
+    });
+
+    it('should pick the format from the Accept header', async () => {
+      const html = await request(app).get(`/report?clientId=${client1Id}&${range}`).set('Accept', 'text/html').expect(200);
+      expect(html.headers['content-type']).toContain('text/html');
+
+      const text = await request(app).get(`/report?clientId=${client1Id}&${range}`).set('Accept', 'text/plain').expect(200);
+      expect(text.text.split('\n')[0]).toBe('📝 Report: 2026-10-05 – 2026-10-06 (UTC)');
+
+      // JSON clients keep the plain-text envelope
+      const json = await request(app)
+        .get(`/report?clientId=${client1Id}&${range}`)
+        .set('Accept', 'application/json, text/plain, */*')
+        .expect(200);
+      expect(typeof json.body.report).toBe('string');
+    });
+
+    it('should reject an unknown format', async () => {
+      const response = await request(app).get(`/report?clientId=${client1Id}&format=pdf`).expect(400);
+      expect(response.body.message).toContain('format');
+    });
+  });
 });
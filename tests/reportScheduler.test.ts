@@ -0,0 +1,244 @@
+/**
+ * Report Scheduler Test Suite
+ * Tests for due-period calculation, idempotent report generation and report history
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { resetOpenAIMock, mockOpenAI } from './__mocks__/openai.mock';
+import summaryService from '../services/summaryService';
+import { getDueReportPeriod, runReportScheduler, getReportSchedulerStats } from '../workers/reportScheduler';
+import { Client, WorkflowSettings } from '../types/task';
+
+const makeClient = (settings: Partial<WorkflowSettings>): Client => ({
+  id: 'client-1',
+  name: 'Scheduled Client',
+  workflow_settings: {
+    reportFrequency: 'daily',
+    emailNotifications: true,
+    whatsappNotifications: false,
+    ...settings,
+  },
+});
+
+describe('Report Scheduler', () => {
+  describe('getDueReportPeriod', () => {
+    it('should cover the previous local day once the report hour has passed', () => {
+      const period = getDueReportPeriod(
+        makeClient({ timezone: 'America/New_York', reportHour: 8 }),
+        new Date('2026-10-18T12:30:00Z') // 08:30 in New York
+      );
+
+      expect(period).toEqual({
+        frequency: 'daily',
+        periodKey: '2026-10-17',
+        periodStart: new Date('2026-10-17T04:00:00Z'),
+        periodEnd: new Date('2026-10-18T04:00:00Z'),
+        timezone: 'America/New_York',
+      });
+    });
+
+    it('should still point at the previous period before the report hour', () => {
+      const period = getDueReportPeriod(
+        makeClient({ timezone: 'America/New_York', reportHour: 8 }),
+        new Date('2026-10-18T11:30:00Z') // 07:30 in New York
+      );
+
+      expect(period?.periodKey).toBe('2026-10-16');
+    });
+
+    it('should use the client time zone for the local date', () => {
+      // 23:30 UTC on the 18th is already 08:30 on the 19th in Tokyo
+      const period = getDueReportPeriod(
+        makeClient({ timezone: 'Asia/Tokyo', reportHour: 8 }),
+        new Date('2026-10-18T23:30:00Z')
+      );
+
+      expect(period?.periodKey).toBe('2026-10-18');
+      expect(period?.periodStart).toEqual(new Date('2026-10-17T15:00:00Z'));
+    });
+
+    it('should cover the previous seven days for weekly reports', () => {
+      // Wednesday 2026-10-21; the last Monday send was 2026-10-19
+      const period = getDueReportPeriod(
+        makeClient({ reportFrequency: 'weekly', timezone: 'UTC', reportHour: 8, reportWeekday: 1 }),
+        new Date('2026-10-21T10:00:00Z')
+      );
+
+      expect(period?.periodKey).toBe('2026-10-12');
+      expect(period?.periodEnd).toEqual(new Date('2026-10-19T00:00:00Z'));
+    });
+
+    it('should return null for clients without scheduled reports', () => {
+      expect(getDueReportPeriod(makeClient({ reportFrequency: 'none' }))).toBeNull();
+      expect(getDueReportPeriod({ id: 'client-2', name: 'No settings' })).toBeNull();
+    });
+  });
+
+  describe('runReportScheduler', () => {
+    const now = new Date('2026-10-18T09:00:00Z');
+
+    beforeEach(async () => {
+      clearMockData();
+      await request(app)
+        .post('/clients')
+        .send({
+          name: 'Daily Client',
+          email: 'daily@client.com',
+          workflow_settings: { reportFrequency: 'daily', emailNotifications: true, whatsappNotifications: false, timezone: 'UTC' },
+        })
+        .expect(201);
+      await request(app)
+        .post('/clients')
+        .send({
+          name: 'No Reports',
+          workflow_settings: { reportFrequency: 'none', emailNotifications: true, whatsappNotifications: false },
+        })
+        .expect(201);
+    });
+
+    afterEach(() => {
+      clearMockData();
+      resetOpenAIMock();
+      jest.restoreAllMocks();
+    });
+
+    it('should store the report and enqueue its notifications', async () => {
+      await runReportScheduler(now);
+
+      const mockData = getMockData();
+      expect(mockData.reports).toHaveLength(1);
+      expect(mockData.reports[0]).toMatchObject({
+        frequency: 'daily',
+        period_key: '2026-10-17',
+        timezone: 'UTC',
+      });
+      expect(mockData.reports[0].content).toContain('📝 Daily Report:');
+
+      const events = mockData.notification_events.filter((e) => e.report_id === mockData.reports[0].id);
+      expect(events.map((e) => e.type).sort()).toEqual(['email', 'whatsapp']);
+      expect(events.every((e) => e.summary_id === null)).toBe(true);
+      // The client only has email notifications enabled
+      expect(events.find((e) => e.type === 'email')?.status).toBe('pending');
+      expect(events.find((e) => e.type === 'whatsapp')).toMatchObject({
+        status: 'skipped',
+        skip_reason: 'WhatsApp notifications are disabled',
+      });
+    });
+
+    it('should not send the same period twice across restarts', async () => {
+      const before = getReportSchedulerStats();
+
+      await runReportScheduler(now);
+      await runReportScheduler(new Date('2026-10-18T20:00:00Z'));
+
+      const mockData = getMockData();
+      expect(mockData.reports).toHaveLength(1);
+      expect(mockData.notification_events).toHaveLength(2);
+
+      const after = getReportSchedulerStats();
+      expect(after.generated - before.generated).toBe(1);
+      expect(after.skipped - before.skipped).toBe(1);
+    });
+
+    it('should generate a single report when instances run concurrently', async () => {
+      await Promise.all([runReportScheduler(now), runReportScheduler(now)]);
+
+      const mockData = getMockData();
+      expect(mockData.reports).toHaveLength(1);
+      expect(mockData.notification_events).toHaveLength(2);
+    });
+
+    it('should enqueue notifications for a stored report that has none', async () => {
+      await runReportScheduler(now);
+      const mockData = getMockData();
+      mockData.notification_events.length = 0;
+
+      await runReportScheduler(now);
+
+      expect(mockData.reports).toHaveLength(1);
+      expect(mockData.notification_events).toHaveLength(2);
+    });
+
+    it('should generate the next report once a new day is due', async () => {
+      await runReportScheduler(now);
+      await runReportScheduler(new Date('2026-10-19T09:00:00Z'));
+
+      expect(getMockData().reports.map((r) => r.period_key).sort()).toEqual(['2026-10-17', '2026-10-18']);
+    });
+
+    it('should store nothing when the report cannot be built, and retry on the next run', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      const before = getReportSchedulerStats();
+      jest.spyOn(summaryService, 'getSummariesByClient').mockRejectedValueOnce(new Error('Failed to fetch summaries: timeout'));
+
+      await runReportScheduler(now);
+
+      const mockData = getMockData();
+      expect(mockData.reports).toHaveLength(0);
+      expect(mockData.notification_events).toHaveLength(0);
+      expect(getReportSchedulerStats().failed - before.failed).toBe(1);
+
+      await runReportScheduler(now);
+
+      expect(mockData.reports).toHaveLength(1);
+      expect(mockData.reports[0].content).not.toContain('Error');
+    });
+
+    it('should store nothing when the requested digest fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      const mockData = getMockData();
+      const client = mockData.clients.find((c) => c.name === 'Daily Client')!;
+      client.workflow_settings = Object.assign({}, client.workflow_settings, { reportDigest: true });
+      mockData.summaries.push({ id: 'summary-1', task_id: 'task-1', client_id: client.id, summary: 'Invoice received.', created_at: '2026-10-17T10:00:00Z' });
+      mockOpenAI.chat.completions.create.mockRejectedValue(Object.assign(new Error('Invalid request'), { status: 400 }));
+
+      await runReportScheduler(now);
+
+      expect(mockData.reports).toHaveLength(0);
+      expect(mockData.notification_events).toHaveLength(0);
+    });
+
+    it('should list stored reports via GET /report/history', async () => {
+      await runReportScheduler(now);
+      const clientId = getMockData().reports[0].client_id;
+
+      const response = await request(app)
+        .get(`/report/history?clientId=${clientId}`)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.reports).toHaveLength(1);
+      expect(response.body.reports[0].period_key).toBe('2026-10-17');
+    });
+  });
+
+  describe('Client schedule settings', () => {
+    beforeEach(() => {
+      clearMockData();
+    });
+
+    it('should reject an unknown time zone', async () => {
+      const response = await request(app)
+        .post('/clients')
+        .send({
+          name: 'Bad TZ',
+          workflow_settings: { reportFrequency: 'daily', emailNotifications: true, whatsappNotifications: false, timezone: 'Mars/Olympus' },
+        })
+        .expect(400);
+
+      expect(response.body.message).toContain('timezone');
+    });
+
+    it('should reject an out-of-range report hour', async () => {
+      await request(app)
+        .post('/clients')
+        .send({
+          name: 'Bad hour',
+          workflow_settings: { reportFrequency: 'daily', emailNotifications: true, whatsappNotifications: false, reportHour: 24 },
+        })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Schema Test Suite
+ * Tests for the declarative schemas (lib/schema.ts), the validateRequest middleware's
+ * field-level 400 responses and the generated dashboard types
+ */
+
+import fs from 'fs';
+import path from 'path';
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import * as s from '../lib/schema';
+import { generateDashboardTypes } from '../lib/apiSchemas';
+
+const contact = s.named(
+  'Contact',
+  s.object(
+    {
+      name: s.string({ trim: true, minLength: 1 }),
+      email: s.optional(s.nullable(s.string({ format: 'email' }))),
+      age: s.optional(s.integer({ minimum: 0, maximum: 150 })),
+      tags: s.optional(s.array(s.oneOf(['vip', 'new']), { maxItems: 2 })),
+    },
+    { description: 'Someone to contact' }
+  )
+);
+
+describe('Schemas', () => {
+  beforeEach(() => {
+    clearMockData();
+  });
+
+  afterEach(() => {
+    clearMockData();
+  });
+
+  describe('validate', () => {
+    it('should return the parsed value with trimmed strings and no undefined properties', () => {
+      expect(s.validate(contact, { name: '  Ada  ', email: null, age: undefined })).toEqual({
+        value: { name: 'Ada', email: null },
+      });
+    });
+
+    it('should report every invalid field, not just the first', () => {
+      const { errors } = s.validate(contact, { email: 'not-an-email', age: 1.5, tags: ['vip', 'old'], extra: true });
+
+      expect(errors).toEqual([
+        { field: 'extra', message: 'is not a known field' },
+        { field: 'name', message: 'is required' },
+        { field: 'email', message: 'must be a valid email address' },
+        { field: 'age', message: 'must be an integer between 0 and 150' },
+        { field: 'tags[1]', message: 'must be one of: vip, new' },
+      ]);
+    });
+
+    it('should coerce query strings only when asked', () => {
+      const query = s.object({ limit: s.optional(s.integer()), archived: s.optional(s.boolean()) });
+
+      expect(s.validate(query, { limit: '5', archived: 'true' }, { coerce: true })).toEqual({
+        value: { limit: 5, archived: true },
+      });
+      expect(s.validate(query, { limit: '5' }).errors).toEqual([{ field: 'limit', message: 'must be an integer' }]);
+      expect(s.validate(query, { limit: ['5', '6'] }, { coerce: true }).errors).toEqual([
+        { field: 'limit', message: 'must be given at most once' },
+      ]);
+    });
+
+    it('should keep unlisted properties of passthrough objects', () => {
+      const event = s.object({ type: s.string() }, { passthrough: true });
+
+      expect(s.validate(event, { type: 'email.sent', data: { id: 1 } })).toEqual({
+        value: { type: 'email.sent', data: { id: 1 } },
+      });
+    });
+  });
+
+  describe('toTypeDeclarations', () => {
+    it('should print named schemas as declarations referring to each other by name', () => {
+      const list = s.named('ContactList', s.object({ contacts: s.array(contact) }));
+
+      expect(s.toTypeDeclarations(s.collectNamedSchemas([list]))).toBe(
+        [
+          'export interface ContactList {',
+          '  contacts: Contact[];',
+          '}',
+          '',
+          '/** Someone to contact */',
+          'export interface Contact {',
+          '  name: string;',
+          '  email?: string | null;',
+          '  age?: number;',
+          "  tags?: Array<'vip' | 'new'>;",
+          '}',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should refuse two different schemas with the same name', () => {
+      expect(() => s.collectNamedSchemas([contact, s.named('Contact', s.string())])).toThrow('Contact');
+    });
+  });
+
+  describe('validateRequest', () => {
+    it('should answer 400 with every invalid field of the body', async () => {
+      getMockData().clients.push({ id: 'client-1', name: 'Acme' });
+
+      const response = await request(app)
+        .patch('/clients/client-1')
+        .send({ name: '', workflow_settings: { reportHour: 24, quietHours: { start: '22:00' } }, notes: 'x' })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        error: 'Invalid request',
+        message: expect.stringContaining('"workflow_settings.reportHour" must be an integer between 0 and 23'),
+        errors: [
+          { field: 'notes', location: 'body', message: 'is not a known field' },
+          { field: 'name', location: 'body', message: 'must be a non-empty string' },
+          { field: 'workflow_settings.reportHour', location: 'body', message: 'must be an integer between 0 and 23' },
+          { field: 'workflow_settings.quietHours.end', location: 'body', message: 'is required' },
+        ],
+      });
+      expect(getMockData().clients[0].name).toBe('Acme');
+    });
+
+    it('should name query parameters in the message', async () => {
+      const response = await request(app).get('/task?limit=500&status=done').expect(400);
+
+      expect(response.body.errors.map((error: { field: string; location: string }) => [error.location, error.field])).toEqual([
+        ['query', 'limit'],
+        ['query', 'status'],
+      ]);
+      expect(response.body.message).toContain('Query parameter "limit" must be an integer between 1 and 200');
+    });
+  });
+
+  describe('dashboard types', () => {
+    it('should be up to date with the API schemas (run `npm run generate:types`)', () => {
+      const file = fs.readFileSync(path.join(__dirname, '..', 'dashboard', 'src', 'types.ts'), 'utf8');
+
+      expect(file).toBe(generateDashboardTypes());
+    });
+  });
+});
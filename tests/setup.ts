@@ -3,6 +3,9 @@
  * Configures test environment and global mocks
  */
 
+import os from 'os';
+import path from 'path';
+
 // Import mocks before anything else
 import './__mocks__/supabase.mock';
 import './__mocks__/openai.mock';
@@ -12,6 +15,13 @@ process.env.SUPABASE_URL = 'https://test.supabase.co';
 process.env.SUPABASE_KEY = 'test-supabase-key';
 process.env.OPENAI_API_KEY = 'test-openai-key';
 process.env.NODE_ENV = 'test';
+// Structured extraction makes a second LLM call per task; suites that cover it enable it explicitly
+process.env.EXTRACTION_ENABLED = 'false';
+// Emails are written as .eml files instead of being sent
+process.env.EMAIL_TRANSPORT = 'outbox';
+process.env.EMAIL_OUTBOX_DIR = path.join(os.tmpdir(), 'included-test-outbox');
+// Routes are called without tokens; the auth suite turns authentication back on
+process.env.AUTH_DISABLED = 'true';
 
 // Suppress console output during tests unless debugging
 global.console = {
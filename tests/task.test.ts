@@ -36,7 +36,7 @@ describe('Task Endpoint', () => {
     // Create a test client for tasks
     const clientResponse = await request(app)
       .post('/clients')
-      .send({ name: 'Test Client', email: 'test@client.com' });
+      .send({ name: 'Test Client', email: 'test@client.com', phone: '+1 555 010 2030' });
     testClientId = clientResponse.body.client.id;
   });
 
@@ -88,7 +88,7 @@ describe('Task Endpoint', () => {
         .expect(400);
 
       expect(response.body).toHaveProperty('error', 'Invalid request');
-      expect(response.body.message).toContain('non-empty "text" field');
+      expect(response.body.errors).toEqual([{ field: 'text', location: 'body', message: 'is required' }]);
     });
 
     it('should return 400 if text is empty string', async () => {
@@ -116,7 +116,7 @@ describe('Task Endpoint', () => {
         .expect(400);
 
       expect(response.body).toHaveProperty('error', 'Invalid request');
-      expect(response.body.message).toContain('non-empty "clientId" field');
+      expect(response.body.errors).toEqual([{ field: 'clientId', location: 'body', message: 'is required' }]);
     });
 
     it('should return 400 if clientId is empty string', async () => {
@@ -161,8 +161,8 @@ describe('Task Endpoint', () => {
 
       // After processing, task should be completed
       const task = mockData.tasks.find((t) => t.id === taskId);
-      expect(task.status).toBe('completed');
-      expect(task.output).toBe('Summary: Test task completed successfully.');
+      expect(task?.status).toBe('completed');
+      expect(task?.output).toBe('Summary: Test task completed successfully.');
 
       // Verify OpenAI was called
       expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1);
@@ -190,19 +190,19 @@ describe('Task Endpoint', () => {
 
       // 1. Initially: pending or processing (race condition)
       let task = mockData.tasks.find((t) => t.id === taskId);
-      expect(['pending', 'processing']).toContain(task.status);
+      expect(['pending', 'processing']).toContain(task?.status);
 
       // 2. Wait a bit for processing to start/continue (but not finish)
       // Use explicit small delay, not waitForTaskProcessing which waits for completion
       await new Promise((resolve) => setTimeout(resolve, 50));
       task = mockData.tasks.find((t) => t.id === taskId);
-      expect(task.status).toBe('processing');
+      expect(task?.status).toBe('processing');
 
       // 3. Wait for completion
       await waitForTaskProcessing();
       task = mockData.tasks.find((t) => t.id === taskId);
-      expect(task.status).toBe('completed');
-      expect(task.output).toBe('Completed summary.');
+      expect(task?.status).toBe('completed');
+      expect(task?.output).toBe('Completed summary.');
     });
 
     it('should store summary in summaries table after completion', async () => {
@@ -255,8 +255,9 @@ describe('Task Endpoint', () => {
       // Task should be marked as failed
       const mockData = getMockData();
       const task = mockData.tasks.find((t) => t.id === taskId);
-      expect(task.status).toBe('failed');
-      expect(task.output).toBe('Error processing input.');
+      expect(task?.status).toBe('failed');
+      expect(task?.output).toBe('Error: OpenAI API error');
+      expect(task?.error_category).toBe('unknown');
 
       // No summary should be created for failed tasks
       expect(mockData.summaries).toHaveLength(0);
@@ -279,6 +280,7 @@ describe('Task Endpoint', () => {
       const mockData = getMockData();
       const task = mockData.tasks[0];
       expect(task.status).toBe('failed');
+      expect(task.error_category).toBe('empty_response');
     });
 
     it('should create notification events after task completion', async () => {
@@ -307,12 +309,12 @@ describe('Task Endpoint', () => {
       );
 
       expect(emailNotif).toBeDefined();
-      expect(emailNotif.status).toBe('pending');
-      expect(emailNotif.client_id).toBe(testClientId);
+      expect(emailNotif?.status).toBe('pending');
+      expect(emailNotif?.client_id).toBe(testClientId);
 
       expect(whatsappNotif).toBeDefined();
-      expect(whatsappNotif.status).toBe('pending');
-      expect(whatsappNotif.client_id).toBe(testClientId);
+      expect(whatsappNotif?.status).toBe('pending');
+      expect(whatsappNotif?.client_id).toBe(testClientId);
     });
 
     it('should handle multiple tasks for same client', async () => {
@@ -384,7 +386,7 @@ describe('Task Endpoint', () => {
 
       expect(client1Summary).toBeDefined();
       expect(client2Summary).toBeDefined();
-      expect(client1Summary.client_id).not.toBe(client2Summary.client_id);
+      expect(client1Summary?.client_id).not.toBe(client2Summary?.client_id);
     });
   });
 
@@ -437,10 +439,80 @@ describe('Task Endpoint', () => {
       const mockData = getMockData();
       const task = mockData.tasks[0];
       expect(task.status).toBe('failed');
-      expect(task.output).toBe('Error processing input.');
+      expect(task.output).toBe('Error: Persistent failure');
 
       // Should have attempted 3 times
       expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(3);
     });
   });
+
+  describe('LLM Failure Results', () => {
+    const apiError = (status: number, message: string) =>
+      Object.assign(new Error(message), { status });
+
+    it('should not retry and should record auth failures', async () => {
+      mockOpenAI.chat.completions.create.mockRejectedValue(apiError(401, 'Incorrect API key provided'));
+
+      await request(app)
+        .post('/task')
+        .send({ text: 'Task with bad credentials.', clientId: testClientId })
+        .expect(201);
+
+      await waitForTaskProcessing();
+
+      const task = getMockData().tasks[0];
+      expect(task.status).toBe('failed');
+      expect(task.error_category).toBe('auth');
+      expect(task.output).toBe('Error: Incorrect API key provided');
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry rate-limited requests', async () => {
+      mockOpenAI.chat.completions.create
+        .mockRejectedValueOnce(apiError(429, 'Rate limit reached'))
+        .mockResolvedValueOnce(mockOpenAIResponse('Summary after rate limit.'));
+
+      await request(app)
+        .post('/task')
+        .send({ text: 'Task hitting a rate limit.', clientId: testClientId })
+        .expect(201);
+
+      await waitForTaskProcessing();
+
+      const task = getMockData().tasks[0];
+      expect(task.status).toBe('completed');
+      expect(task.error_category).toBeNull();
+      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat a summary that reads like the old error string as a success', async () => {
+      setOpenAIMockResponse('Error processing input.');
+
+      await request(app)
+        .post('/task')
+        .send({ text: 'Vendor reported: Error processing input.', clientId: testClientId })
+        .expect(201);
+
+      await waitForTaskProcessing();
+
+      const mockData = getMockData();
+      expect(mockData.tasks[0].status).toBe('completed');
+      expect(mockData.summaries).toHaveLength(1);
+    });
+
+    it('should filter tasks by status and error category', async () => {
+      const mockData = getMockData();
+      mockData.tasks.push(
+        { id: 'rate-limited', input: 'a', output: 'Error: x', status: 'failed', error_category: 'rate_limit', client_id: testClientId, created_at: new Date().toISOString() },
+        { id: 'timed-out', input: 'b', output: 'Error: y', status: 'failed', error_category: 'timeout', client_id: testClientId, created_at: new Date().toISOString() },
+        { id: 'done', input: 'c', output: 'ok', status: 'completed', error_category: null, client_id: testClientId, created_at: new Date().toISOString() },
+      );
+
+      const response = await request(app)
+        .get('/task?status=failed&errorCategory=rate_limit')
+        .expect(200);
+
+      expect(response.body.tasks.map((t: { id: string }) => t.id)).toEqual(['rate-limited']);
+    });
+  });
 });
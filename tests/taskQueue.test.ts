@@ -0,0 +1,339 @@
+/**
+ * Task Queue Test Suite
+ * Tests for atomic task claiming, leases, stale-task reaping and the automation worker
+ */
+
+import request from 'supertest';
+import app from '../orchestrator/index';
+import supabase from '../database/supabase';
+import { clearMockData, getMockData } from './__mocks__/supabase.mock';
+import { resetOpenAIMock, setOpenAIMockResponse, mockOpenAI, mockOpenAIResponse } from './__mocks__/openai.mock';
+import taskQueueService, { TaskQueueService } from '../services/taskQueueService';
+import { processPendingTasks, getAutomationWorkerStats } from '../workers/automationWorker';
+
+const addTask = (overrides: Record<string, unknown> = {}) => {
+  const task = {
+    id: `task-${Math.random().toString(36).slice(2)}`,
+    input: 'Queue test input',
+    output: null,
+    status: 'pending',
+    attempts: 0,
+    client_id: 'client-1',
+    created_at: new Date().toISOString(),
+    ...overrides,
+  };
+  getMockData().tasks.push(task);
+  return task;
+};
+
+describe('TaskQueueService', () => {
+  let workerA: TaskQueueService;
+  let workerB: TaskQueueService;
+
+  beforeEach(() => {
+    clearMockData();
+    workerA = new TaskQueueService({ workerId: 'worker-a', leaseMs: 60000, processingTimeoutMs: 600000, maxAttempts: 3 });
+    workerB = new TaskQueueService({ workerId: 'worker-b', leaseMs: 60000, processingTimeoutMs: 600000, maxAttempts: 3 });
+  });
+
+  afterEach(() => {
+    clearMockData();
+    jest.restoreAllMocks();
+  });
+
+  describe('claimTask', () => {
+    it('should claim a pending task and record the lease', async () => {
+      const task = addTask();
+
+      const claimed = await workerA.claimTask(task.id);
+
+      expect(claimed).not.toBeNull();
+      expect(claimed?.status).toBe('processing');
+      expect(claimed?.lease_owner).toBe('worker-a');
+      expect(claimed?.attempts).toBe(1);
+      expect(new Date(claimed!.lease_expires_at!).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should only let one worker claim the same task', async () => {
+      const task = addTask();
+
+      const [first, second] = await Promise.all([
+        workerA.claimTask(task.id),
+        workerB.claimTask(task.id),
+      ]);
+
+      expect([first, second].filter(Boolean)).toHaveLength(1);
+      expect(getMockData().tasks[0].status).toBe('processing');
+    });
+
+    it('should not claim tasks that are not pending', async () => {
+      const task = addTask({ status: 'completed' });
+
+      expect(await workerA.claimTask(task.id)).toBeNull();
+    });
+  });
+
+  describe('claimNextTask', () => {
+    it('should claim only the oldest pending task', async () => {
+      addTask({ id: 'newest', created_at: '2024-01-03T00:00:00.000Z' });
+      addTask({ id: 'oldest', created_at: '2024-01-01T00:00:00.000Z' });
+      addTask({ id: 'done', status: 'completed', created_at: '2023-12-31T00:00:00.000Z' });
+
+      const claimed = await workerA.claimNextTask();
+
+      expect(claimed?.id).toBe('oldest');
+      expect(getMockData().tasks.find((t) => t.id === 'newest')?.status).toBe('pending');
+    });
+
+    it('should skip tasks claimed by other workers and return null when none are left', async () => {
+      addTask({ id: 'first', created_at: '2024-01-01T00:00:00.000Z' });
+      addTask({ id: 'second', created_at: '2024-01-02T00:00:00.000Z' });
+
+      const [a, b] = await Promise.all([workerA.claimNextTask(), workerB.claimNextTask()]);
+
+      expect([a?.id, b?.id].sort()).toEqual(['first', 'second']);
+      expect(await workerA.claimNextTask()).toBeNull();
+    });
+  });
+
+  describe('heartbeat and completion', () => {
+    it('should renew the lease only for the owning worker', async () => {
+      const task = addTask();
+      await workerA.claimTask(task.id);
+
+      expect(await workerA.heartbeat(task.id)).toBe(true);
+      expect(await workerB.heartbeat(task.id)).toBe(false);
+    });
+
+    it('should complete a task and release the lease', async () => {
+      const task = addTask();
+      await workerA.claimTask(task.id);
+
+      expect(await workerA.completeTask(task.id, 'Done')).toBe(true);
+
+      const stored = getMockData().tasks[0];
+      expect(stored.status).toBe('completed');
+      expect(stored.output).toBe('Done');
+      expect(stored.lease_owner).toBeNull();
+    });
+
+    it('should refuse to finish a task owned by another worker', async () => {
+      const task = addTask();
+      await workerA.claimTask(task.id);
+
+      expect(await workerB.failTask(task.id, 'Error: nope', 'internal')).toBe(false);
+      expect(getMockData().tasks[0].status).toBe('processing');
+    });
+  });
+
+  describe('reapStaleTasks', () => {
+    it('should put tasks with expired leases back to pending', async () => {
+      addTask({
+        id: 'expired',
+        status: 'processing',
+        attempts: 1,
+        lease_owner: 'crashed-worker',
+        lease_expires_at: new Date(Date.now() - 1000).toISOString(),
+        processing_started_at: new Date(Date.now() - 120000).toISOString(),
+      });
+      addTask({
+        id: 'active',
+        status: 'processing',
+        attempts: 1,
+        lease_owner: 'worker-b',
+        lease_expires_at: new Date(Date.now() + 60000).toISOString(),
+        processing_started_at: new Date().toISOString(),
+      });
+
+      const result = await workerA.reapStaleTasks();
+
+      expect(result).toEqual({ requeued: 1, failed: 0 });
+      const tasks = getMockData().tasks;
+      const expired = tasks.find((t) => t.id === 'expired');
+      expect(expired).toMatchObject({ status: 'pending', lease_owner: null, attempts: 1 });
+      expect(expired?.last_error).toContain('lease expired');
+      expect(tasks.find((t) => t.id === 'active')).toMatchObject({ status: 'processing', lease_owner: 'worker-b' });
+    });
+
+    it('should reap tasks processing longer than the timeout even with a live lease', async () => {
+      addTask({
+        id: 'overdue',
+        status: 'processing',
+        attempts: 1,
+        lease_owner: 'worker-b',
+        lease_expires_at: new Date(Date.now() + 60000).toISOString(),
+        processing_started_at: new Date(Date.now() - 700000).toISOString(),
+      });
+
+      const result = await workerA.reapStaleTasks();
+
+      expect(result).toEqual({ requeued: 1, failed: 0 });
+      expect(getMockData().tasks[0].last_error).toContain('exceeded timeout');
+    });
+
+    it('should leave a task whose owner heartbeated after it was fetched', async () => {
+      addTask({
+        id: 'renewed',
+        status: 'processing',
+        attempts: 1,
+        lease_owner: 'worker-b',
+        lease_expires_at: new Date(Date.now() - 1000).toISOString(),
+        processing_started_at: new Date(Date.now() - 120000).toISOString(),
+      });
+      const from = supabase.from.bind(supabase);
+      let queries = 0;
+      jest.spyOn(supabase, 'from').mockImplementation((table) => {
+        // The three stale-task queries run first; worker B's heartbeat lands before the reap
+        if (++queries === 4) getMockData().tasks[0].lease_expires_at = new Date(Date.now() + 60000).toISOString();
+        return from(table);
+      });
+
+      const result = await workerA.reapStaleTasks();
+
+      expect(result).toEqual({ requeued: 0, failed: 0 });
+      expect(getMockData().tasks[0]).toMatchObject({ status: 'processing', lease_owner: 'worker-b' });
+    });
+
+    it('should reap legacy processing tasks without lease information', async () => {
+      addTask({
+        id: 'legacy',
+        status: 'processing',
+        created_at: new Date(Date.now() - 3600000).toISOString(),
+      });
+
+      const result = await workerA.reapStaleTasks();
+
+      expect(result).toEqual({ requeued: 1, failed: 0 });
+      expect(getMockData().tasks[0].status).toBe('pending');
+    });
+
+    it('should fail stale tasks that have used up their attempts', async () => {
+      addTask({
+        id: 'exhausted',
+        status: 'processing',
+        attempts: 3,
+        lease_owner: 'crashed-worker',
+        lease_expires_at: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      const result = await workerA.reapStaleTasks();
+
+      expect(result).toEqual({ requeued: 0, failed: 1 });
+      const task = getMockData().tasks[0];
+      expect(task.status).toBe('failed');
+      expect(task.output).toContain('Task reaped');
+      expect(task.error_category).toBe('reaped');
+      expect(task.last_error).toContain('attempt 3/3');
+    });
+
+    it('should count the next claim as a new attempt', async () => {
+      addTask({
+        id: 'retry',
+        status: 'processing',
+        attempts: 1,
+        lease_owner: 'crashed-worker',
+        lease_expires_at: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      await workerA.reapStaleTasks();
+      const claimed = await workerB.claimTask('retry');
+
+      expect(claimed?.attempts).toBe(2);
+    });
+  });
+});
+
+describe('Automation Worker', () => {
+  beforeEach(() => {
+    clearMockData();
+    resetOpenAIMock();
+  });
+
+  afterEach(() => {
+    clearMockData();
+    resetOpenAIMock();
+    jest.restoreAllMocks();
+  });
+
+  it('should leave later tasks pending until the worker gets to them', async () => {
+    addTask({ id: 'task-1', created_at: '2024-01-01T00:00:00.000Z' });
+    addTask({ id: 'task-2', created_at: '2024-01-02T00:00:00.000Z' });
+    const statusesDuringCalls: unknown[][] = [];
+    mockOpenAI.chat.completions.create.mockImplementation(async () => {
+      statusesDuringCalls.push(getMockData().tasks.map((t) => t.status));
+      return mockOpenAIResponse('Summary.');
+    });
+
+    await processPendingTasks();
+
+    expect(statusesDuringCalls).toEqual([
+      ['processing', 'pending'],
+      ['completed', 'processing'],
+    ]);
+  });
+
+  it('should count a task as lost, not completed, when its lease is gone at completion', async () => {
+    jest.spyOn(console, 'warn').mockImplementation();
+    setOpenAIMockResponse('Late summary.');
+    addTask({ id: 'task-1' });
+    jest.spyOn(taskQueueService, 'completeTask').mockResolvedValueOnce(false);
+    const before = getAutomationWorkerStats();
+
+    await processPendingTasks();
+
+    const after = getAutomationWorkerStats();
+    expect(after.completed - before.completed).toBe(0);
+    expect(after.leaseLost - before.leaseLost).toBe(1);
+  });
+
+  it('should process pending tasks exactly once across concurrent runs', async () => {
+    setOpenAIMockResponse('Recovered summary.');
+    addTask({ id: 'task-1' });
+    addTask({ id: 'task-2' });
+
+    await Promise.all([processPendingTasks(), processPendingTasks()]);
+
+    const mockData = getMockData();
+    expect(mockData.tasks.every((t) => t.status === 'completed')).toBe(true);
+    expect(mockData.summaries).toHaveLength(2);
+    expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('should recover tasks whose lease expired after a crash', async () => {
+    setOpenAIMockResponse('Summary after crash.');
+    addTask({
+      id: 'stuck',
+      status: 'processing',
+      attempts: 1,
+      lease_owner: 'crashed-worker',
+      lease_expires_at: new Date(Date.now() - 1000).toISOString(),
+    });
+    const before = getAutomationWorkerStats();
+
+    await processPendingTasks();
+
+    const task = getMockData().tasks[0];
+    expect(task.status).toBe('completed');
+    expect(task.output).toBe('Summary after crash.');
+    expect(task.attempts).toBe(2);
+
+    const after = getAutomationWorkerStats();
+    expect(after.reapedRequeued - before.reapedRequeued).toBe(1);
+    expect(after.completed - before.completed).toBe(1);
+  });
+
+  it('should expose worker stats via GET /workers/stats', async () => {
+    const response = await request(app)
+      .get('/workers/stats')
+      .expect(200);
+
+    expect(response.body).toHaveProperty('success', true);
+    expect(response.body.stats.automation).toEqual(
+      expect.objectContaining({
+        runs: expect.any(Number),
+        reapedRequeued: expect.any(Number),
+        reapedFailed: expect.any(Number),
+      })
+    );
+  });
+});
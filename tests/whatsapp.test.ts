@@ -0,0 +1,310 @@
+/**
+ * WhatsApp Channel Test Suite
+ * Tests for WhatsApp message templates, sending against a local Cloud API stand-in,
+ * the WhatsApp worker and delivery status webhooks
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import app from '../orchestrator/index';
+import { clearMockData, getMockData, getMockRow } from './__mocks__/supabase.mock';
+import { WhatsAppService } from '../services/whatsappService';
+import { processPendingWhatsAppMessages } from '../workers/whatsappWorker';
+import { buildWhatsAppMessage, normalizeWhatsAppNumber, WhatsAppMessage, WHATSAPP_TEXT_LIMIT } from '../lib/whatsappTemplates';
+import { signHubPayload } from '../lib/webhookSignatures';
+import { NotificationEvent } from '../types/task';
+
+/** What the service posts to /messages */
+type WhatsAppRequestBody = WhatsAppMessage & { messaging_product: 'whatsapp'; recipient_type: 'individual'; to: string };
+
+/** Requests received by the stand-in, and the responses it will give (default: accepted) */
+let received: Array<{ path: string; authorization?: string; body: WhatsAppRequestBody }> = [];
+let responses: Array<{ status: number; body: unknown }> = [];
+
+const standIn = express();
+standIn.use(express.json());
+standIn.post('/:phoneNumberId/messages', (req, res) => {
+  received.push({ path: req.path, authorization: req.headers.authorization, body: req.body });
+  const next = responses.shift() || { status: 200, body: { messages: [{ id: `wamid.${received.length}` }] } };
+  res.status(next.status).json(next.body);
+});
+
+let server: Server;
+
+const seedEvent = (overrides: { phone?: string | null; report?: boolean } = {}) => {
+  const mockData = getMockData();
+  mockData.clients.push({ id: 'client-1', name: 'Acme Bakery', phone: overrides.phone === undefined ? '+1 (555) 010-2030' : overrides.phone });
+  mockData.tasks.push({ id: 'task-1', input: 'x', status: 'completed', client_id: 'client-1' });
+  mockData.summaries.push({ id: 'summary-1', task_id: 'task-1', client_id: 'client-1', summary: 'Supplier invoice of $1,200 is due Friday.' });
+  mockData.reports.push({ id: 'report-1', client_id: 'client-1', frequency: 'daily', period_key: '2026-10-18', content: '📝 Daily Report: 2026-10-18 (UTC)\nTasks: 1 completed, 0 failed\n- Supplier invoice due Friday.' });
+  mockData.notification_events.push(
+    {
+      id: 'event-1',
+      client_id: 'client-1',
+      summary_id: overrides.report ? null : 'summary-1',
+      report_id: overrides.report ? 'report-1' : null,
+      type: 'whatsapp',
+      status: 'pending',
+      created_at: new Date().toISOString(),
+    },
+    { id: 'event-email', client_id: 'client-1', summary_id: 'summary-1', type: 'email', status: 'pending', created_at: new Date().toISOString() }
+  );
+};
+
+const getEvent = (id: string) => getMockData().notification_events.find((e) => e.id === id);
+
+describe('WhatsApp Channel', () => {
+  beforeAll((done) => {
+    server = standIn.listen(0, () => {
+      process.env.WHATSAPP_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    delete process.env.WHATSAPP_API_URL;
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    clearMockData();
+    received = [];
+    responses = [];
+    process.env.WHATSAPP_ACCESS_TOKEN = 'test-whatsapp-token';
+    process.env.WHATSAPP_PHONE_NUMBER_ID = '1098765';
+  });
+
+  afterEach(() => {
+    clearMockData();
+    delete process.env.WHATSAPP_ACCESS_TOKEN;
+    delete process.env.WHATSAPP_PHONE_NUMBER_ID;
+    delete process.env.WHATSAPP_REPORT_TEMPLATE;
+  });
+
+  describe('message templates', () => {
+    it('should normalise phone numbers to digits with country code', () => {
+      expect(normalizeWhatsAppNumber('+34 612 34 56 78')).toBe('34612345678');
+      expect(normalizeWhatsAppNumber('0044 20 7946 0958')).toBe('442079460958');
+      expect(normalizeWhatsAppNumber('12345')).toBeNull();
+      expect(normalizeWhatsAppNumber(null)).toBeNull();
+    });
+
+    it('should build a text message and cap its length', () => {
+      const message = buildWhatsAppMessage('summary', { clientName: 'Acme', content: 'x'.repeat(5000) });
+
+      expect(message.type).toBe('text');
+      if (message.type === 'text') {
+        expect(message.text.body.startsWith('📝 New summary ready\n\nxxx')).toBe(true);
+        expect(message.text.body).toHaveLength(WHATSAPP_TEXT_LIMIT);
+      }
+    });
+
+    it('should use the configured template with client name and content parameters', () => {
+      process.env.WHATSAPP_REPORT_TEMPLATE = 'daily_report';
+
+      const message = buildWhatsAppMessage('report', { clientName: 'Acme', content: 'Line one\nLine two' });
+
+      expect(message).toEqual({
+        type: 'template',
+        template: {
+          name: 'daily_report',
+          language: { code: 'en_US' },
+          components: [
+            {
+              type: 'body',
+              parameters: [
+                { type: 'text', text: 'Acme' },
+                { type: 'text', text: 'Line one · Line two' },
+              ],
+            },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('processPendingWhatsAppMessages', () => {
+    it('should send pending summaries to the client phone and record the message id', async () => {
+      seedEvent();
+
+      const stats = await processPendingWhatsAppMessages(10);
+
+      expect(stats).toEqual({ processed: 1, successful: 1, failed: 0 });
+      expect(received).toHaveLength(1);
+      expect(received[0].path).toBe('/1098765/messages');
+      expect(received[0].authorization).toBe('Bearer test-whatsapp-token');
+      expect(received[0].body).toMatchObject({
+        messaging_product: 'whatsapp',
+        to: '15550102030',
+        type: 'text',
+        text: { body: '📝 New summary ready\n\nSupplier invoice of $1,200 is due Friday.' },
+      });
+      expect(getEvent('event-1')).toMatchObject({ status: 'sent', delivery_status: 'sent', provider_message_id: 'wamid.1' });
+      // Email events are left to the email worker
+      expect(getEvent('event-email')?.status).toBe('pending');
+    });
+
+    it('should send scheduled reports with the report template', async () => {
+      process.env.WHATSAPP_REPORT_TEMPLATE = 'daily_report';
+      seedEvent({ report: true });
+
+      await processPendingWhatsAppMessages(10);
+
+      expect(received[0].body).toMatchObject({
+        type: 'template',
+        template: {
+          components: [{ parameters: [expect.anything(), { text: expect.stringContaining('📝 Daily Report: 2026-10-18 (UTC)') }] }],
+        },
+      });
+      expect(getEvent('event-1')?.status).toBe('sent');
+    });
+
+    it('should fail events for clients without a usable phone', async () => {
+      seedEvent({ phone: null });
+
+      await processPendingWhatsAppMessages(10);
+
+      expect(received).toHaveLength(0);
+      expect(getEvent('event-1')).toMatchObject({ status: 'failed', last_error: 'Client phone not found', permanent_failure: true });
+    });
+
+    it('should fail events instead of leaving them pending when WhatsApp is not configured', async () => {
+      delete process.env.WHATSAPP_ACCESS_TOKEN;
+      seedEvent();
+
+      await processPendingWhatsAppMessages(10);
+
+      expect(received).toHaveLength(0);
+      expect(getEvent('event-1')?.status).toBe('failed');
+      expect(getEvent('event-1')?.last_error).toContain('not configured');
+      expect(getEvent('event-1')?.permanent_failure).toBe(true);
+    });
+
+    it('should not retry errors WhatsApp will reject again', async () => {
+      seedEvent();
+      responses = [{ status: 400, body: { error: { message: '(#131030) Recipient phone number not in allowed list', code: 131030 } } }];
+
+      await processPendingWhatsAppMessages(10);
+
+      expect(received).toHaveLength(1);
+      expect(getEvent('event-1')?.status).toBe('failed');
+      expect(getEvent('event-1')?.last_error).toContain('Recipient phone number not in allowed list');
+      expect(getEvent('event-1')?.permanent_failure).toBe(true);
+    });
+
+    it('should retry server errors and rate limits', async () => {
+      seedEvent();
+      responses = [
+        { status: 503, body: { error: { message: 'Service unavailable' } } },
+        { status: 429, body: { error: { message: 'Too many messages', code: 130429 } } },
+      ];
+
+      const sent = await new WhatsAppService({ retryBaseDelayMs: 5 }).processWhatsAppNotification(getMockRow<NotificationEvent>('notification_events', 'event-1'));
+
+      expect(sent).toBe(true);
+      expect(received).toHaveLength(3);
+      expect(getEvent('event-1')?.provider_message_id).toBe('wamid.3');
+    });
+  });
+
+  describe('Webhook /webhooks/whatsapp', () => {
+    const statusPayload = (...statuses: Array<{ id: string; status: string; errors?: unknown[] }>) => ({
+      object: 'whatsapp_business_account',
+      entry: [{ id: 'waba-1', changes: [{ field: 'messages', value: { messaging_product: 'whatsapp', statuses } }] }],
+    });
+
+    const APP_SECRET = 'meta-app-secret';
+
+    /** POST a payload signed like Meta does */
+    const postSigned = (payload: object, secret = APP_SECRET) =>
+      request(app)
+        .post('/webhooks/whatsapp')
+        .set('Content-Type', 'application/json')
+        .set('X-Hub-Signature-256', signHubPayload(secret, JSON.stringify(payload)))
+        .send(JSON.stringify(payload));
+
+    beforeEach(async () => {
+      process.env.WHATSAPP_APP_SECRET = APP_SECRET;
+      seedEvent();
+      await processPendingWhatsAppMessages(10);
+    });
+
+    afterEach(() => {
+      delete process.env.WHATSAPP_VERIFY_TOKEN;
+      delete process.env.WHATSAPP_APP_SECRET;
+    });
+
+    it('should answer the subscription challenge only with the right verify token', async () => {
+      process.env.WHATSAPP_VERIFY_TOKEN = 'verify-me';
+
+      const ok = await request(app)
+        .get('/webhooks/whatsapp?hub.mode=subscribe&hub.verify_token=verify-me&hub.challenge=1158201444')
+        .expect(200);
+      expect(ok.text).toBe('1158201444');
+
+      await request(app)
+        .get('/webhooks/whatsapp?hub.mode=subscribe&hub.verify_token=wrong&hub.challenge=1158201444')
+        .expect(403);
+    });
+
+    it('should record delivery statuses without moving backwards', async () => {
+      const response = await postSigned(
+        statusPayload({ id: 'wamid.1', status: 'read' }, { id: 'wamid.1', status: 'delivered' }, { id: 'wamid.unknown', status: 'delivered' })
+      ).expect(200);
+
+      expect(response.body).toEqual({ success: true, processed: 3, matched: 2 });
+      expect(getEvent('event-1')).toMatchObject({ status: 'sent', delivery_status: 'read' });
+    });
+
+    it('should mark the event failed when delivery fails', async () => {
+      await postSigned(
+        statusPayload({ id: 'wamid.1', status: 'failed', errors: [{ code: 131026, title: 'Message undeliverable' }] })
+      ).expect(200);
+
+      expect(getEvent('event-1')).toMatchObject({
+        status: 'failed',
+        delivery_status: 'failed',
+        last_error: 'Message undeliverable',
+        permanent_failure: true,
+      });
+    });
+
+    it('should reject payloads that are not WhatsApp webhooks', async () => {
+      await postSigned({ hello: 'world' }).expect(400);
+    });
+
+    it('should reject statuses without a message id', async () => {
+      const response = await postSigned(statusPayload({ status: 'read' } as { id: string; status: string })).expect(400);
+
+      expect(response.body.errors[0].field).toBe('entry[0].changes[0].value.statuses[0].id');
+    });
+
+    it('should reject status events without a signature', async () => {
+      const response = await request(app)
+        .post('/webhooks/whatsapp')
+        .send(statusPayload({ id: 'wamid.1', status: 'failed', errors: [{ title: 'Forged' }] }))
+        .expect(401);
+
+      expect(response.body.message).toBe('Missing signature header');
+      expect(getEvent('event-1')).toMatchObject({ status: 'sent' });
+    });
+
+    it('should reject status events signed with another secret', async () => {
+      const response = await postSigned(
+        statusPayload({ id: 'wamid.1', status: 'failed', errors: [{ title: 'Forged' }] }),
+        'wrong-secret'
+      ).expect(401);
+
+      expect(response.body.message).toBe('Invalid signature');
+      expect(getEvent('event-1')).toMatchObject({ status: 'sent' });
+    });
+
+    it('should refuse status events while WHATSAPP_APP_SECRET is not set', async () => {
+      delete process.env.WHATSAPP_APP_SECRET;
+
+      await postSigned(statusPayload({ id: 'wamid.1', status: 'read' })).expect(503);
+    });
+  });
+});
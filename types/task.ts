@@ -1,30 +1,143 @@
+/** Why an LLM call failed */
+export type LLMErrorCategory =
+  | 'rate_limit'
+  | 'timeout'
+  | 'empty_response'
+  | 'invalid_response'
+  | 'auth'
+  | 'invalid_request'
+  | 'server_error'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Why a task failed: an LLM failure category, an error in our own pipeline ('internal'),
+ * or the stale-task reaper giving up on it ('reaped')
+ */
+export type TaskErrorCategory = LLMErrorCategory | 'internal' | 'reaped';
+
 export interface Task {
   id: string;
   input: string;
   output: string | null;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   client_id: string;
+  lease_owner?: string | null;
+  lease_expires_at?: string | null;
+  heartbeat_at?: string | null;
+  attempts?: number;
+  processing_started_at?: string | null;
+  last_error?: string | null;
+  error_category?: TaskErrorCategory | null;
   created_at?: string;
+  updated_at?: string;
 }
 
+/** LLM backend a client's tasks are processed with (see lib/llmProviders.ts) */
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'stub';
+
 export interface WorkflowSettings {
-  reportFrequency: 'daily' | 'weekly' | 'none';
-  emailNotifications: boolean;
-  whatsappNotifications: boolean;
+  /** Scheduled reports (default: 'none') */
+  reportFrequency?: 'daily' | 'weekly' | 'none';
+  /** Email summaries to the client (default: true) */
+  emailNotifications?: boolean;
+  /** Send summaries over WhatsApp (default: true) */
+  whatsappNotifications?: boolean;
+  /** Overrides the LLM_PROVIDER environment default for this client */
+  llmProvider?: LLMProviderName;
+  /** IANA time zone used for report scheduling and quiet hours (default: REPORT_TIMEZONE or UTC) */
+  timezone?: string;
+  /** Local hour (0–23) scheduled reports are sent at (default: REPORT_HOUR or 8) */
+  reportHour?: number;
+  /** Day weekly reports are sent on, 0 = Sunday … 6 = Saturday (default: 1, Monday) */
+  reportWeekday?: number;
+  /** Add an LLM-written executive digest to scheduled reports (default: false) */
+  reportDigest?: boolean;
+  /** Local times notifications are held back, in the client's time zone */
+  quietHours?: QuietHours;
+  /** Email each summary as it is ready, or batch them into hourly or daily digests (default: 'immediate') */
+  emailDelivery?: EmailDeliveryMode;
+  /** Local hour (0–23) daily digests are sent at (default: 17) */
+  digestHour?: number;
+}
+
+/** How summary emails reach a client (see lib/notificationRouting.ts) */
+export type EmailDeliveryMode = 'immediate' | 'hourly_digest' | 'daily_digest';
+
+/** 'HH:MM' local times; a start after the end spans midnight (e.g. 22:00–07:00) */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export type PromptProfileFormat = 'paragraph' | 'bullets' | 'action_items';
+
+/** Per-client summarization preferences (see lib/promptProfiles.ts) */
+export interface PromptProfile {
+  /** Output shape (default: 'paragraph') */
+  format?: PromptProfileFormat;
+  /** Maximum sentences, bullets or action items (default: 2 for paragraphs, 5 otherwise) */
+  maxLength?: number;
+  /** Tone of voice, e.g. 'formal' (default: 'professional') */
+  tone?: string;
+  /** Output language, e.g. 'Spanish' (default: the model's choice, usually the input language) */
+  language?: string;
+  /** Free-form extra instructions, e.g. "Always mention case numbers" */
+  instructions?: string;
+}
+
+/** How emails to a client look; unset fields use the Included defaults */
+export interface ClientBranding {
+  /** https URL of a logo shown at the top of emails */
+  logoUrl?: string;
+  /** Accent colour, '#rgb' or '#rrggbb' */
+  primaryColor?: string;
+  /** Closing line, replacing "Included AI Assistant" */
+  signOff?: string;
 }
 
 export interface Client {
   id: string;
+  /** The agency (organization) that manages this client */
+  organization_id?: string;
   name: string;
-  email?: string;
-  company?: string;
-  phone?: string;
-  workflow_settings?: WorkflowSettings;
+  email?: string | null;
+  company?: string | null;
+  phone?: string | null;
+  workflow_settings?: WorkflowSettings | null;
+  prompt_profile?: PromptProfile | null;
+  branding?: ClientBranding | null;
   inbound_email?: string;
+  /** Set when an email to the client hard-bounced; no more emails are sent until cleared */
+  email_bounced_at?: string | null;
+  email_bounce_reason?: string | null;
+  /** Set while the client is archived: no inbound processing, notifications or reports */
+  archived_at?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * Fields PATCH /clients/:id can change; null clears an optional field. workflow_settings
+ * is merged into the current settings, and a null value there removes that setting.
+ */
+export interface ClientChanges {
+  name?: string;
+  email?: string | null;
+  company?: string | null;
+  phone?: string | null;
+  workflow_settings?: { [K in keyof WorkflowSettings]?: WorkflowSettings[K] | null };
+}
+
+/** Rows removed with a deleted client */
+export interface ClientDeletion {
+  tasks: number;
+  emails: number;
+  summaries: number;
+  notifications: number;
+  reports: number;
+}
+
 export interface Email {
   id: string;
   client_id: string;
@@ -42,15 +155,286 @@ export interface Summary {
   task_id: string;
   client_id: string;
   summary: string;
+  /** Structured data extracted from the task input, when available */
+  extraction?: Extraction | null;
   created_at?: string;
 }
 
-export interface NotificationEvent {
+export type ExtractionPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface ActionItem {
+  description: string;
+  /** Person or party responsible, if stated */
+  owner: string | null;
+  /** ISO date (YYYY-MM-DD), if stated */
+  due_date: string | null;
+}
+
+export interface Deadline {
+  description: string;
+  /** ISO date (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface MonetaryAmount {
+  amount: number;
+  /** ISO 4217 code, e.g. 'USD' */
+  currency: string;
+  /** What the amount refers to, e.g. 'invoice #123' */
+  description: string | null;
+}
+
+export interface Counterparty {
+  name: string;
+  type: 'person' | 'organization';
+  /** Role in the communication, e.g. 'supplier', 'attorney' */
+  role: string | null;
+}
+
+/** Structured fields extracted by the LLM (see lib/extraction.ts) */
+export interface ExtractedData {
+  priority: ExtractionPriority;
+  action_items: ActionItem[];
+  deadlines: Deadline[];
+  amounts: MonetaryAmount[];
+  counterparties: Counterparty[];
+}
+
+export interface Extraction extends ExtractedData {
+  id: string;
+  summary_id: string;
+  task_id: string;
+  client_id: string;
+  model: string | null;
+  created_at?: string;
+}
+
+export type ReportFrequency = 'daily' | 'weekly';
+
+/** A scheduled report, stored once per client, frequency and period */
+export interface Report {
+  id: string;
+  client_id: string;
+  frequency: ReportFrequency;
+  /** Local date the period starts on ('YYYY-MM-DD'); unique per client and frequency */
+  period_key: string;
+  period_start: string;
+  period_end: string;
+  timezone: string;
+  content: string;
+  created_at?: string;
+}
+
+/** LLM-written executive digest of a report period (see lib/digest.ts) */
+export interface DigestContent {
+  overview: string;
+  themes: string[];
+  open_action_items: string[];
+  urgent: string[];
+}
+
+/** Cached digest, one per client and period; regenerated when the period's summaries change */
+export interface ReportDigest extends DigestContent {
   id: string;
   client_id: string;
+  period_start: string;
+  period_end: string;
+  /** Hash of the summary ids the digest was written from */
+  source_hash: string;
+  summary_count: number;
+  model: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ReportFormat = 'text' | 'json' | 'markdown' | 'html' | 'csv';
+
+/** One summary in a report, with its extracted details (null when none were stored) */
+export interface ReportItem {
   summary_id: string;
-  type: 'email' | 'whatsapp';
-  status: 'pending' | 'sent' | 'failed';
+  task_id: string;
+  summary: string;
+  created_at: string | null;
+  extraction: ExtractedData | null;
+}
+
+/** Summaries created on one local day of the report range */
+export interface ReportSection {
+  /** Local date, 'YYYY-MM-DD' */
+  date: string;
+  items: ReportItem[];
+}
+
+/** Structured report, rendered to text, Markdown, HTML or CSV by lib/reportFormats.ts */
+export interface ReportDocument {
+  /** 'Daily Report', 'Weekly Report' or 'Report' */
+  title: string;
+  client: { id: string; name: string | null };
+  period: {
+    from: string;
+    to: string;
+    timezone: string;
+    /** Local dates covered, e.g. '2026-10-18' or '2026-10-01 – 2026-10-07' */
+    label: string;
+  };
+  generated_at: string;
+  totals: { completed: number; failed: number; summaries: number };
+  /** Executive digest, when requested and the period has summaries */
+  digest?: DigestContent | null;
+  /** Why the requested digest is missing, e.g. the LLM call failed */
+  digest_error?: string | null;
+  /** Newest day first */
+  sections: ReportSection[];
+}
+
+/** Statuses WhatsApp reports for a sent message */
+export type WhatsAppDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+/** Statuses the email provider reports for a sent message (Resend webhooks) */
+export type EmailDeliveryStatus = 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained';
+
+export type DeliveryStatus = WhatsAppDeliveryStatus | EmailDeliveryStatus;
+
+export type NotificationChannel = 'email' | 'whatsapp';
+
+/** 'sending': claimed by an email worker run, which is sending it */
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+/** Automatic retry of failed notifications (app_settings 'notification_retry') */
+export interface NotificationRetryPolicy {
+  enabled: boolean;
+  /** Minutes a failed notification waits before it is retried */
+  intervalMinutes: number;
+  /** Automatic retries per notification after the first attempt */
+  maxRetries: number;
+}
+
+export interface NotificationEvent {
+  id: string;
+  client_id: string;
+  /** Set for summary notifications */
+  summary_id: string | null;
+  /** Set for scheduled report notifications */
+  report_id?: string | null;
+  type: NotificationChannel;
+  status: NotificationStatus;
+  /** Why the channel was skipped (disabled, or no email/phone) */
+  skip_reason?: string | null;
+  /** Quiet hours: not sent before this instant */
+  scheduled_for?: string | null;
+  /** Send attempts so far, manual and automatic retries included */
+  attempts?: number;
+  /** Error of the latest failed attempt */
+  last_error?: string | null;
+  /** The provider rejected the latest attempt for good; not retried automatically */
+  permanent_failure?: boolean;
+  /** Id the provider gave the sent message, used to match delivery status callbacks */
+  provider_message_id?: string | null;
+  /** Latest status reported by the provider */
+  delivery_status?: DeliveryStatus | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** One provider callback about a sent notification: its delivery timeline */
+export interface NotificationDeliveryEvent {
+  id: string;
+  notification_event_id: string;
+  status: DeliveryStatus;
+  /** The webhook delivery id; a redelivered webhook is recorded once */
+  provider_event_id: string;
+  occurred_at: string;
+  /** e.g. the bounce type and message, or the clicked link */
+  details?: Record<string, unknown> | null;
+  created_at?: string;
+}
+
+/**
+ * What a credential may do: read (GET requests), write (changes), webhook (POST
+ * /email-webhook) and admin (everything, including managing API keys)
+ */
+export type AuthScope = 'read' | 'write' | 'webhook' | 'admin';
+
+/** A stored API key; only the hash of the key is kept */
+export interface ApiKey {
+  id: string;
+  organization_id: string;
+  name: string;
+  /** First characters of the key, to recognise it in listings */
+  key_prefix: string;
+  key_hash: string;
+  scopes: AuthScope[];
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A user's session in one organization, issued by POST /auth/login; its scopes follow the
+ * user's current role there
+ */
+export interface Session {
+  id: string;
+  token_hash: string;
+  user_id: string;
+  organization_id: string;
+  expires_at: string;
+  created_at?: string;
+}
+
+/** The credential a request was authenticated with */
+export interface AuthContext {
+  type: 'api_key' | 'session';
+  id: string;
+  /** Every request is limited to this organization's data */
+  organizationId: string;
+  scopes: AuthScope[];
+  /** Sessions only */
+  userId?: string;
+  role?: OrganizationRole;
+}
+
+/** An agency: the tenant that owns clients and everything derived from them */
+export interface Organization {
+  id: string;
+  name: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** owner: everything (admin scope); operator: read and write; viewer: read only */
+export type OrganizationRole = 'owner' | 'operator' | 'viewer';
+
+/** A dashboard user; the same user may belong to several organizations */
+export interface User {
+  id: string;
+  /** Stored lowercased */
+  email: string;
+  name?: string | null;
+  /** "scrypt$<salt>$<hash>", base64 */
+  password_hash: string;
   created_at?: string;
   updated_at?: string;
 }
+
+export interface OrganizationMember {
+  organization_id: string;
+  user_id: string;
+  role: OrganizationRole;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** An invitation to join an organization; only the hash of its token is stored */
+export interface OrganizationInvitation {
+  id: string;
+  organization_id: string;
+  /** Stored lowercased */
+  email: string;
+  role: OrganizationRole;
+  token_hash: string;
+  expires_at: string;
+  accepted_at?: string | null;
+  created_at?: string;
+}
@@ -1,39 +1,79 @@
 import taskService from '../services/taskService';
-import summaryService from '../services/summaryService';
-import { processWithLLM } from './llmWorker';
+import taskQueueService from '../services/taskQueueService';
 
 /**
  * Automation Worker
- * Recovery mechanism: picks up tasks stuck in 'pending' state and processes them.
- * Runs periodically from the orchestrator as a safety net for tasks that were not
+ * Queue consumer: reaps stale tasks (lease expired because the owning process crashed,
+ * or stuck in 'processing' past the timeout) and claims pending tasks that were not
  * processed inline (e.g. after a server restart).
+ * Claims are atomic, so several orchestrator instances can run this worker side by side
+ * without processing the same task twice.
  */
-export async function processPendingTasks(): Promise<void> {
-  const tasks = await taskService.getPendingTasks(10);
-
-  if (tasks.length === 0) return;
-
-  console.log(`[AutomationWorker] Recovering ${tasks.length} pending task(s)…`);
-
-  for (const task of tasks) {
-    try {
-      await taskService.updateTaskStatus(task.id, 'processing');
-
-      const summary = await processWithLLM(task.input);
-
-      if (summary === 'Error processing input.') {
-        await taskService.updateTaskStatus(task.id, 'failed', summary);
-        console.error(`[AutomationWorker] Task failed: ${task.id}`);
-      } else {
-        await summaryService.createSummary(task.id, task.client_id, summary);
-        await taskService.updateTaskStatus(task.id, 'completed', summary);
-        console.log(`[AutomationWorker] Task completed: ${task.id}`);
-      }
-    } catch (taskError) {
-      console.error(`[AutomationWorker] Error processing task ${task.id}:`, taskError);
-      const errorMessage = taskError instanceof Error ? taskError.message : 'Unknown error';
-      await taskService.updateTaskStatus(task.id, 'failed', `Error: ${errorMessage}`);
+
+export interface AutomationWorkerStats {
+  runs: number;
+  lastRunAt: string | null;
+  claimed: number;
+  completed: number;
+  failed: number;
+  /** Stale tasks put back in the queue by the reaper */
+  reapedRequeued: number;
+  /** Stale tasks failed by the reaper after running out of attempts */
+  reapedFailed: number;
+  /** Claimed tasks whose lease was lost before they finished; left to their new owner */
+  leaseLost: number;
+}
+
+// Cumulative stats for this process since start-up
+const stats: AutomationWorkerStats = {
+  runs: 0,
+  lastRunAt: null,
+  claimed: 0,
+  completed: 0,
+  failed: 0,
+  reapedRequeued: 0,
+  reapedFailed: 0,
+  leaseLost: 0,
+};
+
+/**
+ * Run one reap + claim + process cycle.
+ * Tasks are claimed one at a time, each right before it is processed.
+ *
+ * @param batchSize - Maximum number of pending tasks to process (default 10)
+ */
+export async function processPendingTasks(batchSize: number = 10): Promise<void> {
+  stats.runs++;
+  stats.lastRunAt = new Date().toISOString();
+
+  const reaped = await taskQueueService.reapStaleTasks();
+  stats.reapedRequeued += reaped.requeued;
+  stats.reapedFailed += reaped.failed;
+  if (reaped.requeued > 0 || reaped.failed > 0) {
+    console.log(`[AutomationWorker] Reaped stale tasks — ${reaped.requeued} re-queued, ${reaped.failed} failed`);
+  }
+
+  for (let processed = 0; processed < batchSize; processed++) {
+    const task = await taskQueueService.claimNextTask();
+    if (!task) break;
+
+    stats.claimed++;
+    console.log(`[AutomationWorker] Processing claimed task ${task.id}…`);
+
+    const outcome = await taskService.processClaimedTask(task);
+    if (outcome === 'completed') {
+      stats.completed++;
+    } else if (outcome === 'failed') {
+      stats.failed++;
+    } else {
+      stats.leaseLost++;
     }
   }
 }
 
+/**
+ * Snapshot of the worker's cumulative stats
+ */
+export function getAutomationWorkerStats(): AutomationWorkerStats {
+  return { ...stats };
+}
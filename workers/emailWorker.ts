@@ -1,53 +1,96 @@
 import 'dotenv/config';
 import emailService from '../services/emailService';
+import notificationService from '../services/notificationService';
+import { mapWithConcurrency } from '../lib/rateLimit';
 
 /**
  * Email Worker
  * Background worker that processes pending email notifications in batches.
- * Runs on a polling interval started by the orchestrator.
+ * Runs on a polling interval started by the orchestrator. Summary emails for clients on
+ * an hourly or daily digest are sent together, as one digest email per client.
+ * Up to EMAIL_CONCURRENCY (default 5) notifications are sent at once; the transport's rate
+ * limiter keeps the pace within the provider's limits. Each event is claimed
+ * ('pending' -> 'sending') before it is sent, so overlapping runs never send it twice.
  */
 
+const DEFAULT_CONCURRENCY = 5;
+
+function getConcurrency(): number {
+  const concurrency = parseInt(process.env.EMAIL_CONCURRENCY || '', 10);
+  return concurrency >= 1 && concurrency <= 50 ? concurrency : DEFAULT_CONCURRENCY;
+}
+
 /**
  * Process pending email notifications in batches.
  *
  * @param batchSize - Number of notifications to process per run (1–100, default 10)
- * @returns Batch statistics: total processed, successful, and failed counts
+ * @param concurrency - Notifications sent at once (default: EMAIL_CONCURRENCY, then 5)
+ * @returns Batch statistics: total processed, successful, failed and skipped (address
+ *          bounced) counts
  */
-export async function processPendingEmails(batchSize: number = 10): Promise<{
+export async function processPendingEmails(
+  batchSize: number = 10,
+  concurrency: number = getConcurrency()
+): Promise<{
   processed: number;
   successful: number;
   failed: number;
+  skipped: number;
 }> {
-  const stats = { processed: 0, successful: 0, failed: 0 };
+  const stats = { processed: 0, successful: 0, failed: 0, skipped: 0 };
 
   if (batchSize < 1 || batchSize > 100) batchSize = 10;
 
+  const released = await notificationService.releaseStaleClaims();
+  if (released > 0) {
+    console.warn(`[EmailWorker] Put ${released} notification(s) abandoned mid-send back to pending`);
+  }
+
   const pendingEmails = await emailService.fetchPendingEmails(batchSize);
 
   if (pendingEmails.length === 0) return stats;
 
   console.log(`[EmailWorker] Processing ${pendingEmails.length} pending notification(s)…`);
 
-  for (const notification of pendingEmails) {
-    stats.processed++;
+  // Clients whose digest was sent in this run; their other summary events went with it
+  const digestedClients = new Set<string>();
+
+  await mapWithConcurrency(pendingEmails, concurrency, async (notification) => {
+    const isSummary = !notification.report_id;
+    if (isSummary && digestedClients.has(notification.client_id)) return;
+
     try {
-      const success = await emailService.processEmailNotification(notification);
-      if (success) {
-        stats.successful++;
+      if (isSummary && (await emailService.isDigestClient(notification.client_id))) {
+        // A parallel event of the same client may have claimed the digest meanwhile
+        if (digestedClients.has(notification.client_id)) return;
+        digestedClients.add(notification.client_id);
+        const digest = await emailService.processDigest(notification.client_id);
+        stats.processed += digest.sent + digest.failed + digest.skipped;
+        stats.successful += digest.sent;
+        stats.failed += digest.failed;
+        stats.skipped += digest.skipped;
       } else {
-        stats.failed++;
-      }
-      // Small delay to avoid hitting rate limits
-      if (stats.processed < pendingEmails.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+        // Another run may be sending it already
+        const [claimed] = await notificationService.claimNotifications([notification.id]);
+        if (!claimed) return;
+        const outcome = await emailService.processEmailNotification(claimed);
+        stats.processed++;
+        if (outcome === 'sent') {
+          stats.successful++;
+        } else if (outcome === 'skipped') {
+          stats.skipped++;
+        } else {
+          stats.failed++;
+        }
       }
     } catch (error) {
+      stats.processed++;
       stats.failed++;
       console.error(`[EmailWorker] Error processing notification ${notification.id}:`, error);
     }
-  }
+  });
 
-  console.log(`[EmailWorker] Done — ${stats.successful} sent, ${stats.failed} failed`);
+  console.log(`[EmailWorker] Done — ${stats.successful} sent, ${stats.failed} failed, ${stats.skipped} skipped`);
   return stats;
 }
 
@@ -66,10 +109,20 @@ export async function startEmailWorker(batchSize: number = 10, intervalMs: numbe
     console.error('[EmailWorker] Initial run error:', error);
   }
 
+  // A run can outlast the interval (Retry-After waits, rate limiting); the next one is
+  // skipped until it ends rather than sending the same events again
+  let running = false;
   setInterval(() => {
-    processPendingEmails(batchSize).catch(err =>
-      console.error('[EmailWorker] Scheduled run error:', err)
-    );
+    if (running) {
+      console.log('[EmailWorker] Previous run still in progress; skipping this one');
+      return;
+    }
+    running = true;
+    processPendingEmails(batchSize)
+      .catch(err => console.error('[EmailWorker] Scheduled run error:', err))
+      .finally(() => {
+        running = false;
+      });
   }, intervalMs);
 }
 
@@ -1,33 +1,102 @@
-import OpenAI from "openai";
+import { DigestContent, ExtractedData, LLMErrorCategory, PromptProfile } from "../types/task";
+import { getLLMProvider, LLMCompletionRequest, LLMProvider, LLMProviderName, LLMUsage } from "../lib/llmProviders";
+import { buildSystemPrompt } from "../lib/promptProfiles";
+import { buildExtractionPrompt, EXTRACTION_SCHEMA, validateExtraction } from "../lib/extraction";
+import { buildDigestPrompt, DIGEST_SCHEMA, validateDigest } from "../lib/digest";
+
+export type { LLMUsage } from "../lib/llmProviders";
+
+export interface LLMRequestOptions {
+  /** Provider to use (default: LLM_PROVIDER, then OpenAI) */
+  provider?: LLMProviderName | null;
+  /** Client prompt profile used to build the system prompt (default prompt when missing) */
+  promptProfile?: PromptProfile | null;
+  /** Maximum number of attempts (default: 3) */
+  maxRetries?: number;
+}
+
+export interface LLMError {
+  category: LLMErrorCategory;
+  message: string;
+  /** Whether trying again later could succeed (false for auth and invalid requests) */
+  retryable: boolean;
+}
 
-let openaiInstance: OpenAI | null = null;
+/**
+ * Outcome of an LLM call. Failures are returned rather than thrown so callers can
+ * record the category without parsing error strings.
+ */
+type LLMOutcome<T> =
+  | ({ success: true; usage: LLMUsage | null; model: string; provider: LLMProviderName; attempts: number } & T)
+  | { success: false; error: LLMError; attempts: number };
 
-function getOpenAI(): OpenAI {
-  if (!openaiInstance) {
-    const apiKey = process.env.OPENAI_API_KEY;
+export type LLMResult = LLMOutcome<{ content: string }>;
 
-    if (!apiKey) {
-      throw new Error("OPENAI_API_KEY environment variable is not set");
-    }
+export type LLMExtractionResult = LLMOutcome<{ data: ExtractedData }>;
 
-    openaiInstance = new OpenAI({
-      apiKey,
-      timeout: 30000, // 30 second timeout
-    });
+export type LLMDigestResult = LLMOutcome<{ data: DigestContent }>;
+
+class EmptyResponseError extends Error {
+  constructor() {
+    super("Empty response from LLM");
+    this.name = "EmptyResponseError";
   }
+}
+
+class InvalidResponseError extends Error {
+  constructor(message: string) {
+    super(`Invalid structured response from LLM: ${message}`);
+    this.name = "InvalidResponseError";
+  }
+}
 
-  return openaiInstance;
+/**
+ * Map an error thrown by a provider (or our own checks) to a failure category
+ */
+export function classifyLLMError(err: unknown): LLMError {
+  const error = err as { status?: number; code?: string; name?: string; message?: string };
+  const message = error?.message || String(err);
+  const status = typeof error?.status === "number" ? error.status : undefined;
+  const name = error?.name || "";
+  const code = error?.code || "";
+
+  if (err instanceof EmptyResponseError) {
+    return { category: "empty_response", message, retryable: true };
+  }
+  if (err instanceof InvalidResponseError) {
+    return { category: "invalid_response", message, retryable: true };
+  }
+  if (status === 429) {
+    return { category: "rate_limit", message, retryable: true };
+  }
+  if (status === 401 || status === 403) {
+    return { category: "auth", message, retryable: false };
+  }
+  if (status === 408 || /timeout/i.test(name) || code === "ETIMEDOUT" || /timed? ?out/i.test(message)) {
+    return { category: "timeout", message, retryable: true };
+  }
+  if (status !== undefined && status >= 500) {
+    return { category: "server_error", message, retryable: true };
+  }
+  if (status !== undefined && status >= 400) {
+    return { category: "invalid_request", message, retryable: false };
+  }
+  if (/connection/i.test(name) || ["ECONNRESET", "ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"].includes(code)) {
+    return { category: "network", message, retryable: true };
+  }
+  return { category: "unknown", message, retryable: true };
 }
 
 /**
- * Process text with LLM (OpenAI GPT-5 Mini) with retry logic
+ * Process text with the configured LLM provider, with retry logic shared by all providers
+ * Non-retryable failures (auth, invalid request) stop retrying immediately.
  * @param input - The text to process
- * @param maxRetries - Maximum number of retry attempts (default: 3)
- * @returns Processed summary text
+ * @param options - Provider selection, prompt profile and maximum number of attempts (default: 3)
+ * @returns Summary with token usage and model, or a categorised failure
  */
-export async function processWithLLM(input: string, maxRetries: number = 3): Promise<string> {
+export async function processWithLLM(input: string, options: LLMRequestOptions = {}): Promise<LLMResult> {
   /*
-    GPT-5 Mini Professional Summarizer Worker
+    Professional Summarizer Worker
 
     PURPOSE:
     - Convert business emails, notes, or documents into concise summaries
@@ -35,7 +104,7 @@ export async function processWithLLM(input: string, maxRetries: number = 3): Pro
 
     STRICT OUTPUT REQUIREMENTS:
     - Output ONLY the summary
-    - 1–2 sentences maximum
+    - 1–2 sentences maximum, unless the client's prompt profile says otherwise
     - Professional and factual tone
     - No advice
     - No templates
@@ -44,66 +113,129 @@ export async function processWithLLM(input: string, maxRetries: number = 3): Pro
     - No explanations
   */
 
-  let lastError: Error | null = null;
+  return completeWithRetry(
+    getLLMProvider(options.provider),
+    {
+      messages: [
+        { role: "system", content: buildSystemPrompt(options.promptProfile) },
+        { role: "user", content: input },
+      ],
+    },
+    options.maxRetries ?? 3,
+    (content) => ({ content })
+  );
+}
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+/**
+ * Extract action items, deadlines, amounts, counterparties and priority from text
+ * Output is constrained to EXTRACTION_SCHEMA and validated; invalid output is retried
+ * like any other transient failure.
+ * @param input - The text to extract from
+ * @param options - Provider selection and maximum number of attempts (default: 3); the prompt profile is not used
+ * @returns Validated extraction with token usage and model, or a categorised failure
+ */
+export async function extractWithLLM(input: string, options: LLMRequestOptions = {}): Promise<LLMExtractionResult> {
+  const today = new Date().toISOString().slice(0, 10);
+
+  return completeWithRetry(
+    getLLMProvider(options.provider),
+    {
+      messages: [
+        { role: "system", content: buildExtractionPrompt(today) },
+        { role: "user", content: input },
+      ],
+      responseFormat: { name: "task_extraction", schema: EXTRACTION_SCHEMA },
+    },
+    options.maxRetries ?? 3,
+    (content) => parseStructured(content, validateExtraction)
+  );
+}
+
+/**
+ * Write an executive digest (overview, themes, open action items, urgent matters)
+ * Output is constrained to DIGEST_SCHEMA and validated like extractions.
+ * @param input - Task summaries, one per line ('summaries'), or partial digests to merge ('merge')
+ * @param stage - Which of the two inputs is given
+ * @param options - Provider selection and maximum number of attempts (default: 3); the prompt profile is not used
+ * @returns Validated digest with token usage and model, or a categorised failure
+ */
+export async function digestWithLLM(
+  input: string,
+  stage: "summaries" | "merge",
+  options: LLMRequestOptions = {}
+): Promise<LLMDigestResult> {
+  return completeWithRetry(
+    getLLMProvider(options.provider),
+    {
+      messages: [
+        { role: "system", content: buildDigestPrompt(stage) },
+        { role: "user", content: input },
+      ],
+      responseFormat: { name: "report_digest", schema: DIGEST_SCHEMA },
+    },
+    options.maxRetries ?? 3,
+    (content) => parseStructured(content, validateDigest)
+  );
+}
+
+/**
+ * Parse JSON output and validate it, throwing InvalidResponseError so it is retried
+ */
+function parseStructured<T>(
+  content: string,
+  validate: (value: unknown) => { data: T; error?: undefined } | { data?: undefined; error: string }
+): { data: T } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new InvalidResponseError("output is not valid JSON");
+  }
+
+  const result = validate(parsed);
+  if (result.error !== undefined) {
+    throw new InvalidResponseError(result.error);
+  }
+  return { data: result.data as T };
+}
+
+/**
+ * Send a completion request with exponential backoff, turning the response content into
+ * a result with `parse` (which may throw to reject the output and retry)
+ */
+async function completeWithRetry<T>(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  maxRetries: number,
+  parse: (content: string) => T
+): Promise<LLMOutcome<T>> {
+  let lastError: LLMError | null = null;
+  let attempt = 1;
+
+  for (; attempt <= maxRetries; attempt++) {
     try {
-      console.log(`LLM processing attempt ${attempt}/${maxRetries}`);
-      
-      const openai = getOpenAI();
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: `
-You are a professional SMB operations summarization engine.
-
-Your ONLY job is to summarize business communications.
-
-STRICT RULES:
-
-- Output ONLY the summary
-- Maximum 2 sentences
-- Professional tone
-- Factual only
-- No advice
-- No templates
-- No explanations
-- No assistant-style responses
-- No questions
-- No extra text
-
-GOOD OUTPUT EXAMPLE:
-"Client received the Q1 report and was asked to provide feedback."
-
-BAD OUTPUT EXAMPLE:
-"I can summarize this..."
-"Please provide..."
-"Here is a template..."
-            `
-          },
-          {
-            role: "user",
-            content: input
-          }
-        ],
-      });
-
-      const content = response.choices?.[0]?.message?.content?.trim();
+      console.log(`LLM processing attempt ${attempt}/${maxRetries} (${provider.name})`);
+
+      const response = await provider.complete(request);
+      const content = response.content?.trim();
 
       if (!content) {
-        throw new Error("Empty response from LLM");
+        throw new EmptyResponseError();
       }
 
-      console.log(`LLM processing successful on attempt ${attempt}`);
-      return content;
+      const parsed = parse(content);
+      const usage = response.usage;
+      console.log(`LLM processing successful on attempt ${attempt}${usage ? ` (${usage.totalTokens} tokens)` : ""}`);
+      return { success: true, ...parsed, usage, model: response.model, provider: provider.name, attempts: attempt };
 
     } catch (err) {
-      lastError = err instanceof Error ? err : new Error(String(err));
-      console.error(`LLM error on attempt ${attempt}/${maxRetries}:`, lastError.message);
-      
+      lastError = classifyLLMError(err);
+      console.error(`LLM error on attempt ${attempt}/${maxRetries} [${lastError.category}]:`, lastError.message);
+
+      if (!lastError.retryable) {
+        break;
+      }
+
       // If this is not the last attempt, wait before retrying
       if (attempt < maxRetries) {
         const delayMs = Math.min(1000 * Math.pow(2, attempt - 1), 5000); // Exponential backoff, max 5s
@@ -113,6 +245,8 @@ BAD OUTPUT EXAMPLE:
     }
   }
 
-  console.error(`LLM processing failed after ${maxRetries} attempts:`, lastError?.message);
-  return "Error processing input.";
+  const attempts = Math.min(attempt, maxRetries);
+  const error = lastError || { category: "unknown" as const, message: "LLM processing failed", retryable: true };
+  console.error(`LLM processing failed after ${attempts} attempt(s) [${error.category}]:`, error.message);
+  return { success: false, error, attempts };
 }
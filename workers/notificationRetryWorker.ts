@@ -0,0 +1,53 @@
+import notificationService from '../services/notificationService';
+import settingsService from '../services/settingsService';
+
+/**
+ * Notification Retry Worker
+ * Applies the automatic retry policy (app_settings 'notification_retry'): failed
+ * notifications that have waited intervalMinutes and have retries left go back to pending,
+ * and the email and WhatsApp workers send them again. The policy is read on every run, so
+ * changes from the dashboard apply without a restart.
+ */
+
+export interface NotificationRetryStats {
+  runs: number;
+  lastRunAt: string | null;
+  /** Notifications re-queued */
+  retried: number;
+}
+
+// Cumulative stats for this process since start-up
+const stats: NotificationRetryStats = {
+  runs: 0,
+  lastRunAt: null,
+  retried: 0,
+};
+
+/**
+ * Re-queue the failed notifications that are due for an automatic retry
+ * @returns How many were re-queued
+ */
+export async function runNotificationRetry(now: Date = new Date()): Promise<number> {
+  stats.runs++;
+  stats.lastRunAt = now.toISOString();
+
+  const policy = await settingsService.getNotificationRetryPolicy();
+  if (!policy.enabled || policy.maxRetries === 0) {
+    return 0;
+  }
+
+  const events = await notificationService.requeueFailedNotifications(policy, now);
+  stats.retried += events.length;
+
+  if (events.length > 0) {
+    console.log(`[NotificationRetry] Re-queued ${events.length} failed notification(s)`);
+  }
+  return events.length;
+}
+
+/**
+ * Snapshot of the retry worker's cumulative stats
+ */
+export function getNotificationRetryStats(): NotificationRetryStats {
+  return { ...stats };
+}
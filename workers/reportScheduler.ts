@@ -0,0 +1,121 @@
+import clientService from '../services/clientService';
+import reportService, { ReportPeriod } from '../services/reportService';
+import notificationService from '../services/notificationService';
+import { addDays, getWeekday, getZonedDateParts, startOfZonedDay } from '../lib/timezones';
+import { getReportTimeZone } from '../lib/reportRanges';
+import { Client } from '../types/task';
+
+/**
+ * Report Scheduler
+ * Builds each client's daily or weekly report (workflow_settings.reportFrequency) once the
+ * scheduled local time has passed in the client's time zone, stores it in the reports table
+ * and enqueues delivery through the notification pipeline.
+ *
+ * Daily reports go out at reportHour and cover the previous local day; weekly reports go
+ * out on reportWeekday at reportHour and cover the previous seven days. Reports are keyed
+ * by client, frequency and period, so restarts and concurrent instances never send the
+ * same period twice, and a report missed while the server was down is sent on the next run.
+ */
+
+const DEFAULT_REPORT_HOUR = 8;
+const DEFAULT_REPORT_WEEKDAY = 1; // Monday
+
+export interface ReportSchedulerStats {
+  runs: number;
+  lastRunAt: string | null;
+  /** Reports generated and enqueued */
+  generated: number;
+  /** Clients whose current report already existed */
+  skipped: number;
+  failed: number;
+}
+
+// Cumulative stats for this process since start-up
+const stats: ReportSchedulerStats = {
+  runs: 0,
+  lastRunAt: null,
+  generated: 0,
+  skipped: 0,
+  failed: 0,
+};
+
+/**
+ * The most recent report period whose send time has passed for a client, or null if
+ * the client does not get scheduled reports
+ */
+export function getDueReportPeriod(client: Client, now: Date = new Date()): ReportPeriod | null {
+  const settings = client.workflow_settings;
+  const frequency = settings?.reportFrequency;
+  if (frequency !== 'daily' && frequency !== 'weekly') {
+    return null;
+  }
+
+  const timezone = getReportTimeZone(settings);
+  const envHour = parseInt(process.env.REPORT_HOUR || '', 10);
+  const reportHour = settings?.reportHour ?? (envHour >= 0 && envHour <= 23 ? envHour : DEFAULT_REPORT_HOUR);
+  const local = getZonedDateParts(now, timezone);
+
+  // Local date of the latest send time that is not in the future
+  let sendDate = local.hour >= reportHour ? local.date : addDays(local.date, -1);
+  let periodDays = 1;
+
+  if (frequency === 'weekly') {
+    const reportWeekday = settings?.reportWeekday ?? DEFAULT_REPORT_WEEKDAY;
+    sendDate = addDays(sendDate, -((getWeekday(sendDate) - reportWeekday + 7) % 7));
+    periodDays = 7;
+  }
+
+  const periodKey = addDays(sendDate, -periodDays);
+
+  return {
+    frequency,
+    periodKey,
+    periodStart: startOfZonedDay(periodKey, timezone),
+    periodEnd: startOfZonedDay(sendDate, timezone),
+    timezone,
+  };
+}
+
+/**
+ * Run one scheduling pass over all clients that are not archived
+ *
+ * @param now - Current time (injectable for tests)
+ */
+export async function runReportScheduler(now: Date = new Date()): Promise<void> {
+  stats.runs++;
+  stats.lastRunAt = now.toISOString();
+
+  const clients = await clientService.getAllClients();
+
+  for (const client of clients) {
+    const period = getDueReportPeriod(client, now);
+    if (!period) continue;
+
+    try {
+      const { report, created } = await reportService.createScheduledReport(client.id, period, {
+        digest: client.workflow_settings?.reportDigest === true,
+      });
+
+      // Enqueue even when the report already existed, in case a previous run stored it
+      // but stopped before creating its notifications
+      const events = await notificationService.createReportNotificationEvents(client.id, report.id);
+
+      if (created || events.length > 0) {
+        stats.generated++;
+        console.log(`[ReportScheduler] ${period.frequency} report for ${client.id} (${period.periodKey}) enqueued`);
+      } else {
+        stats.skipped++;
+      }
+    } catch (error) {
+      stats.failed++;
+      console.error(`[ReportScheduler] Failed to schedule report for client ${client.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Snapshot of the scheduler's cumulative stats
+ */
+export function getReportSchedulerStats(): ReportSchedulerStats {
+  return { ...stats };
+}
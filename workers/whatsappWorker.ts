@@ -0,0 +1,83 @@
+import 'dotenv/config';
+import whatsappService from '../services/whatsappService';
+
+/**
+ * WhatsApp Worker
+ * Background worker that sends pending WhatsApp notifications in batches, alongside the
+ * email worker. Runs on a polling interval started by the orchestrator.
+ */
+
+/**
+ * Process pending WhatsApp notifications in batches.
+ *
+ * @param batchSize - Number of notifications to process per run (1–100, default 10)
+ * @returns Batch statistics: total processed, successful, and failed counts
+ */
+export async function processPendingWhatsAppMessages(batchSize: number = 10): Promise<{
+  processed: number;
+  successful: number;
+  failed: number;
+}> {
+  const stats = { processed: 0, successful: 0, failed: 0 };
+
+  if (batchSize < 1 || batchSize > 100) batchSize = 10;
+
+  const pending = await whatsappService.fetchPendingMessages(batchSize);
+
+  if (pending.length === 0) return stats;
+
+  console.log(`[WhatsAppWorker] Processing ${pending.length} pending notification(s)…`);
+
+  for (const notification of pending) {
+    stats.processed++;
+    try {
+      const success = await whatsappService.processWhatsAppNotification(notification);
+      if (success) {
+        stats.successful++;
+      } else {
+        stats.failed++;
+      }
+    } catch (error) {
+      stats.failed++;
+      console.error(`[WhatsAppWorker] Error processing notification ${notification.id}:`, error);
+    }
+  }
+
+  console.log(`[WhatsAppWorker] Done — ${stats.successful} sent, ${stats.failed} failed`);
+  return stats;
+}
+
+/**
+ * Start continuous WhatsApp processing on a polling interval.
+ *
+ * @param batchSize  - Notifications per batch
+ * @param intervalMs - Milliseconds between polling cycles (default 60 000)
+ */
+export async function startWhatsAppWorker(batchSize: number = 10, intervalMs: number = 60000): Promise<void> {
+  console.log(`[WhatsAppWorker] Started — batch ${batchSize}, interval ${intervalMs}ms`);
+  if (!whatsappService.isConfigured()) {
+    console.warn('[WhatsAppWorker] WHATSAPP_ACCESS_TOKEN / WHATSAPP_PHONE_NUMBER_ID not set; WhatsApp notifications will be marked failed');
+  }
+
+  try {
+    await processPendingWhatsAppMessages(batchSize);
+  } catch (error) {
+    console.error('[WhatsAppWorker] Initial run error:', error);
+  }
+
+  setInterval(() => {
+    processPendingWhatsAppMessages(batchSize).catch(err =>
+      console.error('[WhatsAppWorker] Scheduled run error:', err)
+    );
+  }, intervalMs);
+}
+
+// Direct execution (ts-node workers/whatsappWorker.ts)
+if (require.main === module) {
+  processPendingWhatsAppMessages(10)
+    .then(stats => console.log('[WhatsAppWorker] One-shot complete:', stats))
+    .catch(error => {
+      console.error('[WhatsAppWorker] Fatal error:', error);
+      process.exit(1);
+    });
+}